@@ -0,0 +1,87 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import AccountabilityConcept from "./AccountabilityConcept.ts";
+import { ID } from "@utils/types.ts";
+
+Deno.test("Accountability Concept - Operational Principle & Scenarios", async (t) => {
+  const [db, client] = await testDb();
+  const accountability = new AccountabilityConcept(db);
+  const alice = "user:Alice" as ID;
+  const bob = "user:Bob" as ID;
+  const eve = "user:Eve" as ID;
+  const thesis = "task:Thesis" as ID;
+
+  await t.step("Principle: An owner shares a task with an accepted partner, who follows it", async () => {
+    // 1. Alice invites Bob, who accepts
+    const invite = await accountability.invitePartner({ owner: alice, partner: bob });
+    if ("error" in invite) throw new Error(invite.error);
+    const { partnership } = invite;
+    assertEquals(await accountability.acceptInvite({ partner: bob, partnership }), { partnership });
+
+    // 2. Alice shares her thesis task; Bob can view it, Eve cannot
+    const shared = await accountability.shareTask({ owner: alice, partnership, task: thesis });
+    assertEquals("share" in shared, true);
+    assertEquals(await accountability.checkAccess({ viewer: bob, task: thesis }), { owner: alice });
+    assertEquals(await accountability.checkAccess({ viewer: eve, task: thesis }), { error: "Task is not shared with you" });
+    assertEquals((await accountability.getSharedTasks({ partner: bob })).shares.map((share) => share.task), [thesis]);
+
+    // 3. Starting the task and resolving its bet notify Bob
+    const before = new Date(Date.now() - 1000);
+    await accountability.recordEvent({ owner: alice, task: thesis, title: "Thesis", type: "task_started" });
+    await accountability.recordEvent({
+      owner: alice, task: thesis, title: "Thesis", type: "bet_resolved", success: true, reward: 30,
+    });
+    const { events } = await accountability.getPartnerEvents({ partner: bob, afterTimestamp: before });
+    assertEquals(events.map((event) => [event.type, event.success, event.reward]), [
+      ["task_started", undefined, undefined],
+      ["bet_resolved", true, 30],
+    ]);
+
+    // 4. Revoking the partnership ends Bob's access
+    assertEquals(await accountability.revokePartnership({ user: bob, partnership }), { partnership });
+    assertEquals(await accountability.checkAccess({ viewer: bob, task: thesis }), { error: "Task is not shared with you" });
+    assertEquals((await accountability.getPartnerships({ user: alice })).partnerships, []);
+  });
+
+  await t.step("Action: invitations must be answered by the invited partner before sharing", async () => {
+    assertEquals(await accountability.invitePartner({ owner: alice, partner: alice }), {
+      error: "You cannot be your own partner",
+    });
+
+    const { partnership } = await accountability.invitePartner({ owner: alice, partner: eve }) as { partnership: ID };
+    assertEquals(await accountability.invitePartner({ owner: alice, partner: eve }), {
+      error: "Partner has already been invited",
+    });
+    assertEquals(await accountability.shareTask({ owner: alice, partnership, task: thesis }), {
+      error: "Partnership has not been accepted",
+    });
+    assertEquals(await accountability.acceptInvite({ partner: bob, partnership }), {
+      error: "Invitation does not exist or has already been answered",
+    });
+
+    assertEquals(await accountability.declineInvite({ partner: eve, partnership }), { partnership });
+    assertEquals(await accountability.acceptInvite({ partner: eve, partnership }), {
+      error: "Invitation does not exist or has already been answered",
+    });
+  });
+
+  await t.step("Action: shares are removed with the task and with the user's account", async () => {
+    const { partnership } = await accountability.invitePartner({ owner: alice, partner: bob }) as { partnership: ID };
+    await accountability.acceptInvite({ partner: bob, partnership });
+    await accountability.shareTask({ owner: alice, partnership, task: thesis });
+    assertEquals(await accountability.shareTask({ owner: alice, partnership, task: thesis }), {
+      error: "Task is already shared with this partner",
+    });
+
+    await accountability.deleteTaskShares({ owner: alice, task: thesis });
+    assertEquals((await accountability.getSharedTasks({ partner: bob })).shares, []);
+    assertEquals(await accountability.recordEvent({ owner: alice, task: thesis, title: "Thesis", type: "task_started" }), {
+      events: [],
+    });
+
+    await accountability.deleteUserPartnerships({ user: bob });
+    assertEquals((await accountability.getPartnerships({ user: alice })).partnerships, []);
+  });
+
+  await client.close();
+});
@@ -0,0 +1,350 @@
+import { Collection, Db, MongoServerError } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to avoid name clashes
+const PREFIX = "Accountability" + ".";
+
+// How long partner events are kept for catching up after a disconnect
+const EVENT_LIFETIME_DAYS = 7;
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Task = ID;
+
+// Define the types for our entries based on the concept state
+type Partnership = ID;
+type Share = ID;
+type Event = ID;
+export type PartnershipStatus = "pending" | "accepted" | "declined" | "revoked";
+export type PartnerEventType = "task_started" | "bet_resolved";
+
+/**
+ * a set of Partnerships with
+ *   a owner User (who invited the partner and shares tasks)
+ *   a partner User (who views the shared tasks)
+ *   a status String ("pending", "accepted", "declined", or "revoked")
+ *   a createdAt Date
+ *   a respondedAt? Date
+ *   a revokedAt? Date
+ */
+export interface PartnershipDoc {
+  _id: Partnership;
+  owner: User;
+  partner: User;
+  status: PartnershipStatus;
+  createdAt: Date;
+  respondedAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * a set of Shares with
+ *   a partnership Partnership
+ *   a owner User
+ *   a partner User
+ *   a task Task
+ *   a sharedAt Date
+ */
+export interface ShareDoc {
+  _id: Share;
+  partnership: Partnership;
+  owner: User;
+  partner: User;
+  task: Task;
+  sharedAt: Date;
+}
+
+/**
+ * a set of Events with
+ *   a partner User (who is notified)
+ *   a owner User
+ *   a task Task
+ *   a title String (the task's title when the event happened)
+ *   a type String ("task_started" or "bet_resolved")
+ *   a success? Boolean (for bet_resolved)
+ *   a reward? Number (for successful bets)
+ *   a at Date
+ */
+export interface PartnerEventDoc {
+  _id: Event;
+  partner: User;
+  owner: User;
+  task: Task;
+  title: string;
+  type: PartnerEventType;
+  success?: boolean;
+  reward?: number;
+  at: Date;
+}
+
+/**
+ * @concept Accountability
+ * @purpose To let users invite accountability partners who can follow selected tasks and the bets on them.
+ */
+export default class AccountabilityConcept {
+  partnerships: Collection<PartnershipDoc>;
+  shares: Collection<ShareDoc>;
+  events: Collection<PartnerEventDoc>;
+
+  constructor(private readonly db: Db) {
+    this.partnerships = this.db.collection(PREFIX + "partnerships");
+    this.shares = this.db.collection(PREFIX + "shares");
+    this.events = this.db.collection(PREFIX + "events");
+
+    this.partnerships.createIndex({ owner: 1, partner: 1, status: 1 }).catch((err) => {
+      console.error("Failed to create partnerships index:", err);
+    });
+    this.shares.createIndex({ partnership: 1, task: 1 }, { unique: true }).catch((err) => {
+      console.error("Failed to create shares index:", err);
+    });
+    this.events.createIndex({ partner: 1, at: 1 }).catch((err) => {
+      console.error("Failed to create events index:", err);
+    });
+    this.events.createIndex({ at: 1 }, { expireAfterSeconds: EVENT_LIFETIME_DAYS * 24 * 60 * 60 }).catch((err) => {
+      console.error("Failed to create events expiry index:", err);
+    });
+  }
+
+  /**
+   * Invites another user to be an accountability partner.
+   * @requires The partner must not be the owner. There must not already be a pending
+   *           or accepted partnership from the owner to the partner.
+   * @effects Creates a pending partnership and returns it.
+   */
+  public async invitePartner(
+    { owner, partner }: { owner: User; partner: User },
+  ): Promise<{ partnership: Partnership } | { error: string }> {
+    if (owner === partner) return { error: "You cannot be your own partner" };
+
+    const existing = await this.partnerships.findOne({ owner, partner, status: { $in: ["pending", "accepted"] } });
+    if (existing) return { error: "Partner has already been invited" };
+
+    const partnership: PartnershipDoc = {
+      _id: freshID(),
+      owner,
+      partner,
+      status: "pending",
+      createdAt: new Date(),
+    };
+    await this.partnerships.insertOne(partnership);
+
+    return { partnership: partnership._id };
+  }
+
+  /**
+   * Accepts an invitation.
+   * @requires The partnership must be pending and the user must be its invited partner.
+   * @effects Marks the partnership accepted, so the owner can share tasks with the partner.
+   */
+  public async acceptInvite(
+    { partner, partnership }: { partner: User; partnership: Partnership },
+  ): Promise<{ partnership: Partnership } | { error: string }> {
+    return await this.respond(partner, partnership, "accepted");
+  }
+
+  /**
+   * Declines an invitation.
+   * @requires The partnership must be pending and the user must be its invited partner.
+   * @effects Marks the partnership declined.
+   */
+  public async declineInvite(
+    { partner, partnership }: { partner: User; partnership: Partnership },
+  ): Promise<{ partnership: Partnership } | { error: string }> {
+    return await this.respond(partner, partnership, "declined");
+  }
+
+  /**
+   * Ends a partnership, or withdraws an invitation. Either side may revoke it.
+   * @requires The partnership must be pending or accepted, and the user must be its owner or partner.
+   * @effects Marks the partnership revoked and stops sharing its tasks.
+   */
+  public async revokePartnership(
+    { user, partnership }: { user: User; partnership: Partnership },
+  ): Promise<{ partnership: Partnership } | { error: string }> {
+    const revoked = await this.partnerships.updateOne(
+      {
+        _id: partnership,
+        $or: [{ owner: user }, { partner: user }],
+        status: { $in: ["pending", "accepted"] },
+      },
+      { $set: { status: "revoked", revokedAt: new Date() } },
+    );
+    if (revoked.matchedCount === 0) return { error: "Partnership does not exist or has already ended" };
+
+    await this.shares.deleteMany({ partnership });
+    return { partnership };
+  }
+
+  /**
+   * Shares one of the owner's tasks with a partner.
+   * @requires The partnership must be accepted and the user must be its owner.
+   *           The task must not already be shared in this partnership.
+   * @effects Lets the partner view the task and its bet, and be notified about it.
+   */
+  public async shareTask(
+    { owner, partnership, task }: { owner: User; partnership: Partnership; task: Task },
+  ): Promise<{ share: Share } | { error: string }> {
+    const partnershipDoc = await this.partnerships.findOne({ _id: partnership, owner });
+    if (!partnershipDoc) return { error: "Partnership does not exist" };
+    if (partnershipDoc.status !== "accepted") return { error: "Partnership has not been accepted" };
+
+    const share: ShareDoc = {
+      _id: freshID(),
+      partnership,
+      owner,
+      partner: partnershipDoc.partner,
+      task,
+      sharedAt: new Date(),
+    };
+    try {
+      await this.shares.insertOne(share);
+      return { share: share._id };
+    } catch (err) {
+      if (err instanceof MongoServerError && err.code === 11000) {
+        return { error: "Task is already shared with this partner" };
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Stops sharing a task with a partner.
+   * @requires The task must be shared in the partnership, and the user must be its owner.
+   * @effects Removes the share and returns the task.
+   */
+  public async unshareTask(
+    { owner, partnership, task }: { owner: User; partnership: Partnership; task: Task },
+  ): Promise<{ task: Task } | { error: string }> {
+    const removed = await this.shares.deleteOne({ owner, partnership, task });
+    if (removed.deletedCount === 0) return { error: "Task is not shared with this partner" };
+    return { task };
+  }
+
+  /**
+   * Checks whether a user may view a task someone else owns.
+   * Owners' access to their own tasks is checked by the concept that stores them.
+   * @requires The task must be shared with the viewer.
+   * @effects Returns the task's owner.
+   */
+  public async checkAccess(
+    { viewer, task }: { viewer: User; task: Task },
+  ): Promise<{ owner: User } | { error: string }> {
+    const share = await this.shares.findOne({ partner: viewer, task });
+    if (!share) return { error: "Task is not shared with you" };
+    return { owner: share.owner };
+  }
+
+  /**
+   * Records that something happened to a task, for every partner it is shared with.
+   * @effects Stores one event per partner following the task and returns them.
+   *          Tasks that are not shared produce no events.
+   */
+  public async recordEvent(
+    { owner, task, title, type, success, reward }: {
+      owner: User;
+      task: Task;
+      title: string;
+      type: PartnerEventType;
+      success?: boolean | null;
+      reward?: number | null;
+    },
+  ): Promise<{ events: Event[] }> {
+    const shares = await this.shares.find({ owner, task }).toArray();
+    if (shares.length === 0) return { events: [] };
+
+    const at = new Date();
+    const events: PartnerEventDoc[] = shares.map((share) => {
+      const event: PartnerEventDoc = { _id: freshID(), partner: share.partner, owner, task, title, type, at };
+      if (success !== undefined && success !== null) event.success = success;
+      if (reward !== undefined && reward !== null) event.reward = reward;
+      return event;
+    });
+    await this.events.insertMany(events);
+
+    return { events: events.map((event) => event._id) };
+  }
+
+  /**
+   * Retrieves the user's partnerships, as owner or as partner.
+   * @effects Returns the pending and accepted partnerships, newest first.
+   */
+  public async getPartnerships(
+    { user }: { user: User },
+  ): Promise<{ partnerships: PartnershipDoc[] }> {
+    const partnerships = await this.partnerships
+      .find({ $or: [{ owner: user }, { partner: user }], status: { $in: ["pending", "accepted"] } })
+      .sort({ createdAt: -1 })
+      .toArray();
+    return { partnerships };
+  }
+
+  /**
+   * Retrieves the tasks shared with a partner.
+   * @effects Returns the partner's shares, most recently shared first.
+   */
+  public async getSharedTasks(
+    { partner }: { partner: User },
+  ): Promise<{ shares: ShareDoc[] }> {
+    const shares = await this.shares.find({ partner }).sort({ sharedAt: -1 }).toArray();
+    return { shares };
+  }
+
+  /**
+   * Retrieves events about shared tasks that happened after a timestamp.
+   * @effects Returns up to `limit` of the partner's events, oldest first.
+   */
+  public async getPartnerEvents(
+    { partner, afterTimestamp, limit = 50 }: { partner: User; afterTimestamp: Date; limit?: number },
+  ): Promise<{ events: PartnerEventDoc[] }> {
+    const events = await this.events
+      .find({ partner, at: { $gt: afterTimestamp } })
+      .sort({ at: 1 })
+      .limit(limit)
+      .toArray();
+    return { events };
+  }
+
+  /**
+   * Stops sharing a task with anyone.
+   * @effects Removes every share of the owner's task.
+   */
+  public async deleteTaskShares(
+    { owner, task }: { owner: User; task: Task },
+  ): Promise<Empty> {
+    await this.shares.deleteMany({ owner, task });
+    return {};
+  }
+
+  /**
+   * Deletes all partnerships, shares, and events involving a user.
+   * @effects Removes the user's partnerships and shares on either side, and the events sent to them.
+   */
+  public async deleteUserPartnerships(
+    { user }: { user: User },
+  ): Promise<Empty> {
+    await Promise.all([
+      this.partnerships.deleteMany({ $or: [{ owner: user }, { partner: user }] }),
+      this.shares.deleteMany({ $or: [{ owner: user }, { partner: user }] }),
+      this.events.deleteMany({ $or: [{ owner: user }, { partner: user }] }),
+    ]);
+    return {};
+  }
+
+  /**
+   * Records the invited partner's answer to a pending invitation.
+   * @effects Sets the partnership's status and response time.
+   */
+  private async respond(
+    partner: User,
+    partnership: Partnership,
+    status: "accepted" | "declined",
+  ): Promise<{ partnership: Partnership } | { error: string }> {
+    const answered = await this.partnerships.updateOne(
+      { _id: partnership, partner, status: "pending" },
+      { $set: { status, respondedAt: new Date() } },
+    );
+    if (answered.matchedCount === 0) return { error: "Invitation does not exist or has already been answered" };
+    return { partnership };
+  }
+}
@@ -0,0 +1,69 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import CalendarFeedConcept from "./CalendarFeedConcept.ts";
+import { ID } from "@utils/types.ts";
+
+Deno.test("CalendarFeed Concept - Operational Principle & Scenarios", async (t) => {
+  const [db, client] = await testDb();
+  const feeds = new CalendarFeedConcept(db);
+  const user = "user:Alice" as ID;
+  const other = "user:Bob" as ID;
+
+  await t.step("Principle: User gets a feed token, the token resolves to the user, imports are remembered by UID", async () => {
+    // 1. Get a feed token (created on first use)
+    const { token } = await feeds.getFeedToken({ user });
+    assertEquals(token.length, 64, "Token should be 32 random bytes in hex.");
+
+    // 2. Asking again returns the same token
+    const again = await feeds.getFeedToken({ user });
+    assertEquals(again.token, token, "Feed token should be stable.");
+
+    // 3. The token resolves to its owner
+    const owner = await feeds.getFeedUser({ token });
+    assertEquals(owner, { user }, "Token should resolve to the feed's user.");
+
+    // 4. Record an imported UID and look it up
+    const recorded = await feeds.recordImport({ user, uid: "event-1@example.com", task: "task:1" as ID });
+    assertNotEquals("error" in recorded, true, "Recording an import should not fail.");
+    const imported = await feeds.getImportedTask({ user, uid: "event-1@example.com" });
+    assertEquals(imported.task, "task:1", "UID should map to the imported task.");
+  });
+
+  await t.step("Action: rotating the token invalidates the old feed URL", async () => {
+    const { token: oldToken } = await feeds.getFeedToken({ user });
+    const rotated = await feeds.rotateFeedToken({ user });
+    assertNotEquals("error" in rotated, true, "Rotation should succeed.");
+    const { token: newToken } = rotated as { token: string };
+    assertNotEquals(newToken, oldToken, "Rotation should produce a new token.");
+
+    assertEquals("error" in await feeds.getFeedUser({ token: oldToken }), true, "Old token should no longer resolve.");
+    assertEquals(await feeds.getFeedUser({ token: newToken }), { user }, "New token should resolve.");
+
+    const missing = await feeds.rotateFeedToken({ user: other });
+    assertEquals("error" in missing, true, "Rotating without a feed should fail.");
+  });
+
+  await t.step("Action: imports are scoped per user and re-recording a UID relinks it", async () => {
+    const unseen = await feeds.getImportedTask({ user: other, uid: "event-1@example.com" });
+    assertEquals(unseen.task, null, "Another user's import should not be visible.");
+
+    await feeds.recordImport({ user, uid: "event-1@example.com", task: "task:2" as ID });
+    const relinked = await feeds.getImportedTask({ user, uid: "event-1@example.com" });
+    assertEquals(relinked.task, "task:2", "Recording again should replace the linked task.");
+    assertEquals(await feeds.imports.countDocuments({ user }), 1, "UID should be stored once.");
+
+    const empty = await feeds.recordImport({ user, uid: " ", task: "task:3" as ID });
+    assertEquals("error" in empty, true, "Empty UIDs should be rejected.");
+  });
+
+  await t.step("Action: deleting a user's feeds removes the feed and import records", async () => {
+    const { token } = await feeds.getFeedToken({ user });
+    await feeds.deleteUserFeeds({ user });
+
+    assertEquals("error" in await feeds.getFeedUser({ token }), true, "Feed token should be invalidated.");
+    const forgotten = await feeds.getImportedTask({ user, uid: "event-1@example.com" });
+    assertEquals(forgotten.task, null, "Imported UIDs should be forgotten.");
+  });
+
+  await client.close();
+});
@@ -0,0 +1,158 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to avoid name clashes
+const PREFIX = "CalendarFeed" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Task = ID;
+
+// Define the types for our entries based on the concept state
+type Feed = ID;
+type Import = ID;
+
+/**
+ * a set of Feeds with
+ *   a user User
+ *   a token String (secret that identifies the feed URL)
+ *   a createdAt Date
+ */
+interface FeedDoc {
+  _id: Feed;
+  user: User;
+  token: string;
+  createdAt: Date;
+}
+
+/**
+ * a set of Imports with
+ *   a user User
+ *   a uid String (the UID of the imported calendar component)
+ *   a task Task
+ *   a importedAt Date
+ */
+interface ImportDoc {
+  _id: Import;
+  user: User;
+  uid: string;
+  task: Task;
+  importedAt: Date;
+}
+
+/**
+ * Generates an unguessable feed token (256 bits, hex encoded).
+ */
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * @concept CalendarFeed
+ * @purpose To let users subscribe to their tasks from calendar apps and bring calendar entries in as tasks without duplicates.
+ */
+export default class CalendarFeedConcept {
+  feeds: Collection<FeedDoc>;
+  imports: Collection<ImportDoc>;
+
+  constructor(private readonly db: Db) {
+    this.feeds = this.db.collection(PREFIX + "feeds");
+    this.imports = this.db.collection(PREFIX + "imports");
+
+    this.feeds.createIndex({ user: 1 }, { unique: true }).catch((err) => {
+      console.error("Failed to create feeds user index:", err);
+    });
+    this.feeds.createIndex({ token: 1 }, { unique: true }).catch((err) => {
+      console.error("Failed to create feeds token index:", err);
+    });
+    this.imports.createIndex({ user: 1, uid: 1 }, { unique: true }).catch((err) => {
+      console.error("Failed to create imports index:", err);
+    });
+  }
+
+  /**
+   * Gets the user's secret feed token, creating one on first use.
+   * @effects Returns the user's existing feed token, or creates and returns a new one.
+   */
+  public async getFeedToken(
+    { user }: { user: User },
+  ): Promise<{ token: string }> {
+    const existing = await this.feeds.findOne({ user });
+    if (existing) return { token: existing.token };
+
+    const token = generateToken();
+    await this.feeds.insertOne({ _id: freshID(), user, token, createdAt: new Date() });
+    return { token };
+  }
+
+  /**
+   * Replaces the user's feed token, invalidating the previous feed URL.
+   * @requires The user must already have a feed.
+   * @effects Stores and returns a new token for the user's feed.
+   */
+  public async rotateFeedToken(
+    { user }: { user: User },
+  ): Promise<{ token: string } | { error: string }> {
+    const token = generateToken();
+    const result = await this.feeds.updateOne({ user }, { $set: { token, createdAt: new Date() } });
+    if (result.matchedCount === 0) return { error: "Feed not found" };
+    return { token };
+  }
+
+  /**
+   * Resolves a feed token to the user who owns the feed.
+   * @requires The token must belong to an existing feed.
+   * @effects Returns the feed's user.
+   */
+  public async getFeedUser(
+    { token }: { token: string },
+  ): Promise<{ user: User } | { error: string }> {
+    if (typeof token !== "string" || !token) return { error: "Feed not found" };
+    const feed = await this.feeds.findOne({ token });
+    if (!feed) return { error: "Feed not found" };
+    return { user: feed.user };
+  }
+
+  /**
+   * Records that a calendar component was imported as a task.
+   * @requires The UID must not be empty.
+   * @effects Links the UID to the task for the user, replacing any earlier link for the same UID.
+   */
+  public async recordImport(
+    { user, uid, task }: { user: User; uid: string; task: Task },
+  ): Promise<Empty | { error: string }> {
+    if (!uid.trim()) return { error: "UID cannot be empty" };
+
+    await this.imports.updateOne(
+      { user, uid },
+      { $set: { task, importedAt: new Date() }, $setOnInsert: { _id: freshID() } },
+      { upsert: true },
+    );
+    return {};
+  }
+
+  /**
+   * Looks up the task previously imported for a calendar UID.
+   * @effects Returns the linked task, or null if the UID was never imported.
+   */
+  public async getImportedTask(
+    { user, uid }: { user: User; uid: string },
+  ): Promise<{ task: Task | null }> {
+    const record = await this.imports.findOne({ user, uid });
+    return { task: record?.task ?? null };
+  }
+
+  /**
+   * Deletes the user's feed and import records.
+   * @effects Removes the feed (invalidating its URL) and forgets all imported UIDs.
+   */
+  public async deleteUserFeeds(
+    { user }: { user: User },
+  ): Promise<Empty> {
+    await this.feeds.deleteOne({ user });
+    await this.imports.deleteMany({ user });
+    return {};
+  }
+}
@@ -121,6 +121,14 @@ Deno.test("EmotionLogger Concept - Operational Principle & Scenarios", async (t)
       0,
       "All logs for the task should be deleted.",
     );
+
+    // Deleted logs can be put back as they were
+    const { logs } = del as { logs: { _id: ID }[] };
+    assertEquals(logs.length, 2, "The deleted logs should be returned.");
+    const restored = await emotions.restoreLogs({ user, logs: beforeDelete });
+    assertEquals((restored as { logs: ID[] }).logs.length, 2);
+    assertEquals(await emotions.logs.find({ user, task }).toArray(), beforeDelete);
+    await emotions.deleteTaskLogs({ user, task });
   });
 
   await t.step("Action: trends should fail with no logs", async () => {
@@ -269,29 +277,58 @@ Deno.test("EmotionLogger Concept - Operational Principle & Scenarios", async (t)
     // Test pagination
     const page1 = await emotions.getEmotionLogs({
       user: testUser,
-      page: 1,
-      limit: 3,
+      limit: 4,
     });
     assertNotEquals(
       "error" in page1,
       true,
       "getEmotionLogs should succeed.",
     );
-    const page1Result = page1 as { logs: { _id: ID }[]; total: number; page: number; totalPages: number };
+    const page1Result = page1 as { logs: { _id: ID }[]; total: number; nextCursor: string | null };
     assertEquals(
       page1Result.logs.length,
-      3,
-      "First page should return 3 logs.",
+      4,
+      "First page should return 4 logs.",
     );
     assertEquals(
       page1Result.total,
       6,
       "Total logs should be 6.",
     );
+    assertExists(page1Result.nextCursor, "First page should have a next cursor.");
+
+    const page2 = await emotions.getEmotionLogs({
+      user: testUser,
+      limit: 4,
+      cursor: page1Result.nextCursor,
+    });
+    const page2Result = page2 as { logs: { _id: ID }[]; total: number; nextCursor: string | null };
+    assertEquals(
+      page2Result.logs.length,
+      2,
+      "Second page should return the remaining 2 logs.",
+    );
+    assertEquals(
+      page2Result.logs.some((log) => page1Result.logs.some((seen) => seen._id === log._id)),
+      false,
+      "Pages should not overlap.",
+    );
+    assertEquals(
+      page2Result.nextCursor,
+      null,
+      "Last page should have no next cursor.",
+    );
+
+    // Totals respect filters
+    const filteredTotal = await emotions.getEmotionLogs({
+      user: testUser,
+      phase: "after",
+      limit: 1,
+    });
     assertEquals(
-      page1Result.page,
-      1,
-      "Page number should be 1.",
+      (filteredTotal as { total: number }).total,
+      3,
+      "Total should count only logs matching the filter.",
     );
 
     // Test filtering by phase
@@ -378,5 +415,25 @@ Deno.test("EmotionLogger Concept - Operational Principle & Scenarios", async (t)
     );
   });
 
+  await t.step("Query: getLatestEmotion returns the newest emotion for a phase", async () => {
+    const moody = "user:Morgan" as ID;
+
+    const none = await emotions.getLatestEmotion({ user: moody, phase: "before" });
+    assertEquals(none.emotion, null, "A user without logs should have no latest emotion.");
+
+    await emotions.logBefore({ user: moody, task: "task:First" as ID, emotion: Emotion.Calm });
+    await emotions.logBefore({ user: moody, task: "task:Second" as ID, emotion: Emotion.Stressed });
+    await emotions.logAfter({ user: moody, task: "task:First" as ID, emotion: Emotion.Proud });
+
+    const latestBefore = await emotions.getLatestEmotion({ user: moody, phase: "before" });
+    assertEquals(latestBefore.emotion, Emotion.Stressed);
+
+    const latestAfter = await emotions.getLatestEmotion({ user: moody, phase: "after" });
+    assertEquals(latestAfter.emotion, Emotion.Proud);
+
+    const recent = await emotions.getRecentEmotions({ user: moody, limit: 2 });
+    assertEquals(recent.emotions, [Emotion.Proud, Emotion.Stressed], "Recent emotions mix both phases, newest first.");
+  });
+
   await client.close();
 });
\ No newline at end of file
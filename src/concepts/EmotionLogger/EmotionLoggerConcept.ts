@@ -2,7 +2,8 @@ import { Collection, Db, MongoServerError } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
 import { freshID } from "@utils/database.ts";
 import { GeminiLLM } from '@utils/gemini-llm.ts';
-import { Emotion, ALL_EMOTIONS } from "@utils/emotions.ts";
+import { Emotion, ALL_EMOTIONS, POSITIVE_EMOTIONS } from "@utils/emotions.ts";
+import { checkLimit, keysetFilter, nextPage, readCursor } from "@utils/pagination.ts";
 
 const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
 if (!GEMINI_API_KEY) {
@@ -109,13 +110,43 @@ export default class EmotionLoggerConcept {
 
   /**
    * Deletes all emotion logs for a specific task.
-   * @effects Removes all logs associated with the specified task for the given user.
+   * @effects Removes all logs associated with the specified task for the given user
+   *          and returns the removed logs.
    */
   public async deleteTaskLogs(
     { user, task }: { user: User, task: Task },
-  ): Promise<Empty> {
-    await this.logs.deleteMany({ user, task });
-    return {};
+  ): Promise<{ logs: LogDoc[] }> {
+    const logs = await this.logs.find({ user, task }).toArray();
+    if (logs.length > 0) {
+      await this.logs.deleteMany({ _id: { $in: logs.map((log) => log._id) } });
+    }
+    return { logs };
+  }
+
+  /**
+   * Puts back emotion logs that were deleted.
+   * @requires The logs must belong to the user.
+   * @effects Re-creates each log as it was, skipping any whose task and phase have
+   *          been logged again since, and returns the restored logs' IDs.
+   */
+  public async restoreLogs(
+    { user, logs }: { user: User, logs: LogDoc[] },
+  ): Promise<{ logs: Log[] } | { error: string }> {
+    if (!Array.isArray(logs) || logs.some((log) => log.user !== user)) {
+      return { error: "Logs do not belong to user" };
+    }
+
+    const restored: Log[] = [];
+    for (const log of logs) {
+      try {
+        await this.logs.insertOne(log);
+        restored.push(log._id);
+      } catch (err) {
+        if (err instanceof MongoServerError && err.code === 11000) continue;
+        throw err;
+      }
+    }
+    return { logs: restored };
   }
 
   /**
@@ -172,13 +203,18 @@ export default class EmotionLoggerConcept {
   }
 
   /**
-   * Retrieves emotion logs with pagination and filtering.
-   * @effects Returns paginated and optionally filtered emotion logs.
+   * Retrieves a page of optionally filtered emotion logs.
+   * Pages are addressed by the opaque `nextCursor` of the previous page, so logs
+   * recorded while the user scrolls do not shift later pages.
+   * @requires The limit must be a positive whole number.
+   *           If provided, the cursor must come from a listing with the same sort order.
+   * @effects Returns the page of logs matching the filters, the number of logs
+   *          matching the filters, and the cursor of the next page (null on the last page).
    */
   public async getEmotionLogs(
     {
       user,
-      page = 1,
+      cursor,
       limit = 20,
       phase,
       emotion,
@@ -186,7 +222,7 @@ export default class EmotionLoggerConcept {
       sortOrder = -1
     }: {
       user: User;
-      page?: number;
+      cursor?: string | null;
       limit?: number;
       phase?: Phase;
       emotion?: Emotion;
@@ -196,35 +232,61 @@ export default class EmotionLoggerConcept {
   ): Promise<{
     logs: LogDoc[];
     total: number;
-    page: number;
-    totalPages: number;
+    nextCursor: string | null;
   } | { error: string }> {
-    const skip = (page - 1) * limit;
+    const invalidLimit = checkLimit(limit);
+    if (invalidLimit) return invalidLimit;
+
+    const after = readCursor(cursor, sortBy, sortOrder);
+    if (after && "error" in after) return after;
+    if (after && "offset" in after) return { error: "Cursor does not match the sort order" };
+
     const filter: Record<string, unknown> = { user };
 
     if (phase) filter.phase = phase;
     if (emotion) filter.emotion = emotion;
 
-    const [logs, total] = await Promise.all([
+    const [found, total] = await Promise.all([
       this.logs
-        .find(filter)
-        .sort({ [sortBy]: sortOrder })
-        .skip(skip)
-        .limit(limit)
+        .find(after ? { $and: [filter, keysetFilter(after)] } : filter)
+        .sort({ [sortBy]: sortOrder, _id: sortOrder })
+        .limit(limit + 1)
         .toArray(),
       this.logs.countDocuments(filter)
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const page = nextPage(found, limit, sortBy, sortOrder);
 
     return {
-      logs,
+      logs: page.items,
       total,
-      page,
-      totalPages
+      nextCursor: page.nextCursor,
     };
   }
 
+
+  /**
+   * Retrieves the user's most recently logged emotion for a phase.
+   * @effects Returns the emotion of the newest log in the given phase, or null if there is none.
+   */
+  public async getLatestEmotion(
+    { user, phase }: { user: User; phase: Phase }
+  ): Promise<{ emotion: Emotion | null }> {
+    const latest = await this.logs.findOne({ user, phase }, { sort: { createdAt: -1 } });
+    return { emotion: latest?.emotion ?? null };
+  }
+
+  /**
+   * Retrieves the emotions of the user's most recent logs.
+   * @effects Returns the emotions of up to `limit` newest logs in either phase, newest first.
+   */
+  public async getRecentEmotions(
+    { user, limit = 5 }: { user: User; limit?: number }
+  ): Promise<{ emotions: Emotion[] }> {
+    const logs = await this.getUserLogs({ user, limit });
+    return { emotions: logs.map((log) => log.emotion) };
+  }
+
   /**
    * Computes overall emotion statistics for a user.
    * @requires The user must have at least one recorded emotion log.
@@ -273,14 +335,8 @@ export default class EmotionLoggerConcept {
       const previous = logs.slice(5, 10);
       
       // Simple heuristic: count positive emotions
-      const positiveEmotions = new Set([
-        Emotion.Excited, Emotion.Optimistic, Emotion.Motivated, Emotion.Confident,
-        Emotion.Hopeful, Emotion.Energized, Emotion.Content, Emotion.Proud,
-        Emotion.Inspired, Emotion.Productive, Emotion.Curious, Emotion.Calm, Emotion.Focused
-      ]);
-
-      const recentPositive = recent.filter(log => positiveEmotions.has(log.emotion)).length;
-      const previousPositive = previous.filter(log => positiveEmotions.has(log.emotion)).length;
+      const recentPositive = recent.filter(log => POSITIVE_EMOTIONS.has(log.emotion)).length;
+      const previousPositive = previous.filter(log => POSITIVE_EMOTIONS.has(log.emotion)).length;
 
       if (recentPositive > previousPositive) recentTrend = "improving";
       else if (recentPositive < previousPositive) recentTrend = "declining";
@@ -0,0 +1,128 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import FocusSessionConcept from "./FocusSessionConcept.ts";
+import { ID } from "@utils/types.ts";
+
+const MINUTE_MS = 60 * 1000;
+
+Deno.test("FocusSession Concept - Operational Principle & Scenarios", async (t) => {
+  const [db, client] = await testDb();
+  const focus = new FocusSessionConcept(db);
+  const user = "user:Alice" as ID;
+  const task = "task:Essay" as ID;
+
+  // Moves a session's clock back as if it had been running for `minutes`
+  const backdate = async (session: ID, minutes: number) => {
+    const past = new Date(Date.now() - minutes * MINUTE_MS);
+    await focus.sessions.updateOne({ _id: session }, { $set: { startedAt: past, runningSince: past } });
+  };
+
+  await t.step("Principle: User works in Pomodoro sessions and their focused time adds up per task", async () => {
+    // 1. Start a work session with the default length
+    const started = await focus.startSession({ user, task });
+    if ("error" in started) throw new Error(started.error);
+    assertEquals(started.kind, "work");
+    assertEquals(started.plannedMinutes, 25, "Work sessions default to 25 minutes.");
+
+    // 2. Only one session can run at a time
+    const second = await focus.startSession({ user, task });
+    assertEquals((second as { error: string }).error, "Another focus session is still running");
+
+    // 3. Once its time is up, the session is completed at the moment it ran out
+    await backdate(started.session, 30);
+    const { sessions } = await focus.completeElapsedSessions({ user });
+    assertEquals(sessions.length, 1);
+    assertEquals(sessions[0].endReason, "completed");
+    assertEquals(sessions[0].elapsedMs, 25 * MINUTE_MS, "Time past the planned length is not counted.");
+
+    // 4. A short break comes next
+    const next = await focus.getNextSession({ user });
+    assertEquals(next, { kind: "shortBreak", plannedMinutes: 5 });
+
+    const total = await focus.getTaskFocusTotal({ user, task });
+    assertEquals(total.focusedMinutes, 25);
+    assertEquals(total.sessions, 1);
+  });
+
+  await t.step("Action: paused time is not counted and stopping keeps the time run so far", async () => {
+    const started = await focus.startSession({ user, task: "task:Reading" as ID });
+    if ("error" in started) throw new Error(started.error);
+    await backdate(started.session, 10);
+
+    await focus.pauseSession({ user, session: started.session });
+    const paused = await focus.pauseSession({ user, session: started.session });
+    assertEquals((paused as { error: string }).error, "Session is already paused");
+
+    // Nothing runs out while paused
+    const { sessions } = await focus.completeElapsedSessions({ user });
+    assertEquals(sessions.length, 0);
+
+    await focus.resumeSession({ user, session: started.session });
+    const stopped = await focus.stopSession({ user, session: started.session });
+    if ("error" in stopped) throw new Error(stopped.error);
+    assertEquals(stopped.endReason, "stopped");
+    assertEquals(Math.round(stopped.focusedMinutes), 10);
+
+    const again = await focus.stopSession({ user, session: started.session });
+    assertEquals((again as { error: string }).error, "Session has already ended");
+    assertEquals((await focus.getActiveSession({ user })).session, null);
+  });
+
+  await t.step("Action: settings change session lengths and when long breaks come", async () => {
+    const invalid = await focus.updateSettings({ user, workMinutes: 0 });
+    assertEquals((invalid as { error: string }).error, "Session lengths must be between 1 and 180 minutes");
+
+    await focus.updateSettings({ user, workMinutes: 50, longBreakEvery: 2, shortBreakMinutes: null });
+    const { settings } = await focus.getSettings({ user });
+    assertEquals(settings, { workMinutes: 50, shortBreakMinutes: 5, longBreakMinutes: 15, longBreakEvery: 2 });
+
+    // A second completed work session earns a long break
+    const started = await focus.startSession({ user, task });
+    if ("error" in started) throw new Error(started.error);
+    assertEquals(started.plannedMinutes, 50);
+    await backdate(started.session, 50);
+    await focus.completeElapsedSessions({ user });
+    assertEquals(await focus.getNextSession({ user }), { kind: "longBreak", plannedMinutes: 15 });
+  });
+
+  await t.step("Query: daily totals cover every day of the range in the user's time zone", async () => {
+    const other = "user:Bob" as ID;
+    const started = await focus.startSession({ user: other, task });
+    if ("error" in started) throw new Error(started.error);
+    await focus.stopSession({ user: other, session: started.session });
+
+    // 23:30 UTC on Jan 1 is already Jan 2 at UTC+1
+    const lateStart = new Date("2024-01-01T23:30:00Z");
+    await focus.sessions.updateOne(
+      { _id: started.session },
+      { $set: { startedAt: lateStart, elapsedMs: 20 * MINUTE_MS } },
+    );
+
+    const result = await focus.getDailyFocusTotals({
+      user: other,
+      from: new Date("2024-01-01T12:00:00Z"),
+      to: new Date("2024-01-03T12:00:00Z"),
+      utcOffsetMinutes: 60,
+    });
+    if ("error" in result) throw new Error(result.error);
+    assertEquals(result.days.map((d) => d.date), ["2024-01-01", "2024-01-02", "2024-01-03"]);
+    assertEquals(result.days[1], { date: "2024-01-02", focusedMinutes: 20, sessions: 1 });
+
+    const backwards = await focus.getDailyFocusTotals({ user: other, from: new Date("2024-02-01"), to: new Date("2024-01-01") });
+    assertEquals((backwards as { error: string }).error, "Start of range must not be after its end");
+  });
+
+  await t.step("Action: sessions are deleted with their task and their user", async () => {
+    const ended = await focus.getRecentlyEndedSessions({ user, afterTimestamp: new Date(0) });
+    assertNotEquals(ended.sessions.length, 0);
+
+    await focus.deleteTaskSessions({ user, task });
+    assertEquals((await focus.getTaskFocusTotal({ user, task })).sessions, 0);
+
+    await focus.deleteUserSessions({ user });
+    assertEquals(await focus.sessions.countDocuments({ user }), 0);
+    assertEquals((await focus.getSettings({ user })).settings.workMinutes, 25, "Settings return to the defaults.");
+  });
+
+  await client.close();
+});
@@ -0,0 +1,459 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to avoid name clashes
+const PREFIX = "FocusSession" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Task = ID;
+
+// Define the types for our entries based on the concept state
+type Session = ID;
+export type SessionKind = "work" | "shortBreak" | "longBreak";
+export type EndReason = "completed" | "stopped";
+
+const SESSION_KINDS: SessionKind[] = ["work", "shortBreak", "longBreak"];
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+const MAX_SESSION_MINUTES = 180;
+const MAX_LONG_BREAK_EVERY = 12;
+const MAX_TOTALS_DAYS = 366;
+
+/**
+ * a set of Settings with
+ *   a user User
+ *   a workMinutes Number
+ *   a shortBreakMinutes Number
+ *   a longBreakMinutes Number
+ *   a longBreakEvery Number (completed work sessions between long breaks)
+ */
+interface SettingsDoc {
+  _id: User;
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakEvery: number;
+}
+
+export type PomodoroSettings = Omit<SettingsDoc, "_id">;
+
+const DEFAULT_SETTINGS: PomodoroSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+};
+
+/**
+ * a set of Sessions with
+ *   a user User
+ *   a task Task
+ *   a kind String (work, shortBreak, or longBreak)
+ *   a plannedMinutes Number
+ *   a startedAt Date
+ *   a runningSince Date (optional, absent while paused or ended)
+ *   a pausedAt Date (optional, present while paused)
+ *   a elapsedMs Number (running time before runningSince)
+ *   a endedAt Date (optional)
+ *   a endReason String (optional, completed or stopped)
+ */
+export interface SessionDoc {
+  _id: Session;
+  user: User;
+  task: Task;
+  kind: SessionKind;
+  plannedMinutes: number;
+  startedAt: Date;
+  runningSince?: Date;
+  pausedAt?: Date;
+  elapsedMs: number;
+  endedAt?: Date;
+  endReason?: EndReason;
+}
+
+export interface FocusTotal {
+  focusedMinutes: number;
+  sessions: number;
+}
+
+function toMinutes(ms: number): number {
+  return Math.round(ms / 6000) / 10;
+}
+
+// Running time of a session at `now`, excluding pauses
+function elapsedAt(session: SessionDoc, now: Date): number {
+  const running = session.runningSince ? now.getTime() - session.runningSince.getTime() : 0;
+  return session.elapsedMs + Math.max(0, running);
+}
+
+// Local calendar date of `time` for a UTC offset, as YYYY-MM-DD
+function localDate(time: Date, utcOffsetMinutes: number): string {
+  return new Date(time.getTime() + utcOffsetMinutes * MS_PER_MINUTE).toISOString().slice(0, 10);
+}
+
+/**
+ * @concept FocusSession
+ * @purpose To track how long users actually work on their tasks, in timed Pomodoro work sessions separated by breaks.
+ */
+export default class FocusSessionConcept {
+  settings: Collection<SettingsDoc>;
+  sessions: Collection<SessionDoc>;
+
+  constructor(private readonly db: Db) {
+    this.settings = this.db.collection(PREFIX + "settings");
+    this.sessions = this.db.collection(PREFIX + "sessions");
+
+    this.sessions.createIndex({ user: 1, task: 1 }).catch((err) => {
+      console.error("Failed to create sessions task index:", err);
+    });
+    this.sessions.createIndex({ user: 1, endedAt: -1 }).catch((err) => {
+      console.error("Failed to create sessions endedAt index:", err);
+    });
+  }
+
+  /**
+   * Gets the user's Pomodoro settings.
+   * @effects Returns the user's work and break lengths, or the defaults if never changed.
+   */
+  public async getSettings(
+    { user }: { user: User },
+  ): Promise<{ settings: PomodoroSettings }> {
+    const doc = await this.settings.findOne({ _id: user });
+    if (!doc) return { settings: { ...DEFAULT_SETTINGS } };
+    const { _id, ...settings } = doc;
+    return { settings };
+  }
+
+  /**
+   * Changes the user's Pomodoro settings.
+   * @requires Session lengths must be whole minutes between 1 and 180.
+   *           The long break interval must be a whole number between 1 and 12.
+   * @effects Updates the provided settings, keeping those that are missing or null.
+   *          Running sessions keep their length.
+   */
+  public async updateSettings(
+    { user, workMinutes, shortBreakMinutes, longBreakMinutes, longBreakEvery }: {
+      user: User;
+      workMinutes?: number | null;
+      shortBreakMinutes?: number | null;
+      longBreakMinutes?: number | null;
+      longBreakEvery?: number | null;
+    },
+  ): Promise<Empty | { error: string }> {
+    for (const value of [workMinutes, shortBreakMinutes, longBreakMinutes]) {
+      if (value === undefined || value === null) continue;
+      if (!Number.isInteger(value) || value < 1 || value > MAX_SESSION_MINUTES) {
+        return { error: `Session lengths must be between 1 and ${MAX_SESSION_MINUTES} minutes` };
+      }
+    }
+    if (
+      longBreakEvery !== undefined && longBreakEvery !== null &&
+      (!Number.isInteger(longBreakEvery) || longBreakEvery < 1 || longBreakEvery > MAX_LONG_BREAK_EVERY)
+    ) {
+      return { error: `Long break interval must be between 1 and ${MAX_LONG_BREAK_EVERY} sessions` };
+    }
+
+    const { settings } = await this.getSettings({ user });
+    const updated: PomodoroSettings = {
+      workMinutes: workMinutes ?? settings.workMinutes,
+      shortBreakMinutes: shortBreakMinutes ?? settings.shortBreakMinutes,
+      longBreakMinutes: longBreakMinutes ?? settings.longBreakMinutes,
+      longBreakEvery: longBreakEvery ?? settings.longBreakEvery,
+    };
+    await this.settings.updateOne({ _id: user }, { $set: updated }, { upsert: true });
+    return {};
+  }
+
+  /**
+   * Starts a timed session on a task.
+   * @requires The kind must be work, shortBreak, or longBreak.
+   *           The user must not have another session that has not ended.
+   * @effects Creates a running session whose length comes from the user's settings.
+   */
+  public async startSession(
+    { user, task, kind = "work" }: { user: User; task: Task; kind?: SessionKind },
+  ): Promise<{ session: Session; kind: SessionKind; plannedMinutes: number; startedAt: Date } | { error: string }> {
+    if (!SESSION_KINDS.includes(kind)) return { error: "Kind must be work, shortBreak, or longBreak" };
+
+    const active = await this.sessions.findOne({ user, endedAt: { $exists: false } });
+    if (active) return { error: "Another focus session is still running" };
+
+    const { settings } = await this.getSettings({ user });
+    const startedAt = new Date();
+    const newSession: SessionDoc = {
+      _id: freshID(),
+      user,
+      task,
+      kind,
+      plannedMinutes: settings[`${kind}Minutes`],
+      startedAt,
+      runningSince: startedAt,
+      elapsedMs: 0,
+    };
+    await this.sessions.insertOne(newSession);
+
+    return { session: newSession._id, kind, plannedMinutes: newSession.plannedMinutes, startedAt };
+  }
+
+  /**
+   * Pauses a running session.
+   * @requires The session must belong to the user, must not have ended, and must not be paused.
+   * @effects Stops the session's clock until it is resumed.
+   */
+  public async pauseSession(
+    { user, session }: { user: User; session: Session },
+  ): Promise<Empty | { error: string }> {
+    const doc = await this.sessions.findOne({ _id: session, user });
+    if (!doc) return { error: "Session not found" };
+    if (doc.endedAt) return { error: "Session has already ended" };
+    if (!doc.runningSince) return { error: "Session is already paused" };
+
+    const now = new Date();
+    await this.sessions.updateOne(
+      { _id: session },
+      { $set: { elapsedMs: elapsedAt(doc, now), pausedAt: now }, $unset: { runningSince: "" } },
+    );
+    return {};
+  }
+
+  /**
+   * Resumes a paused session.
+   * @requires The session must belong to the user, must not have ended, and must be paused.
+   * @effects Restarts the session's clock.
+   */
+  public async resumeSession(
+    { user, session }: { user: User; session: Session },
+  ): Promise<Empty | { error: string }> {
+    const doc = await this.sessions.findOne({ _id: session, user });
+    if (!doc) return { error: "Session not found" };
+    if (doc.endedAt) return { error: "Session has already ended" };
+    if (doc.runningSince) return { error: "Session is not paused" };
+
+    await this.sessions.updateOne(
+      { _id: session },
+      { $set: { runningSince: new Date() }, $unset: { pausedAt: "" } },
+    );
+    return {};
+  }
+
+  /**
+   * Ends a session before its time is up.
+   * @requires The session must belong to the user and must not have ended.
+   * @effects Ends the session with the time run so far. A session whose time has
+   *          already run out is ended as completed at the moment it ran out instead.
+   */
+  public async stopSession(
+    { user, session }: { user: User; session: Session },
+  ): Promise<{ session: Session; endReason: EndReason; focusedMinutes: number } | { error: string }> {
+    const doc = await this.sessions.findOne({ _id: session, user });
+    if (!doc) return { error: "Session not found" };
+    if (doc.endedAt) return { error: "Session has already ended" };
+
+    const ended = await this.endSession(doc, new Date());
+    return { session, endReason: ended.endReason!, focusedMinutes: toMinutes(ended.elapsedMs) };
+  }
+
+  /**
+   * Completes the user's running session if its time is up.
+   * @effects Ends a running session whose planned length has elapsed as completed,
+   *          at the moment its time ran out, and returns it.
+   */
+  public async completeElapsedSessions(
+    { user }: { user: User },
+  ): Promise<{ sessions: SessionDoc[] }> {
+    const now = new Date();
+    const running = await this.sessions
+      .find({ user, endedAt: { $exists: false }, runningSince: { $exists: true } })
+      .toArray();
+
+    const completed: SessionDoc[] = [];
+    for (const doc of running) {
+      if (elapsedAt(doc, now) < doc.plannedMinutes * MS_PER_MINUTE) continue;
+      completed.push(await this.endSession(doc, now));
+    }
+    return { sessions: completed };
+  }
+
+  /**
+   * Ends a session at `now`, or as completed when its planned length ran out earlier.
+   */
+  private async endSession(doc: SessionDoc, now: Date): Promise<SessionDoc> {
+    const plannedMs = doc.plannedMinutes * MS_PER_MINUTE;
+    const elapsedMs = elapsedAt(doc, now);
+
+    const ended: SessionDoc = { ...doc, runningSince: undefined, pausedAt: undefined };
+    if (elapsedMs >= plannedMs) {
+      ended.elapsedMs = plannedMs;
+      ended.endReason = "completed";
+      // A session paused after its time ran out ends when it was paused
+      ended.endedAt = doc.runningSince
+        ? new Date(doc.runningSince.getTime() + plannedMs - doc.elapsedMs)
+        : doc.pausedAt ?? now;
+    } else {
+      ended.elapsedMs = elapsedMs;
+      ended.endReason = "stopped";
+      ended.endedAt = now;
+    }
+
+    await this.sessions.updateOne(
+      { _id: doc._id, endedAt: { $exists: false } },
+      {
+        $set: { elapsedMs: ended.elapsedMs, endedAt: ended.endedAt, endReason: ended.endReason },
+        $unset: { runningSince: "", pausedAt: "" },
+      },
+    );
+    return ended;
+  }
+
+  /**
+   * Gets the user's session that has not ended yet.
+   * @effects Returns the running or paused session with its remaining time, or null if there is none.
+   */
+  public async getActiveSession(
+    { user }: { user: User },
+  ): Promise<{ session: (SessionDoc & { remainingSeconds: number }) | null }> {
+    const doc = await this.sessions.findOne({ user, endedAt: { $exists: false } });
+    if (!doc) return { session: null };
+
+    const remainingMs = doc.plannedMinutes * MS_PER_MINUTE - elapsedAt(doc, new Date());
+    return { session: { ...doc, remainingSeconds: Math.max(0, Math.ceil(remainingMs / 1000)) } };
+  }
+
+  /**
+   * Suggests the next step of the Pomodoro cycle.
+   * @effects After a completed work session, returns a break: a long break once every
+   *          `longBreakEvery` completed work sessions since the last long break, otherwise a short one.
+   *          Otherwise returns a work session. The length comes from the user's settings.
+   */
+  public async getNextSession(
+    { user }: { user: User },
+  ): Promise<{ kind: SessionKind; plannedMinutes: number }> {
+    const { settings } = await this.getSettings({ user });
+    const next = (kind: SessionKind) => ({ kind, plannedMinutes: settings[`${kind}Minutes`] });
+
+    const last = await this.sessions.findOne(
+      { user, endedAt: { $exists: true } },
+      { sort: { endedAt: -1 } },
+    );
+    if (!last || last.kind !== "work" || last.endReason !== "completed") return next("work");
+
+    const lastLongBreak = await this.sessions.findOne(
+      { user, kind: "longBreak", endedAt: { $exists: true } },
+      { sort: { endedAt: -1 } },
+    );
+    const workSinceLongBreak = await this.sessions.countDocuments({
+      user,
+      kind: "work",
+      endReason: "completed",
+      ...(lastLongBreak ? { endedAt: { $gt: lastLongBreak.endedAt } } : {}),
+    });
+    return next(workSinceLongBreak % settings.longBreakEvery === 0 ? "longBreak" : "shortBreak");
+  }
+
+  /**
+   * Gets the sessions of a user that ended after a timestamp.
+   * @effects Returns ended sessions with endedAt after `afterTimestamp`, oldest first.
+   */
+  public async getRecentlyEndedSessions(
+    { user, afterTimestamp, limit = 50 }: { user: User; afterTimestamp: Date; limit?: number },
+  ): Promise<{ sessions: SessionDoc[] }> {
+    const sessions = await this.sessions
+      .find({ user, endedAt: { $gt: afterTimestamp } })
+      .sort({ endedAt: 1 })
+      .limit(limit)
+      .toArray();
+    return { sessions };
+  }
+
+  /**
+   * Gets the time focused on a task.
+   * @effects Returns the total length of the task's ended work sessions and how many there were.
+   *          Breaks and the session still running are not counted.
+   */
+  public async getTaskFocusTotal(
+    { user, task }: { user: User; task: Task },
+  ): Promise<{ task: Task } & FocusTotal> {
+    const sessions = await this.sessions
+      .find({ user, task, kind: "work", endedAt: { $exists: true } })
+      .toArray();
+    const totalMs = sessions.reduce((sum, s) => sum + s.elapsedMs, 0);
+    return { task, focusedMinutes: toMinutes(totalMs), sessions: sessions.length };
+  }
+
+  /**
+   * Gets the time focused per day over a date range.
+   * @requires `from` must not be after `to`, and the range must span at most 366 days.
+   *           The UTC offset must be between -14 and +14 hours.
+   * @effects Returns one entry per local calendar day from `from` to `to` (inclusive), in the
+   *          time zone given by `utcOffsetMinutes`. Ended work sessions count towards the day they started.
+   */
+  public async getDailyFocusTotals(
+    { user, from, to, utcOffsetMinutes = 0 }: { user: User; from: Date; to: Date; utcOffsetMinutes?: number },
+  ): Promise<{ days: Array<{ date: string } & FocusTotal> } | { error: string }> {
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) return { error: "Range dates are invalid" };
+    if (!Number.isInteger(utcOffsetMinutes) || Math.abs(utcOffsetMinutes) > 14 * 60) {
+      return { error: "UTC offset must be between -840 and 840 minutes" };
+    }
+
+    // Widen the range to whole local days
+    const offsetMs = utcOffsetMinutes * MS_PER_MINUTE;
+    const start = Math.floor((from.getTime() + offsetMs) / MS_PER_DAY) * MS_PER_DAY - offsetMs;
+    const end = Math.floor((to.getTime() + offsetMs) / MS_PER_DAY) * MS_PER_DAY - offsetMs + MS_PER_DAY;
+    if (end <= start) return { error: "Start of range must not be after its end" };
+    if ((end - start) / MS_PER_DAY > MAX_TOTALS_DAYS) {
+      return { error: `Range cannot span more than ${MAX_TOTALS_DAYS} days` };
+    }
+
+    const totals = new Map<string, { totalMs: number; sessions: number }>();
+    for (let day = start; day < end; day += MS_PER_DAY) {
+      totals.set(localDate(new Date(day), utcOffsetMinutes), { totalMs: 0, sessions: 0 });
+    }
+
+    const sessions = await this.sessions
+      .find({
+        user,
+        kind: "work",
+        endedAt: { $exists: true },
+        startedAt: { $gte: new Date(start), $lt: new Date(end) },
+      })
+      .toArray();
+    for (const session of sessions) {
+      const total = totals.get(localDate(session.startedAt, utcOffsetMinutes))!;
+      total.totalMs += session.elapsedMs;
+      total.sessions++;
+    }
+
+    return {
+      days: [...totals].map(([date, { totalMs, sessions }]) => ({
+        date,
+        focusedMinutes: toMinutes(totalMs),
+        sessions,
+      })),
+    };
+  }
+
+  /**
+   * Deletes all sessions for a specific task.
+   * @effects Removes every session of the task for the given user.
+   */
+  public async deleteTaskSessions(
+    { user, task }: { user: User; task: Task },
+  ): Promise<Empty> {
+    await this.sessions.deleteMany({ user, task });
+    return {};
+  }
+
+  /**
+   * Deletes all sessions and settings for a specific user.
+   * @effects Removes the user's sessions and Pomodoro settings.
+   */
+  public async deleteUserSessions(
+    { user }: { user: User },
+  ): Promise<Empty> {
+    await this.sessions.deleteMany({ user });
+    await this.settings.deleteOne({ _id: user });
+    return {};
+  }
+}
@@ -0,0 +1,43 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import LeaseConcept from "./LeaseConcept.ts";
+import { ID } from "@utils/types.ts";
+
+Deno.test("Lease Concept - Operational Principle & Scenarios", async (t) => {
+  const [db, client] = await testDb();
+  const lease = new LeaseConcept(db);
+  const name = "sweeper";
+  const first = "instance:A" as ID;
+  const second = "instance:B" as ID;
+
+  await t.step("Principle: One holder runs the job at a time, and another takes over when it stops renewing", async () => {
+    // 1. The first instance acquires the lease; the second is turned away
+    const acquired = await lease.acquireLease({ name, holder: first, seconds: 60 });
+    assertEquals("expiresAt" in acquired, true);
+    assertEquals(await lease.acquireLease({ name, holder: second, seconds: 60 }), {
+      error: "Lease is held by another holder",
+    });
+
+    // 2. The holder renews its lease
+    const renewed = await lease.acquireLease({ name, holder: first, seconds: 120 });
+    if ("error" in renewed) throw new Error(renewed.error);
+    assertEquals(await lease.getLease({ name }), { holder: first, expiresAt: renewed.expiresAt });
+
+    // 3. The first instance stops without releasing, so its lease lapses and the second takes over
+    await lease.leases.updateOne({ _id: name }, { $set: { expiresAt: new Date(Date.now() - 1000) } });
+    assertEquals(await lease.getLease({ name }), { error: "Lease is not held" });
+    assertEquals("expiresAt" in await lease.acquireLease({ name, holder: second, seconds: 60 }), true);
+    assertEquals((await lease.getLease({ name }) as { holder: ID }).holder, second);
+  });
+
+  await t.step("Action: releasing frees the lease for another holder", async () => {
+    assertEquals(await lease.releaseLease({ name, holder: first }), { error: "Lease is not held by this holder" });
+    assertEquals(await lease.releaseLease({ name, holder: second }), {});
+    assertEquals("expiresAt" in await lease.acquireLease({ name, holder: first, seconds: 60 }), true);
+    assertEquals(await lease.acquireLease({ name, holder: first, seconds: 0 }), {
+      error: "Lease duration must be positive",
+    });
+  });
+
+  await client.close();
+});
@@ -0,0 +1,96 @@
+import { Collection, Db, MongoServerError } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+
+// Collection prefix to avoid name clashes
+const PREFIX = "Lease" + ".";
+
+// Generic types for the concept's external dependencies
+type Holder = ID;
+
+/**
+ * a set of Leases with
+ *   a name String (the job or resource the lease guards, used as its identifier)
+ *   a holder Holder (e.g. one server instance)
+ *   a acquiredAt Date
+ *   a expiresAt Date
+ */
+export interface LeaseDoc {
+  _id: string;
+  holder: Holder;
+  acquiredAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * @concept Lease
+ * @purpose To let one of several processes at a time run a job, without a job stalling when its process stops.
+ */
+export default class LeaseConcept {
+  leases: Collection<LeaseDoc>;
+
+  constructor(private readonly db: Db) {
+    this.leases = this.db.collection(PREFIX + "leases");
+  }
+
+  /**
+   * Acquires a lease, or renews it for its current holder.
+   * @requires The duration must be positive. The lease must be free, expired, or already held by the holder.
+   * @effects Makes the holder the lease's holder until `seconds` from now and returns when it expires.
+   */
+  public async acquireLease(
+    { name, holder, seconds }: { name: string; holder: Holder; seconds: number },
+  ): Promise<{ expiresAt: Date } | { error: string }> {
+    if (!(seconds > 0)) return { error: "Lease duration must be positive" };
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + seconds * 1000);
+    try {
+      const current = await this.leases.findOne({ _id: name });
+      // Matches a lease this holder already has or one that has lapsed; otherwise the
+      // upsert collides with the live lease and fails with a duplicate key error.
+      await this.leases.updateOne(
+        { _id: name, $or: [{ holder }, { expiresAt: { $lte: now } }] },
+        {
+          $set: {
+            holder,
+            expiresAt,
+            acquiredAt: current?.holder === holder ? current.acquiredAt : now,
+          },
+        },
+        { upsert: true },
+      );
+      return { expiresAt };
+    } catch (err) {
+      if (err instanceof MongoServerError && err.code === 11000) {
+        return { error: "Lease is held by another holder" };
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Gives up a lease before it expires.
+   * @requires The lease must be held by the holder.
+   * @effects Frees the lease so another holder can acquire it right away.
+   */
+  public async releaseLease(
+    { name, holder }: { name: string; holder: Holder },
+  ): Promise<Empty | { error: string }> {
+    const released = await this.leases.deleteOne({ _id: name, holder });
+    if (released.deletedCount === 0) return { error: "Lease is not held by this holder" };
+    return {};
+  }
+
+  /**
+   * Retrieves who holds a lease.
+   * @requires The lease must be held and not expired.
+   * @effects Returns the lease's holder and when it expires.
+   */
+  public async getLease(
+    { name }: { name: string },
+  ): Promise<{ holder: Holder; expiresAt: Date } | { error: string }> {
+    const lease = await this.leases.findOne({ _id: name, expiresAt: { $gt: new Date() } });
+    if (!lease) return { error: "Lease is not held" };
+    return { holder: lease.holder, expiresAt: lease.expiresAt };
+  }
+}
@@ -160,6 +160,7 @@ Deno.test("MicroBet Concept - Operational Principle & Scenarios", async (t) => {
       true,
       "Time bonus should increase reward for early bet deadline."
     );
+    assertEquals((await bets.bets.findOne({ user: user2, task: taskWithDue }))?.rewardPolicy, "standard@1");
   });
   
   await t.step("Action: bet deadline must be before task due date", async () => {
@@ -269,6 +270,17 @@ Deno.test("MicroBet Concept - Operational Principle & Scenarios", async (t) => {
       (past as { error: string }).error,
       "Deadline must be in the future",
     );
+
+    const negative = await bets.placeBet({
+      user,
+      task: "task:Negative" as ID,
+      wager: -5,
+      deadline: new Date(Date.now() + 30_000),
+    });
+    assertEquals(
+      (negative as { error: string }).error,
+      "Wager must be a positive whole number",
+    );
   });
 
   await t.step("Action: canceling a bet before its deadline refunds points", async () => {
@@ -308,6 +320,16 @@ Deno.test("MicroBet Concept - Operational Principle & Scenarios", async (t) => {
       null,
       "A canceled bet should be removed from the state."
     );
+
+    // A canceled bet can be put back, taking the refund back with it
+    if ("error" in cancel) throw new Error(cancel.error);
+    const { cancelled } = cancel;
+    const restored = await bets.restoreBet({ user, bet: cancelled });
+    assertEquals(restored, { bet: cancelled._id });
+    assertEquals((await bets.users.findOne({ _id: user }))!.points, beforeCancel!.points);
+    const again = await bets.restoreBet({ user, bet: cancelled });
+    assertEquals((again as { error: string }).error, "Another bet has been placed on this task");
+    await bets.cancelBet({ user, task: task3 });
   });
 
   await t.step("Action: resolving expired bets reset user streak", async () => {
@@ -337,6 +359,21 @@ Deno.test("MicroBet Concept - Operational Principle & Scenarios", async (t) => {
       createdAt: new Date(),
     });
 
+    // The background sweeper finds expired bets across all users
+    const sweepable = await bets.getAllExpiredBets({});
+    if ("error" in sweepable) throw new Error(sweepable.error);
+    assertEquals(sweepable.bets.some((bet) => bet._id === forcedBetId), true);
+
+    // Bets the sweeper leaves unresolved can be paged past
+    const firstPage = await bets.getAllExpiredBets({ limit: 1 });
+    if ("error" in firstPage) throw new Error(firstPage.error);
+    assertEquals(firstPage.bets.length, 1);
+    if (firstPage.nextCursor) {
+      const secondPage = await bets.getAllExpiredBets({ cursor: firstPage.nextCursor, limit: 1 });
+      if ("error" in secondPage) throw new Error(secondPage.error);
+      assertNotEquals(secondPage.bets[0]?._id, firstPage.bets[0]._id);
+    }
+
     const resFail = await bets.resolveExpiredBet({ user, task: task4 });
     assertEquals(
       "error" in resFail, 
@@ -350,6 +387,35 @@ Deno.test("MicroBet Concept - Operational Principle & Scenarios", async (t) => {
       0,
       "Streak should reset after expired bet resolution."
     );
+    assertEquals((await bets.bets.findOne({ _id: forcedBetId }))?.resolution, "expired");
+    const remaining = await bets.getAllExpiredBets({});
+    if ("error" in remaining) throw new Error(remaining.error);
+    assertEquals(remaining.bets.some((bet) => bet._id === forcedBetId), false);
+  });
+
+  await t.step("Action: forfeiting a bet fails it before its deadline without a refund", async () => {
+    const task5 = "task:Abandoned" as ID;
+    await bets.users.updateOne({ _id: user }, { $set: { streak: 2, points: 100 } });
+
+    const placed = await bets.placeBet({
+      user,
+      task: task5,
+      wager: 15,
+      deadline: new Date(Date.now() + 60_000),
+    });
+    assertNotEquals("error" in placed, true, "Bet placement should succeed.");
+
+    const forfeit = await bets.forfeitBet({ user, task: task5 });
+    assertEquals("error" in forfeit, false, "Forfeiting should succeed before the deadline.");
+
+    const bet = await bets.bets.findOne({ user, task: task5 });
+    assertEquals(bet?.success, false, "Forfeited bet should be marked failed.");
+    const profile = await bets.users.findOne({ _id: user });
+    assertEquals(profile?.streak, 0, "Streak should reset after a forfeit.");
+    assertEquals(profile?.points, 85, "Wager should not be refunded.");
+
+    const again = await bets.forfeitBet({ user, task: task5 });
+    assertEquals(again, { status: "already_resolved" }, "A resolved bet cannot be forfeited again.");
   });
 
   await t.step("Action: bettor removal removes all user bets", async () => {
@@ -584,5 +650,206 @@ Deno.test("MicroBet Concept - Operational Principle & Scenarios", async (t) => {
     );
   });
 
+  await t.step("Query: the ledger explains every balance change and reconciles with the profile", async () => {
+    const bettor = "user:Ledger" as ID;
+    await bets.initializeBettor({ user: bettor });
+    const deadline = new Date(Date.now() + 60_000);
+
+    // Win one bet, cancel another, forfeit a third
+    await bets.placeBet({ user: bettor, task: "task:Win" as ID, wager: 10, deadline });
+    const won = await bets.resolveBet({ user: bettor, task: "task:Win" as ID, completionTime: new Date() });
+    if (!("reward" in won)) throw new Error("Bet should succeed");
+    await bets.placeBet({ user: bettor, task: "task:Cancel" as ID, wager: 5, deadline });
+    await bets.cancelBet({ user: bettor, task: "task:Cancel" as ID });
+    await bets.placeBet({ user: bettor, task: "task:Forfeit" as ID, wager: 20, deadline });
+    await bets.forfeitBet({ user: bettor, task: "task:Forfeit" as ID });
+
+    const ledger = await bets.getLedger({ user: bettor });
+    if ("error" in ledger) throw new Error(ledger.error);
+    assertEquals(ledger.entries.map((entry) => entry.reason).sort(), [
+      "initial_grant", "refund", "reward", "wager", "wager", "wager", "wager_settled", "wager_settled",
+    ]);
+    const profile = await bets.users.findOne({ _id: bettor });
+    assertEquals(profile!.points, 100 - 10 + won.reward - 20);
+    const forfeited = ledger.entries.find((entry) => entry.reason === "wager_settled" && entry.amount === 20);
+    assertEquals([forfeited?.from, forfeited?.to, forfeited?.balance], ["escrow", "house", profile!.points]);
+
+    const reconciled = await bets.reconcileLedger({ user: bettor });
+    assertEquals(reconciled, {
+      points: profile!.points, ledgerPoints: profile!.points, escrow: 0, ledgerEscrow: 0, consistent: true,
+    });
+
+    // A change made outside the ledger is flagged as drift
+    await bets.users.updateOne({ _id: bettor }, { $inc: { points: 7 } });
+    const drifted = await bets.reconcileLedger({ user: bettor });
+    assertEquals("consistent" in drifted && [drifted.consistent, drifted.points - drifted.ledgerPoints], [false, 7]);
+
+    // A profile created before the ledger is opened with its existing balances
+    const legacy = "user:Legacy" as ID;
+    await bets.users.insertOne({ _id: legacy, points: 40, streak: 0 });
+    await bets.bets.insertOne({ _id: "bet:Legacy" as ID, user: legacy, task: "task:Old" as ID, wager: 15, deadline, createdAt: new Date() });
+    await bets.cancelBet({ user: legacy, task: "task:Old" as ID });
+    const opened = await bets.reconcileLedger({ user: legacy });
+    assertEquals("consistent" in opened && [opened.consistent, opened.points, opened.escrow], [true, 55, 0]);
+  });
+
+  await t.step("Action: a failure partway through placing or resolving a bet leaves balances unchanged", async () => {
+    const bettor = "user:Crash" as ID;
+    await bets.initializeBettor({ user: bettor });
+    const deadline = new Date(Date.now() + 60_000);
+    const injected = () => Promise.reject(new Error("Injected failure"));
+
+    // 1. The bet cannot be stored after the points are deducted
+    const insertOne = bets.bets.insertOne;
+    bets.bets.insertOne = injected as typeof insertOne;
+    const placed = await bets.placeBet({ user: bettor, task: "task:Crash" as ID, wager: 30, deadline });
+    bets.bets.insertOne = insertOne;
+    assertEquals(placed, { error: "Failed to place bet" });
+    assertEquals((await bets.users.findOne({ _id: bettor }))!.points, 100);
+
+    // 2. The reward cannot be paid after the bet is marked successful
+    await bets.placeBet({ user: bettor, task: "task:Crash" as ID, wager: 30, deadline });
+    const findOneAndUpdate = bets.users.findOneAndUpdate;
+    bets.users.findOneAndUpdate = injected as typeof findOneAndUpdate;
+    const failedWin = await bets.resolveBet({ user: bettor, task: "task:Crash" as ID, completionTime: new Date() });
+    bets.users.findOneAndUpdate = findOneAndUpdate;
+    assertEquals(failedWin, { error: "Failed to resolve bet" });
+    assertEquals((await bets.bets.findOne({ user: bettor, task: "task:Crash" as ID }))!.success, undefined);
+    assertEquals((await bets.users.findOne({ _id: bettor }))!.points, 70);
+
+    // 3. The ledger entry cannot be written after a forfeited bet is marked failed
+    const ledgerInsertOne = bets.ledger.insertOne;
+    bets.ledger.insertOne = injected as typeof ledgerInsertOne;
+    const failedForfeit = await bets.forfeitBet({ user: bettor, task: "task:Crash" as ID });
+    bets.ledger.insertOne = ledgerInsertOne;
+    assertEquals(failedForfeit, { error: "Failed to resolve bet" });
+    assertEquals((await bets.bets.findOne({ user: bettor, task: "task:Crash" as ID }))!.success, undefined);
+
+    // Once the failures stop, the bet resolves and the ledger still reconciles
+    const won = await bets.resolveBet({ user: bettor, task: "task:Crash" as ID, completionTime: new Date() });
+    assertEquals("reward" in won, true);
+    const reconciled = await bets.reconcileLedger({ user: bettor });
+    assertEquals("consistent" in reconciled && reconciled.consistent, true);
+  });
+
+  await t.step("Query: simulateReward previews a bet's payout under each reward policy", async () => {
+    const bettor = "user:Economy" as ID;
+    await bets.initializeBettor({ user: bettor });
+    const deadline = new Date(Date.now() + 60_000);
+
+    const preview = await bets.simulateReward({ user: bettor, wager: 50, deadline });
+    if ("error" in preview) throw new Error(preview.error);
+    assertEquals(preview.policy, "standard@1");
+    assertEquals(preview.payouts.map((payout) => payout.policy), ["standard@1", "flat@1", "veteran@1"]);
+    assertEquals(preview.payouts.find((payout) => payout.policy === "flat@1")?.reward, 60);
+    assertEquals(await bets.simulateReward({ user: bettor, wager: 0, deadline }), {
+      error: "Wager must be a positive whole number",
+    });
+
+    // New users can be given their own economy, which then settles their bets
+    Deno.env.set("REWARD_POLICY_NEW", "flat");
+    try {
+      assertEquals((await bets.simulateReward({ user: bettor, wager: 50, deadline }) as { policy: string }).policy, "flat@1");
+      await bets.placeBet({ user: bettor, task: "task:Flat" as ID, wager: 50, deadline });
+      assertEquals(await bets.resolveBet({ user: bettor, task: "task:Flat" as ID, completionTime: new Date() }), {
+        status: "success",
+        reward: 60,
+      });
+      assertEquals((await bets.bets.findOne({ user: bettor, task: "task:Flat" as ID }))?.rewardPolicy, "flat@1");
+    } finally {
+      Deno.env.delete("REWARD_POLICY_NEW");
+    }
+  });
+
+  await t.step("Action: bet types are settled by starting, completing, or completing within a time limit", async () => {
+    const bettor = "user:Types" as ID;
+    await bets.initializeBettor({ user: bettor });
+    const deadline = new Date(Date.now() + 60 * 60 * 1000);
+
+    // Time limits belong to complete-within bets only
+    assertEquals(
+      await bets.placeBet({ user: bettor, task: "task:NoLimit" as ID, wager: 5, deadline, type: "complete_within" }),
+      { error: "Time limit must be a positive whole number of minutes" },
+    );
+    assertEquals(
+      await bets.placeBet({ user: bettor, task: "task:NoLimit" as ID, wager: 5, deadline, type: "complete_by", withinMinutes: 30 }),
+      { error: "Only complete-within bets have a time limit" },
+    );
+
+    await bets.placeBet({ user: bettor, task: "task:Start" as ID, wager: 5, deadline });
+    await bets.placeBet({ user: bettor, task: "task:Complete" as ID, wager: 5, deadline, type: "complete_by" });
+    await bets.placeBet({ user: bettor, task: "task:Sprint" as ID, wager: 5, deadline, type: "complete_within", withinMinutes: 30 });
+    await bets.placeBet({ user: bettor, task: "task:Slow" as ID, wager: 5, deadline, type: "complete_within", withinMinutes: 10 });
+    assertEquals((await bets.bets.findOne({ user: bettor, task: "task:Start" as ID }))?.type, "start_by");
+
+    assertEquals("reward" in await bets.resolveBet({ user: bettor, task: "task:Start" as ID, completionTime: new Date() }), true);
+    assertEquals("reward" in await bets.resolveBet({ user: bettor, task: "task:Complete" as ID, completionTime: new Date() }), true);
+
+    // A complete-within bet cannot be won before its time limit starts
+    assertEquals(await bets.resolveBet({ user: bettor, task: "task:Sprint" as ID, completionTime: new Date() }), {
+      error: "Cannot resolve: the time limit has not started",
+    });
+    assertEquals(await bets.startBetClock({ user: bettor, task: "task:Start" as ID, startTime: new Date() }), {
+      error: "Bet does not have a time limit",
+    });
+
+    // Starting the task moves the deadline to the end of the time limit
+    const started = new Date(Date.now() - 20 * 60 * 1000);
+    const clock = await bets.startBetClock({ user: bettor, task: "task:Sprint" as ID, startTime: started });
+    assertEquals(clock, { deadline: new Date(started.getTime() + 30 * 60 * 1000) });
+    assertEquals(await bets.startBetClock({ user: bettor, task: "task:Sprint" as ID, startTime: new Date() }), {
+      error: "Bet time limit has already started",
+    });
+    assertEquals("reward" in await bets.resolveBet({ user: bettor, task: "task:Sprint" as ID, completionTime: new Date() }), true);
+
+    // Finishing after the time limit does not win the bet, which then expires
+    await bets.startBetClock({ user: bettor, task: "task:Slow" as ID, startTime: started });
+    assertEquals(await bets.resolveBet({ user: bettor, task: "task:Slow" as ID, completionTime: new Date() }), {
+      error: "Cannot resolve: deadline has passed",
+    });
+    assertEquals(await bets.resolveExpiredBet({ user: bettor, task: "task:Slow" as ID }), { status: "failed" });
+
+    const profile = await bets.getUserProfile({ user: bettor });
+    if ("error" in profile) throw new Error(profile.error);
+    assertEquals(profile.totalBets, 4);
+    assertEquals(profile.byType, {
+      start_by: { totalBets: 1, successfulBets: 1, failedBets: 0, pendingBets: 0 },
+      complete_by: { totalBets: 1, successfulBets: 1, failedBets: 0, pendingBets: 0 },
+      complete_within: { totalBets: 2, successfulBets: 1, failedBets: 1, pendingBets: 0 },
+    });
+  });
+
+  await t.step("Action: reopening a bet won by completing its task reverses the payout", async () => {
+    const bettor = "user:Reopen" as ID;
+    await bets.initializeBettor({ user: bettor });
+    const deadline = new Date(Date.now() + 60 * 60 * 1000);
+
+    await bets.placeBet({ user: bettor, task: "task:Started" as ID, wager: 5, deadline });
+    await bets.resolveBet({ user: bettor, task: "task:Started" as ID, completionTime: new Date() });
+    assertEquals(await bets.reopenBet({ user: bettor, task: "task:Started" as ID }), {
+      error: "Bet is not on completing the task",
+    });
+
+    await bets.placeBet({ user: bettor, task: "task:Done" as ID, wager: 10, deadline, type: "complete_by" });
+    const before = await bets.users.findOne({ _id: bettor });
+    const won = await bets.resolveBet({ user: bettor, task: "task:Done" as ID, completionTime: new Date() });
+    if (!("reward" in won)) throw new Error("Bet should succeed");
+
+    const reopened = await bets.reopenBet({ user: bettor, task: "task:Done" as ID });
+    assertEquals("bet" in reopened, true, "Reopening a won completion bet should succeed.");
+
+    // The bet is open again, with its wager back in escrow and the reward and streak taken back
+    const bet = await bets.bets.findOne({ user: bettor, task: "task:Done" as ID });
+    assertEquals([bet?.success, bet?.resolution], [undefined, undefined]);
+    const profile = await bets.users.findOne({ _id: bettor });
+    assertEquals([profile?.points, profile?.streak], [before?.points, before?.streak]);
+    const reconciled = await bets.reconcileLedger({ user: bettor });
+    assertEquals("consistent" in reconciled && [reconciled.consistent, reconciled.escrow], [true, 10]);
+
+    assertEquals(await bets.reopenBet({ user: bettor, task: "task:Done" as ID }), {
+      error: "Bet was not won by completing the task",
+    });
+  });
+
   await client.close();
-});
\ No newline at end of file
+});
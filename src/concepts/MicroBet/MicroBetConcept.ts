@@ -1,6 +1,9 @@
-import { Collection, Db, MongoServerError } from "npm:mongodb";
+import { ClientSession, Collection, Db, MongoServerError } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
-import { freshID } from "@utils/database.ts";
+import { freshID, withTransaction } from "@utils/database.ts";
+import { validateNewBet } from "@utils/validation.ts";
+import { checkLimit, keysetFilter, nextPage, readCursor } from "@utils/pagination.ts";
+import { REWARD_POLICIES, RewardPolicy, rewardCohort, rewardPolicyId, selectRewardPolicy } from "@utils/rewards.ts";
 
 // Collection prefix to avoid name clashes
 const PREFIX = "MicroBet" + ".";
@@ -11,6 +14,31 @@ type Task = ID;
 
 // Define the types for our entries based on the concept state
 type Bet = ID;
+type LedgerEntry = ID;
+export type BetResolution = "completed" | "expired" | "forfeited";
+
+/**
+ * What a bet is on: starting the task by the deadline, completing it by the deadline,
+ * or starting it by the deadline and then completing it within a time limit.
+ */
+export type BetType = "start_by" | "complete_by" | "complete_within";
+const BET_TYPES: BetType[] = ["start_by", "complete_by", "complete_within"];
+
+/**
+ * Where points are held: a user's spendable balance, the wagers held on their
+ * open bets, or the house that grants rewards and keeps settled wagers.
+ */
+export type LedgerAccount = "points" | "escrow" | "house";
+export type LedgerReason =
+  | "opening_balance"
+  | "initial_grant"
+  | "wager"
+  | "refund"
+  | "wager_restored"
+  | "wager_settled"
+  | "reward"
+  | "wager_reopened"
+  | "reward_reversed";
 
 /**
  * a set of Users with
@@ -27,10 +55,15 @@ interface UserDoc {
  * a set of Bets with
  *   a user User
  *   a task Task
+ *   a type? String ("start_by", "complete_by", or "complete_within"; bets placed before bet types are "start_by")
  *   a wager Number
- *   a deadline Date
+ *   a deadline Date (for "complete_within" bets, moved to the end of the time limit once the task starts)
+ *   a withinMinutes? Number (the time limit of a "complete_within" bet)
+ *   a startedAt? Date (when the time limit of a "complete_within" bet began)
  *   a taskDueDate? Date
  *   a success? Boolean
+ *   a resolution? String ("completed", "expired", or "forfeited", set when bet is resolved)
+ *   a rewardPolicy? String (the reward policy and version that paid out a successful bet, e.g. "standard@1")
  *   a createdAt Date
  *   a resolvedAt? Date (optional, set when bet is resolved)
  */
@@ -38,14 +71,55 @@ interface BetDoc {
   _id: Bet;
   user: User;
   task: Task;
+  type?: BetType;
   wager: number;
   deadline: Date;
+  withinMinutes?: number;
+  startedAt?: Date;
   taskDueDate?: Date;
   success?: boolean;
+  resolution?: BetResolution;
+  rewardPolicy?: string;
   createdAt: Date;
   resolvedAt?: Date;
 }
 
+/**
+ * Counts of a user's bets by outcome.
+ */
+export interface BetStats {
+  totalBets: number;
+  successfulBets: number;
+  failedBets: number;
+  pendingBets: number;
+}
+
+/**
+ * a set of LedgerEntries with
+ *   a user User
+ *   a reason String ("opening_balance", "initial_grant", "wager", "refund", "wager_restored", "wager_settled", "reward",
+ *     "wager_reopened", or "reward_reversed")
+ *   a from LedgerAccount (the account debited)
+ *   a to LedgerAccount (the account credited)
+ *   a amount Number (always positive)
+ *   a bet? Bet
+ *   a task? Task
+ *   a balance Number (the user's points after the entry)
+ *   a at Date
+ */
+export interface LedgerEntryDoc {
+  _id: LedgerEntry;
+  user: User;
+  reason: LedgerReason;
+  from: LedgerAccount;
+  to: LedgerAccount;
+  amount: number;
+  bet?: Bet;
+  task?: Task;
+  balance: number;
+  at: Date;
+}
+
 /**
  * @concept MicroBet
  * @purpose To motivate users to start tasks through gamified accountability using symbolic or real stakes.
@@ -53,20 +127,26 @@ interface BetDoc {
 export default class MicroBetConcept {
   users: Collection<UserDoc>;
   bets: Collection<BetDoc>;
+  ledger: Collection<LedgerEntryDoc>;
 
   constructor(private readonly db: Db) {
     this.users = this.db.collection(PREFIX + "users");
     this.bets = this.db.collection(PREFIX + "bets");
+    this.ledger = this.db.collection(PREFIX + "ledger");
 
     this.bets.createIndex({ user: 1, task: 1 }, { unique: true }).catch((err) => {
       console.error("Failed to create bets index:", err);
     });
+    this.ledger.createIndex({ user: 1, at: 1 }).catch((err) => {
+      console.error("Failed to create ledger index:", err);
+    });
   }
 
   /**
    * Initializes a user in the betting system.
    * @requires The user must not already be registered as a bettor.
-   * @effects Creates a new betting profile for the user with 100 points and a streak of 0.
+   * @effects Creates a new betting profile for the user with 100 points and a streak of 0,
+   *          and records the grant in the ledger.
    */
   public async initializeBettor(
     { user }: { user: User },
@@ -74,21 +154,35 @@ export default class MicroBetConcept {
     const userProfile = await this.users.findOne({ _id: user });
     if (userProfile) return { error: "User already initialized" };
 
-    await this.users.insertOne({ _id: user, points: 100, streak: 0 });
+    try {
+      await withTransaction(this.db, async (session) => {
+        await this.users.insertOne({ _id: user, points: 100, streak: 0 }, { session });
+        await this.recordLedgerEntry(session, {
+          user, reason: "initial_grant", from: "house", to: "points", amount: 100, balance: 100,
+        });
+      });
+    } catch (_err) {
+      return { error: "Failed to initialize bettor" };
+    }
     return {};
   }
 
   /**
    * Removes a user and their bets from the system.
-   * @effects Deletes the user's profile and all bets placed by them.
+   * @effects Deletes the user's profile, all bets placed by them, and their ledger.
    */
   public async removeBettor(
     { user }: { user: User },
-  ): Promise<Empty> {
-    await Promise.all([
-      this.users.deleteOne({ _id: user }),
-      this.bets.deleteMany({ user })
-    ]);
+  ): Promise<Empty | { error: string }> {
+    try {
+      await withTransaction(this.db, async (session) => {
+        await this.users.deleteOne({ _id: user }, { session });
+        await this.bets.deleteMany({ user }, { session });
+        await this.ledger.deleteMany({ user }, { session });
+      });
+    } catch (_err) {
+      return { error: "Failed to remove bettor" };
+    }
 
     return {};
   }
@@ -97,26 +191,28 @@ export default class MicroBetConcept {
    * Places a new bet on a task.
    * @requires The user must have a betting profile. 
    *           No existing bet must exist for the same task. 
-   *           The user must have at least `wager` points. 
+   *           The wager must be a positive whole number, and the user must have at least `wager` points.
    *           The bet deadline must be in the future.
    *           If provided, the bet deadline must be before the task due date.
-   * @effects Creates a bet on the task and deducts the wager amount from the user's points.
+   *           The type defaults to "start_by"; "complete_within" bets need a time limit of whole minutes.
+   * @effects Creates a bet on the task and moves the wager amount from the user's points into escrow.
    */
   public async placeBet({
-    user, task, wager, deadline, taskDueDate
+    user, task, wager, deadline, taskDueDate, type, withinMinutes
   }: {
     user: User;
     task: Task;
     wager: number;
     deadline: Date;
     taskDueDate?: Date;
+    type?: BetType | null;
+    withinMinutes?: number | null;
   }): Promise<{ bet: Bet } | { error: string }> {
-    if (deadline.getTime() < Date.now()) return { error: "Deadline must be in the future" };
+    const betType = type ?? "start_by";
+    if (!BET_TYPES.includes(betType)) return { error: "Unknown bet type" };
 
-    // Validate that bet deadline is before task due date if provided
-    if (taskDueDate && deadline.getTime() >= taskDueDate.getTime()) {
-      return { error: "Bet deadline must be before task due date" };
-    }
+    const invalid = validateNewBet({ wager, deadline, taskDueDate, type: betType, withinMinutes });
+    if (invalid) return { error: invalid };
 
     const userProfile = await this.users.findOne({ _id: user });
     if (!userProfile) return { error: "User profile not found" };
@@ -126,23 +222,35 @@ export default class MicroBetConcept {
       _id: freshID(),
       user,
       task,
+      type: betType,
       wager,
       deadline,
       taskDueDate,
       createdAt: new Date(),
     };
+    if (betType === "complete_within" && withinMinutes) newBet.withinMinutes = withinMinutes;
 
+    // The deduction, the bet, and its ledger entry are written together or not at all
     try {
-      const updated = await this.users.updateOne(
-        { _id: user, points: { $gte: wager } },
-        { $inc: { points: -wager } }
-      );
-      if (updated.modifiedCount === 0) return { error: "Failed to deduct points" };
-
-      await this.bets.insertOne(newBet);
-      return { bet: newBet._id };
+      return await withTransaction(this.db, async (session) => {
+        const updated = await this.users.findOneAndUpdate(
+          { _id: user, points: { $gte: wager } },
+          { $inc: { points: -wager } },
+          { returnDocument: "after", session },
+        );
+        if (!updated) {
+          await session.abortTransaction();
+          return { error: "Failed to deduct points" };
+        }
+
+        await this.bets.insertOne(newBet, { session });
+        await this.recordLedgerEntry(session, {
+          user, reason: "wager", from: "points", to: "escrow", amount: wager,
+          bet: newBet._id, task, balance: updated.points,
+        });
+        return { bet: newBet._id };
+      });
     } catch (_err) {
-      await this.users.updateOne({ _id: user }, { $inc: { points: wager } });
       return { error: "Failed to place bet" };
     }
   }
@@ -151,34 +259,127 @@ export default class MicroBetConcept {
    * Cancels an existing bet.
    * @requires The user must have a betting profile.
    *           The bet must exist and belong to the user.
-   * @effects Deletes the bet. 
-   *          If the bet is unresolved, refunds the wagered points to the user.
+   * @effects Deletes the bet and returns it.
+   *          If the bet is unresolved, refunds the wagered points from escrow to the user.
    */
   public async cancelBet(
     { user, task }: { user: User, task: Task }
-  ): Promise<Empty | { error: string }> {
+  ): Promise<{ cancelled: BetDoc } | { error: string }> {
     const userProfile = await this.users.findOne({ _id: user });
     if (!userProfile) return { error: "User profile not found" };
 
     const betDoc = await this.bets.findOne({ user, task });
     if (!betDoc) return { error: "Bet not found" };
 
-    await this.bets.deleteOne({ _id: betDoc._id });
+    try {
+      return await withTransaction(this.db, async (session) => {
+        const deleted = await this.bets.deleteOne({ _id: betDoc._id }, { session });
+        if (deleted.deletedCount === 0) {
+          await session.abortTransaction();
+          return { error: "Bet not found" };
+        }
+
+        // Refund only if unresolved
+        if (betDoc.success === undefined) {
+          const refunded = await this.users.findOneAndUpdate(
+            { _id: user },
+            { $inc: { points: betDoc.wager } },
+            { returnDocument: "after", session },
+          );
+          await this.recordLedgerEntry(session, {
+            user, reason: "refund", from: "escrow", to: "points", amount: betDoc.wager,
+            bet: betDoc._id, task, balance: refunded?.points ?? userProfile.points + betDoc.wager,
+          });
+        }
+
+        return { cancelled: betDoc };
+      });
+    } catch (_err) {
+      return { error: "Failed to cancel bet" };
+    }
+  }
+
+  /**
+   * Puts back a bet that was cancelled.
+   * @requires The user must have a betting profile. The bet must belong to the user,
+   *           and no other bet may have been placed on its task since.
+   *           If the bet is unresolved, the user must still have the refunded points.
+   * @effects Re-creates the bet as it was and, if it is unresolved, moves the refunded wager back into escrow.
+   */
+  public async restoreBet(
+    { user, bet }: { user: User, bet: BetDoc }
+  ): Promise<{ bet: Bet } | { error: string }> {
+    if (bet?.user !== user) return { error: "Bet does not belong to user" };
+
+    const userProfile = await this.users.findOne({ _id: user });
+    if (!userProfile) return { error: "User profile not found" };
+
+    const existing = await this.bets.findOne({ user, task: bet.task });
+    if (existing) return { error: "Another bet has been placed on this task" };
+
+    try {
+      return await withTransaction(this.db, async (session) => {
+        await this.bets.insertOne(bet, { session });
+
+        if (bet.success === undefined) {
+          const updated = await this.users.findOneAndUpdate(
+            { _id: user, points: { $gte: bet.wager } },
+            { $inc: { points: -bet.wager } },
+            { returnDocument: "after", session },
+          );
+          if (!updated) {
+            await session.abortTransaction();
+            return { error: "Insufficient points to restore bet" };
+          }
+          await this.recordLedgerEntry(session, {
+            user, reason: "wager_restored", from: "points", to: "escrow", amount: bet.wager,
+            bet: bet._id, task: bet.task, balance: updated.points,
+          });
+        }
+
+        return { bet: bet._id };
+      });
+    } catch (_err) {
+      return { error: "Failed to restore bet" };
+    }
+  }
 
-    // Refund only if unresolved
-    if (betDoc.success === undefined) {
-      await this.users.updateOne({ _id: user }, { $inc: { points: betDoc.wager } });
+  /**
+   * Starts the time limit of a "complete_within" bet when its task is started.
+   * @requires The bet must exist, belong to the user, be a "complete_within" bet, and be unresolved.
+   *           Its time limit must not have started yet, and the start time must not exceed the deadline.
+   * @effects Records the start time and moves the bet's deadline to the end of the time limit.
+   */
+  public async startBetClock(
+    { user, task, startTime }: { user: User, task: Task, startTime: Date },
+  ): Promise<{ deadline: Date } | { error: string }> {
+    const betDoc = await this.bets.findOne({ user, task });
+    if (!betDoc) return { error: "Bet for this task does not exist" };
+    if (betDoc.type !== "complete_within" || !betDoc.withinMinutes) {
+      return { error: "Bet does not have a time limit" };
     }
+    if (betDoc.success !== undefined) return { error: "Bet has already been resolved" };
+    if (betDoc.startedAt) return { error: "Bet time limit has already started" };
+    if (startTime > betDoc.deadline) return { error: "Cannot start: deadline has passed" };
+
+    const deadline = new Date(startTime.getTime() + betDoc.withinMinutes * 60 * 1000);
+    const started = await this.bets.updateOne(
+      { _id: betDoc._id, success: { $exists: false }, startedAt: { $exists: false } },
+      { $set: { startedAt: startTime, deadline } },
+    );
+    if (started.modifiedCount === 0) return { error: "Bet time limit has already started" };
 
-    return {};
+    return { deadline };
   }
 
   /**
-   * Resolves a bet when a task is completed.
+   * Resolves a bet when the user meets its terms: starting the task for "start_by" bets,
+   * completing it for the others.
    * @requires The user must have a betting profile. 
    *           The bet must exist and belong to the user.
+   *           The time limit of a "complete_within" bet must have started.
    *           The completion time must not exceed the deadline.
-   * @effects If unresolved, marks the bet as successful, 
+   * @effects If unresolved, marks the bet as successful, settles the wager from escrow,
    *          awards a calculated reward to the user, and increments their streak. 
    *          Otherwise, reports that the bet was already resolved.
    */
@@ -199,24 +400,120 @@ export default class MicroBetConcept {
       return { status: "already_resolved" };
     }
 
+    if (betDoc.type === "complete_within" && !betDoc.startedAt) {
+      return { error: "Cannot resolve: the time limit has not started" };
+    }
+
     if (completionTime > betDoc.deadline) {
       return { error: "Cannot resolve: deadline has passed" }; 
     }
 
-    const reward = this.calculateReward(
-      betDoc.wager, 
-      userProfile.streak + 1,
-      betDoc.deadline,
-      betDoc.taskDueDate
-    );
+    const policy = await this.rewardPolicyFor(user);
+    const reward = policy.calculate({
+      wager: betDoc.wager,
+      streak: userProfile.streak + 1,
+      deadline: betDoc.deadline,
+      taskDueDate: betDoc.taskDueDate,
+    });
 
-    const resolvedAt = new Date();
-    await Promise.all([
-      this.bets.updateOne({ _id: betDoc._id }, { $set: { success: true, resolvedAt } }),
-      this.users.updateOne({ _id: user }, { $inc: { points: reward, streak: 1 } }),
-    ]);
+    // The bet is marked and the reward paid together, so neither happens without the other
+    try {
+      return await withTransaction(this.db, async (session) => {
+        const resolvedAt = new Date();
+        const marked = await this.bets.updateOne(
+          { _id: betDoc._id, success: { $exists: false } },
+          { $set: { success: true, resolution: "completed", rewardPolicy: rewardPolicyId(policy), resolvedAt } },
+          { session },
+        );
+        if (marked.modifiedCount === 0) {
+          await session.abortTransaction();
+          return { status: "already_resolved" as const };
+        }
+
+        const rewarded = await this.users.findOneAndUpdate(
+          { _id: user },
+          { $inc: { points: reward, streak: 1 } },
+          { returnDocument: "after", session },
+        );
+        const balance = rewarded?.points ?? userProfile.points + reward;
+        await this.recordLedgerEntry(session, {
+          user, reason: "wager_settled", from: "escrow", to: "house", amount: betDoc.wager,
+          bet: betDoc._id, task, balance: balance - reward,
+        });
+        await this.recordLedgerEntry(session, {
+          user, reason: "reward", from: "house", to: "points", amount: reward,
+          bet: betDoc._id, task, balance,
+        });
+
+        return { status: "success" as const, reward };
+      });
+    } catch (_err) {
+      return { error: "Failed to resolve bet" };
+    }
+  }
+
+  /**
+   * Reverses the successful resolution of a bet on completing a task, when the
+   * completion is undone.
+   * @requires The user must have a betting profile. The bet must exist, belong to the user,
+   *           be a "complete_by" or "complete_within" bet, and have been resolved by completing its task.
+   *           The user must still have the points the bet paid out.
+   * @effects Takes the reward back to the house, moves the wager from the house back into escrow,
+   *          undoes the streak increment, and leaves the bet unresolved.
+   */
+  public async reopenBet(
+    { user, task }: { user: User, task: Task },
+  ): Promise<{ bet: Bet } | { error: string }> {
+    const userProfile = await this.users.findOne({ _id: user });
+    if (!userProfile) return { error: "User profile not found" };
+
+    const betDoc = await this.bets.findOne({ user, task });
+    if (!betDoc) return { error: "Bet not found" };
+    if ((betDoc.type ?? "start_by") === "start_by") return { error: "Bet is not on completing the task" };
+    if (betDoc.resolution !== "completed") return { error: "Bet was not won by completing the task" };
+
+    const rewardEntry = await this.ledger.findOne({ user, bet: betDoc._id, reason: "reward" });
+    const reward = rewardEntry?.amount ?? 0;
 
-    return { status: "success", reward };
+    try {
+      return await withTransaction(this.db, async (session) => {
+        const reopened = await this.bets.updateOne(
+          { _id: betDoc._id, resolution: "completed" },
+          { $unset: { success: "", resolution: "", rewardPolicy: "", resolvedAt: "" } },
+          { session },
+        );
+        if (reopened.modifiedCount === 0) {
+          await session.abortTransaction();
+          return { error: "Bet was not won by completing the task" };
+        }
+
+        const updated = await this.users.findOneAndUpdate(
+          { _id: user, points: { $gte: reward } },
+          { $inc: { points: -reward } },
+          { returnDocument: "after", session },
+        );
+        if (!updated) {
+          await session.abortTransaction();
+          return { error: "Insufficient points to reverse the bet's reward" };
+        }
+        await this.users.updateOne({ _id: user, streak: { $gt: 0 } }, { $inc: { streak: -1 } }, { session });
+
+        if (reward > 0) {
+          await this.recordLedgerEntry(session, {
+            user, reason: "reward_reversed", from: "points", to: "house", amount: reward,
+            bet: betDoc._id, task, balance: updated.points,
+          });
+        }
+        await this.recordLedgerEntry(session, {
+          user, reason: "wager_reopened", from: "house", to: "escrow", amount: betDoc.wager,
+          bet: betDoc._id, task, balance: updated.points,
+        });
+
+        return { bet: betDoc._id };
+      });
+    } catch (_err) {
+      return { error: "Failed to reopen bet" };
+    }
   }
 
   /**
@@ -224,12 +521,13 @@ export default class MicroBetConcept {
    * @requires The user must have a betting profile. 
    *           The bet must exist and belong to the user.  
    *           The deadline must have already passed.
-   * @effects If unresolved, marks the bet as failed and resets the user's streak. 
+   * @effects If unresolved, marks the bet as failed, settles the wager from escrow to the house,
+   *          resets the user's streak, and reports the failure.
    *          Otherwise, reports that the bet was already resolved.
    */
   public async resolveExpiredBet(
     { user, task }: { user: User, task: Task }
-  ): Promise<Empty | { status: "already_resolved" } | { error: string }> {
+  ): Promise<{ status: "failed" } | { status: "already_resolved" } | { error: string }> {
     const userProfile = await this.users.findOne({ _id: user });
     if (!userProfile) return { error: "User profile not found" };
 
@@ -242,13 +540,28 @@ export default class MicroBetConcept {
       return { error: "Deadline has not yet passed" };
     }
 
-    const resolvedAt = new Date();
-    await Promise.all([
-      this.bets.updateOne({ _id: betDoc._id }, { $set: { success: false, resolvedAt } }),
-      this.users.updateOne({ _id: user }, { $set: { streak: 0 } }),
-    ]);
+    return await this.failBet(betDoc, "expired", userProfile.points);
+  }
 
-    return {};
+  /**
+   * Forfeits the bet on a task the user has given up on.
+   * @requires The user must have a betting profile. The bet must exist and belong to the user.
+   * @effects If unresolved, marks the bet as failed (the wager is settled to the house, not refunded) and resets
+   *          the user's streak, regardless of the deadline, and reports the failure.
+   *          Otherwise, reports that the bet was already resolved.
+   */
+  public async forfeitBet(
+    { user, task }: { user: User, task: Task }
+  ): Promise<{ status: "failed" } | { status: "already_resolved" } | { error: string }> {
+    const userProfile = await this.users.findOne({ _id: user });
+    if (!userProfile) return { error: "User profile not found" };
+
+    const betDoc = await this.bets.findOne({ user, task });
+    if (!betDoc) return { error: "Bet not found" };
+
+    if (betDoc.success !== undefined) return { status: "already_resolved" };
+
+    return await this.failBet(betDoc, "forfeited", userProfile.points);
   }
 
   /**
@@ -297,10 +610,40 @@ export default class MicroBetConcept {
     return { bets };
   }
 
+  /**
+   * Retrieves a page of expired bets across all users, for resolving them in the background.
+   * Paging lets the caller move past bets it chooses to leave unresolved.
+   * @requires The limit must be a positive whole number.
+   *           If provided, the cursor must come from a previous page of this listing.
+   * @effects Returns up to `limit` bets that have passed their deadlines but have not been
+   *          resolved, oldest deadline first, and the cursor of the next page (null on the last page).
+   */
+  public async getAllExpiredBets(
+    { cursor, limit = 100 }: { cursor?: string | null; limit?: number }
+  ): Promise<{ bets: BetDoc[]; nextCursor: string | null } | { error: string }> {
+    const invalidLimit = checkLimit(limit);
+    if (invalidLimit) return invalidLimit;
+
+    const after = readCursor(cursor, "deadline", 1);
+    if (after && "error" in after) return after;
+    if (after && "offset" in after) return { error: "Cursor does not match the sort order" };
+
+    const filter = { success: { $exists: false }, deadline: { $lt: new Date() } };
+    const found = await this.bets
+      .find(after ? { $and: [filter, keysetFilter(after)] } : filter)
+      .sort({ deadline: 1, _id: 1 })
+      .limit(limit + 1)
+      .toArray();
+
+    const page = nextPage(found, limit, "deadline", 1);
+    return { bets: page.items, nextCursor: page.nextCursor };
+  }
+
   /**
    * Retrieves the user's overall betting profile and statistics.
    * @requires The user must have a betting profile.
-   * @effects Returns aggregated statistics on points, streak, and bet outcomes.
+   * @effects Returns aggregated statistics on points, streak, and bet outcomes,
+   *          overall and broken down by bet type.
    */
   public async getUserProfile(
     { user }: { user: User }
@@ -311,24 +654,34 @@ export default class MicroBetConcept {
     successfulBets: number;
     failedBets: number;
     pendingBets: number;
+    byType: Record<BetType, BetStats>;
   } | { error: string }> {
     const profile = await this.users.findOne({ _id: user });
     if (!profile) return { error: "User profile not found" };
 
-    const [totalBets, successfulBets, failedBets, pendingBets] = await Promise.all([
-      this.bets.countDocuments({ user }),
-      this.bets.countDocuments({ user, success: true }),
-      this.bets.countDocuments({ user, success: false }),
-      this.bets.countDocuments({ user, success: { $exists: false } })
-    ]);
+    const bets = await this.bets.find({ user }, { projection: { type: 1, success: 1 } }).toArray();
+
+    const byType = Object.fromEntries(
+      BET_TYPES.map((type) => [type, { totalBets: 0, successfulBets: 0, failedBets: 0, pendingBets: 0 }]),
+    ) as Record<BetType, BetStats>;
+    for (const bet of bets) {
+      const stats = byType[bet.type ?? "start_by"];
+      stats.totalBets++;
+      if (bet.success === true) stats.successfulBets++;
+      else if (bet.success === false) stats.failedBets++;
+      else stats.pendingBets++;
+    }
+    const totals = Object.values(byType);
+    const sum = (key: keyof BetStats) => totals.reduce((total, stats) => total + stats[key], 0);
 
     return {
       points: profile.points,
       streak: profile.streak,
-      totalBets,
-      successfulBets,
-      failedBets,
-      pendingBets
+      totalBets: sum("totalBets"),
+      successfulBets: sum("successfulBets"),
+      failedBets: sum("failedBets"),
+      pendingBets: sum("pendingBets"),
+      byType,
     };
   }
 
@@ -377,45 +730,201 @@ export default class MicroBetConcept {
   }
 
   /**
-   * Calculates the reward amount for a successful bet.
-   * @effects Returns the computed reward based on the wager, user's streak, and timing bonus.
-   *          The timing bonus rewards earlier bet deadlines relative to the task due date.
+   * Retrieves the user's points ledger.
+   * @requires The user must have a betting profile.
+   * @effects Returns up to `limit` of the user's ledger entries, newest first,
+   *          optionally only those for one bet.
    */
-  private calculateReward(
-    wager: number, 
-    streak: number,
-    betDeadline: Date,
-    taskDueDate?: Date
-  ): number {
-    const STREAK_MULTIPLIER = 0.15;
-    const TIME_BONUS_MULTIPLIER = 0.25; // Maximum bonus from early start
-    const MAX_TIME_BONUS_DAYS = 14; // Cap at 2 weeks for maximum bonus
-    const DEFAULT_TIME_BONUS = 0.3; // 30% of max bonus as fallback
-    
-    // Calculate streak bonus
-    const streakBonus = Math.log(Math.log(streak + Math.E));
-    
-    // Calculate time bonus
-    let timeBonus = 0;
-    if (taskDueDate) {
-      // Calculate days between bet deadline and task due date
-      const timeGapMs = taskDueDate.getTime() - betDeadline.getTime();
-      const timeGapDays = timeGapMs / (1000 * 60 * 60 * 24);
-      
-      // Cap at MAX_TIME_BONUS_DAYS to prevent farming
-      const effectiveGap = Math.min(Math.max(timeGapDays, 0), MAX_TIME_BONUS_DAYS);
-      
-      // Normalize to 0-1 range and apply multiplier
-      timeBonus = (effectiveGap / MAX_TIME_BONUS_DAYS) * TIME_BONUS_MULTIPLIER;
-    } else {
-      // Fallback: give a small default bonus when no due date is provided
-      timeBonus = TIME_BONUS_MULTIPLIER * DEFAULT_TIME_BONUS;
+  public async getLedger(
+    { user, bet, limit = 50 }: { user: User; bet?: Bet | null; limit?: number }
+  ): Promise<{ entries: LedgerEntryDoc[] } | { error: string }> {
+    const userProfile = await this.users.findOne({ _id: user });
+    if (!userProfile) return { error: "User profile not found" };
+
+    const entries = await this.ledger
+      .find(bet ? { user, bet } : { user })
+      .sort({ at: -1, _id: -1 })
+      .limit(limit)
+      .toArray();
+
+    return { entries };
+  }
+
+  /**
+   * Recomputes the user's balances from the ledger and compares them with the stored ones.
+   * @requires The user must have a betting profile.
+   * @effects Returns the stored points and the points held on open bets, the same balances
+   *          recomputed from the ledger, and whether they agree. Drift is logged.
+   *          A profile that has no ledger yet has it opened with its current balances.
+   */
+  public async reconcileLedger(
+    { user }: { user: User }
+  ): Promise<{
+    points: number;
+    ledgerPoints: number;
+    escrow: number;
+    ledgerEscrow: number;
+    consistent: boolean;
+  } | { error: string }> {
+    const userProfile = await this.users.findOne({ _id: user });
+    if (!userProfile) return { error: "User profile not found" };
+
+    if (!(await this.ledger.findOne({ user }))) {
+      await this.openLedger(user, userProfile.points, await this.openWagers(user));
     }
-    
-    // Combine all multipliers
-    const totalMultiplier = 1 + STREAK_MULTIPLIER * streakBonus + timeBonus;
-    const reward = wager * totalMultiplier;
-    
-    return Math.round(reward);
+
+    const [ledgerPoints, ledgerEscrow] = await Promise.all([
+      this.ledgerBalance(user, "points"),
+      this.ledgerBalance(user, "escrow"),
+    ]);
+    const escrow = await this.openWagers(user);
+
+    const consistent = ledgerPoints === userProfile.points && ledgerEscrow === escrow;
+    if (!consistent) {
+      console.warn(
+        `[MicroBet] Ledger drift for user ${user}: points ${userProfile.points} (ledger ${ledgerPoints}), ` +
+          `escrow ${escrow} (ledger ${ledgerEscrow})`,
+      );
+    }
+
+    return { points: userProfile.points, ledgerPoints, escrow, ledgerEscrow, consistent };
   }
-}
\ No newline at end of file
+
+  /**
+   * Previews what a hypothetical bet would pay out if it succeeded, under each reward policy.
+   * @requires The user must have a betting profile. The bet must be one the user could place:
+   *           a positive whole wager and a future deadline, before the task due date if provided.
+   * @effects Returns the payout under every policy, given the user's current streak,
+   *          and which policy would apply to the user.
+   */
+  public async simulateReward(
+    { user, wager, deadline, taskDueDate }: { user: User; wager: number; deadline: Date; taskDueDate?: Date | null },
+  ): Promise<{ policy: string; payouts: { policy: string; reward: number }[] } | { error: string }> {
+    const invalid = validateNewBet({ wager, deadline, taskDueDate });
+    if (invalid) return { error: invalid };
+
+    const userProfile = await this.users.findOne({ _id: user });
+    if (!userProfile) return { error: "User profile not found" };
+
+    const input = { wager, streak: userProfile.streak + 1, deadline, taskDueDate: taskDueDate ?? undefined };
+    const payouts = Object.values(REWARD_POLICIES).map((policy) => ({
+      policy: rewardPolicyId(policy),
+      reward: policy.calculate(input),
+    }));
+
+    return { policy: rewardPolicyId(await this.rewardPolicyFor(user)), payouts };
+  }
+
+  /**
+   * Selects the reward policy for the user's cohort.
+   * @effects Returns the configured policy for users with as many resolved bets as the user.
+   */
+  private async rewardPolicyFor(user: User): Promise<RewardPolicy> {
+    const resolvedBets = await this.bets.countDocuments({ user, success: { $exists: true } });
+    return selectRewardPolicy(rewardCohort(resolvedBets));
+  }
+
+  /**
+   * Marks an unresolved bet as failed, resetting the user's streak and settling the wager, in one transaction.
+   * @effects Reports the failure, or that the bet was resolved in the meantime.
+   *          If the transaction fails, nothing is changed and an error is returned.
+   */
+  private async failBet(
+    betDoc: BetDoc,
+    resolution: "expired" | "forfeited",
+    points: number,
+  ): Promise<{ status: "failed" } | { status: "already_resolved" } | { error: string }> {
+    try {
+      return await withTransaction(this.db, async (session) => {
+        const marked = await this.bets.updateOne(
+          { _id: betDoc._id, success: { $exists: false } },
+          { $set: { success: false, resolution, resolvedAt: new Date() } },
+          { session },
+        );
+        if (marked.modifiedCount === 0) {
+          await session.abortTransaction();
+          return { status: "already_resolved" as const };
+        }
+
+        const reset = await this.users.findOneAndUpdate(
+          { _id: betDoc.user },
+          { $set: { streak: 0 } },
+          { returnDocument: "after", session },
+        );
+        await this.recordLedgerEntry(session, {
+          user: betDoc.user, reason: "wager_settled", from: "escrow", to: "house", amount: betDoc.wager,
+          bet: betDoc._id, task: betDoc.task, balance: reset?.points ?? points,
+        });
+
+        return { status: "failed" as const };
+      });
+    } catch (_err) {
+      return { error: "Failed to resolve bet" };
+    }
+  }
+
+  /**
+   * Appends an entry to the user's ledger.
+   * A user's first entry other than their initial grant opens the ledger with the
+   * balances they had before it, so profiles created before the ledger reconcile.
+   * @effects Stores the entry with the user's resulting points.
+   */
+  private async recordLedgerEntry(
+    session: ClientSession,
+    entry: Omit<LedgerEntryDoc, "_id" | "at">,
+  ): Promise<void> {
+    if (entry.reason !== "initial_grant" && !(await this.ledger.findOne({ user: entry.user }, { session }))) {
+      const escrowChange = (entry.to === "escrow" ? entry.amount : 0) - (entry.from === "escrow" ? entry.amount : 0);
+      const pointsChange = (entry.to === "points" ? entry.amount : 0) - (entry.from === "points" ? entry.amount : 0);
+      await this.openLedger(
+        entry.user,
+        entry.balance - pointsChange,
+        await this.openWagers(entry.user, session) - escrowChange,
+        session,
+      );
+    }
+
+    await this.ledger.insertOne({ _id: freshID(), ...entry, at: new Date() }, { session });
+  }
+
+  /**
+   * Records a user's existing points and open wagers as granted by the house.
+   * @effects Stores an opening entry for each non-zero balance.
+   */
+  private async openLedger(user: User, points: number, escrow: number, session?: ClientSession): Promise<void> {
+    const at = new Date();
+    const opening: LedgerEntryDoc[] = [];
+    if (points > 0) {
+      opening.push({
+        _id: freshID(), user, reason: "opening_balance", from: "house", to: "points",
+        amount: points, balance: points, at,
+      });
+    }
+    if (escrow > 0) {
+      opening.push({
+        _id: freshID(), user, reason: "opening_balance", from: "house", to: "escrow",
+        amount: escrow, balance: points, at,
+      });
+    }
+    if (opening.length > 0) await this.ledger.insertMany(opening, { session });
+  }
+
+  /**
+   * Sums the points the ledger has moved into an account, less those moved out.
+   */
+  private async ledgerBalance(user: User, account: LedgerAccount): Promise<number> {
+    const entries = await this.ledger.find({ user, $or: [{ to: account }, { from: account }] }).toArray();
+    return entries.reduce(
+      (total, entry) => total + (entry.to === account ? entry.amount : 0) - (entry.from === account ? entry.amount : 0),
+      0,
+    );
+  }
+
+  /**
+   * Sums the wagers on the user's unresolved bets.
+   */
+  private async openWagers(user: User, session?: ClientSession): Promise<number> {
+    const bets = await this.bets.find({ user, success: { $exists: false } }, { session }).toArray();
+    return bets.reduce((total, bet) => total + bet.wager, 0);
+  }
+}
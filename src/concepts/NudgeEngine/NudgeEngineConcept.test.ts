@@ -631,5 +631,26 @@ Deno.test("NudgeEngine Concept - Operational Principle & Scenarios", async (t) =
     assertExists(lastTimestamp, "Last timestamp should exist.");
   });
 
+  await t.step("Query: searchNudges matches message text for the user only", async () => {
+    const searcher = "user:Searcher" as ID;
+    const stranger = "user:Stranger" as ID;
+    const now = new Date();
+
+    // Insert triggered nudges directly to avoid depending on generated messages
+    await nudgeEngine.nudges.insertMany([
+      { _id: "nudge:search1" as ID, user: searcher, task: "task:s1" as ID, deliveryTime: now, triggeredAt: now, message: "Five minutes of outlining will get the essay moving." },
+      { _id: "nudge:search2" as ID, user: searcher, task: "task:s2" as ID, deliveryTime: now, triggeredAt: now, message: "A short walk before studying can help." },
+      { _id: "nudge:search3" as ID, user: stranger, task: "task:s3" as ID, deliveryTime: now, triggeredAt: now, message: "Your essay is waiting." },
+    ]);
+
+    const result = await nudgeEngine.searchNudges({ user: searcher, query: "essay" });
+    if ("error" in result) throw new Error(result.error);
+    assertEquals(result.nudges.map((n) => n._id), ["nudge:search1"], "Only the user's matching nudge should be found.");
+    assertEquals(result.nudges[0].score > 0, true, "Hits should carry a text search score.");
+
+    const empty = await nudgeEngine.searchNudges({ user: searcher, query: "  " });
+    assertEquals((empty as { error: string }).error, "Search query cannot be empty");
+  });
+
   await client.close();
 });
\ No newline at end of file
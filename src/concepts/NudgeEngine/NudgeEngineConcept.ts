@@ -57,6 +57,10 @@ export default class NudgeEngineConcept {
     this.nudges.createIndex({ user: 1, triggeredAt: 1 }).catch((err) => {
       console.error("Failed to create triggeredAt index:", err);
     });
+
+    this.nudges.createIndex({ message: "text" }, { name: "NudgeMessageSearchIndex" }).catch((err) => {
+      console.error("Failed to create message text index:", err);
+    });
   }
 
   /**
@@ -236,6 +240,27 @@ export default class NudgeEngineConcept {
     return { nudges };
   }
 
+  /**
+   * Searches the messages of a user's triggered nudges.
+   * @requires The query must not be empty.
+   * @effects Returns up to `limit` of the user's nudges whose message matches the query,
+   *          with their text search scores, best match first.
+   */
+  public async searchNudges(
+    { user, query, limit = 20 }: { user: User; query: string; limit?: number }
+  ): Promise<{ nudges: (NudgeDoc & { score: number })[] } | { error: string }> {
+    if (!query?.trim()) return { error: "Search query cannot be empty" };
+
+    const nudges = await this.nudges
+      .find(
+        { user, $text: { $search: query } },
+        { projection: { score: { $meta: "textScore" } }, sort: { score: { $meta: "textScore" } } },
+      )
+      .limit(limit)
+      .toArray();
+    return { nudges: nudges as (NudgeDoc & { score: number })[] };
+  }
+
   /**
    * Retrieves all ready-to-deliver nudges for a user.
    * @effects Returns nudges whose delivery time has arrived and are not yet triggered.
@@ -0,0 +1,104 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import QuickAddConcept from "./QuickAddConcept.ts";
+import { ID } from "@utils/types.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+Deno.test("QuickAdd Concept - Operational Principle & Scenarios", async (t) => {
+  const [db, client] = await testDb();
+  const quickAdd = new QuickAddConcept(db);
+  const user = "user:Alice" as ID;
+
+  // Answers every prompt with a fixed reply instead of calling Gemini
+  const replyWith = (reply: string | Error) => {
+    quickAdd.llm.executeLLM = () => reply instanceof Error ? Promise.reject(reply) : Promise.resolve(reply);
+  };
+
+  await t.step("Principle: User types a task with a due date and a bet, checks the preview, and commits it", async () => {
+    // 1. The LLM reads the text
+    const due = new Date(Date.now() + 2 * DAY_MS);
+    replyWith("```json\n" + JSON.stringify({
+      title: "Finish lit review",
+      description: null,
+      dueDate: due.toISOString(),
+      wager: 20,
+      betDeadline: null,
+    }) + "\n```");
+    const preview = await quickAdd.previewQuickAdd({ user, text: "finish lit review in 2 days, bet 20 points" });
+    if ("error" in preview) throw new Error(preview.error);
+    assertEquals(preview.source, "llm");
+    assertEquals(preview.title, "Finish lit review");
+    assertEquals(preview.dueDate, due);
+    assertEquals(preview.wager, 20);
+    assertEquals(preview.problems, []);
+
+    // 2. The bet deadline is halfway to the due date
+    const halfway = preview.deadline!.getTime() - Date.now();
+    assertEquals(halfway > 0.9 * DAY_MS && halfway <= DAY_MS, true);
+
+    // 3. Committing hands back the task and bet, once
+    const committed = await quickAdd.commitQuickAdd({ user, draft: preview.draft });
+    if ("error" in committed) throw new Error(committed.error);
+    assertEquals(committed.title, "Finish lit review");
+    assertEquals(committed.wager, 20);
+    const again = await quickAdd.commitQuickAdd({ user, draft: preview.draft });
+    assertEquals((again as { error: string }).error, "Draft has already been committed");
+  });
+
+  await t.step("Action: fixed rules read the text when the LLM fails or answers in the wrong shape", async () => {
+    replyWith(new Error("Gemini is unavailable"));
+    const failed = await quickAdd.previewQuickAdd({
+      user,
+      text: "finish lit review by Friday 5pm, bet 20 points",
+      utcOffsetMinutes: -240,
+    });
+    if ("error" in failed) throw new Error(failed.error);
+    assertEquals(failed.source, "rules");
+    assertEquals(failed.title, "finish lit review");
+    assertEquals(failed.wager, 20);
+    // 5pm at UTC-4 is 21:00 UTC, on a Friday
+    assertEquals(failed.dueDate!.getUTCHours(), 21);
+    assertEquals(new Date(failed.dueDate!.getTime() - 4 * 60 * 60 * 1000).getUTCDay(), 5);
+
+    replyWith("Sure! Your task is due Friday.");
+    const malformed = await quickAdd.previewQuickAdd({ user, text: "call the dentist tomorrow" });
+    if ("error" in malformed) throw new Error(malformed.error);
+    assertEquals(malformed.source, "rules");
+    assertEquals(malformed.title, "call the dentist");
+    assertEquals(malformed.wager, null);
+    assertEquals(malformed.deadline, null);
+  });
+
+  await t.step("Action: drafts with problems are previewed but cannot be committed", async () => {
+    replyWith(new Error("Gemini is unavailable"));
+    const noDate = await quickAdd.previewQuickAdd({ user, text: "water the plants, bet 5" });
+    if ("error" in noDate) throw new Error(noDate.error);
+    assertEquals(noDate.problems, ["A bet needs a due date or a deadline"]);
+    const blocked = await quickAdd.commitQuickAdd({ user, draft: noDate.draft });
+    assertEquals((blocked as { error: string }).error, "A bet needs a due date or a deadline");
+
+    replyWith(JSON.stringify({ title: "Old task", dueDate: "2020-01-01T00:00:00Z", wager: 0 }));
+    const invalid = await quickAdd.previewQuickAdd({ user, text: "old task, bet 0" });
+    if ("error" in invalid) throw new Error(invalid.error);
+    assertEquals(invalid.problems, ["Due date cannot be in the past", "A bet needs a due date or a deadline"]);
+
+    const empty = await quickAdd.previewQuickAdd({ user, text: "   " });
+    assertEquals((empty as { error: string }).error, "Text cannot be empty");
+  });
+
+  await t.step("Action: drafts can be discarded and are deleted with their user", async () => {
+    replyWith(new Error("Gemini is unavailable"));
+    const preview = await quickAdd.previewQuickAdd({ user, text: "read chapter 3 tonight" });
+    if ("error" in preview) throw new Error(preview.error);
+
+    await quickAdd.discardQuickAdd({ user, draft: preview.draft });
+    const gone = await quickAdd.commitQuickAdd({ user, draft: preview.draft });
+    assertEquals((gone as { error: string }).error, "Draft does not exist");
+
+    await quickAdd.deleteUserDrafts({ user });
+    assertEquals(await quickAdd.drafts.countDocuments({ user }), 0);
+  });
+
+  await client.close();
+});
@@ -0,0 +1,329 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+import { GeminiLLM } from '@utils/gemini-llm.ts';
+import { parseDueDate } from "@utils/natural-dates.ts";
+import { validateNewBet, validateNewTask } from "@utils/validation.ts";
+
+const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
+if (!GEMINI_API_KEY) {
+  throw new Error("GEMINI_API_KEY is not set in the environment");
+}
+
+// Collection prefix to avoid name clashes
+const PREFIX = "QuickAdd" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+
+// Define the types for our entries based on the concept state
+type Draft = ID;
+export type DraftSource = "llm" | "rules";
+
+const MS_PER_MINUTE = 60 * 1000;
+const MAX_TEXT_LENGTH = 500;
+// Relative dates such as "in 2 hours" go stale, so previews must be confirmed soon
+const DRAFT_LIFETIME_MINUTES = 30;
+
+const BET_PATTERN = /\b(?:and\s+)?(?:bet|wager|stake)\s+(\d+)(?:\s*(?:points?|pts?))?\b/i;
+// Connectors left at either end once the date and bet phrases are removed
+const DANGLING_WORDS = /^(?:[\s,;:.\-–]|\b(?:and|by|due)\b)+|(?:[\s,;:.\-–]|\b(?:and|by|due)\b)+$/gi;
+
+/**
+ * a set of Drafts with
+ *   a user User
+ *   a text String (what the user typed)
+ *   a source String ("llm" or "rules", whichever parsed the text)
+ *   a title String
+ *   a description String
+ *   a dueDate Date (optional)
+ *   a wager Number (optional, points to bet on the task)
+ *   a deadline Date (optional, the bet's deadline)
+ *   a problems String[] (reasons the draft cannot be committed)
+ *   a status String ("previewed" or "committed")
+ *   a createdAt Date
+ */
+interface DraftDoc {
+  _id: Draft;
+  user: User;
+  text: string;
+  source: DraftSource;
+  title: string;
+  description: string;
+  dueDate?: Date;
+  wager?: number;
+  deadline?: Date;
+  problems: string[];
+  status: "previewed" | "committed";
+  createdAt: Date;
+}
+
+type ParsedFields = Pick<DraftDoc, "title" | "description" | "dueDate" | "wager" | "deadline">;
+
+function readDate(value: unknown): Date | undefined | null {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Reads the LLM's JSON answer, returning null if it does not have the expected shape.
+ */
+function readLLMFields(response: string): ParsedFields | null {
+  const json = response.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object" || typeof data.title !== "string") return null;
+
+  const dueDate = readDate(data.dueDate);
+  const deadline = readDate(data.betDeadline);
+  const wager = data.wager ?? undefined;
+  if (dueDate === null || deadline === null) return null;
+  if (wager !== undefined && typeof wager !== "number") return null;
+  if (data.description !== undefined && data.description !== null && typeof data.description !== "string") {
+    return null;
+  }
+
+  return {
+    title: data.title.trim(),
+    description: ((data.description as string | null) ?? "").trim(),
+    dueDate,
+    wager,
+    deadline,
+  };
+}
+
+/**
+ * Reads the text with fixed rules: a bet phrase such as "bet 20 points",
+ * a due date phrase such as "by Friday 5pm", and the rest as the title.
+ */
+function readRuleFields(text: string, now: Date, utcOffsetMinutes: number): ParsedFields {
+  let rest = text;
+  let wager: number | undefined;
+  const bet = rest.match(BET_PATTERN);
+  if (bet) {
+    wager = Number(bet[1]);
+    rest = rest.slice(0, bet.index!) + " " + rest.slice(bet.index! + bet[0].length);
+  }
+
+  const due = parseDueDate(rest, now, utcOffsetMinutes);
+  if (due) rest = due.rest;
+
+  const title = rest.replace(/\s+/g, " ").replace(DANGLING_WORDS, "").trim();
+  return { title, description: "", dueDate: due?.dueDate, wager };
+}
+
+/**
+ * Fills in the bet deadline and lists what would stop the task or bet from being created.
+ */
+function checkFields(fields: ParsedFields, now: number): string[] {
+  const problems: string[] = [];
+  const taskProblem = validateNewTask({ title: fields.title, dueDate: fields.dueDate }, now);
+  if (taskProblem) problems.push(taskProblem);
+
+  if (fields.wager !== undefined) {
+    // Bets default to a deadline halfway to the due date
+    if (!fields.deadline && fields.dueDate && fields.dueDate.getTime() > now) {
+      fields.deadline = new Date(now + (fields.dueDate.getTime() - now) / 2);
+    }
+    if (!fields.deadline) {
+      problems.push("A bet needs a due date or a deadline");
+    } else {
+      const betProblem = validateNewBet(
+        { wager: fields.wager, deadline: fields.deadline, taskDueDate: fields.dueDate },
+        now,
+      );
+      if (betProblem) problems.push(betProblem);
+    }
+  } else {
+    delete fields.deadline;
+  }
+  return problems;
+}
+
+/**
+ * @concept QuickAdd
+ * @purpose To let users add a task, its due date, and a bet on it by typing one sentence, and confirm what was understood before anything is created.
+ */
+export default class QuickAddConcept {
+  drafts: Collection<DraftDoc>;
+  llm: GeminiLLM;
+
+  constructor(private readonly db: Db) {
+    this.drafts = this.db.collection(PREFIX + "drafts");
+    this.llm = new GeminiLLM(GEMINI_API_KEY!);
+
+    this.drafts.createIndex({ createdAt: 1 }, { expireAfterSeconds: DRAFT_LIFETIME_MINUTES * 60 }).catch((err) => {
+      console.error("Failed to create drafts expiry index:", err);
+    });
+  }
+
+  /**
+   * Parses free text into a task and an optional bet, and stages them for confirmation.
+   * The LLM reads the text first; if it is unavailable or its answer is malformed,
+   * fixed rules read the due date and bet instead.
+   * @requires The text must not be empty or longer than 500 characters.
+   *           The UTC offset must be between -14 and +14 hours; null means UTC.
+   * @effects Stores a previewed draft and returns it, with the problems that would stop
+   *          the task or bet from being created under TaskManager's and MicroBet's rules.
+   *          The bet deadline defaults to halfway to the due date.
+   */
+  public async previewQuickAdd(
+    { user, text, utcOffsetMinutes }: { user: User; text: string; utcOffsetMinutes?: number | null },
+  ): Promise<{
+    draft: Draft;
+    source: DraftSource;
+    title: string;
+    description: string;
+    dueDate: Date | null;
+    wager: number | null;
+    deadline: Date | null;
+    problems: string[];
+  } | { error: string }> {
+    const input = (text ?? "").trim();
+    if (!input) return { error: "Text cannot be empty" };
+    if (input.length > MAX_TEXT_LENGTH) return { error: `Text cannot be longer than ${MAX_TEXT_LENGTH} characters` };
+    const offset = utcOffsetMinutes ?? 0;
+    if (!Number.isInteger(offset) || Math.abs(offset) > 14 * 60) {
+      return { error: "UTC offset must be between -840 and 840 minutes" };
+    }
+
+    const now = new Date();
+    let source: DraftSource = "llm";
+    let fields: ParsedFields | null = null;
+    try {
+      const response = await this.llm.executeLLM(this.buildParsePrompt(input, now, offset));
+      fields = readLLMFields(response);
+    } catch (err) {
+      console.error("Quick-add LLM error:", err);
+    }
+    if (!fields) {
+      source = "rules";
+      fields = readRuleFields(input, now, offset);
+    }
+
+    const problems = checkFields(fields, now.getTime());
+    const draft: DraftDoc = {
+      _id: freshID(),
+      user,
+      text: input,
+      source,
+      ...fields,
+      problems,
+      status: "previewed",
+      createdAt: now,
+    };
+    if (draft.dueDate === undefined) delete draft.dueDate;
+    if (draft.wager === undefined) delete draft.wager;
+    if (draft.deadline === undefined) delete draft.deadline;
+    await this.drafts.insertOne(draft);
+
+    return {
+      draft: draft._id,
+      source,
+      title: draft.title,
+      description: draft.description,
+      dueDate: draft.dueDate ?? null,
+      wager: draft.wager ?? null,
+      deadline: draft.deadline ?? null,
+      problems,
+    };
+  }
+
+  /**
+   * Claims a previewed draft for creating its task, so it cannot be committed twice.
+   * @requires The draft must belong to the user, have been previewed in the last 30 minutes,
+   *           not have been committed, and have no problems.
+   * @effects Marks the draft as committed and returns the task's fields and the bet's
+   *          wager and deadline (null when there is no bet).
+   */
+  public async commitQuickAdd(
+    { user, draft }: { user: User; draft: Draft },
+  ): Promise<{
+    title: string;
+    description: string;
+    dueDate: Date | null;
+    wager: number | null;
+    deadline: Date | null;
+  } | { error: string }> {
+    const draftDoc = await this.drafts.findOne({ _id: draft, user });
+    if (!draftDoc) return { error: "Draft does not exist" };
+    if (draftDoc.status === "committed") return { error: "Draft has already been committed" };
+    if (draftDoc.createdAt.getTime() < Date.now() - DRAFT_LIFETIME_MINUTES * MS_PER_MINUTE) {
+      return { error: "Draft has expired" };
+    }
+    if (draftDoc.problems.length > 0) return { error: draftDoc.problems[0] };
+
+    const claimed = await this.drafts.updateOne({ _id: draft, status: "previewed" }, { $set: { status: "committed" } });
+    if (claimed.modifiedCount === 0) return { error: "Draft has already been committed" };
+
+    return {
+      title: draftDoc.title,
+      description: draftDoc.description,
+      dueDate: draftDoc.dueDate ?? null,
+      wager: draftDoc.wager ?? null,
+      deadline: draftDoc.deadline ?? null,
+    };
+  }
+
+  /**
+   * Discards a previewed draft that the user decided not to add.
+   * @requires The draft must belong to the user and not have been committed.
+   * @effects Deletes the draft.
+   */
+  public async discardQuickAdd(
+    { user, draft }: { user: User; draft: Draft },
+  ): Promise<Empty | { error: string }> {
+    const result = await this.drafts.deleteOne({ _id: draft, user, status: "previewed" });
+    if (result.deletedCount === 0) {
+      const existing = await this.drafts.findOne({ _id: draft, user });
+      if (!existing) return { error: "Draft does not exist" };
+      return { error: "Draft has already been committed" };
+    }
+    return {};
+  }
+
+  /**
+   * Deletes all drafts for a specific user.
+   * @effects Removes every draft of the given user.
+   */
+  public async deleteUserDrafts(
+    { user }: { user: User },
+  ): Promise<Empty> {
+    await this.drafts.deleteMany({ user });
+    return {};
+  }
+
+  /**
+   * Builds the prompt asking the LLM to turn the text into task and bet fields.
+   */
+  private buildParsePrompt(text: string, now: Date, utcOffsetMinutes: number): string {
+    const local = new Date(now.getTime() + utcOffsetMinutes * MS_PER_MINUTE);
+    const sign = utcOffsetMinutes < 0 ? "-" : "+";
+    const offset = Math.abs(utcOffsetMinutes);
+    const zone = `${sign}${String(Math.floor(offset / 60)).padStart(2, "0")}:${String(offset % 60).padStart(2, "0")}`;
+    const weekday = local.toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" });
+
+    return `
+You turn a short note into a to-do item for a productivity app.
+The user's local time is ${local.toISOString().slice(0, 16)} (${weekday}), UTC offset ${zone}.
+
+Note: """${text}"""
+
+Reply with only a JSON object, no other text:
+{"title": string, "description": string | null, "dueDate": string | null, "wager": number | null, "betDeadline": string | null}
+
+Rules:
+- title: the task itself, without the due date or bet wording.
+- dueDate: when the task is due, as an ISO 8601 timestamp with the user's UTC offset. A day without a time means 23:59 that day. Null if no due date is mentioned.
+- wager: the whole number of points the user wants to bet on finishing the task, or null if no bet is mentioned.
+- betDeadline: only if the note gives a separate deadline for the bet, as an ISO 8601 timestamp; otherwise null.
+- Do not invent details that are not in the note.
+`;
+  }
+}
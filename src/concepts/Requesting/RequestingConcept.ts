@@ -4,7 +4,11 @@ import { Collection, Db } from "npm:mongodb";
 import { freshID } from "@utils/database.ts";
 import { ID } from "@utils/types.ts";
 import { exclusions, inclusions } from "./passthrough.ts";
+import { withOptionalInputs } from "./optional-inputs.ts";
 import { createUnifiedEventStream } from "./sse-stream.ts";
+import { createCalendarFeedHandler } from "./calendar-feed.ts";
+import { startExpiredBetSweeper } from "./bet-sweeper.ts";
+import { startTrashPurger } from "./trash-purger.ts";
 import "jsr:@std/dotenv/load";
 
 /**
@@ -268,10 +272,11 @@ export function startRequestingServer(
       const actionPath = c.req.path.substring(REQUESTING_BASE_URL.length);
 
       // Combine the path from the URL with the JSON body to form the action's input.
-      const inputs = {
+      // Optional inputs the client left out are passed as null.
+      const inputs = withOptionalInputs({
         ...body,
         path: actionPath,
-      };
+      });
 
       console.log(`[Requesting] Received request for path: ${inputs.path}`);
 
@@ -304,6 +309,9 @@ export function startRequestingServer(
    * Provides real-time notifications for multiple event types via SSE:
    * - Nudge notifications (when nudges become ready)
    * - Bet events (when bets are resolved or expire)
+   * - Focus session events (when Pomodoro sessions end)
+   * - Due date events (when tasks become due soon or overdue)
+   * - Partner events (when a task shared with the user is started or its bet resolves)
    * 
    * Clients connect to this endpoint and receive events as they occur.
    */
@@ -313,17 +321,60 @@ export function startRequestingServer(
     TaskManager: concepts.TaskManager,
     EmotionLogger: concepts.EmotionLogger,
     MicroBet: concepts.MicroBet,
+    FocusSession: concepts.FocusSession,
+    Accountability: concepts.Accountability,
   });
 
   // Register unified event stream endpoint
   app.get(`${REQUESTING_BASE_URL}/events/stream`, unifiedEventStream);
 
+  /**
+   * CALENDAR FEED
+   *
+   * Serves a user's tasks as an iCalendar (.ics) feed. The URL carries the
+   * user's secret feed token, obtained via /CalendarFeed/getFeedToken.
+   */
+  const calendarFeed = createCalendarFeedHandler({
+    CalendarFeed: concepts.CalendarFeed,
+    TaskManager: concepts.TaskManager,
+  });
+
+  app.get(`${REQUESTING_BASE_URL}/calendar/:token`, calendarFeed);
+
+  /**
+   * EXPIRED BET SWEEPER
+   *
+   * Resolves expired bets for all users in the background, so bets expire even
+   * for users who never open the event stream. Instances share the work through
+   * a lease, so only one sweeps at a time.
+   */
+  startExpiredBetSweeper({
+    Lease: concepts.Lease,
+    MicroBet: concepts.MicroBet,
+    TaskManager: concepts.TaskManager,
+  });
+
+  /**
+   * TRASH PURGER
+   *
+   * Permanently deletes tasks that outlived the trash retention window for all
+   * users in the background, along with their related records. Instances share
+   * the work through a lease, like the expired bet sweeper.
+   */
+  startTrashPurger({
+    Lease: concepts.Lease,
+    TaskManager: concepts.TaskManager,
+  });
+
   console.log(
     `\n🚀 Requesting server listening for POST requests at base path of ${routePath}`,
   );
   console.log(
     `📡 Unified SSE event stream available at GET ${REQUESTING_BASE_URL}/events/stream?accessToken=<token>`,
   );
+  console.log(
+    `📅 Calendar feed available at GET ${REQUESTING_BASE_URL}/calendar/<feedToken>.ics`,
+  );
 
   Deno.serve({ port: PORT }, app.fetch);
 }
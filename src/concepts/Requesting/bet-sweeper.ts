@@ -0,0 +1,101 @@
+import { freshID } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+
+// Sweeper Configuration Constants
+const SWEEP_INTERVAL_MS = parseInt(Deno.env.get("BET_SWEEP_INTERVAL") ?? "60000", 10);
+const SWEEP_LEASE_NAME = "MicroBet.expiredBetSweeper";
+// A holder that misses a few sweeps loses the lease to another instance
+const SWEEP_LEASE_SECONDS = Math.ceil((SWEEP_INTERVAL_MS * 3) / 1000);
+const SWEEP_BATCH_LIMIT = 100;
+
+// Type definitions for concept instances (using any for now, can be improved later)
+// deno-lint-ignore no-explicit-any
+type ConceptInstance = any;
+
+interface ConceptInstances {
+  Lease: ConceptInstance;
+  MicroBet: ConceptInstance;
+  TaskManager: ConceptInstance;
+}
+
+interface ExpiredBet {
+  _id: string;
+  user: string;
+  task: string;
+}
+
+/**
+ * Starts resolving expired bets for all users in the background, whether or not
+ * they have an event stream open.
+ * Every server instance runs the sweeper, but only the one holding the sweeper's
+ * lease resolves bets; if it stops, another instance takes over once the lease
+ * lapses. Bets resolved here are sent as "bet_expired" events by the SSE stream
+ * the next time their user connects. Bets on tasks in the trash are held back,
+ * as they are by the stream.
+ *
+ * @param concepts The concept instances required for sweeping
+ * @returns A function that stops the sweeper
+ */
+export function startExpiredBetSweeper(
+  concepts: ConceptInstances,
+): () => void {
+  const { Lease, MicroBet, TaskManager } = concepts;
+  const holder = freshID(); // Identifies this server instance
+  let sweeping = false;
+
+  const sweep = async () => {
+    // Skip a tick if the previous sweep is still running
+    if (sweeping) return;
+    sweeping = true;
+
+    try {
+      const lease = await Lease.acquireLease({
+        name: SWEEP_LEASE_NAME,
+        holder,
+        seconds: SWEEP_LEASE_SECONDS,
+      });
+      if ("error" in lease) return;
+
+      // Page through every expired bet, so bets held back on trashed tasks
+      // never crowd the rest out of a batch
+      let resolved = 0;
+      let cursor: string | null = null;
+      do {
+        const page = await MicroBet.getAllExpiredBets({
+          cursor,
+          limit: SWEEP_BATCH_LIMIT,
+        }) as { bets: ExpiredBet[]; nextCursor: string | null } | { error: string };
+        if ("error" in page) {
+          console.error("[Sweeper] Failed to list expired bets:", page.error);
+          break;
+        }
+
+        for (const bet of page.bets) {
+          const taskResult = await TaskManager.getTask({ user: bet.user as ID, task: bet.task as ID });
+          if (!("error" in taskResult) && taskResult.deletedAt) continue;
+
+          const result = await MicroBet.resolveExpiredBet({ user: bet.user, task: bet.task });
+          if ("error" in result) {
+            console.error(`[Sweeper] Failed to resolve expired bet ${bet._id}:`, result.error);
+          } else if (result.status === "failed") {
+            resolved++;
+          }
+        }
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      if (resolved > 0) {
+        console.log(`[Sweeper] Resolved ${resolved} expired bets`);
+      }
+    } catch (error) {
+      console.error("[Sweeper] Error resolving expired bets:", error);
+    } finally {
+      sweeping = false;
+    }
+  };
+
+  sweep();
+  const interval = setInterval(sweep, SWEEP_INTERVAL_MS);
+
+  return () => clearInterval(interval);
+}
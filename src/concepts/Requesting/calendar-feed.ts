@@ -0,0 +1,78 @@
+import { buildCalendar, CalendarTask } from "@utils/ical.ts";
+import { ID } from "@utils/types.ts";
+
+// Feed Configuration Constants
+const FEED_PAGE_SIZE = 500;
+const FEED_CALENDAR_NAME = "Tasks";
+
+// Type definitions for concept instances (using any for now, can be improved later)
+// deno-lint-ignore no-explicit-any
+type ConceptInstance = any;
+
+interface ConceptInstances {
+  CalendarFeed: ConceptInstance;
+  TaskManager: ConceptInstance;
+}
+
+interface HonoContext {
+  req: {
+    param: (key: string) => string | undefined;
+  };
+  json: (data: unknown, status?: number) => Response;
+}
+
+/**
+ * Creates the handler for a user's iCalendar feed.
+ * The feed is addressed by the user's secret feed token rather than an access
+ * token, so calendar apps can subscribe to it without logging in.
+ *
+ * @param concepts The concept instances required to build the feed
+ * @returns A Hono handler function serving the feed as text/calendar
+ */
+export function createCalendarFeedHandler(
+  concepts: ConceptInstances,
+): (c: HonoContext) => Promise<Response> {
+  const { CalendarFeed, TaskManager } = concepts;
+
+  return async (c: HonoContext) => {
+    // Calendar apps often expect the URL to end in .ics
+    const token = (c.req.param("token") ?? "").replace(/\.ics$/, "");
+
+    try {
+      const feedResult = await CalendarFeed.getFeedUser({ token });
+      if ("error" in feedResult) {
+        return c.json({ error: feedResult.error }, 404);
+      }
+
+      // Page through every active task, so no task is left out of the feed
+      const tasks: CalendarTask[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await TaskManager.getTasks({
+          user: feedResult.user as ID,
+          cursor,
+          limit: FEED_PAGE_SIZE,
+          sortBy: "createdAt",
+          sortOrder: 1,
+        }) as { tasks: CalendarTask[]; nextCursor: string | null } | { error: string };
+        if ("error" in page) {
+          return c.json({ error: page.error }, 500);
+        }
+
+        tasks.push(...page.tasks);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      return new Response(buildCalendar(tasks, FEED_CALENDAR_NAME), {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": 'inline; filename="tasks.ics"',
+          "Cache-Control": "no-store",
+        },
+      });
+    } catch (e) {
+      console.error("Error building calendar feed:", e);
+      return c.json({ error: "An internal server error occurred." }, 500);
+    }
+  };
+}
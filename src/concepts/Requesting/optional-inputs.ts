@@ -0,0 +1,37 @@
+/**
+ * Request syncs match on every input they name, and an input left out of the
+ * request body does not match at all, so the request would time out.
+ *
+ * This file lists the optional inputs of each request path. Those left out of
+ * the body are passed to the syncs as null, which the syncs and concepts treat
+ * the same as an input left at its default. Add new inputs of existing paths
+ * here, so that clients sending the old shape keep working.
+ *
+ * optionalInputs = {"path": ["input", ...]}
+ */
+
+export const optionalInputs: Record<string, string[]> = {
+  // Filters added to the task list after its first release; the first page needs no cursor
+  "/TaskManager/getTasks": ["cursor", "project", "tags", "dueAfter", "dueBefore", "view"],
+  "/EmotionLogger/getEmotionLogs": ["cursor"],
+  // Bets left without a type are "start_by" bets, as before bet types
+  "/MicroBet/placeBet": ["type", "withinMinutes"],
+  // Bulk requests report missing inputs as validation errors instead of timing out
+  "/TaskManager/bulkComplete": ["tasks", "timeCompleted"],
+  "/TaskManager/bulkDelete": ["tasks"],
+  "/TaskManager/bulkReschedule": ["tasks", "dueDate"],
+  "/TaskManager/bulkSetTags": ["tasks", "tags"],
+  "/TaskManager/bulkMoveToProject": ["tasks", "project"],
+};
+
+/**
+ * Fills in the optional inputs left out of a request.
+ * @returns The inputs, with null for every optional input of the path that was not provided.
+ */
+export function withOptionalInputs<T extends { path: string; [key: string]: unknown }>(inputs: T): T {
+  const filled: { path: string; [key: string]: unknown } = { ...inputs };
+  for (const key of optionalInputs[inputs.path] ?? []) {
+    if (filled[key] === undefined) filled[key] = null;
+  }
+  return filled as T;
+}
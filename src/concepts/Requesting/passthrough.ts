@@ -45,13 +45,20 @@ export const exclusions: Array<string> = [
   "/api/UserAuthentication/logout",
   "/api/UserAuthentication/refreshAccessToken",
   "/api/UserAuthentication/getUserInfo",
+  "/api/UserAuthentication/getUserByUsername", // BACKEND-ONLY: used by partner invitation syncs
   "/api/UserAuthentication/changePassword",
   "/api/UserAuthentication/deleteAccount",
   "/api/UserAuthentication/hasActiveSession",
   "/api/UserAuthentication/getLastSeenNudgeTimestamp",
   "/api/UserAuthentication/getLastSeenBetTimestamp",
+  "/api/UserAuthentication/getLastSeenSessionTimestamp",
+  "/api/UserAuthentication/getLastSeenDueDateTimestamp",
+  "/api/UserAuthentication/getLastSeenPartnerTimestamp",
   "/api/UserAuthentication/updateLastSeenNudgeTimestamp",
   "/api/UserAuthentication/updateLastSeenBetTimestamp",
+  "/api/UserAuthentication/updateLastSeenSessionTimestamp",
+  "/api/UserAuthentication/updateLastSeenDueDateTimestamp",
+  "/api/UserAuthentication/updateLastSeenPartnerTimestamp",
 
   // TaskManager - All actions require user ownership verification
   "/api/TaskManager/createTask",
@@ -63,30 +70,89 @@ export const exclusions: Array<string> = [
   "/api/TaskManager/getTask",
   "/api/TaskManager/getTasks",
   "/api/TaskManager/getTaskStatus",
+  "/api/TaskManager/addSubtask",
+  "/api/TaskManager/reorderSubtasks",
+  "/api/TaskManager/markSubtaskStarted",
+  "/api/TaskManager/completeSubtask",
+  "/api/TaskManager/removeSubtask",
+  "/api/TaskManager/getSubtask",
+  "/api/TaskManager/getSubtaskProgress",
+  "/api/TaskManager/getTaskByTitle",
+  "/api/TaskManager/searchTasks", // BACKEND-ONLY: used by the /search syncs
+  "/api/TaskManager/pauseTask",
+  "/api/TaskManager/resumeTask",
+  "/api/TaskManager/reopenTask",
+  "/api/TaskManager/abandonTask",
+  "/api/TaskManager/getStatusHistory",
+  "/api/TaskManager/createSeries",
+  "/api/TaskManager/updateSeries",
+  "/api/TaskManager/stopSeries",
+  "/api/TaskManager/rewindSeries", // BACKEND-ONLY: triggered by undoing a completion
+  "/api/TaskManager/getSeries",
+  "/api/TaskManager/getUserSeries",
+  "/api/TaskManager/getNextInstance",
+  "/api/TaskManager/createProject",
+  "/api/TaskManager/updateProject",
+  "/api/TaskManager/deleteProject",
+  "/api/TaskManager/createTag",
+  "/api/TaskManager/updateTag",
+  "/api/TaskManager/deleteTag",
+  "/api/TaskManager/setTaskProject",
+  "/api/TaskManager/setTaskTags",
+  "/api/TaskManager/getProject",
+  "/api/TaskManager/getProjects",
+  "/api/TaskManager/getTag",
+  "/api/TaskManager/getTags",
+  "/api/TaskManager/addDependency",
+  "/api/TaskManager/removeDependency",
+  "/api/TaskManager/getBlockers",
+  "/api/TaskManager/getDependencyGraph",
+  "/api/TaskManager/setTaskPriority",
+  "/api/TaskManager/getNextBestTasks",
+  "/api/TaskManager/restoreTask",
+  "/api/TaskManager/purgeTask",
+  "/api/TaskManager/purgeExpiredTasks", // BACKEND-ONLY: triggered by the trash purger
+  "/api/TaskManager/getExpiredTrashOwners", // BACKEND-ONLY: used by the trash purger
+  "/api/TaskManager/checkDueDates", // BACKEND-ONLY: triggered by the SSE stream
+  "/api/TaskManager/getOverdueTasks",
+  "/api/TaskManager/getDueDateEvents", // BACKEND-ONLY: used by the SSE stream
+  "/api/TaskManager/archiveTask",
+  "/api/TaskManager/unarchiveTask",
 
   // MicroBet - All actions require user authorization
   "/api/MicroBet/initializeBettor",
   "/api/MicroBet/removeBettor",
   "/api/MicroBet/placeBet",
   "/api/MicroBet/cancelBet",
+  "/api/MicroBet/restoreBet", // BACKEND-ONLY: triggered by undo
+  "/api/MicroBet/reopenBet", // BACKEND-ONLY: triggered by undo
   "/api/MicroBet/resolveBet", // BACKEND-ONLY: triggered by syncs
+  "/api/MicroBet/startBetClock", // BACKEND-ONLY: triggered by AutoStartBetClockOnTaskStart sync
   "/api/MicroBet/resolveExpiredBet", // BACKEND-ONLY: triggered by scheduled automation
+  "/api/MicroBet/forfeitBet", // BACKEND-ONLY: triggered by AutoForfeitBetOnTaskAbandon sync
   "/api/MicroBet/getBet",
   "/api/MicroBet/getActiveBets",
   "/api/MicroBet/getExpiredBets",
+  "/api/MicroBet/getAllExpiredBets", // BACKEND-ONLY: used by the expired bet sweeper
   "/api/MicroBet/getRecentlyResolvedBets",
   "/api/MicroBet/getUserProfile",
   "/api/MicroBet/getRecentActivity",
+  "/api/MicroBet/getLedger",
+  "/api/MicroBet/reconcileLedger",
+  "/api/MicroBet/simulateReward",
 
   // EmotionLogger - All actions require user authorization
   "/api/EmotionLogger/logBefore",
   "/api/EmotionLogger/logAfter",
   "/api/EmotionLogger/deleteTaskLogs",
+  "/api/EmotionLogger/restoreLogs", // BACKEND-ONLY: triggered by undo
   "/api/EmotionLogger/deleteUserLogs",
   "/api/EmotionLogger/analyzeRecentEmotions",
   "/api/EmotionLogger/getEmotionsForTask",
   "/api/EmotionLogger/getEmotionLogs",
   "/api/EmotionLogger/getEmotionStats",
+  "/api/EmotionLogger/getLatestEmotion",
+  "/api/EmotionLogger/getRecentEmotions", // BACKEND-ONLY: used by nudges and task breakdowns
 
   // NudgeEngine - All actions require user authorization
   "/api/NudgeEngine/scheduleNudge", // BACKEND-ONLY: triggered automatically by AutoScheduleNudgeOnTaskCreateWithDueDate/AutoScheduleNudgeOnTaskCreateWithoutDueDate syncs
@@ -99,15 +165,116 @@ export const exclusions: Array<string> = [
   "/api/NudgeEngine/getReadyNudgesSince",
   "/api/NudgeEngine/getNewTriggeredNudges",
   "/api/NudgeEngine/getLastTriggeredTimestamp",
+  "/api/NudgeEngine/searchNudges", // BACKEND-ONLY: used by the /search syncs
+
+  // CalendarFeed - All actions require user authorization
+  "/api/CalendarFeed/getFeedToken",
+  "/api/CalendarFeed/rotateFeedToken",
+  "/api/CalendarFeed/getFeedUser", // BACKEND-ONLY: used by the calendar feed route
+  "/api/CalendarFeed/recordImport", // BACKEND-ONLY: called by the ImportCalendar sync
+  "/api/CalendarFeed/getImportedTask", // BACKEND-ONLY: called by the ImportCalendar sync
+  "/api/CalendarFeed/deleteUserFeeds",
+
+  // TaskImport - All actions require user authorization
+  "/api/TaskImport/previewImport",
+  "/api/TaskImport/beginCommit", // BACKEND-ONLY: claimed by the CommitImport syncs
+  "/api/TaskImport/finishCommit", // BACKEND-ONLY: called by the CommitImportResponse sync
+  "/api/TaskImport/discardImport",
+  "/api/TaskImport/getImport", // BACKEND-ONLY: previews and commits already return their rows
+  "/api/TaskImport/deleteUserImports",
+
+  // FocusSession - All actions require user authorization
+  "/api/FocusSession/getSettings",
+  "/api/FocusSession/updateSettings",
+  "/api/FocusSession/startSession",
+  "/api/FocusSession/pauseSession",
+  "/api/FocusSession/resumeSession",
+  "/api/FocusSession/stopSession",
+  "/api/FocusSession/completeElapsedSessions", // BACKEND-ONLY: triggered by the SSE stream
+  "/api/FocusSession/getActiveSession",
+  "/api/FocusSession/getNextSession",
+  "/api/FocusSession/getRecentlyEndedSessions", // BACKEND-ONLY: used by the SSE stream
+  "/api/FocusSession/getTaskFocusTotal",
+  "/api/FocusSession/getDailyFocusTotals",
+  "/api/FocusSession/deleteTaskSessions", // BACKEND-ONLY: triggered by task purge syncs
+  "/api/FocusSession/deleteUserSessions",
+
+  // TaskTemplate - All actions require user authorization
+  "/api/TaskTemplate/createTemplate",
+  "/api/TaskTemplate/updateTemplate",
+  "/api/TaskTemplate/deleteTemplate",
+  "/api/TaskTemplate/getTemplate", // BACKEND-ONLY: getTemplates returns every template
+  "/api/TaskTemplate/getTemplates",
+  "/api/TaskTemplate/instantiateTemplate", // BACKEND-ONLY: used by the createTaskFromTemplate syncs
+  "/api/TaskTemplate/deleteUserTemplates",
+
+  // QuickAdd - All actions require user authorization
+  "/api/QuickAdd/previewQuickAdd",
+  "/api/QuickAdd/commitQuickAdd",
+  "/api/QuickAdd/discardQuickAdd",
+  "/api/QuickAdd/deleteUserDrafts", // BACKEND-ONLY: triggered by account deletion
+
+  // TaskBreakdown - All actions require user authorization
+  "/api/TaskBreakdown/generateBreakdown",
+  "/api/TaskBreakdown/acceptBreakdown",
+  "/api/TaskBreakdown/getBreakdown", // BACKEND-ONLY: getBreakdowns returns every breakdown
+  "/api/TaskBreakdown/getBreakdowns",
+  "/api/TaskBreakdown/deleteTaskBreakdowns", // BACKEND-ONLY: triggered by task purge syncs
+  "/api/TaskBreakdown/deleteUserBreakdowns", // BACKEND-ONLY: triggered by account deletion
+
+  // TaskHistory - All actions require user authorization
+  "/api/TaskHistory/recordChange", // BACKEND-ONLY: triggered by task change syncs
+  "/api/TaskHistory/linkRequest", // BACKEND-ONLY: triggered by task change syncs
+  "/api/TaskHistory/getTaskHistory",
+  "/api/TaskHistory/deleteUserHistory", // BACKEND-ONLY: triggered by account deletion
+
+  // Undo - All actions require user authorization
+  "/api/Undo/recordOperation", // BACKEND-ONLY: triggered by undoable action syncs
+  "/api/Undo/undo",
+  "/api/Undo/getUndoStack",
+  "/api/Undo/deleteUserOperations", // BACKEND-ONLY: triggered by account deletion
+
+  // Accountability - All actions require user authorization
+  "/api/Accountability/invitePartner",
+  "/api/Accountability/acceptInvite",
+  "/api/Accountability/declineInvite",
+  "/api/Accountability/revokePartnership",
+  "/api/Accountability/shareTask",
+  "/api/Accountability/unshareTask",
+  "/api/Accountability/checkAccess", // BACKEND-ONLY: used by shared task syncs
+  "/api/Accountability/recordEvent", // BACKEND-ONLY: triggered by task start and bet resolution syncs
+  "/api/Accountability/getPartnerships",
+  "/api/Accountability/getSharedTasks",
+  "/api/Accountability/getPartnerEvents", // BACKEND-ONLY: used by the SSE stream
+  "/api/Accountability/deleteTaskShares", // BACKEND-ONLY: triggered by task purge syncs
+  "/api/Accountability/deleteUserPartnerships", // BACKEND-ONLY: triggered by account deletion
+
+  // Lease - Coordinates background jobs across server instances
+  "/api/Lease/acquireLease", // BACKEND-ONLY: used by the expired bet sweeper
+  "/api/Lease/releaseLease", // BACKEND-ONLY: used by background jobs
+  "/api/Lease/getLease", // BACKEND-ONLY: used by background jobs
 
   // Private helper methods (not meant to be public routes)
+  "/api/Accountability/respond",
   "/api/EmotionLogger/logPhase",
   "/api/EmotionLogger/getUserLogs",
   "/api/EmotionLogger/getLogsForTask",
   "/api/EmotionLogger/buildAnalysisPrompt",
-  "/api/MicroBet/calculateReward",
+  "/api/FocusSession/endSession",
+  "/api/MicroBet/failBet",
+  "/api/MicroBet/recordLedgerEntry",
+  "/api/MicroBet/openLedger",
+  "/api/MicroBet/ledgerBalance",
+  "/api/MicroBet/openWagers",
+  "/api/MicroBet/rewardPolicyFor",
   "/api/NudgeEngine/buildPrompt",
   "/api/NudgeEngine/validateMessage",
+  "/api/QuickAdd/buildParsePrompt",
+  "/api/TaskBreakdown/buildPrompt",
+  "/api/TaskBreakdown/validateSteps",
+  "/api/TaskManager/statusChange",
+  "/api/TaskManager/notStartedFilter",
+  "/api/Undo/windowStart",
   "/api/UserAuthentication/generateToken",
   "/api/UserAuthentication/verifyToken",
   "/api/UserAuthentication/isValidEmail",
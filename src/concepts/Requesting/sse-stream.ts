@@ -20,6 +20,8 @@ interface ConceptInstances {
   TaskManager: ConceptInstance;
   EmotionLogger: ConceptInstance;
   MicroBet: ConceptInstance;
+  FocusSession: ConceptInstance;
+  Accountability: ConceptInstance;
 }
 
 interface SSEStream {
@@ -37,13 +39,45 @@ interface NudgeDoc {
 interface BetDoc {
   _id: string;
   task: string;
+  type?: "start_by" | "complete_by" | "complete_within";
   wager: number;
   deadline: Date;
   success?: boolean;
+  resolution?: "completed" | "expired" | "forfeited";
   createdAt: Date;
   resolvedAt?: Date;
 }
 
+interface SessionDoc {
+  _id: string;
+  task: string;
+  kind: string;
+  plannedMinutes: number;
+  elapsedMs: number;
+  startedAt: Date;
+  endedAt: Date;
+  endReason: "completed" | "stopped";
+}
+
+interface DueDateEvent {
+  type: "due_soon" | "overdue";
+  task: string;
+  title: string;
+  dueDate: Date;
+  at: Date;
+}
+
+interface PartnerEvent {
+  _id: string;
+  owner: string;
+  task: string;
+  title: string;
+  type: "task_started" | "bet_resolved";
+  success?: boolean;
+  reward?: number;
+  at: Date;
+}
+
 interface HonoContext {
   req: {
     query: (key: string) => string | undefined;
@@ -57,6 +91,9 @@ interface HonoContext {
  * Provides real-time notifications for multiple event types:
  * - Nudge notifications (when nudges become ready)
  * - Bet events (when bets are resolved or expire)
+ * - Focus session events (when Pomodoro sessions end)
+ * - Due date events (when tasks become due soon or overdue)
+ * - Partner events (when a task shared with the user is started or its bet resolves)
  * 
  * @param concepts The concept instances required for SSE functionality
  * @returns A Hono handler function for the SSE stream
@@ -64,7 +101,7 @@ interface HonoContext {
 export function createUnifiedEventStream(
   concepts: ConceptInstances,
 ): (c: HonoContext) => Promise<Response> {
-  const { UserAuthentication, NudgeEngine, TaskManager, EmotionLogger, MicroBet } =
+  const { UserAuthentication, NudgeEngine, TaskManager, EmotionLogger, MicroBet, FocusSession, Accountability } =
     concepts;
 
   return async (c: HonoContext) => {
@@ -89,7 +126,9 @@ export function createUnifiedEventStream(
       !NudgeEngine ||
       !TaskManager ||
       !EmotionLogger ||
-      !MicroBet
+      !MicroBet ||
+      !FocusSession ||
+      !Accountability
     ) {
       return c.json({ error: "Required concepts not available." }, 500);
     }
@@ -113,7 +152,7 @@ export function createUnifiedEventStream(
         stream,
         userId,
         accessToken,
-        { UserAuthentication, NudgeEngine, TaskManager, EmotionLogger, MicroBet },
+        { UserAuthentication, NudgeEngine, TaskManager, EmotionLogger, MicroBet, FocusSession, Accountability },
       );
     });
   };
@@ -128,7 +167,7 @@ async function handleSSEStream(
   accessToken: string,
   concepts: ConceptInstances,
 ): Promise<void> {
-  const { UserAuthentication, NudgeEngine, TaskManager, EmotionLogger, MicroBet } =
+  const { UserAuthentication, NudgeEngine, TaskManager, EmotionLogger, MicroBet, FocusSession, Accountability } =
     concepts;
 
   let isCleanedUp = false;
@@ -154,6 +193,33 @@ async function handleSSEStream(
     );
   }
 
+  let lastSeenSessionTimestamp =
+    await UserAuthentication.getLastSeenSessionTimestamp({ user: userId });
+  // If no lastSeen, initialize to configured hours ago to catch recently ended sessions
+  if (!lastSeenSessionTimestamp) {
+    lastSeenSessionTimestamp = new Date(
+      Date.now() - SSE_INITIAL_BACKLOG_HOURS * ONE_HOUR_MS,
+    );
+  }
+
+  let lastSeenDueDateTimestamp =
+    await UserAuthentication.getLastSeenDueDateTimestamp({ user: userId });
+  // If no lastSeen, initialize to configured hours ago to catch recent due date events
+  if (!lastSeenDueDateTimestamp) {
+    lastSeenDueDateTimestamp = new Date(
+      Date.now() - SSE_INITIAL_BACKLOG_HOURS * ONE_HOUR_MS,
+    );
+  }
+
+  let lastSeenPartnerTimestamp =
+    await UserAuthentication.getLastSeenPartnerTimestamp({ user: userId });
+  // If no lastSeen, initialize to configured hours ago to catch recent partner events
+  if (!lastSeenPartnerTimestamp) {
+    lastSeenPartnerTimestamp = new Date(
+      Date.now() - SSE_INITIAL_BACKLOG_HOURS * ONE_HOUR_MS,
+    );
+  }
+
   const cleanup = () => {
     if (isCleanedUp) return;
     isCleanedUp = true;
@@ -177,7 +243,7 @@ async function handleSSEStream(
 
   // Helper function to update last seen timestamp
   async function updateLastSeenTimestamp(
-    type: "nudge" | "bet",
+    type: "nudge" | "bet" | "session" | "dueDate" | "partner",
     timestamp: Date,
     currentTimestamp: Date,
   ): Promise<Date> {
@@ -185,13 +251,33 @@ async function handleSSEStream(
       const method =
         type === "nudge"
           ? "updateLastSeenNudgeTimestamp"
-          : "updateLastSeenBetTimestamp";
+          : type === "bet"
+          ? "updateLastSeenBetTimestamp"
+          : type === "session"
+          ? "updateLastSeenSessionTimestamp"
+          : type === "dueDate"
+          ? "updateLastSeenDueDateTimestamp"
+          : "updateLastSeenPartnerTimestamp";
       await UserAuthentication[method]({ user: userId, timestamp });
       return timestamp;
     }
     return currentTimestamp;
   }
 
+  // Helper function to check whether a task is in the trash or archived.
+  // Nudges for such tasks are held back; bets are only held back while in the trash,
+  // so restoring a task brings its nudge and bet back intact.
+  const getTaskVisibility = async (
+    task: string,
+  ): Promise<{ trashed: boolean; archived: boolean }> => {
+    const taskResult = await TaskManager.getTask({ user: userId, task });
+    if ("error" in taskResult) return { trashed: false, archived: false };
+    return {
+      trashed: Boolean(taskResult.deletedAt),
+      archived: Boolean(taskResult.archivedAt),
+    };
+  };
+
   // Helper function to trigger and send a nudge
   const triggerAndSendNudge = async (nudge: {
     _id: string;
@@ -215,11 +301,9 @@ async function handleSSEStream(
       }
 
       // Get recent emotions
-      const emotionsResult = await EmotionLogger.analyzeRecentEmotions({
+      const { emotions: recentEmotions } = await EmotionLogger.getRecentEmotions({
         user: userId,
       });
-      const recentEmotions =
-        "emotions" in emotionsResult ? emotionsResult.emotions : [];
 
       // Trigger the nudge to generate message
       const nudgeResult = await NudgeEngine.nudgeUser({
@@ -353,7 +437,9 @@ async function handleSSEStream(
     }
   };
 
-  // Helper function to send resolved bet event
+  // Helper function to send resolved bet event.
+  // Bets resolved by the background sweeper while the user was away are sent as
+  // "bet_expired", the same as bets this stream resolves itself.
   const sendResolvedBetEvent = async (
     bet: BetDoc,
   ): Promise<boolean> => {
@@ -364,10 +450,11 @@ async function handleSSEStream(
       // But for now, we'll just send the basic info
       const success = await safeWriteSSE({
         data: JSON.stringify({
-          type: "bet_resolved",
+          type: bet.resolution === "expired" ? "bet_expired" : "bet_resolved",
           bet: {
             _id: bet._id,
             task: bet.task,
+            type: bet.type ?? "start_by",
             wager: bet.wager,
             deadline: bet.deadline,
             success: bet.success,
@@ -398,6 +485,127 @@ async function handleSSEStream(
     }
   };
 
+  // Helper function to send ended focus session events.
+  // Completes the user's session first if its time has run out, then sends
+  // every session that ended since lastSeen, along with the suggested next step.
+  const sendEndedSessionEvents = async (limit: number): Promise<boolean> => {
+    if (isCleanedUp) return false;
+
+    await FocusSession.completeElapsedSessions({ user: userId });
+    const { sessions } = await FocusSession.getRecentlyEndedSessions({
+      user: userId,
+      afterTimestamp: lastSeenSessionTimestamp,
+      limit,
+    }) as { sessions: SessionDoc[] };
+    if (sessions.length === 0) return true;
+
+    const next = await FocusSession.getNextSession({ user: userId });
+    for (const session of sessions) {
+      if (isCleanedUp) return false;
+      const success = await safeWriteSSE({
+        data: JSON.stringify({
+          type: "session_ended",
+          session: {
+            _id: session._id,
+            task: session.task,
+            kind: session.kind,
+            plannedMinutes: session.plannedMinutes,
+            focusedMinutes: Math.round(session.elapsedMs / 6000) / 10,
+            startedAt: session.startedAt,
+            endedAt: session.endedAt,
+            endReason: session.endReason,
+          },
+          next,
+        }),
+      });
+      if (!success) return false;
+
+      lastSeenSessionTimestamp = await updateLastSeenTimestamp(
+        "session",
+        session.endedAt,
+        lastSeenSessionTimestamp,
+      );
+      console.log(`[SSE] Sent ended session ${session._id} event to user ${userId}`);
+    }
+    return true;
+  };
+
+  // Helper function to send due date events.
+  // Flags tasks that have become due soon or overdue first, so tasks whose due date
+  // passed while the user was disconnected are caught up on the next connection,
+  // then sends every flag raised since lastSeen.
+  const sendDueDateEvents = async (limit: number): Promise<boolean> => {
+    if (isCleanedUp) return false;
+
+    await TaskManager.checkDueDates({ user: userId });
+    const { events } = await TaskManager.getDueDateEvents({
+      user: userId,
+      afterTimestamp: lastSeenDueDateTimestamp,
+      limit,
+    }) as { events: DueDateEvent[] };
+
+    for (const event of events) {
+      if (isCleanedUp) return false;
+      const success = await safeWriteSSE({
+        data: JSON.stringify({
+          type: event.type,
+          task: {
+            _id: event.task,
+            title: event.title,
+            dueDate: event.dueDate,
+          },
+        }),
+      });
+      if (!success) return false;
+
+      lastSeenDueDateTimestamp = await updateLastSeenTimestamp(
+        "dueDate",
+        event.at,
+        lastSeenDueDateTimestamp,
+      );
+      console.log(`[SSE] Sent ${event.type} event for task ${event.task} to user ${userId}`);
+    }
+    return true;
+  };
+
+  // Helper function to send events about tasks other users share with this user.
+  // Events are recorded by syncs when the owner starts a shared task or its bet
+  // resolves, so they are sent as "partner_task_started" or "partner_bet_resolved".
+  const sendPartnerEvents = async (limit: number): Promise<boolean> => {
+    if (isCleanedUp) return false;
+
+    const { events } = await Accountability.getPartnerEvents({
+      partner: userId,
+      afterTimestamp: lastSeenPartnerTimestamp,
+      limit,
+    }) as { events: PartnerEvent[] };
+
+    for (const event of events) {
+      if (isCleanedUp) return false;
+      const success = await safeWriteSSE({
+        data: JSON.stringify({
+          type: `partner_${event.type}`,
+          owner: event.owner,
+          task: {
+            _id: event.task,
+            title: event.title,
+          },
+          success: event.success,
+          reward: event.reward,
+        }),
+      });
+      if (!success) return false;
+
+      lastSeenPartnerTimestamp = await updateLastSeenTimestamp(
+        "partner",
+        event.at,
+        lastSeenPartnerTimestamp,
+      );
+      console.log(`[SSE] Sent partner ${event.type} event for task ${event.task} to user ${userId}`);
+    }
+    return true;
+  };
+
   // Send initial connection message
   const connected = await safeWriteSSE({
     data: JSON.stringify({
@@ -507,6 +715,8 @@ async function handleSSEStream(
       // Process nudges in order (oldest first)
       for (const nudge of readyBacklogResult.nudges) {
         if (isCleanedUp) return;
+        const { trashed, archived } = await getTaskVisibility(nudge.task);
+        if (trashed || archived) continue;
         const success = await triggerAndSendNudge(nudge);
         if (success) {
           totalProcessed++;
@@ -514,6 +724,15 @@ async function handleSSEStream(
       }
     }
 
+    // Send focus sessions that ended while disconnected
+    if (!(await sendEndedSessionEvents(SSE_BACKLOG_LIMIT))) return;
+
+    // Send tasks that became due soon or overdue while disconnected
+    if (!(await sendDueDateEvents(SSE_BACKLOG_LIMIT))) return;
+
+    // Send events about shared tasks that happened while disconnected
+    if (!(await sendPartnerEvents(SSE_BACKLOG_LIMIT))) return;
+
     // Resolve expired bets
     if ("bets" in expiredBetsResult && expiredBetsResult.bets.length > 0) {
       console.log(
@@ -522,6 +741,7 @@ async function handleSSEStream(
 
       for (const bet of expiredBetsResult.bets) {
         if (isCleanedUp) return;
+        if ((await getTaskVisibility(bet.task)).trashed) continue;
         const success = await resolveAndSendExpiredBet(bet);
         if (success) {
           totalProcessed++;
@@ -576,7 +796,7 @@ async function handleSSEStream(
     }
   };
 
-  // Set up periodic checking for ready nudges and expired bets
+  // Set up periodic checking for ready nudges, expired bets, ended focus sessions, and due dates
   checkInterval = setInterval(async () => {
     if (isCleanedUp) return;
 
@@ -598,6 +818,8 @@ async function handleSSEStream(
         // Process each ready nudge
         for (const nudge of readyNudgesResult.nudges) {
           if (isCleanedUp) return;
+          const { trashed, archived } = await getTaskVisibility(nudge.task);
+          if (trashed || archived) continue;
           const success = await triggerAndSendNudge(nudge);
           if (!success) {
             // Connection died during trigger, cleanup already called
@@ -615,6 +837,7 @@ async function handleSSEStream(
         // Process each expired bet
         for (const bet of expiredBetsResult.bets) {
           if (isCleanedUp) return;
+          if ((await getTaskVisibility(bet.task)).trashed) continue;
           const success = await resolveAndSendExpiredBet(bet);
           if (!success) {
             // Connection died during resolution, cleanup already called
@@ -655,6 +878,15 @@ async function handleSSEStream(
           }
         }
       }
+
+      // Complete focus sessions whose time is up and send ended sessions
+      if (!(await sendEndedSessionEvents(SSE_POLLING_LIMIT))) return;
+
+      // Flag and send tasks that have become due soon or overdue
+      if (!(await sendDueDateEvents(SSE_POLLING_LIMIT))) return;
+
+      // Send events about shared tasks
+      if (!(await sendPartnerEvents(SSE_POLLING_LIMIT))) return;
     } catch (error) {
       console.error("[SSE] Error checking for events:", error);
       const success = await safeWriteSSE({
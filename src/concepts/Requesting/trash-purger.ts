@@ -0,0 +1,74 @@
+import { freshID } from "@utils/database.ts";
+
+// Purger Configuration Constants
+const PURGE_INTERVAL_MS = parseInt(Deno.env.get("TRASH_PURGE_INTERVAL") ?? "3600000", 10);
+const PURGE_LEASE_NAME = "TaskManager.trashPurger";
+// A holder that misses a few purges loses the lease to another instance
+const PURGE_LEASE_SECONDS = Math.ceil((PURGE_INTERVAL_MS * 3) / 1000);
+const PURGE_BATCH_LIMIT = 100;
+
+// Type definitions for concept instances (using any for now, can be improved later)
+// deno-lint-ignore no-explicit-any
+type ConceptInstance = any;
+
+interface ConceptInstances {
+  Lease: ConceptInstance;
+  TaskManager: ConceptInstance;
+}
+
+/**
+ * Starts permanently deleting tasks that outlived the trash retention window, for
+ * all users, in the background.
+ * Every server instance runs the purger, but only the one holding the purger's
+ * lease purges; if it stops, another instance takes over once the lease lapses.
+ * Each user's tasks are purged through TaskManager.purgeExpiredTasks, which cascades
+ * to the tasks' bets, nudges, and other records through syncs.
+ *
+ * @param concepts The concept instances required for purging
+ * @returns A function that stops the purger
+ */
+export function startTrashPurger(
+  concepts: ConceptInstances,
+): () => void {
+  const { Lease, TaskManager } = concepts;
+  const holder = freshID(); // Identifies this server instance
+  let purging = false;
+
+  const purge = async () => {
+    // Skip a tick if the previous purge is still running
+    if (purging) return;
+    purging = true;
+
+    try {
+      const lease = await Lease.acquireLease({
+        name: PURGE_LEASE_NAME,
+        holder,
+        seconds: PURGE_LEASE_SECONDS,
+      });
+      if ("error" in lease) return;
+
+      const { users } = await TaskManager.getExpiredTrashOwners({
+        limit: PURGE_BATCH_LIMIT,
+      }) as { users: string[] };
+
+      let purged = 0;
+      for (const user of users) {
+        const { tasks } = await TaskManager.purgeExpiredTasks({ user }) as { tasks: string[] };
+        purged += tasks.length;
+      }
+
+      if (purged > 0) {
+        console.log(`[Purger] Purged ${purged} expired tasks from the trash`);
+      }
+    } catch (error) {
+      console.error("[Purger] Error purging expired trash:", error);
+    } finally {
+      purging = false;
+    }
+  };
+
+  purge();
+  const interval = setInterval(purge, PURGE_INTERVAL_MS);
+
+  return () => clearInterval(interval);
+}
@@ -0,0 +1,106 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import TaskBreakdownConcept from "./TaskBreakdownConcept.ts";
+import { ID } from "@utils/types.ts";
+import { Emotion } from "@utils/emotions.ts";
+
+Deno.test("TaskBreakdown Concept - Operational Principle & Scenarios", async (t) => {
+  const [db, client] = await testDb();
+  const breakdowns = new TaskBreakdownConcept(db);
+  const user = "user:Alice" as ID;
+  const task = "task:Essay" as ID;
+
+  // Answers every prompt with a fixed reply instead of calling Gemini
+  const replyWith = (reply: string | Error) => {
+    breakdowns.llm.executeLLM = () => reply instanceof Error ? Promise.reject(reply) : Promise.resolve(reply);
+  };
+  const essay = {
+    user,
+    task,
+    title: "Write history essay",
+    description: "2000 words on the industrial revolution",
+    recentEmotions: [Emotion.Overwhelmed, Emotion.Anxious],
+  };
+
+  await t.step("Principle: User gets small first steps for an avoided task and accepts some as subtasks", async () => {
+    // 1. Generate steps, tailored to the user's recent emotions
+    let prompt = "";
+    breakdowns.llm.executeLLM = (text: string) => {
+      prompt = text;
+      return Promise.resolve(JSON.stringify([
+        "Open a blank document and write the title",
+        "List three things you already know",
+        "Find one source in the library catalog",
+        "Write a rough first paragraph",
+      ]));
+    };
+    const generated = await breakdowns.generateBreakdown(essay);
+    if ("error" in generated) throw new Error(generated.error);
+    assertEquals(generated.steps.length, 4);
+    assertEquals(prompt.includes("overwhelmed, anxious"), true, "The prompt should mention the recent emotions.");
+
+    // 2. Accept the first and third steps; they keep the breakdown's order
+    const accepted = await breakdowns.acceptBreakdown({
+      user,
+      breakdown: generated.breakdown,
+      as: "subtasks",
+      steps: [2, 0],
+    });
+    if ("error" in accepted) throw new Error(accepted.error);
+    assertEquals(accepted.task, task);
+    assertEquals(accepted.steps, ["Open a blank document and write the title", "Find one source in the library catalog"]);
+
+    // 3. A breakdown can only be accepted once, and stays available for review
+    const again = await breakdowns.acceptBreakdown({ user, breakdown: generated.breakdown, as: "tasks" });
+    assertEquals((again as { error: string }).error, "Breakdown has already been accepted");
+    const stored = await breakdowns.getBreakdown({ user, breakdown: generated.breakdown });
+    if ("error" in stored) throw new Error(stored.error);
+    assertEquals(stored.acceptedAs, "subtasks");
+    assertEquals(stored.emotions, [Emotion.Overwhelmed, Emotion.Anxious]);
+  });
+
+  await t.step("Action: generated steps are validated for count and length", async () => {
+    replyWith("1. Open the document\n2. Write the title");
+    const tooFew = await breakdowns.generateBreakdown(essay);
+    assertEquals((tooFew as { error: string }).error, "Generated steps did not meet quality criteria");
+
+    replyWith(JSON.stringify(["Start", "Outline", "Draft", "Edit", "Cite", "Proofread", "Format", "Submit"]));
+    const tooMany = await breakdowns.generateBreakdown(essay);
+    assertEquals((tooMany as { error: string }).error, "Generated steps did not meet quality criteria");
+
+    replyWith(JSON.stringify(["Start", "Outline", "x".repeat(101)]));
+    const tooLong = await breakdowns.generateBreakdown(essay);
+    assertEquals((tooLong as { error: string }).error, "Generated steps did not meet quality criteria");
+
+    replyWith(new Error("Gemini is unavailable"));
+    const failed = await breakdowns.generateBreakdown(essay);
+    assertEquals((failed as { error: string }).error, "Failed to generate task breakdown");
+
+    // Plain lists are read too
+    replyWith("- Open the document\n- Write the title\n- Write one sentence");
+    const list = await breakdowns.generateBreakdown(essay);
+    if ("error" in list) throw new Error(list.error);
+    assertEquals(list.steps, ["Open the document", "Write the title", "Write one sentence"]);
+
+    const outOfRange = await breakdowns.acceptBreakdown({ user, breakdown: list.breakdown, as: "tasks", steps: [3] });
+    assertEquals((outOfRange as { error: string }).error, "Step number is out of range");
+
+    const { breakdowns: history } = await breakdowns.getBreakdowns({ user, task });
+    assertEquals(history.length, 2, "Only valid breakdowns are stored.");
+    assertEquals(history[0]._id, list.breakdown, "Newest breakdowns come first.");
+  });
+
+  await t.step("Action: breakdowns are deleted with their task and their user", async () => {
+    replyWith(JSON.stringify(["Buy stamps", "Write the address", "Post the letter"]));
+    await breakdowns.generateBreakdown({ ...essay, task: "task:Letter" as ID, title: "Send letter" });
+
+    await breakdowns.deleteTaskBreakdowns({ user, task });
+    assertEquals((await breakdowns.getBreakdowns({ user, task })).breakdowns.length, 0);
+    assertEquals((await breakdowns.getBreakdowns({ user })).breakdowns.length, 1);
+
+    await breakdowns.deleteUserBreakdowns({ user });
+    assertEquals((await breakdowns.getBreakdowns({ user })).breakdowns.length, 0);
+  });
+
+  await client.close();
+});
@@ -0,0 +1,251 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+import { GeminiLLM } from '@utils/gemini-llm.ts';
+import { Emotion } from "@utils/emotions.ts";
+
+const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
+if (!GEMINI_API_KEY) {
+  throw new Error("GEMINI_API_KEY is not set in the environment");
+}
+
+// Collection prefix to avoid name clashes
+const PREFIX = "TaskBreakdown" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Task = ID;
+
+// Define the types for our entries based on the concept state
+type Breakdown = ID;
+export type AcceptMode = "tasks" | "subtasks";
+
+const MIN_STEPS = 3;
+const MAX_STEPS = 7;
+const MAX_STEP_LENGTH = 100;
+
+/**
+ * a set of Breakdowns with
+ *   a user User
+ *   a task Task
+ *   a taskTitle String (the task's title when the steps were generated)
+ *   a emotions Emotion[] (the recent emotions the steps were tailored to)
+ *   a steps String[] (the suggested first steps, in order)
+ *   a createdAt Date
+ *   a acceptedAs String (optional, "tasks" or "subtasks")
+ *   a acceptedSteps String[] (optional, the steps the user accepted)
+ *   a acceptedAt Date (optional)
+ */
+export interface BreakdownDoc {
+  _id: Breakdown;
+  user: User;
+  task: Task;
+  taskTitle: string;
+  emotions: Emotion[];
+  steps: string[];
+  createdAt: Date;
+  acceptedAs?: AcceptMode;
+  acceptedSteps?: string[];
+  acceptedAt?: Date;
+}
+
+/**
+ * Reads the steps from the LLM's answer: a JSON array of strings, or failing that,
+ * one step per line with any list markers removed.
+ */
+function readSteps(response: string): string[] {
+  const text = response.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    const data = JSON.parse(text);
+    if (Array.isArray(data)) return data.map((step) => typeof step === "string" ? step.trim() : "");
+  } catch {
+    // Not JSON; read it as a list
+  }
+  return text
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+    .filter((line) => line);
+}
+
+/**
+ * @concept TaskBreakdown
+ * @purpose To help users start tasks they are avoiding by splitting them into a few small, concrete first steps.
+ */
+export default class TaskBreakdownConcept {
+  breakdowns: Collection<BreakdownDoc>;
+  llm: GeminiLLM;
+
+  constructor(private readonly db: Db) {
+    this.breakdowns = this.db.collection(PREFIX + "breakdowns");
+    this.llm = new GeminiLLM(GEMINI_API_KEY!);
+
+    this.breakdowns.createIndex({ user: 1, task: 1, createdAt: -1 }).catch((err) => {
+      console.error("Failed to create breakdowns index:", err);
+    });
+  }
+
+  /**
+   * Asks the AI model to split a task into small first steps.
+   * @requires The title must not be empty.
+   * @effects Generates 3 to 7 concrete steps of at most 100 characters each, tailored to the
+   *          user's recent emotions, and stores them as a new breakdown of the task.
+   */
+  public async generateBreakdown(
+    params: {
+      user: User;
+      task: Task;
+      title: string;
+      description: string;
+      recentEmotions: Emotion[];
+    }
+  ): Promise<{ breakdown: Breakdown; steps: string[] } | { error: string }> {
+    const { user, task, title, description, recentEmotions } = params;
+    if (!title?.trim()) return { error: "Task title cannot be empty" };
+
+    const prompt = this.buildPrompt(title, description ?? "", recentEmotions ?? []);
+
+    let steps: string[];
+    try {
+      const response = await this.llm.executeLLM(prompt);
+      steps = readSteps(response);
+    } catch (err) {
+      console.error("Error generating task breakdown:", err);
+      return { error: "Failed to generate task breakdown" };
+    }
+
+    const error = this.validateSteps(steps);
+    if (error) {
+      console.warn("Breakdown failed validation:", { steps, reason: error });
+      return { error: "Generated steps did not meet quality criteria" };
+    }
+
+    const breakdown: BreakdownDoc = {
+      _id: freshID(),
+      user,
+      task,
+      taskTitle: title,
+      emotions: recentEmotions ?? [],
+      steps,
+      createdAt: new Date(),
+    };
+    await this.breakdowns.insertOne(breakdown);
+
+    return { breakdown: breakdown._id, steps };
+  }
+
+  /**
+   * Accepts a breakdown's steps, to be added as new tasks or as subtasks of the task.
+   * @requires The breakdown must belong to the user and not have been accepted.
+   *           Step numbers, if given, must refer to steps of the breakdown (starting at 0).
+   * @effects Records which steps were accepted and how, and returns the task and the accepted steps in order.
+   *          A missing or null list of step numbers accepts every step.
+   */
+  public async acceptBreakdown(
+    { user, breakdown, as, steps }: { user: User; breakdown: Breakdown; as: AcceptMode; steps?: number[] | null },
+  ): Promise<{ task: Task; as: AcceptMode; steps: string[] } | { error: string }> {
+    if (as !== "tasks" && as !== "subtasks") return { error: "Steps must be accepted as tasks or subtasks" };
+
+    const breakdownDoc = await this.getBreakdown({ user, breakdown });
+    if ("error" in breakdownDoc) return breakdownDoc;
+
+    const indexes = steps ?? breakdownDoc.steps.map((_step, index) => index);
+    if (indexes.length === 0) return { error: "Choose at least one step to accept" };
+    if (indexes.some((index) => !Number.isInteger(index) || index < 0 || index >= breakdownDoc.steps.length)) {
+      return { error: "Step number is out of range" };
+    }
+    const accepted = [...new Set(indexes)].sort((a, b) => a - b).map((index) => breakdownDoc.steps[index]);
+
+    const claimed = await this.breakdowns.updateOne(
+      { _id: breakdown, acceptedAt: { $exists: false } },
+      { $set: { acceptedAs: as, acceptedSteps: accepted, acceptedAt: new Date() } },
+    );
+    if (claimed.modifiedCount === 0) return { error: "Breakdown has already been accepted" };
+
+    return { task: breakdownDoc.task, as, steps: accepted };
+  }
+
+  /**
+   * Retrieves a breakdown.
+   * @requires The breakdown must exist and belong to the user.
+   * @effects Returns the breakdown document.
+   */
+  public async getBreakdown(
+    { user, breakdown }: { user: User; breakdown: Breakdown },
+  ): Promise<BreakdownDoc | { error: string }> {
+    const breakdownDoc = await this.breakdowns.findOne({ _id: breakdown, user });
+    if (!breakdownDoc) return { error: "Breakdown does not exist" };
+    return breakdownDoc;
+  }
+
+  /**
+   * Retrieves the user's breakdowns, optionally for one task.
+   * @effects Returns up to `limit` breakdowns, newest first.
+   */
+  public async getBreakdowns(
+    { user, task, limit = 50 }: { user: User; task?: Task | null; limit?: number },
+  ): Promise<{ breakdowns: BreakdownDoc[] }> {
+    const filter: Record<string, unknown> = { user };
+    if (task) filter.task = task;
+
+    const breakdowns = await this.breakdowns.find(filter).sort({ createdAt: -1 }).limit(limit).toArray();
+    return { breakdowns };
+  }
+
+  /**
+   * Deletes all breakdowns of a task.
+   * @effects Removes every breakdown of the given task.
+   */
+  public async deleteTaskBreakdowns(
+    { user, task }: { user: User; task: Task },
+  ): Promise<Empty> {
+    await this.breakdowns.deleteMany({ user, task });
+    return {};
+  }
+
+  /**
+   * Deletes all breakdowns for a specific user.
+   * @effects Removes every breakdown of the given user.
+   */
+  public async deleteUserBreakdowns(
+    { user }: { user: User },
+  ): Promise<Empty> {
+    await this.breakdowns.deleteMany({ user });
+    return {};
+  }
+
+  /**
+   * Constructs the prompt asking the AI model for first steps.
+   * @effects Produces a prompt with the task details and the user's recent emotions.
+   */
+  private buildPrompt(title: string, description: string, emotions: Emotion[]): string {
+    return `
+    You are Nudgr, a friendly AI coach helping users take action on tasks they’ve been avoiding.
+
+    Split the task below into ${MIN_STEPS} to ${MAX_STEPS} small, concrete first steps. Each step should take
+    a few minutes to an hour and start with an action verb. The first step should be so easy that it is hard to put off.
+
+    Context:
+    Task Title: "${title}"
+    Task Description: "${description}"
+    Recent Emotions: [${emotions.join(", ")}]
+
+    If the user has been feeling anxious, overwhelmed, or tired, make the first steps even smaller and gentler.
+
+    Each step must be under ${MAX_STEP_LENGTH} characters.
+
+    Only return a JSON array of the steps as strings, in order. Do not include explanations or numbering.
+    `.trim();
+  }
+
+  /**
+   * Validates the generated steps for count and length.
+   * @effects Returns `null` if valid, or an error string if validation fails.
+   */
+  private validateSteps(steps: string[]): string | null {
+    if (steps.length < MIN_STEPS || steps.length > MAX_STEPS) return "Wrong number of steps.";
+    if (steps.some((step) => !step)) return "Empty step.";
+    if (steps.some((step) => step.length > MAX_STEP_LENGTH)) return "Step too long.";
+    if (new Set(steps.map((step) => step.toLowerCase())).size !== steps.length) return "Duplicate steps.";
+    return null;
+  }
+}
@@ -0,0 +1,77 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import TaskHistoryConcept, { TaskChange } from "./TaskHistoryConcept.ts";
+import { ID } from "@utils/types.ts";
+
+Deno.test("TaskHistory Concept - Operational Principle & Scenarios", async (t) => {
+  const [db, client] = await testDb();
+  const history = new TaskHistoryConcept(db);
+  const user = "user:Alice" as ID;
+  const task = "task:Essay" as ID;
+
+  await t.step("Principle: User finds out why a task's due date changed", async () => {
+    const friday = new Date("2030-05-10T17:00:00Z");
+    const monday = new Date("2030-05-13T17:00:00Z");
+
+    // 1. The task is created due Friday
+    const created = await history.recordChange({
+      user,
+      task,
+      change: "created",
+      fields: [{ field: "title", from: null, to: "Essay" }, { field: "dueDate", from: null, to: friday }],
+    });
+    if ("error" in created) throw new Error(created.error);
+
+    // 2. A request moves the due date to Monday
+    const updated = await history.recordChange({
+      user,
+      task,
+      change: "updated",
+      fields: [{ field: "dueDate", from: friday, to: monday }],
+    });
+    if ("error" in updated) throw new Error(updated.error);
+    assertEquals(await history.linkRequest({ entry: updated.entry, request: "request:1" as ID }), {});
+
+    // 3. The history shows both changes in order, with the request that moved the date
+    const { entries } = await history.getTaskHistory({ user, task });
+    assertEquals(entries.map((e) => e.change), ["created", "updated"]);
+    assertEquals(entries[1].fields, [{ field: "dueDate", from: friday, to: monday }]);
+    assertEquals(entries[1].request, "request:1");
+    assertEquals(entries[0].request, undefined);
+  });
+
+  await t.step("Action: entries are append-only and status changes have no fields", async () => {
+    const unknown = await history.recordChange({ user, task, change: "renamed" as TaskChange });
+    assertEquals((unknown as { error: string }).error, "Unknown task change: renamed");
+
+    const started = await history.recordChange({ user, task, change: "started" });
+    if ("error" in started) throw new Error(started.error);
+    await history.linkRequest({ entry: started.entry, request: "request:2" as ID });
+    const relinked = await history.linkRequest({ entry: started.entry, request: "request:3" as ID });
+    assertEquals("error" in relinked, true, "An entry's request cannot be replaced.");
+
+    const { entries } = await history.getTaskHistory({ user, task });
+    assertEquals(entries.at(-1)?.fields, []);
+    assertEquals(entries.at(-1)?.request, "request:2");
+    assertEquals((await history.getTaskHistory({ user: "user:Bob" as ID, task })).entries, []);
+
+    // Subtask changes are recorded on the parent task with the subtask they changed
+    await history.recordChange({
+      user,
+      task,
+      change: "subtask-added",
+      fields: [{ field: "title", from: null, to: "Find sources" }],
+      subtask: "subtask:1" as ID,
+    });
+    const withSubtask = await history.getTaskHistory({ user, task });
+    assertEquals(withSubtask.entries.at(-1)?.subtask, "subtask:1");
+    assertEquals(withSubtask.entries.at(-2)?.subtask, undefined);
+  });
+
+  await t.step("Action: history is deleted with the user's account", async () => {
+    await history.deleteUserHistory({ user });
+    assertEquals((await history.getTaskHistory({ user, task })).entries, []);
+  });
+
+  await client.close();
+});
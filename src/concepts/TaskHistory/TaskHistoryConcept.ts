@@ -0,0 +1,178 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to avoid name clashes
+const PREFIX = "TaskHistory" + ".";
+
+// How long history entries are kept before they expire
+const RETENTION_DAYS = parseInt(Deno.env.get("TASK_HISTORY_RETENTION_DAYS") ?? "365", 10);
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Task = ID;
+type Request = ID;
+type Subtask = ID;
+
+// Define the types for our entries based on the concept state
+type Entry = ID;
+export type TaskChange =
+  | "created"
+  | "updated"
+  | "started"
+  | "paused"
+  | "resumed"
+  | "completed"
+  | "reopened"
+  | "abandoned"
+  | "deleted"
+  | "restored"
+  | "archived"
+  | "unarchived"
+  | "subtask-added"
+  | "subtask-started"
+  | "subtask-completed"
+  | "subtask-removed";
+
+const TASK_CHANGES: TaskChange[] = [
+  "created",
+  "updated",
+  "started",
+  "paused",
+  "resumed",
+  "completed",
+  "reopened",
+  "abandoned",
+  "deleted",
+  "restored",
+  "archived",
+  "unarchived",
+  "subtask-added",
+  "subtask-started",
+  "subtask-completed",
+  "subtask-removed",
+];
+
+/**
+ * a FieldChange with
+ *   a field String
+ *   a from (the previous value, null if unset)
+ *   a to (the new value)
+ */
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * a set of Entries with
+ *   a user User
+ *   a task Task
+ *   a change String (what happened to the task, e.g. "updated")
+ *   a fields FieldChange[] (the fields set or changed, empty for status changes)
+ *   a subtask? Subtask (the subtask changed, for subtask changes)
+ *   a request? Request (the request that made the change)
+ *   a at Date
+ */
+export interface EntryDoc {
+  _id: Entry;
+  user: User;
+  task: Task;
+  change: TaskChange;
+  fields: FieldChange[];
+  subtask?: Subtask;
+  request?: Request;
+  at: Date;
+}
+
+/**
+ * @concept TaskHistory
+ * @purpose To let users see when and how each of their tasks changed, so that changes such as a moved due date can be explained.
+ */
+export default class TaskHistoryConcept {
+  entries: Collection<EntryDoc>;
+
+  constructor(private readonly db: Db) {
+    this.entries = this.db.collection(PREFIX + "entries");
+
+    this.entries.createIndex({ user: 1, task: 1, at: 1 }).catch((err) => {
+      console.error("Failed to create entries index:", err);
+    });
+    this.entries.createIndex({ at: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 }).catch((err) => {
+      console.error("Failed to create entries expiry index:", err);
+    });
+  }
+
+  /**
+   * Appends a change to a task's history. Entries are never modified afterwards,
+   * except to link the request that made the change.
+   * @requires The change must be one of the known task changes.
+   * @effects Stores a new entry, timestamped now, and returns it. Subtask changes
+   *          also record the subtask they changed.
+   */
+  public async recordChange(
+    { user, task, change, fields, subtask }: {
+      user: User;
+      task: Task;
+      change: TaskChange;
+      fields?: FieldChange[] | null;
+      subtask?: Subtask | null;
+    },
+  ): Promise<{ entry: Entry } | { error: string }> {
+    if (!TASK_CHANGES.includes(change)) return { error: `Unknown task change: ${change}` };
+
+    const entry: EntryDoc = {
+      _id: freshID(),
+      user,
+      task,
+      change,
+      fields: fields ?? [],
+      at: new Date(),
+    };
+    if (subtask) entry.subtask = subtask;
+    await this.entries.insertOne(entry);
+
+    return { entry: entry._id };
+  }
+
+  /**
+   * Links an entry to the request that made the change.
+   * @requires The entry must exist and not be linked to a request yet.
+   * @effects Sets the entry's request.
+   */
+  public async linkRequest(
+    { entry, request }: { entry: Entry; request: Request },
+  ): Promise<Empty | { error: string }> {
+    const result = await this.entries.updateOne(
+      { _id: entry, request: { $exists: false } },
+      { $set: { request } },
+    );
+    if (result.matchedCount === 0) return { error: "Entry does not exist or is already linked to a request" };
+    return {};
+  }
+
+  /**
+   * Retrieves a task's history. Entries outlive the task itself, so the history of a
+   * deleted or purged task can still be read until the entries expire
+   * (`TASK_HISTORY_RETENTION_DAYS`, default 365 days).
+   * @effects Returns up to `limit` of the task's entries, oldest first.
+   */
+  public async getTaskHistory(
+    { user, task, limit = 100 }: { user: User; task: Task; limit?: number },
+  ): Promise<{ entries: EntryDoc[] }> {
+    const entries = await this.entries.find({ user, task }).sort({ at: 1, _id: 1 }).limit(limit).toArray();
+    return { entries };
+  }
+
+  /**
+   * Deletes all history entries for a specific user.
+   * @effects Removes every entry of the given user.
+   */
+  public async deleteUserHistory(
+    { user }: { user: User },
+  ): Promise<Empty> {
+    await this.entries.deleteMany({ user });
+    return {};
+  }
+}
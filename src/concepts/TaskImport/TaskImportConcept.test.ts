@@ -0,0 +1,104 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import TaskImportConcept from "./TaskImportConcept.ts";
+import { ID } from "@utils/types.ts";
+
+Deno.test("TaskImport Concept - Operational Principle & Scenarios", async (t) => {
+  const [db, client] = await testDb();
+  const imports = new TaskImportConcept(db);
+  const user = "user:Alice" as ID;
+  const other = "user:Bob" as ID;
+
+  await t.step("Principle: User previews a CSV file, commits it once, and the results are kept", async () => {
+    const csv = [
+      "Name,Notes,Due,State,Labels,Finished",
+      `"Write essay","Draft, then edit",2099-01-01,todo,"school, writing",`,
+      "Old chore,,,done,,2024-03-01T10:00:00Z",
+    ].join("\n");
+
+    // 1. Preview with a column mapping
+    const preview = await imports.previewImport({
+      user,
+      format: "csv",
+      content: csv,
+      mapping: { title: "Name", description: "Notes", dueDate: "Due", status: "State", tags: "Labels", completedAt: "Finished" },
+      strategy: "rename",
+    });
+    if ("error" in preview) throw new Error(preview.error);
+    assertEquals(preview.rows.length, 2, "Both rows should be read.");
+    assertEquals(preview.rows[0].title, "Write essay");
+    assertEquals(preview.rows[0].description, "Draft, then edit");
+    assertEquals(preview.rows[0].tags, ["school", "writing"]);
+    assertEquals(preview.rows[0].status, "pending");
+    assertEquals(preview.rows[1].status, "completed");
+    assertEquals(preview.rows[1].completedAt, new Date("2024-03-01T10:00:00Z"), "Original completion time should be kept.");
+
+    // 2. Commit the batch
+    const begun = await imports.beginCommit({ user, batch: preview.batch });
+    if ("error" in begun) throw new Error(begun.error);
+    assertEquals(begun.strategy, "rename");
+
+    // 3. A second commit of the same batch is refused
+    const again = await imports.beginCommit({ user, batch: preview.batch });
+    assertEquals((again as { error: string }).error, "Import has already been committed");
+
+    // 4. Record the results
+    const finished = await imports.finishCommit({ user, batch: preview.batch, results: [{ row: 1 }, { row: 2 }] });
+    assertNotEquals("error" in finished, true, "Finishing the commit should succeed.");
+    const batch = await imports.getImport({ user, batch: preview.batch });
+    if ("error" in batch) throw new Error(batch.error);
+    assertEquals(batch.status, "committed");
+    assertEquals(batch.results?.length, 2);
+  });
+
+  await t.step("Action: JSON imports accept a tasks object and flag invalid rows", async () => {
+    const preview = await imports.previewImport({
+      user,
+      format: "json",
+      content: JSON.stringify({
+        tasks: [
+          { title: "Plan trip", tags: ["travel"], startedAt: "2024-01-01T00:00:00Z" },
+          { title: "" },
+          { title: "Overdue", dueDate: "2000-01-01" },
+          { title: "Bad date", dueDate: "someday" },
+        ],
+      }),
+    });
+    if ("error" in preview) throw new Error(preview.error);
+    assertEquals(preview.rows[0].status, "in-progress", "A start time without a status means in progress.");
+    assertEquals(preview.rows[0].error, undefined);
+    assertEquals(preview.rows[1].error, "Title cannot be empty");
+    assertEquals(preview.rows[2].error, "Due date cannot be in the past");
+    assertEquals(preview.rows[3].error, "Due date is invalid");
+  });
+
+  await t.step("Action: previews reject bad formats, strategies, mappings and content", async () => {
+    const format = await imports.previewImport({ user, format: "xml" as "csv", content: "" });
+    assertEquals((format as { error: string }).error, "Format must be csv or json");
+    const strategy = await imports.previewImport({ user, format: "csv", content: "title\nA", strategy: "replace" as "skip" });
+    assertEquals((strategy as { error: string }).error, "Strategy must be skip, rename, or merge");
+    const mapping = await imports.previewImport({ user, format: "csv", content: "title\nA", mapping: { owner: "Owner" } as never });
+    assertEquals((mapping as { error: string }).error, "Unknown import field: owner");
+    const json = await imports.previewImport({ user, format: "json", content: "{not json" });
+    assertEquals((json as { error: string }).error, "JSON content could not be parsed");
+    const empty = await imports.previewImport({ user, format: "csv", content: "title\n" });
+    assertEquals((empty as { error: string }).error, "File contains no tasks");
+  });
+
+  await t.step("Action: previewed batches can be discarded by their owner only", async () => {
+    const preview = await imports.previewImport({ user, format: "csv", content: "title\nKeep me" });
+    if ("error" in preview) throw new Error(preview.error);
+
+    const foreign = await imports.discardImport({ user: other, batch: preview.batch });
+    assertEquals((foreign as { error: string }).error, "Import does not exist");
+
+    await imports.discardImport({ user, batch: preview.batch });
+    const gone = await imports.getImport({ user, batch: preview.batch });
+    assertEquals((gone as { error: string }).error, "Import does not exist");
+
+    await imports.deleteUserImports({ user });
+    assertEquals(await imports.batches.countDocuments({ user }), 0);
+  });
+
+  await client.close();
+});
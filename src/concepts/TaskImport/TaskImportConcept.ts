@@ -0,0 +1,310 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+import { checkOwner } from "@utils/access.ts";
+import { parseCsvRecords } from "@utils/csv.ts";
+
+// Collection prefix to avoid name clashes
+const PREFIX = "TaskImport" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+
+// Define the types for our entries based on the concept state
+type Batch = ID;
+
+type ImportFormat = "csv" | "json";
+type CollisionStrategy = "skip" | "rename" | "merge";
+type ImportStatus = "previewed" | "committing" | "committed";
+type RowStatus = "pending" | "in-progress" | "completed";
+type ImportField = "title" | "description" | "dueDate" | "status" | "tags" | "startedAt" | "completedAt";
+
+// Maps each task field to the CSV column or JSON key holding it
+type FieldMapping = Partial<Record<ImportField, string>>;
+
+const IMPORT_ROW_LIMIT = 1000;
+const FORMATS: ImportFormat[] = ["csv", "json"];
+const STRATEGIES: CollisionStrategy[] = ["skip", "rename", "merge"];
+const FIELDS: ImportField[] = ["title", "description", "dueDate", "status", "tags", "startedAt", "completedAt"];
+
+// Status spellings used by common to-do apps
+const COMPLETED_STATUSES = ["completed", "complete", "done", "finished", "closed", "x", "true", "yes"];
+const IN_PROGRESS_STATUSES = ["in-progress", "in progress", "started", "doing", "active"];
+
+/**
+ * A task read from the imported file, normalized to TaskManager's fields.
+ * Rows that cannot be imported carry an error instead of being dropped,
+ * so the preview can show them.
+ */
+interface ImportRow {
+  row: number; // 1-based position in the file
+  title: string;
+  description?: string;
+  dueDate?: Date;
+  status: RowStatus;
+  tags: string[];
+  startedAt?: Date;
+  completedAt?: Date;
+  error?: string;
+}
+
+/**
+ * a set of Batches with
+ *   a user User
+ *   a format String ("csv" or "json")
+ *   a strategy String ("skip", "rename" or "merge" on title collisions)
+ *   a rows List of ImportRow
+ *   a status String ("previewed", "committing" or "committed")
+ *   a results? List (per-row outcomes, set when the commit finishes)
+ *   a createdAt Date
+ *   a committedAt? Date
+ */
+interface BatchDoc {
+  _id: Batch;
+  user: User;
+  format: ImportFormat;
+  strategy: CollisionStrategy;
+  rows: ImportRow[];
+  status: ImportStatus;
+  results?: unknown[];
+  createdAt: Date;
+  committedAt?: Date;
+}
+
+function readString(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return String(value).trim();
+}
+
+function readDate(value: unknown): Date | undefined | null {
+  const text = readString(value);
+  if (!text) return undefined;
+  const date = new Date(typeof value === "number" ? value : text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function readTags(value: unknown): string[] {
+  const names = Array.isArray(value) ? value.map(readString) : readString(value).split(/[,;]/);
+  return [...new Set(names.map((name) => name.trim()).filter((name) => name))];
+}
+
+/**
+ * Converts one record from the file into an import row using the field mapping.
+ */
+function toRow(record: Record<string, unknown>, mapping: Required<FieldMapping>, row: number): ImportRow {
+  const now = Date.now();
+  const title = readString(record[mapping.title]);
+  const description = readString(record[mapping.description]) || undefined;
+  const tags = readTags(record[mapping.tags]);
+  const result: ImportRow = { row, title, description, status: "pending", tags };
+
+  const dueDate = readDate(record[mapping.dueDate]);
+  const startedAt = readDate(record[mapping.startedAt]);
+  const completedAt = readDate(record[mapping.completedAt]);
+  if (dueDate === null) return { ...result, error: "Due date is invalid" };
+  if (startedAt === null) return { ...result, error: "Start time is invalid" };
+  if (completedAt === null) return { ...result, error: "Completion time is invalid" };
+
+  const statusText = readString(record[mapping.status]).toLowerCase();
+  if (COMPLETED_STATUSES.includes(statusText) || (!statusText && completedAt)) {
+    result.status = "completed";
+  } else if (IN_PROGRESS_STATUSES.includes(statusText) || (!statusText && startedAt)) {
+    result.status = "in-progress";
+  }
+
+  if (dueDate) result.dueDate = dueDate;
+  if (result.status !== "pending" && startedAt) result.startedAt = startedAt;
+  if (result.status === "completed") result.completedAt = completedAt ?? new Date(now);
+
+  if (!title) return { ...result, error: "Title cannot be empty" };
+  if (
+    (result.startedAt && result.startedAt.getTime() > now) ||
+    (result.completedAt && result.completedAt.getTime() > now)
+  ) {
+    return { ...result, error: "Start and completion times cannot be in the future" };
+  }
+  if (result.startedAt && result.completedAt && result.startedAt > result.completedAt) {
+    return { ...result, error: "Start time cannot be after completion time" };
+  }
+  if (dueDate && result.status !== "completed" && dueDate.getTime() < now) {
+    return { ...result, error: "Due date cannot be in the past" };
+  }
+
+  return result;
+}
+
+/**
+ * Reads the records of a CSV or JSON file. JSON may be an array of objects
+ * or an object with a `tasks` array, given as text or already parsed.
+ */
+function readRecords(
+  format: ImportFormat,
+  content: unknown,
+): Record<string, unknown>[] | { error: string } {
+  if (format === "csv") {
+    if (typeof content !== "string") return { error: "CSV content must be text" };
+    return parseCsvRecords(content);
+  }
+
+  let data = content;
+  if (typeof content === "string") {
+    try {
+      data = JSON.parse(content);
+    } catch {
+      return { error: "JSON content could not be parsed" };
+    }
+  }
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    data = (data as Record<string, unknown>).tasks;
+  }
+  if (!Array.isArray(data) || !data.every((item) => item && typeof item === "object")) {
+    return { error: "JSON must be a list of task objects" };
+  }
+  return data as Record<string, unknown>[];
+}
+
+/**
+ * @concept TaskImport
+ * @purpose To bring tasks over from other to-do apps, letting users check what will be imported before anything is created.
+ */
+export default class TaskImportConcept {
+  batches: Collection<BatchDoc>;
+
+  constructor(private readonly db: Db) {
+    this.batches = this.db.collection(PREFIX + "batches");
+
+    this.batches.createIndex({ user: 1, createdAt: -1 }).catch((err) => {
+      console.error("Failed to create batches index:", err);
+    });
+  }
+
+  /**
+   * Reads an uploaded file and stages its tasks for import.
+   * @requires The format must be csv or json and the strategy skip, rename, or merge.
+   *           Mapped fields must be task fields, and the file must hold 1 to 1000 tasks.
+   * @effects Stores the normalized rows as a previewed batch and returns them.
+   *          Fields missing from the mapping are read from columns or keys of the same name.
+   */
+  public async previewImport(
+    { user, format, content, mapping, strategy }: {
+      user: User;
+      format: ImportFormat;
+      content: unknown;
+      mapping?: FieldMapping | null;
+      strategy?: CollisionStrategy | null;
+    },
+  ): Promise<{ batch: Batch; rows: ImportRow[] } | { error: string }> {
+    if (!FORMATS.includes(format)) return { error: "Format must be csv or json" };
+    const collisionStrategy = strategy ?? "skip";
+    if (!STRATEGIES.includes(collisionStrategy)) {
+      return { error: "Strategy must be skip, rename, or merge" };
+    }
+
+    const fieldMapping = Object.fromEntries(FIELDS.map((field) => [field, field])) as Required<FieldMapping>;
+    for (const [field, column] of Object.entries(mapping ?? {})) {
+      if (!FIELDS.includes(field as ImportField)) return { error: `Unknown import field: ${field}` };
+      if (typeof column !== "string" || !column.trim()) {
+        return { error: `Mapping for ${field} must be a column name` };
+      }
+      fieldMapping[field as ImportField] = column.trim();
+    }
+
+    const records = readRecords(format, content);
+    if ("error" in records) return records;
+    if (records.length === 0) return { error: "File contains no tasks" };
+    if (records.length > IMPORT_ROW_LIMIT) {
+      return { error: `Imports are limited to ${IMPORT_ROW_LIMIT} tasks` };
+    }
+
+    const rows = records.map((record, index) => toRow(record, fieldMapping, index + 1));
+    const batch = freshID();
+    await this.batches.insertOne({
+      _id: batch,
+      user,
+      format,
+      strategy: collisionStrategy,
+      rows,
+      status: "previewed",
+      createdAt: new Date(),
+    });
+
+    return { batch, rows };
+  }
+
+  /**
+   * Claims a previewed batch for committing, so it cannot be committed twice.
+   * @requires The batch must belong to the user and not have been committed.
+   * @effects Marks the batch as committing and returns its rows and collision strategy.
+   */
+  public async beginCommit(
+    { user, batch }: { user: User; batch: Batch },
+  ): Promise<{ rows: ImportRow[]; strategy: CollisionStrategy } | { error: string }> {
+    const claimed = await this.batches.findOneAndUpdate(
+      { _id: batch, user, status: "previewed" },
+      { $set: { status: "committing" } },
+      { returnDocument: "after" },
+    );
+    if (!claimed) {
+      const existing = await this.batches.findOne({ _id: batch, user });
+      if (!existing) return { error: "Import does not exist" };
+      return { error: "Import has already been committed" };
+    }
+    return { rows: claimed.rows, strategy: claimed.strategy };
+  }
+
+  /**
+   * Records the outcome of committing a batch.
+   * @requires The batch must belong to the user and be committing.
+   * @effects Marks the batch as committed and stores the per-row results.
+   */
+  public async finishCommit(
+    { user, batch, results }: { user: User; batch: Batch; results: unknown[] },
+  ): Promise<Empty | { error: string }> {
+    const result = await this.batches.updateOne(
+      { _id: batch, user, status: "committing" },
+      { $set: { status: "committed", results, committedAt: new Date() } },
+    );
+    if (result.matchedCount === 0) return { error: "Import is not being committed" };
+    return {};
+  }
+
+  /**
+   * Discards a previewed batch that the user decided not to import.
+   * @requires The batch must belong to the user and not have been committed.
+   * @effects Deletes the batch.
+   */
+  public async discardImport(
+    { user, batch }: { user: User; batch: Batch },
+  ): Promise<Empty | { error: string }> {
+    const result = await this.batches.deleteOne({ _id: batch, user, status: "previewed" });
+    if (result.deletedCount === 0) {
+      const existing = await this.batches.findOne({ _id: batch, user });
+      if (!existing) return { error: "Import does not exist" };
+      return { error: "Import has already been committed" };
+    }
+    return {};
+  }
+
+  /**
+   * Retrieves an import batch.
+   * @requires The batch must exist and belong to the user.
+   * @effects Returns the batch document, including its results once committed.
+   */
+  public async getImport(
+    { user, batch }: { user: User; batch: Batch },
+  ): Promise<BatchDoc | { error: string }> {
+    const batchDoc = await this.batches.findOne({ _id: batch });
+    return checkOwner(batchDoc, user, "Import");
+  }
+
+  /**
+   * Deletes all of a user's import batches.
+   * @effects Removes every batch belonging to the user.
+   */
+  public async deleteUserImports(
+    { user }: { user: User },
+  ): Promise<Empty> {
+    await this.batches.deleteMany({ user });
+    return {};
+  }
+}
@@ -2,6 +2,10 @@ import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
 import { testDb } from "@utils/database.ts";
 import TaskManagerConcept from "./TaskManagerConcept.ts";
 import { ID } from "@utils/types.ts";
+import { Emotion } from "@utils/emotions.ts";
+
+// The result of a getTasks call that is expected to succeed
+type TaskPage = { tasks: { _id: ID }[]; total: number; nextCursor: string | null };
 
 Deno.test("TaskManager Concept - Operational Principle & Scenarios", async (t) => {
   const [db, client] = await testDb();
@@ -40,6 +44,11 @@ Deno.test("TaskManager Concept - Operational Principle & Scenarios", async (t) =
       true,
       "Updating the task should not fail.",
     );
+    assertEquals(
+      (update as { changes: { field: string }[] }).changes.map((c) => c.field),
+      ["title", "dueDate"],
+      "The update should report which fields changed.",
+    );
 
     // 3. Mark task started
     const markStart = await tasks.markStarted({
@@ -74,7 +83,7 @@ Deno.test("TaskManager Concept - Operational Principle & Scenarios", async (t) =
     assertExists(afterComplete.completedAt);
 
     // 5. Query for all tasks
-    const all = await tasks.getTasks({ user });
+    const all = await tasks.getTasks({ user }) as TaskPage;
     assertEquals(
       all.total >= 1,
       true,
@@ -223,18 +232,18 @@ Deno.test("TaskManager Concept - Operational Principle & Scenarios", async (t) =
     assertNotEquals("error" in task2, true, "Task 2 creation should succeed.");
     
     // Verify tasks exist
-    const beforeDelete = await tasks.getTasks({ user: user2 });
+    const beforeDelete = await tasks.getTasks({ user: user2 }) as TaskPage;
     assertEquals(beforeDelete.total, 2, "User2 should have 2 tasks before deletion.");
     
     // Delete all tasks for user2
     await tasks.deleteUserTasks({ user: user2 });
     
     // Verify all tasks are deleted
-    const afterDelete = await tasks.getTasks({ user: user2 });
+    const afterDelete = await tasks.getTasks({ user: user2 }) as TaskPage;
     assertEquals(afterDelete.total, 0, "User2 should have 0 tasks after deletion.");
     
     // Verify user's tasks are still intact
-    const userTasks = await tasks.getTasks({ user });
+    const userTasks = await tasks.getTasks({ user }) as TaskPage;
     assertEquals(userTasks.total >= 1, true, "Original user's tasks should remain.");
   });
 
@@ -280,5 +289,524 @@ Deno.test("TaskManager Concept - Operational Principle & Scenarios", async (t) =
     );
   });
 
+  await t.step("Action: subtasks can be added, reordered, progressed, and removed", async () => {
+    const { task } = await tasks.createTask({
+      user,
+      title: "Checklist task",
+      description: "Break work into steps",
+    }) as { task: ID };
+
+    const empty = await tasks.addSubtask({ user, task, title: "  " });
+    assertEquals((empty as { error: string }).error, "Subtask title cannot be empty");
+
+    const { subtask: first } = await tasks.addSubtask({ user, task, title: "Outline" }) as { subtask: ID };
+    const { subtask: second } = await tasks.addSubtask({ user, task, title: "Draft" }) as { subtask: ID };
+    const { subtask: third } = await tasks.addSubtask({ user, task, title: "Edit" }) as { subtask: ID };
+
+    // Reordering must list every subtask exactly once
+    const partial = await tasks.reorderSubtasks({ user, task, order: [second, first] });
+    assertEquals((partial as { error: string }).error, "Order must list every subtask exactly once");
+
+    const reorder = await tasks.reorderSubtasks({ user, task, order: [third, first, second] });
+    assertNotEquals("error" in reorder, true, "Reordering subtasks should succeed.");
+
+    let taskDoc = await tasks.getTask({ user, task });
+    if ("error" in taskDoc) throw new Error("Query for existing task should succeed.");
+    assertEquals(taskDoc.subtasks?.map((s) => s._id), [third, first, second]);
+    assertEquals(tasks.getTaskStatus({ task: taskDoc }), "pending");
+
+    // Starting a subtask moves the parent into progress
+    await tasks.markSubtaskStarted({ user, task, subtask: first, timeStarted: new Date(Date.now() - 1000) });
+    const restart = await tasks.markSubtaskStarted({ user, task, subtask: first, timeStarted: new Date(Date.now() - 500) });
+    assertEquals((restart as { error: string }).error, "Subtask already marked started");
+
+    // Completing an unstarted subtask also marks it started
+    await tasks.completeSubtask({ user, task, subtask: second, timeCompleted: new Date(Date.now() - 100) });
+    const completed = await tasks.getSubtask({ user, task, subtask: second });
+    if ("error" in completed) throw new Error("Query for existing subtask should succeed.");
+    assertExists(completed.startedAt);
+    assertExists(completed.completedAt);
+
+    taskDoc = await tasks.getTask({ user, task });
+    if ("error" in taskDoc) throw new Error("Query for existing task should succeed.");
+    assertEquals(tasks.getTaskStatus({ task: taskDoc }), "in-progress");
+    assertEquals(tasks.getSubtaskProgress({ task: taskDoc }), { total: 3, started: 2, completed: 1 });
+
+    // The task list agrees with the task's status
+    const inProgress = await tasks.getTasks({ user, status: "in-progress", limit: 100 }) as TaskPage;
+    assertEquals(inProgress.tasks.some((t) => t._id === task), true);
+    const pending = await tasks.getTasks({ user, status: "pending", limit: 100 }) as TaskPage;
+    assertEquals(pending.tasks.some((t) => t._id === task), false);
+
+    await tasks.removeSubtask({ user, task, subtask: third });
+    const removed = await tasks.getSubtask({ user, task, subtask: third });
+    assertEquals((removed as { error: string }).error, "Subtask does not exist");
+  });
+
+  await t.step("Action: recurring series spawn dated instances until their count runs out", async () => {
+    const firstDue = new Date(Date.now() + 1000 * 60 * 60);
+    const invalid = await tasks.createSeries({
+      user,
+      title: "Water plants",
+      dueDate: firstDue,
+      rule: { freq: "daily", interval: 0 },
+    });
+    assertEquals((invalid as { error: string }).error, "Recurrence interval must be a positive integer");
+
+    const { series } = await tasks.createSeries({
+      user,
+      title: "Water plants",
+      description: "Every other day",
+      dueDate: firstDue,
+      rule: { freq: "daily", interval: 2, count: 2 },
+    }) as { series: ID };
+
+    // First instance is due on the series' start date
+    const first = await tasks.getNextInstance({ user, series });
+    if ("error" in first) throw new Error("First instance should be available.");
+    assertEquals(first.dueDate.getTime(), firstDue.getTime());
+    assertEquals(first.title, `Water plants (${firstDue.toISOString().slice(0, 10)})`);
+
+    const { task } = await tasks.createTask({ user, series, title: first.title, dueDate: first.dueDate }) as { task: ID };
+
+    // No new instance until the current one is completed
+    const early = await tasks.getNextInstance({ user, series });
+    assertEquals((early as { error: string }).error, "Current instance is not complete");
+
+    await tasks.markComplete({ user, task, timeCompleted: new Date(Date.now() - 100) });
+    const second = await tasks.getNextInstance({ user, series });
+    if ("error" in second) throw new Error("Second instance should be available.");
+    assertEquals(second.dueDate.getTime(), firstDue.getTime() + 2 * 24 * 60 * 60 * 1000);
+
+    const { task: secondTask } = await tasks.createTask({ user, series, title: second.title, dueDate: second.dueDate }) as { task: ID };
+    await tasks.markComplete({ user, task: secondTask, timeCompleted: new Date(Date.now() - 100) });
+
+    const exhausted = await tasks.getNextInstance({ user, series });
+    assertEquals((exhausted as { error: string }).error, "Series has no further occurrences");
+  });
+
+  await t.step("Action: a reopened instance can take its series back from the instance spawned after it", async () => {
+    const { series } = await tasks.createSeries({
+      user,
+      title: "Pay rent",
+      dueDate: new Date(Date.now() + 1000 * 60 * 60),
+      rule: { freq: "monthly", interval: 1 },
+    }) as { series: ID };
+    const first = await tasks.getNextInstance({ user, series });
+    if ("error" in first) throw new Error("First instance should be available.");
+    const { task } = await tasks.createTask({ user, series, title: first.title, dueDate: first.dueDate }) as { task: ID };
+    await tasks.markComplete({ user, task, timeCompleted: new Date(Date.now() - 100) });
+    const second = await tasks.getNextInstance({ user, series });
+    if ("error" in second) throw new Error("Second instance should be available.");
+    const { task: spawned } = await tasks.createTask({ user, series, title: second.title, dueDate: second.dueDate }) as { task: ID };
+
+    const completed = await tasks.rewindSeries({ user, task });
+    assertEquals((completed as { error: string }).error, "Task is still completed");
+
+    await tasks.reopenTask({ user, task });
+    assertEquals(await tasks.rewindSeries({ user, task }), { instance: spawned });
+    const seriesDoc = await tasks.getSeries({ user, series });
+    if ("error" in seriesDoc) throw new Error("Query for existing series should succeed.");
+    assertEquals([seriesDoc.currentTask, seriesDoc.occurrences], [task, 1]);
+
+    const again = await tasks.rewindSeries({ user, task });
+    assertEquals((again as { error: string }).error, "Series has no later instance");
+    await tasks.stopSeries({ user, series });
+  });
+
+  await t.step("Action: stopped series reject updates and new instances", async () => {
+    const { series } = await tasks.createSeries({
+      user,
+      title: "Weekly review",
+      dueDate: new Date(Date.now() + 1000 * 60 * 60),
+      rule: { freq: "weekly", interval: 1, byWeekday: [1, 5] },
+    }) as { series: ID };
+
+    const update = await tasks.updateSeries({ user, series, title: "Friday review", rule: { freq: "weekly", interval: 1, byWeekday: [5] } });
+    assertNotEquals("error" in update, true, "Updating an active series should succeed.");
+
+    const seriesDoc = await tasks.getSeries({ user, series });
+    if ("error" in seriesDoc) throw new Error("Query for existing series should succeed.");
+    assertEquals(seriesDoc.title, "Friday review");
+    assertEquals(seriesDoc.rule.byWeekday, [5]);
+
+    await tasks.stopSeries({ user, series });
+
+    const next = await tasks.getNextInstance({ user, series });
+    assertEquals((next as { error: string }).error, "Series has ended");
+
+    const spawn = await tasks.createTask({ user, title: "Late review", series });
+    assertEquals((spawn as { error: string }).error, "Series has ended");
+
+    const updateStopped = await tasks.updateSeries({ user, series, title: "Monday review" });
+    assertEquals((updateStopped as { error: string }).error, "Series has ended");
+  });
+
+  await t.step("Action: projects and tags label tasks and filter getTasks", async () => {
+    const labeler = "user:Carol" as ID;
+
+    const badColor = await tasks.createProject({ user: labeler, name: "Thesis", color: "blue" });
+    assertEquals((badColor as { error: string }).error, "Color must be a hex code like #4A90E2");
+
+    const { project } = await tasks.createProject({ user: labeler, name: "Thesis", color: "#4A90E2" }) as { project: ID };
+    const dupProject = await tasks.createProject({ user: labeler, name: "Thesis" });
+    assertEquals((dupProject as { error: string }).error, "Project name must be unique");
+
+    const { tag: urgent } = await tasks.createTag({ user: labeler, name: "urgent", color: "#FF0000" }) as { tag: ID };
+    const { tag: reading } = await tasks.createTag({ user: labeler, name: "reading" }) as { tag: ID };
+
+    const soon = new Date(Date.now() + 1000 * 60 * 60);
+    const later = new Date(Date.now() + 1000 * 60 * 60 * 24 * 7);
+    const { task: chapter } = await tasks.createTask({ user: labeler, title: "Read chapter", dueDate: soon }) as { task: ID };
+    const { task: draft } = await tasks.createTask({ user: labeler, title: "Draft intro", dueDate: later }) as { task: ID };
+    await tasks.createTask({ user: labeler, title: "Unlabeled" });
+
+    await tasks.setTaskProject({ user: labeler, task: chapter, project });
+    await tasks.setTaskProject({ user: labeler, task: draft, project });
+    await tasks.setTaskTags({ user: labeler, task: chapter, tags: [urgent, reading] });
+    const tagged = await tasks.setTaskTags({ user: labeler, task: draft, tags: [urgent] });
+    assertEquals((tagged as { changes: unknown[] }).changes, [{ field: "tags", from: [], to: [urgent] }]);
+    const retagged = await tasks.setTaskTags({ user: labeler, task: draft, tags: [urgent] });
+    assertEquals((retagged as { changes: unknown[] }).changes, [], "Setting the same tags changes nothing.");
+
+    const foreignTag = await tasks.setTaskTags({ user, task: chapter, tags: [urgent] });
+    assertEquals((foreignTag as { error: string }).error, "Task does not belong to user");
+
+    const byProject = await tasks.getTasks({ user: labeler, project }) as TaskPage;
+    assertEquals(byProject.tasks.length, 2);
+
+    const byTags = await tasks.getTasks({ user: labeler, tags: [urgent, reading] }) as TaskPage;
+    assertEquals(byTags.tasks.map((t) => t._id), [chapter]);
+
+    const byRange = await tasks.getTasks({ user: labeler, project, tags: [urgent], dueAfter: new Date(Date.now() + 1000 * 60 * 60 * 24) }) as TaskPage;
+    assertEquals(byRange.tasks.map((t) => t._id), [draft]);
+
+    // Renaming a tag is reflected everywhere; deleting one removes it from tasks
+    await tasks.updateTag({ user: labeler, tag: reading, name: "literature" });
+    const renamed = await tasks.getTag({ user: labeler, tag: reading });
+    if ("error" in renamed) throw new Error("Query for existing tag should succeed.");
+    assertEquals(renamed.name, "literature");
+
+    await tasks.deleteTag({ user: labeler, tag: urgent });
+    const untagged = await tasks.getTask({ user: labeler, task: draft });
+    if ("error" in untagged) throw new Error("Query for existing task should succeed.");
+    assertEquals(untagged.tags, []);
+
+    // Deleting a project reports its tasks so they can be cascaded
+    const deleted = await tasks.deleteProject({ user: labeler, project });
+    if ("error" in deleted) throw new Error("Deleting an existing project should succeed.");
+    assertEquals(deleted.tasks.sort(), [chapter, draft].sort());
+    const { projects } = await tasks.getProjects({ user: labeler });
+    assertEquals(projects.length, 0);
+  });
+
+  await t.step("Action: dependencies block starting and reject cycles", async () => {
+    const planner = "user:Dana" as ID;
+    const { task: research } = await tasks.createTask({ user: planner, title: "Research" }) as { task: ID };
+    const { task: outline } = await tasks.createTask({ user: planner, title: "Outline" }) as { task: ID };
+    const { task: write } = await tasks.createTask({ user: planner, title: "Write" }) as { task: ID };
+
+    const self = await tasks.addDependency({ user: planner, task: research, blockedBy: research });
+    assertEquals((self as { error: string }).error, "A task cannot block itself");
+
+    await tasks.addDependency({ user: planner, task: outline, blockedBy: research });
+    await tasks.addDependency({ user: planner, task: write, blockedBy: outline });
+
+    const cycle = await tasks.addDependency({ user: planner, task: research, blockedBy: write });
+    assertEquals((cycle as { error: string }).error, "Dependency would create a cycle");
+
+    // Outline cannot start until research is done
+    const blockedStart = await tasks.markStarted({ user: planner, task: outline, timeStarted: new Date(Date.now() - 100) });
+    assertEquals((blockedStart as { error: string }).error, "Task is blocked by incomplete tasks");
+
+    const outlineDoc = await tasks.getTask({ user: planner, task: outline });
+    if ("error" in outlineDoc) throw new Error("Query for existing task should succeed.");
+    const { blockers } = await tasks.getBlockers({ user: planner, task: outline });
+    assertEquals(tasks.getTaskStatus({ task: outlineDoc, blockers }), "blocked");
+
+    const blocked = await tasks.getTasks({ user: planner, status: "blocked" }) as TaskPage;
+    assertEquals(blocked.tasks.map((t) => t._id).sort(), [outline, write].sort());
+    const pending = await tasks.getTasks({ user: planner, status: "pending" }) as TaskPage;
+    assertEquals(pending.tasks.map((t) => t._id), [research]);
+
+    const graphResult = await tasks.getDependencyGraph({ user: planner, task: write });
+    if ("error" in graphResult) throw new Error("Graph query should succeed.");
+    assertEquals(graphResult.graph.nodes.length, 3);
+    assertEquals(graphResult.graph.edges.length, 2);
+
+    await tasks.markComplete({ user: planner, task: research, timeCompleted: new Date(Date.now() - 100) });
+    const unblockedStart = await tasks.markStarted({ user: planner, task: outline, timeStarted: new Date(Date.now() - 50) });
+    assertNotEquals("error" in unblockedStart, true, "Starting an unblocked task should succeed.");
+
+    // Abandoning a blocker releases the tasks it blocks
+    await tasks.abandonTask({ user: planner, task: outline });
+    const writeDoc = await tasks.getTask({ user: planner, task: write });
+    if ("error" in writeDoc) throw new Error("Query for existing task should succeed.");
+    const { blockers: writeBlockers } = await tasks.getBlockers({ user: planner, task: write });
+    assertEquals(tasks.getTaskStatus({ task: writeDoc, blockers: writeBlockers }), "pending");
+    const released = await tasks.getTasks({ user: planner, status: "pending" }) as TaskPage;
+    assertEquals(released.tasks.map((t) => t._id), [write]);
+
+    await tasks.removeDependency({ user: planner, task: write, blockedBy: outline });
+    const missing = await tasks.removeDependency({ user: planner, task: write, blockedBy: outline });
+    assertEquals((missing as { error: string }).error, "Dependency does not exist");
+  });
+
+  await t.step("Query: getNextBestTasks ranks pending tasks and explains why", async () => {
+    const ranker = "user:Eli" as ID;
+    const { task: quickWin } = await tasks.createTask({ user: ranker, title: "Reply to email" }) as { task: ID };
+    const { task: bigProject } = await tasks.createTask({ user: ranker, title: "Write proposal" }) as { task: ID };
+    const { task: dueSoon } = await tasks.createTask({
+      user: ranker,
+      title: "Submit form",
+      dueDate: new Date(Date.now() + 1000 * 60 * 60),
+    }) as { task: ID };
+
+    const badEstimate = await tasks.setTaskPriority({ user: ranker, task: quickWin, estimatedMinutes: -5 });
+    assertEquals((badEstimate as { error: string }).error, "Estimated minutes must be a positive whole number");
+
+    await tasks.setTaskPriority({ user: ranker, task: quickWin, estimatedMinutes: 5 });
+    await tasks.setTaskPriority({ user: ranker, task: bigProject, urgent: false, important: true, estimatedMinutes: 240 });
+
+    // After a positive emotion, important work outranks the quick win
+    const energized = await tasks.getNextBestTasks({ user: ranker, limit: 3, recentEmotion: Emotion.Energized });
+    assertEquals(energized.tasks.map((r) => r.task._id), [dueSoon, bigProject, quickWin]);
+    assertEquals(energized.tasks[0].mood, "positive");
+    assertEquals(energized.tasks[1].factors.priority, 0.75);
+
+    // After a negative emotion, the quick win moves ahead of the big project
+    const stressed = await tasks.getNextBestTasks({ user: ranker, limit: 3, recentEmotion: Emotion.Stressed });
+    assertEquals(stressed.tasks.map((r) => r.task._id), [dueSoon, quickWin, bigProject]);
+
+    // Ranking is deterministic
+    const again = await tasks.getNextBestTasks({ user: ranker, limit: 3, recentEmotion: Emotion.Stressed });
+    assertEquals(again.tasks.map((r) => r.task._id), stressed.tasks.map((r) => r.task._id));
+
+    // Started tasks are no longer suggested
+    await tasks.markStarted({ user: ranker, task: dueSoon, timeStarted: new Date(Date.now() - 100) });
+    const remaining = await tasks.getNextBestTasks({ user: ranker, limit: 1, recentEmotion: null });
+    assertEquals(remaining.tasks.length, 1);
+    assertNotEquals(remaining.tasks[0].task._id, dueSoon);
+  });
+
+  await t.step("Action: deleted tasks go to the trash and can be restored or purged", async () => {
+    const tidy = "user:Finn" as ID;
+    const { task: keep } = await tasks.createTask({ user: tidy, title: "Keep me" }) as { task: ID };
+    const { task: oops } = await tasks.createTask({ user: tidy, title: "Deleted by mistake" }) as { task: ID };
+    const { task: old } = await tasks.createTask({ user: tidy, title: "Long gone" }) as { task: ID };
+
+    const notTrashed = await tasks.purgeTask({ user: tidy, task: keep });
+    assertEquals((notTrashed as { error: string }).error, "Task is not in trash");
+
+    await tasks.deleteTask({ user: tidy, task: oops });
+    const again = await tasks.deleteTask({ user: tidy, task: oops });
+    assertEquals((again as { error: string }).error, "Task is already in trash");
+    const trashedStart = await tasks.markStarted({ user: tidy, task: oops, timeStarted: new Date() });
+    assertEquals((trashedStart as { error: string }).error, "Task is in trash");
+
+    const active = await tasks.getTasks({ user: tidy }) as TaskPage;
+    assertEquals(active.tasks.map((t) => t._id).includes(oops), false, "Trashed tasks are hidden by default.");
+    const trash = await tasks.getTasks({ user: tidy, view: "trash" }) as TaskPage;
+    assertEquals(trash.tasks.map((t) => t._id), [oops]);
+
+    await tasks.restoreTask({ user: tidy, task: oops });
+    const restored = await tasks.getTask({ user: tidy, task: oops });
+    if ("error" in restored) throw new Error("Restored task should still exist.");
+    assertEquals(restored.deletedAt, undefined);
+
+    // Archived tasks move to their own view
+    await tasks.archiveTask({ user: tidy, task: keep });
+    const archived = await tasks.getTasks({ user: tidy, view: "archived" }) as TaskPage;
+    assertEquals(archived.tasks.map((t) => t._id), [keep]);
+    await tasks.unarchiveTask({ user: tidy, task: keep });
+    const notArchived = await tasks.unarchiveTask({ user: tidy, task: keep });
+    assertEquals((notArchived as { error: string }).error, "Task is not archived");
+
+    // Only tasks past the retention window are purged automatically
+    await tasks.deleteTask({ user: tidy, task: oops });
+    await tasks.deleteTask({ user: tidy, task: old });
+    await tasks.tasks.updateOne({ _id: old }, { $set: { deletedAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 31) } });
+
+    assertEquals((await tasks.getExpiredTrashOwners({})).users.includes(tidy), true);
+    const purged = await tasks.purgeExpiredTasks({ user: tidy });
+    assertEquals(purged.tasks, [old]);
+    assertEquals((await tasks.getExpiredTrashOwners({})).users.includes(tidy), false);
+    assertEquals((await tasks.getTask({ user: tidy, task: old }) as { error: string }).error, "Task does not exist");
+
+    assertEquals(await tasks.purgeTask({ user: tidy, task: oops }), { task: oops });
+    assertEquals((await tasks.getTask({ user: tidy, task: oops }) as { error: string }).error, "Task does not exist");
+  });
+
+  await t.step("Action: tasks can be created with their original start and completion times", async () => {
+    const mover = "user:Mover" as ID;
+    const startedAt = new Date(Date.now() - 1000 * 60 * 60 * 48);
+    const completedAt = new Date(Date.now() - 1000 * 60 * 60 * 24);
+    const pastDue = new Date(Date.now() - 1000 * 60 * 60 * 36);
+
+    // Completed tasks keep their history and may have been due in the past
+    const done = await tasks.createTask({ user: mover, title: "Old report", dueDate: pastDue, startedAt, completedAt });
+    if ("error" in done) throw new Error(done.error);
+    const doneDoc = await tasks.getTaskByTitle({ user: mover, title: "Old report" });
+    if ("error" in doneDoc) throw new Error(doneDoc.error);
+    assertEquals(doneDoc._id, done.task);
+    assertEquals(doneDoc.startedAt, startedAt);
+    assertEquals(doneDoc.completedAt, completedAt);
+
+    // Without a start time, the task counts as started when it was completed
+    const quick = await tasks.createTask({ user: mover, title: "Quick fix", completedAt });
+    if ("error" in quick) throw new Error(quick.error);
+    const quickDoc = await tasks.getTask({ user: mover, task: quick.task });
+    if ("error" in quickDoc) throw new Error(quickDoc.error);
+    assertEquals(quickDoc.startedAt, completedAt);
+
+    const pending = await tasks.createTask({ user: mover, title: "Late", dueDate: pastDue });
+    assertEquals((pending as { error: string }).error, "Due date cannot be in the past");
+    const reversed = await tasks.createTask({ user: mover, title: "Backwards", startedAt: completedAt, completedAt: startedAt });
+    assertEquals((reversed as { error: string }).error, "Start time cannot be after completion time");
+    const missing = await tasks.getTaskByTitle({ user: mover, title: "Nope" });
+    assertEquals((missing as { error: string }).error, "Task does not exist");
+  });
+
+  await t.step("Query: getTasks pages by cursor with filter-accurate totals", async () => {
+    const reader = "user:Reader" as ID;
+    const ids: ID[] = [];
+    for (const title of ["One", "Two", "Three", "Four", "Five"]) {
+      const created = await tasks.createTask({ user: reader, title });
+      if ("error" in created) throw new Error(created.error);
+      ids.push(created.task);
+    }
+    await tasks.markStarted({ user: reader, task: ids[0], timeStarted: new Date() });
+
+    // Totals count only the tasks matching the filter
+    const pendingPage = await tasks.getTasks({ user: reader, status: "pending", limit: 2 }) as TaskPage;
+    assertEquals(pendingPage.total, 4);
+
+    // Oldest first, two at a time
+    const first = await tasks.getTasks({ user: reader, limit: 2, sortOrder: 1 }) as TaskPage;
+    assertEquals(first.tasks.length, 2);
+    assertExists(first.nextCursor);
+
+    // A task created between pages does not shift the next pages
+    const six = await tasks.createTask({ user: reader, title: "Six" }) as { task: ID };
+    const second = await tasks.getTasks({ user: reader, limit: 2, sortOrder: 1, cursor: first.nextCursor }) as TaskPage;
+    const third = await tasks.getTasks({ user: reader, limit: 2, sortOrder: 1, cursor: second.nextCursor }) as TaskPage;
+    const seen = [...first.tasks, ...second.tasks, ...third.tasks].map((t) => t._id);
+    assertEquals(new Set(seen).size, 6, "Every task should appear exactly once.");
+    assertEquals(seen.slice(0, 5).sort(), [...ids].sort());
+    assertEquals(seen[5], six.task, "The newest task comes last.");
+    assertEquals(third.nextCursor, null);
+
+    // Cursors only work with the sort order they came from
+    const mismatched = await tasks.getTasks({ user: reader, limit: 2, sortOrder: -1, cursor: first.nextCursor });
+    assertEquals((mismatched as { error: string }).error, "Cursor does not match the sort order");
+    const garbage = await tasks.getTasks({ user: reader, cursor: "not-a-cursor" });
+    assertEquals((garbage as { error: string }).error, "Cursor is invalid");
+
+    for (const limit of [0, -1, 1.5]) {
+      const badLimit = await tasks.getTasks({ user: reader, limit });
+      assertEquals((badLimit as { error: string }).error, "Limit must be a positive whole number");
+    }
+  });
+
+  await t.step("Query: searchTasks matches titles and descriptions, titles first", async () => {
+    const finder = "user:Finder" as ID;
+    const inTitle = await tasks.createTask({ user: finder, title: "Chemistry lab report" }) as { task: ID };
+    const inDescription = await tasks.createTask({ user: finder, title: "Thursday work", description: "Finish the chemistry problem set" }) as { task: ID };
+    const trashed = await tasks.createTask({ user: finder, title: "Old chemistry notes" }) as { task: ID };
+    await tasks.deleteTask({ user: finder, task: trashed.task });
+    await tasks.createTask({ user: "user:Other" as ID, title: "Chemistry exam" });
+
+    const result = await tasks.searchTasks({ user: finder, query: "chemistry" });
+    if ("error" in result) throw new Error(result.error);
+    assertEquals(result.tasks.map((t) => t._id), [inTitle.task, inDescription.task]);
+
+    // getTasks search now covers descriptions too
+    const listed = await tasks.getTasks({ user: finder, search: "problem" }) as TaskPage;
+    assertEquals(listed.tasks.map((t) => t._id), [inDescription.task]);
+
+    const empty = await tasks.searchTasks({ user: finder, query: "" });
+    assertEquals((empty as { error: string }).error, "Search query cannot be empty");
+  });
+
+  await t.step("Action: tasks can be paused, resumed, reopened and abandoned with a status history", async () => {
+    const worker = "user:Worker" as ID;
+    const { task } = await tasks.createTask({ user: worker, title: "Lab writeup" }) as { task: ID };
+    const status = async () => tasks.getTaskStatus({ task: await tasks.getTask({ user: worker, task }) as never });
+
+    const notStarted = await tasks.pauseTask({ user: worker, task });
+    assertEquals((notStarted as { error: string }).error, "Only tasks in progress can be paused");
+
+    await tasks.markStarted({ user: worker, task, timeStarted: new Date() });
+    await tasks.pauseTask({ user: worker, task });
+    assertEquals(await status(), "paused");
+    const paused = await tasks.getTasks({ user: worker, status: "paused" }) as TaskPage;
+    assertEquals(paused.tasks.map((t) => t._id), [task]);
+
+    await tasks.resumeTask({ user: worker, task });
+    assertEquals(await status(), "in-progress");
+    const notPaused = await tasks.resumeTask({ user: worker, task });
+    assertEquals((notPaused as { error: string }).error, "Task is not paused");
+
+    // Completing too early and reopening returns the task to in progress
+    await tasks.markComplete({ user: worker, task, timeCompleted: new Date() });
+    await tasks.reopenTask({ user: worker, task });
+    assertEquals(await status(), "in-progress");
+
+    await tasks.abandonTask({ user: worker, task });
+    assertEquals(await status(), "abandoned");
+    const finish = await tasks.markComplete({ user: worker, task, timeCompleted: new Date() });
+    assertEquals((finish as { error: string }).error, "Task has been abandoned");
+
+    const result = await tasks.getStatusHistory({ user: worker, task });
+    if ("error" in result) throw new Error(result.error);
+    assertEquals(
+      result.history.map((change) => `${change.from}->${change.to}`),
+      [
+        "pending->in-progress",
+        "in-progress->paused",
+        "paused->in-progress",
+        "in-progress->completed",
+        "completed->in-progress",
+        "in-progress->abandoned",
+      ],
+    );
+  });
+
+  await t.step("Action: tasks are flagged once when they become due soon and when they become overdue", async () => {
+    const late = "user:Late" as ID;
+    const before = new Date();
+    const { task: essay } = await tasks.createTask({
+      user: late,
+      title: "Essay",
+      dueDate: new Date(Date.now() + 1000 * 60 * 30),
+    }) as { task: ID };
+    const { task: report } = await tasks.createTask({
+      user: late,
+      title: "Report",
+      dueDate: new Date(Date.now() + 1000 * 60 * 60 * 24),
+    }) as { task: ID };
+
+    // 1. Within the hour before its due date, the essay is due soon
+    const first = await tasks.checkDueDates({ user: late });
+    assertEquals(first, { dueSoon: [essay], overdue: [] });
+    assertEquals((await tasks.checkDueDates({ user: late })).dueSoon, [], "Tasks are only flagged once.");
+
+    // 2. The report's due date passes while the user is away; it is caught up on the next check
+    await tasks.tasks.updateOne({ _id: report }, { $set: { dueDate: new Date(Date.now() - 1000 * 60) } });
+    assertEquals((await tasks.getOverdueTasks({ user: late })).tasks.map((t) => t._id), [report]);
+    assertEquals((await tasks.checkDueDates({ user: late })).overdue, [report]);
+
+    const { events } = await tasks.getDueDateEvents({ user: late, afterTimestamp: before });
+    assertEquals(events.map((e) => `${e.type}:${e.title}`), ["due_soon:Essay", "overdue:Report"]);
+
+    // 3. Moving the due date clears the flag; completed tasks are no longer overdue
+    await tasks.updateTask({ user: late, task: report, dueDate: new Date(Date.now() + 1000 * 60 * 60 * 24) });
+    assertEquals((await tasks.getTask({ user: late, task: report }) as { overdueAt?: Date }).overdueAt, undefined);
+    await tasks.tasks.updateOne({ _id: essay }, { $set: { dueDate: new Date(Date.now() - 1000 * 60) } });
+    await tasks.markComplete({ user: late, task: essay, timeCompleted: new Date() });
+    assertEquals((await tasks.getOverdueTasks({ user: late })).tasks, []);
+    assertEquals((await tasks.checkDueDates({ user: late })).overdue, []);
+  });
+
   await client.close();
 });
\ No newline at end of file
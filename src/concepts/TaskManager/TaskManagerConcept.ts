@@ -1,16 +1,86 @@
 import { Collection, Db } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
 import { freshID } from "@utils/database.ts";
+import { Emotion, NEGATIVE_EMOTIONS, POSITIVE_EMOTIONS } from "@utils/emotions.ts";
+import { nextOccurrence, normalizeRecurrenceRule, RecurrenceRule, withinBounds } from "@utils/recurrence.ts";
+import { checkLimit, keysetFilter, nextPage, readCursor } from "@utils/pagination.ts";
+import { validateNewTask } from "@utils/validation.ts";
+import { checkOwner } from "@utils/access.ts";
 
 // Collection prefix to avoid name clashes
 const PREFIX = "TaskManager" + ".";
 
+// How long a deleted task stays in the trash before it is permanently purged
+const TRASH_RETENTION_DAYS = parseInt(Deno.env.get("TASK_TRASH_RETENTION_DAYS") ?? "30", 10);
+
+// How long before its due date a task counts as due soon
+const DUE_SOON_MINUTES = parseInt(Deno.env.get("TASK_DUE_SOON_MINUTES") ?? "60", 10);
+
 // Generic types for the concept's external dependencies
 type User = ID;
 
 // Define the types for our entries based on the concept state
 type Task = ID;
-export type TaskStatus = "pending" | "in-progress" | "completed";
+type Subtask = ID;
+type Series = ID;
+type Project = ID;
+type Tag = ID;
+export type TaskStatus = "pending" | "blocked" | "in-progress" | "paused" | "completed" | "abandoned";
+
+// Label colors are stored as six-digit hex codes, e.g. "#4A90E2"
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Which tasks getTasks lists: live tasks, archived tasks, or tasks in the trash
+export type TaskView = "active" | "archived" | "trash";
+
+type Mood = "positive" | "neutral" | "negative";
+
+// Weights for getNextBestTasks, chosen by the mood of the user's latest "before" emotion.
+// Low moods favor quick wins; good moods favor important work.
+const RANKING_WEIGHTS: Record<Mood, { dueDate: number; priority: number; effort: number }> = {
+  positive: { dueDate: 0.4, priority: 0.45, effort: 0.15 },
+  neutral: { dueDate: 0.4, priority: 0.35, effort: 0.25 },
+  negative: { dueDate: 0.4, priority: 0.2, effort: 0.4 },
+};
+
+/**
+ * a Subtask with
+ *   a title String
+ *   a createdAt Date
+ *   a startedAt? Date
+ *   a completedAt? Date
+ */
+interface SubtaskDoc {
+  _id: Subtask;
+  title: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+/**
+ * a StatusChange with
+ *   a from TaskStatus
+ *   a to TaskStatus
+ *   a at Date
+ */
+interface StatusChange {
+  from: TaskStatus;
+  to: TaskStatus;
+  at: Date;
+}
+
+/**
+ * a FieldChange with
+ *   a field String
+ *   a from? (the previous value, null if unset)
+ *   a to (the new value)
+ */
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
 
 /**
  * a set of Tasks with
@@ -21,6 +91,21 @@ export type TaskStatus = "pending" | "in-progress" | "completed";
  *   a startedAt? Date
  *   a completedAt? Date
  *   a dueDate? Date
+ *   a subtasks? seq of Subtask (ordered)
+ *   a series? Series
+ *   a project? Project
+ *   a tags? set of Tag
+ *   a blockedBy? set of Task
+ *   a urgent? Flag
+ *   a important? Flag
+ *   a estimatedMinutes? Number
+ *   a archivedAt? Date
+ *   a deletedAt? Date
+ *   a pausedAt? Date
+ *   a abandonedAt? Date
+ *   a statusHistory? seq of StatusChange (oldest first)
+ *   a dueSoonAt? Date (when the task was found to be due soon)
+ *   a overdueAt? Date (when the task was found to be overdue)
  */
 interface TaskDoc {
   _id: Task;
@@ -31,6 +116,118 @@ interface TaskDoc {
   startedAt?: Date;
   completedAt?: Date;
   dueDate?: Date;
+  subtasks?: SubtaskDoc[];
+  series?: Series;
+  project?: Project;
+  tags?: Tag[];
+  blockedBy?: Task[];
+  urgent?: boolean;
+  important?: boolean;
+  estimatedMinutes?: number;
+  archivedAt?: Date;
+  deletedAt?: Date;
+  pausedAt?: Date;
+  abandonedAt?: Date;
+  statusHistory?: StatusChange[];
+  dueSoonAt?: Date;
+  overdueAt?: Date;
+}
+
+/**
+ * A due soon or overdue notice for a task, as reported by getDueDateEvents.
+ */
+interface DueDateEvent {
+  type: "due_soon" | "overdue";
+  task: Task;
+  title: string;
+  dueDate: Date;
+  at: Date;
+}
+
+/**
+ * A task ranked by getNextBestTasks, with the factor scores (each from 0 to 1)
+ * and weights that produced its overall score.
+ */
+interface RankedTask {
+  task: TaskDoc;
+  score: number;
+  factors: { dueDate: number; priority: number; effort: number };
+  weights: { dueDate: number; priority: number; effort: number };
+  mood: Mood;
+}
+
+/**
+ * A node and its links in a task's dependency graph.
+ * Edges point from a blocking task to the task it blocks.
+ */
+interface DependencyGraph {
+  nodes: { task: Task; title: string; status: TaskStatus }[];
+  edges: { from: Task; to: Task }[];
+}
+
+/**
+ * a set of Projects with
+ *   a user User
+ *   a name String
+ *   a color? String
+ *   a createdAt Date
+ */
+interface ProjectDoc {
+  _id: Project;
+  user: User;
+  name: string;
+  color?: string;
+  createdAt: Date;
+}
+
+/**
+ * a set of Tags with
+ *   a user User
+ *   a name String
+ *   a color? String
+ *   a createdAt Date
+ */
+interface TagDoc {
+  _id: Tag;
+  user: User;
+  name: string;
+  color?: string;
+  createdAt: Date;
+}
+
+/**
+ * a set of Series with
+ *   a user User
+ *   a title String
+ *   a description? String
+ *   a rule RecurrenceRule
+ *   a startDate Date
+ *   a occurrences Number
+ *   a lastDueDate? Date
+ *   a currentTask? Task
+ *   a active Flag
+ *   a createdAt Date
+ */
+interface SeriesDoc {
+  _id: Series;
+  user: User;
+  title: string;
+  description?: string;
+  rule: RecurrenceRule;
+  startDate: Date;
+  occurrences: number;
+  lastDueDate?: Date;
+  currentTask?: Task;
+  active: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Whether a blocker still holds up the tasks it blocks. Completed and abandoned
+ * blockers are resolved, so giving up on a task does not block its dependents forever.
+ */
+function isUnresolved(blocker: TaskDoc): boolean {
+  return !blocker.completedAt && !blocker.abandonedAt;
 }
 
 /**
@@ -39,24 +236,59 @@ interface TaskDoc {
  */
 export default class TaskManagerConcept {
   tasks: Collection<TaskDoc>;
+  series: Collection<SeriesDoc>;
+  projects: Collection<ProjectDoc>;
+  tags: Collection<TagDoc>;
 
   constructor(private readonly db: Db) {
     this.tasks = this.db.collection(PREFIX + "tasks");
+    this.series = this.db.collection(PREFIX + "series");
+    this.projects = this.db.collection(PREFIX + "projects");
+    this.tags = this.db.collection(PREFIX + "tags");
 
     this.tasks.createIndex({ user: 1, title: 1 }, { unique: true }).catch((err) => {
       console.error("Failed to create task index:", err);
     });
 
-    this.tasks.createIndex({ title: "text" }, { name: "TextSearchIndex" }).catch((err) => {
-      console.error("Failed to create text index:", err);
+    // A collection has at most one text index, so the old title-only index
+    // must be dropped before the title/description index can be built
+    this.tasks.dropIndex("TextSearchIndex")
+      .catch(() => {}) // Already dropped
+      .then(() =>
+        this.tasks.createIndex(
+          { title: "text", description: "text" },
+          { name: "TaskTextSearchIndex", weights: { title: 3, description: 1 } },
+        )
+      )
+      .catch((err) => {
+        console.error("Failed to create text index:", err);
+      });
+
+    this.series.createIndex({ user: 1 }).catch((err) => {
+      console.error("Failed to create series index:", err);
+    });
+
+    this.projects.createIndex({ user: 1, name: 1 }, { unique: true }).catch((err) => {
+      console.error("Failed to create project index:", err);
+    });
+
+    this.tags.createIndex({ user: 1, name: 1 }, { unique: true }).catch((err) => {
+      console.error("Failed to create tag index:", err);
     });
   }
 
   /**
    * Creates a new task for the specified user.
    * @requires The title must be unique and non-empty.
-   *           If provided, the due date must be in the future.
+   *           If provided, the due date must be in the future, unless the task is created already completed.
+   *           If a series is provided, it must belong to the user and still be active.
+   *           If provided, the start and completion times must not be in the future,
+   *           and the task cannot start after it was completed.
    * @effects Inserts a new task record for the user and returns its ID.
+   *          If a series is provided, the task becomes the series' current instance.
+   *          Start and completion times are kept as given, so tasks brought over from
+   *          elsewhere keep their history; a completed task without a start time is
+   *          treated as started when it was completed.
    */
   public async createTask(
     params: { 
@@ -64,19 +296,34 @@ export default class TaskManagerConcept {
       title: string; 
       description?: string; 
       dueDate?: Date;
+      series?: Series;
+      startedAt?: Date;
+      completedAt?: Date;
     }
   ): Promise<{ task: Task } | { error: string }> {
-    const { user, title, description, dueDate } = params;
+    const { user, title, description, dueDate, series, completedAt } = params;
+    const startedAt = params.startedAt ?? completedAt;
 
-    if (!title.trim()) {
-      return { error: "Title cannot be empty" };
-    }
+    const invalid = validateNewTask({ title, dueDate, completedAt });
+    if (invalid) return { error: invalid };
 
     const taskDoc = await this.tasks.findOne({ user, title });
     if (taskDoc) return { error: "Title must be unique" };
 
-    if (dueDate && dueDate.getTime() < Date.now()) {
-      return { error: "Due date cannot be in the past" };
+    if (
+      (startedAt && startedAt.getTime() > Date.now()) ||
+      (completedAt && completedAt.getTime() > Date.now())
+    ) {
+      return { error: "Start and completion times cannot be in the future" };
+    }
+    if (startedAt && completedAt && startedAt.getTime() > completedAt.getTime()) {
+      return { error: "Start time cannot be after completion time" };
+    }
+
+    if (series) {
+      const seriesDoc = await this.getSeries({ user, series });
+      if ('error' in seriesDoc) return { error: seriesDoc.error };
+      if (!seriesDoc.active) return { error: "Series has ended" };
     }
 
     const newTaskId = freshID();
@@ -88,17 +335,163 @@ export default class TaskManagerConcept {
       createdAt: new Date(),
       dueDate,
     };
+    if (series) newTask.series = series;
+    if (startedAt) newTask.startedAt = startedAt;
+    if (completedAt) newTask.completedAt = completedAt;
 
     await this.tasks.insertOne(newTask);
 
+    if (series) {
+      await this.series.updateOne(
+        { _id: series },
+        { $set: { currentTask: newTaskId, lastDueDate: dueDate }, $inc: { occurrences: 1 } }
+      );
+    }
+
     return { task: newTaskId };
   }
 
+  /**
+   * Starts a new recurring series of tasks.
+   * @requires The title must be non-empty.
+   *           The first due date must be in the future.
+   *           The rule must be a valid daily, weekly, or monthly recurrence.
+   * @effects Inserts a new active series with no instances yet and returns its ID.
+   */
+  public async createSeries(
+    params: {
+      user: User;
+      title: string;
+      description?: string;
+      dueDate: Date;
+      rule: RecurrenceRule;
+    }
+  ): Promise<{ series: Series } | { error: string }> {
+    const { user, title, description, dueDate } = params;
+
+    if (!title.trim()) return { error: "Title cannot be empty" };
+    if (dueDate.getTime() < Date.now()) return { error: "Due date cannot be in the past" };
+
+    const rule = normalizeRecurrenceRule(params.rule);
+    if ('error' in rule) return { error: rule.error };
+
+    const newSeriesId = freshID();
+    await this.series.insertOne({
+      _id: newSeriesId,
+      user,
+      title,
+      description,
+      rule,
+      startDate: dueDate,
+      occurrences: 0,
+      active: true,
+      createdAt: new Date(),
+    });
+
+    return { series: newSeriesId };
+  }
+
+  /**
+   * Updates the title, description, or rule used for future instances of a series.
+   *          Fields left null or undefined are not changed.
+   * @requires The series must exist, belong to the user, and still be active.
+   *           Updated fields must follow the same validation rules as series creation.
+   * @effects Modifies the specified fields of the series. Existing instances are left unchanged.
+   */
+  public async updateSeries(
+    params: {
+      user: User;
+      series: Series;
+      title?: string | null;
+      description?: string | null;
+      rule?: RecurrenceRule | null;
+    }
+  ): Promise<{ series: Series } | { error: string }> {
+    const { user, series, title, description } = params;
+
+    const seriesDoc = await this.getSeries({ user, series });
+    if ('error' in seriesDoc) return { error: seriesDoc.error };
+    if (!seriesDoc.active) return { error: "Series has ended" };
+
+    const updates: Partial<Pick<SeriesDoc, "title" | "description" | "rule">> = {};
+
+    if (title !== undefined && title !== null) {
+      if (!title.trim()) return { error: "Title cannot be empty" };
+      updates.title = title;
+    }
+    if (description !== undefined && description !== null) updates.description = description;
+    if (params.rule !== undefined && params.rule !== null) {
+      const rule = normalizeRecurrenceRule(params.rule);
+      if ('error' in rule) return { error: rule.error };
+      updates.rule = rule;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await this.series.updateOne({ _id: series }, { $set: updates });
+    }
+
+    return { series };
+  }
+
+  /**
+   * Stops a recurring series so no further instances are spawned.
+   * @requires The series must exist, belong to the user, and still be active.
+   * @effects Marks the series inactive. Existing instances are left unchanged.
+   */
+  public async stopSeries(
+    { user, series }: { user: User, series: Series },
+  ): Promise<Empty | { error: string }> {
+    const seriesDoc = await this.getSeries({ user, series });
+    if ('error' in seriesDoc) return { error: seriesDoc.error };
+    if (!seriesDoc.active) return { error: "Series has ended" };
+
+    await this.series.updateOne({ _id: series }, { $set: { active: false } });
+
+    return {};
+  }
+
+  /**
+   * Makes a reopened instance the current instance of its series again, in place of
+   * the instance spawned when it was completed.
+   * @requires The task must belong to the user, be part of a series, and not be completed.
+   *           The series' current instance must be another task that has not been started.
+   * @effects Points the series back at the task, undoes the spawned instance's count, and
+   *          returns the spawned instance so it can be removed.
+   */
+  public async rewindSeries(
+    { user, task }: { user: User, task: Task },
+  ): Promise<{ instance: Task } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+    if (!taskDoc.series) return { error: "Task is not part of a series" };
+    if (taskDoc.completedAt) return { error: "Task is still completed" };
+
+    const seriesDoc = await this.getSeries({ user, series: taskDoc.series });
+    if ('error' in seriesDoc) return { error: seriesDoc.error };
+    if (!seriesDoc.currentTask || seriesDoc.currentTask === task) {
+      return { error: "Series has no later instance" };
+    }
+
+    const instance = await this.tasks.findOne({ _id: seriesDoc.currentTask });
+    if (instance?.startedAt || instance?.completedAt) {
+      return { error: "The next instance has already been started" };
+    }
+
+    await this.series.updateOne(
+      { _id: seriesDoc._id },
+      { $set: { currentTask: task, lastDueDate: taskDoc.dueDate }, $inc: { occurrences: -1 } },
+    );
+
+    return { instance: seriesDoc.currentTask };
+  }
+
   /**
    * Updates the details of an existing task.
-   * @requires The task must exist and belong to the user. 
+   * @requires The task must exist, belong to the user, and not be in the trash.
    *           Updated fields must follow the same validation rules as task creation.
-   * @effects Modifies the specified fields of the task.
+   * @effects Modifies the specified fields of the task and returns the fields that changed,
+   *          with their previous and new values. Changing the due date
+   *          clears its due soon and overdue flags, so they are checked again.
    */
   public async updateTask(
     params: { 
@@ -108,11 +501,12 @@ export default class TaskManagerConcept {
       description?: string; 
       dueDate?: Date;
     }
-  ): Promise<{ task: Task } | { error: string }> {
+  ): Promise<{ task: Task; changes: FieldChange[] } | { error: string }> {
     const { user, task, title, description, dueDate } = params;
 
     const taskDoc = await this.getTask({ user, task });
     if ('error' in taskDoc) return { error: taskDoc.error };
+    if (taskDoc.deletedAt) return { error: "Task is in trash" };
 
     if (title) {
       if (!title.trim()) return { error: "Title cannot be empty" };
@@ -143,186 +537,1395 @@ export default class TaskManagerConcept {
       updates.dueDate = dueDate;
     }
 
-    if (Object.keys(updates).length === 0) {
-      return { task };
+    const changes = (Object.keys(updates) as (keyof typeof updates)[]).map((field) => ({
+      field,
+      from: taskDoc[field] ?? null,
+      to: updates[field],
+    }));
+    if (changes.length === 0) {
+      return { task, changes };
     }
 
     await this.tasks.updateOne(
       { _id: taskDoc._id },
-      { $set: updates }
+      updates.dueDate ? { $set: updates, $unset: { dueSoonAt: "", overdueAt: "" } } : { $set: updates }
     );
 
-    return { task };
+    return { task, changes };
   }
 
   /**
    * Marks a task as started.
-   * @requires The task must belong to the user. 
-   *           The task must not already be started. 
+   * @requires The task must belong to the user and not be in the trash.
+   *           The task must not already be started or abandoned. 
+   *           Every task blocking it must already be completed or abandoned.
    *           The provided start time must be in the past.
-   * @effects Sets the task's `startedAt` field to the provided time.
+   * @effects Sets the task's `startedAt` field to the provided time and records the status change.
    */
   public async markStarted(
     { user, task, timeStarted }: { user: User, task: Task, timeStarted: Date },
-  ): Promise<Empty | { error: string }> {
+  ): Promise<{ task: Task } | { error: string }> {
     const taskDoc = await this.getTask({ user, task });
     if ('error' in taskDoc) return { error: taskDoc.error };
+    if (taskDoc.deletedAt) return { error: "Task is in trash" };
 
     if (taskDoc.startedAt) return { error: "Task already marked started" };
+    if (taskDoc.abandonedAt) return { error: "Task has been abandoned" };
     if (timeStarted.getTime() > Date.now()) return { error: "Start time must have already passed" };
 
+    const { blockers } = await this.getBlockers({ user, task });
+    if (blockers.some(isUnresolved)) return { error: "Task is blocked by incomplete tasks" };
+
     await this.tasks.updateOne(
       { _id: taskDoc._id },
-      { $set: { startedAt: timeStarted } }
+      {
+        $set: { startedAt: timeStarted },
+        $push: { statusHistory: this.statusChange(taskDoc, "in-progress", timeStarted, blockers) },
+      }
     );
 
-    return {};
+    return { task };
   }
 
   /**
    * Marks a task as completed.
-   * @requires The task must belong to the user. 
-   *           The task must not already be completed.  
+   * @requires The task must belong to the user and not be in the trash.
+   *           The task must not already be completed or abandoned.  
    *           The provided completion time must be in the past.
-   * @effects Sets the task's `completedAt` field to the provided time.
+   * @effects Sets the task's `completedAt` field to the provided time, ends any pause,
+   *          and records the status change.
    */
   public async markComplete(
     { user, task, timeCompleted }: { user: User, task: Task, timeCompleted: Date },
-  ): Promise<Empty | { error: string }> {
+  ): Promise<{ task: Task } | { error: string }> {
     const taskDoc = await this.getTask({ user, task });
     if ('error' in taskDoc) return { error: taskDoc.error };
+    if (taskDoc.deletedAt) return { error: "Task is in trash" };
 
     if (taskDoc.completedAt) return { error: "Task already marked complete" };
+    if (taskDoc.abandonedAt) return { error: "Task has been abandoned" };
     if (timeCompleted.getTime() > Date.now()) return { error: "Completion time must already have passed" };
 
     await this.tasks.updateOne(
       { _id: taskDoc._id },
-      { $set: { completedAt: timeCompleted } }
+      {
+        $set: { completedAt: timeCompleted },
+        $unset: { pausedAt: "" },
+        $push: { statusHistory: this.statusChange(taskDoc, "completed", timeCompleted) },
+      }
     );
 
-    return {};
+    return { task };
   }
 
   /**
-   * Deletes a single task.
-   * @requires The task must belong to the user.
-   * @effects Removes the specified task from the user's records.
+   * Pauses work on a started task.
+   * @requires The task must belong to the user, not be in the trash, and be in progress
+   *           (started, not paused, completed, or abandoned).
+   * @effects Sets the task's `pausedAt` field to the current time and records the status change.
    */
-  public async deleteTask(
+  public async pauseTask(
     { user, task }: { user: User, task: Task },
-  ): Promise<Empty | { error: string }> {
+  ): Promise<{ task: Task } | { error: string }> {
     const taskDoc = await this.getTask({ user, task });
     if ('error' in taskDoc) return { error: taskDoc.error };
+    if (taskDoc.deletedAt) return { error: "Task is in trash" };
 
-    await this.tasks.deleteOne({ _id: taskDoc._id });
+    if (this.getTaskStatus({ task: taskDoc }) !== "in-progress") {
+      return { error: "Only tasks in progress can be paused" };
+    }
 
-    return {};
+    const now = new Date();
+    await this.tasks.updateOne(
+      { _id: taskDoc._id },
+      { $set: { pausedAt: now }, $push: { statusHistory: this.statusChange(taskDoc, "paused", now) } }
+    );
+
+    return { task };
   }
 
   /**
-   * Deletes all tasks for a given user.
-   * @effects Removes every task associated with the user. 
+   * Resumes work on a paused task.
+   * @requires The task must belong to the user, not be in the trash, and be paused.
+   * @effects Clears the task's `pausedAt` field and records the status change.
    */
-  public async deleteUserTasks(
-    { user }: { user: User },
-  ): Promise<Empty> {
-    await this.tasks.deleteMany({ user });
+  public async resumeTask(
+    { user, task }: { user: User, task: Task },
+  ): Promise<{ task: Task } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+    if (taskDoc.deletedAt) return { error: "Task is in trash" };
 
-    return {};
-  }
+    if (this.getTaskStatus({ task: taskDoc }) !== "paused") return { error: "Task is not paused" };
 
-  /**
-   * Retrieves a single task by its ID.
-   * @requires The task must exist and belong to the user.
-   * @effects Returns the corresponding task document.
-   */
-  public async getTask(
-    { user, task }: { user: User, task: Task }
-  ): Promise<TaskDoc | { error: string }> {
-    const taskDoc = await this.tasks.findOne({ _id: task });
-    if (!taskDoc) return { error: "Task does not exist" };
-    if (taskDoc.user !== user) return { error: "Task does not belong to user" };
+    await this.tasks.updateOne(
+      { _id: taskDoc._id },
+      {
+        $unset: { pausedAt: "" },
+        $push: { statusHistory: this.statusChange(taskDoc, "in-progress", new Date()) },
+      }
+    );
 
-    return taskDoc;
+    return { task };
   }
 
   /**
-   * Retrieves a paginated and optionally filtered list of tasks.
-   * @effects Returns tasks matching the provided filters and pagination parameters
+   * Reopens a task that was completed too early or abandoned.
+   * @requires The task must belong to the user and be completed or abandoned.
+   * @effects Clears the task's `completedAt` and `abandonedAt` fields, returning it to
+   *          in progress if it was started and to pending otherwise, and records the status change.
+   *          Its due soon and overdue flags are cleared, so they are checked again.
    */
-  public async getTasks(
-  {
-    user,
-    page = 1,
-    limit = 10,
-    status,
-    search,
-    sortBy = "createdAt",
-    sortOrder = -1
-  }: {
-    user: User;
-    page?: number;
-    limit?: number;
-    status?: TaskStatus;
-    search?: string;
-    sortBy?: keyof TaskDoc;
-    sortOrder?: 1 | -1;
-  }
-  ): Promise<{
-    tasks: TaskDoc[];
-    total: number;
-    page: number;
-    totalPages: number;
-  }> {
-    const skip = (page - 1) * limit;
-
-    const filter: Record<string, unknown> = { user };
+  public async reopenTask(
+    { user, task }: { user: User, task: Task },
+  ): Promise<{ task: Task } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
 
-    // Status filtering
-    if (status === "completed") {
-      filter.completedAt = { $exists: true };
-    } else if (status === "in-progress") {
-      filter.startedAt = { $exists: true };
-      filter.completedAt = { $exists: false };
-    } else if (status === "pending") {
-      filter.startedAt = { $exists: false };
-      filter.completedAt = { $exists: false };
+    if (!taskDoc.completedAt && !taskDoc.abandonedAt) {
+      return { error: "Only completed or abandoned tasks can be reopened" };
     }
 
-    // Text search (simple substring match on title/description)
-    if (search) {
-      filter.$text = { $search: search };
-    }
+    const { blockers } = await this.getBlockers({ user, task });
+    const reopened = { ...taskDoc, completedAt: undefined, abandonedAt: undefined };
+    const to = this.getTaskStatus({ task: reopened, blockers });
+
+    await this.tasks.updateOne(
+      { _id: taskDoc._id },
+      {
+        $unset: { completedAt: "", abandonedAt: "", dueSoonAt: "", overdueAt: "" },
+        $push: { statusHistory: this.statusChange(taskDoc, to, new Date()) },
+      }
+    );
 
-    const options = search
-    ? { projection: { score: { $meta: "textScore" } }, sort: { score: { $meta: "textScore" } } }
-    : { sort: { [sortBy]: sortOrder } };
+    return { task };
+  }
 
-    const tasks = await this.tasks.find(filter, options)
-      .skip(skip)
-      .limit(limit)
-      .toArray();
+  /**
+   * Gives up on a task without completing it.
+   * @requires The task must belong to the user, not be in the trash, and be neither
+   *           completed nor abandoned.
+   * @effects Sets the task's `abandonedAt` field to the current time, ends any pause,
+   *          and records the status change.
+   */
+  public async abandonTask(
+    { user, task }: { user: User, task: Task },
+  ): Promise<{ task: Task } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+    if (taskDoc.deletedAt) return { error: "Task is in trash" };
 
-    const total = await this.tasks.countDocuments({ user });
-    const totalPages = Math.ceil(total / limit);
+    if (taskDoc.completedAt) return { error: "Task already marked complete" };
+    if (taskDoc.abandonedAt) return { error: "Task has already been abandoned" };
 
-    return {
-      tasks,
-      total,
-      page,
-      totalPages
-    };
+    const { blockers } = await this.getBlockers({ user, task });
+    const now = new Date();
+    await this.tasks.updateOne(
+      { _id: taskDoc._id },
+      {
+        $set: { abandonedAt: now },
+        $unset: { pausedAt: "" },
+        $push: { statusHistory: this.statusChange(taskDoc, "abandoned", now, blockers) },
+      }
+    );
+
+    return { task };
   }
 
   /**
-   * Determines the current status of a task.
-   * @effects Returns `"pending"`, `"in-progress"`, or `"completed"` based on task state.
+   * Moves a task to the trash.
+   * @requires The task must belong to the user and not already be in the trash.
+   * @effects Sets the task's `deletedAt` field to the current time. Related records
+   *          are kept until the task is purged, so the task can be restored intact.
    */
-  public getTaskStatus(
-    { task }: { task: TaskDoc }
-  ): TaskStatus {
-    if (task.completedAt) return "completed";
-    if (task.startedAt) return "in-progress";
-    return "pending";
+  public async deleteTask(
+    { user, task }: { user: User, task: Task },
+  ): Promise<{ task: Task } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    if (taskDoc.deletedAt) return { error: "Task is already in trash" };
+
+    await this.tasks.updateOne(
+      { _id: taskDoc._id },
+      { $set: { deletedAt: new Date() } }
+    );
+
+    return { task };
+  }
+
+  /**
+   * Restores a task from the trash.
+   * @requires The task must belong to the user and be in the trash.
+   * @effects Clears the task's `deletedAt` field.
+   */
+  public async restoreTask(
+    { user, task }: { user: User, task: Task },
+  ): Promise<{ task: Task } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    if (!taskDoc.deletedAt) return { error: "Task is not in trash" };
+
+    await this.tasks.updateOne({ _id: task }, { $unset: { deletedAt: "" } });
+
+    return { task };
+  }
+
+  /**
+   * Permanently deletes a task from the trash.
+   * @requires The task must belong to the user and be in the trash.
+   * @effects Removes the task from the user's records
+   *          and from the blockers of any task it was blocking, and returns it.
+   */
+  public async purgeTask(
+    { user, task }: { user: User, task: Task },
+  ): Promise<{ task: Task } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    if (!taskDoc.deletedAt) return { error: "Task is not in trash" };
+
+    await this.tasks.deleteOne({ _id: taskDoc._id });
+    await this.tasks.updateMany({ user, blockedBy: task }, { $pull: { blockedBy: task } });
+
+    return { task };
+  }
+
+  /**
+   * Permanently deletes the user's tasks that have been in the trash longer than
+   * the retention window (`TASK_TRASH_RETENTION_DAYS`, default 30 days).
+   * @effects Removes the expired tasks and returns their IDs.
+   */
+  public async purgeExpiredTasks(
+    { user }: { user: User },
+  ): Promise<{ tasks: Task[] }> {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const expired = await this.tasks
+      .find({ user, deletedAt: { $lte: cutoff } }, { projection: { _id: 1 } })
+      .toArray();
+    const ids = expired.map((t) => t._id);
+    if (ids.length === 0) return { tasks: [] };
+
+    await this.tasks.deleteMany({ _id: { $in: ids } });
+    await this.tasks.updateMany({ user, blockedBy: { $in: ids } }, { $pullAll: { blockedBy: ids } });
+
+    return { tasks: ids };
+  }
+
+  /**
+   * Finds the users who have tasks that outlived the trash retention window, for
+   * purging them in the background.
+   * @effects Returns up to `limit` users with expired tasks in the trash.
+   */
+  public async getExpiredTrashOwners(
+    { limit = 100 }: { limit?: number },
+  ): Promise<{ users: User[] }> {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const users = await this.tasks.distinct("user", { deletedAt: { $lte: cutoff } });
+    return { users: users.slice(0, limit) };
+  }
+
+  /**
+   * Flags the user's open tasks whose due date is near or has passed. A task is due soon
+   * within `TASK_DUE_SOON_MINUTES` (default 60) of its due date. Completed, abandoned,
+   * archived, and trashed tasks are skipped, and each task is flagged at most once of each kind.
+   * @effects Sets `dueSoonAt` or `overdueAt` to the current time on newly flagged tasks
+   *          and returns their IDs.
+   */
+  public async checkDueDates(
+    { user }: { user: User },
+  ): Promise<{ dueSoon: Task[]; overdue: Task[] }> {
+    const now = new Date();
+    const open = {
+      user,
+      completedAt: { $exists: false },
+      abandonedAt: { $exists: false },
+      archivedAt: { $exists: false },
+      deletedAt: { $exists: false },
+    };
+
+    const overdue = await this.tasks
+      .find({ ...open, dueDate: { $lte: now }, overdueAt: { $exists: false } }, { projection: { _id: 1 } })
+      .toArray();
+    const dueSoon = await this.tasks
+      .find(
+        {
+          ...open,
+          dueDate: { $gt: now, $lte: new Date(now.getTime() + DUE_SOON_MINUTES * 60 * 1000) },
+          dueSoonAt: { $exists: false },
+        },
+        { projection: { _id: 1 } },
+      )
+      .toArray();
+
+    const overdueIds = overdue.map((t) => t._id);
+    const dueSoonIds = dueSoon.map((t) => t._id);
+    if (overdueIds.length > 0) {
+      await this.tasks.updateMany({ _id: { $in: overdueIds } }, { $set: { overdueAt: now } });
+    }
+    if (dueSoonIds.length > 0) {
+      await this.tasks.updateMany({ _id: { $in: dueSoonIds } }, { $set: { dueSoonAt: now } });
+    }
+
+    return { dueSoon: dueSoonIds, overdue: overdueIds };
+  }
+
+  /**
+   * Archives a task, hiding it from the active task list.
+   * @requires The task must belong to the user, not be in the trash, and not already be archived.
+   * @effects Sets the task's `archivedAt` field to the current time.
+   */
+  public async archiveTask(
+    { user, task }: { user: User, task: Task },
+  ): Promise<{ task: Task } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    if (taskDoc.deletedAt) return { error: "Task is in trash" };
+    if (taskDoc.archivedAt) return { error: "Task is already archived" };
+
+    await this.tasks.updateOne({ _id: task }, { $set: { archivedAt: new Date() } });
+
+    return { task };
+  }
+
+  /**
+   * Returns an archived task to the active task list.
+   * @requires The task must belong to the user and be archived.
+   * @effects Clears the task's `archivedAt` field.
+   */
+  public async unarchiveTask(
+    { user, task }: { user: User, task: Task },
+  ): Promise<{ task: Task } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    if (!taskDoc.archivedAt) return { error: "Task is not archived" };
+
+    await this.tasks.updateOne({ _id: task }, { $unset: { archivedAt: "" } });
+
+    return { task };
+  }
+
+  /**
+   * Deletes all tasks for a given user.
+   * @effects Removes every task, recurring series, project, and tag associated with the user.
+   */
+  public async deleteUserTasks(
+    { user }: { user: User },
+  ): Promise<Empty> {
+    await this.tasks.deleteMany({ user });
+    await this.series.deleteMany({ user });
+    await this.projects.deleteMany({ user });
+    await this.tags.deleteMany({ user });
+
+    return {};
+  }
+
+  /**
+   * Adds a subtask to the end of a task's checklist.
+   * @requires The task must belong to the user.
+   *           The subtask title must be non-empty.
+   * @effects Appends a new subtask to the task and returns its ID.
+   */
+  public async addSubtask(
+    { user, task, title }: { user: User, task: Task, title: string },
+  ): Promise<{ subtask: Subtask } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    if (!title.trim()) return { error: "Subtask title cannot be empty" };
+
+    const newSubtask: SubtaskDoc = {
+      _id: freshID(),
+      title,
+      createdAt: new Date(),
+    };
+
+    await this.tasks.updateOne(
+      { _id: taskDoc._id },
+      { $push: { subtasks: newSubtask } }
+    );
+
+    return { subtask: newSubtask._id };
+  }
+
+  /**
+   * Reorders the subtasks of a task.
+   * @requires The task must belong to the user.
+   *           The provided order must contain every subtask of the task exactly once.
+   * @effects Rearranges the task's subtasks to match the provided order.
+   */
+  public async reorderSubtasks(
+    { user, task, order }: { user: User, task: Task, order: Subtask[] },
+  ): Promise<Empty | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    const subtasks = taskDoc.subtasks ?? [];
+    const byId = new Map(subtasks.map((s) => [s._id, s]));
+
+    if (order.length !== subtasks.length || new Set(order).size !== order.length) {
+      return { error: "Order must list every subtask exactly once" };
+    }
+
+    const reordered: SubtaskDoc[] = [];
+    for (const id of order) {
+      const subtaskDoc = byId.get(id);
+      if (!subtaskDoc) return { error: "Order must list every subtask exactly once" };
+      reordered.push(subtaskDoc);
+    }
+
+    await this.tasks.updateOne(
+      { _id: taskDoc._id },
+      { $set: { subtasks: reordered } }
+    );
+
+    return {};
+  }
+
+  /**
+   * Marks a subtask as started.
+   * @requires The task must belong to the user and contain the subtask.
+   *           The subtask must not already be started.
+   *           The provided start time must be in the past.
+   * @effects Sets the subtask's `startedAt` field to the provided time and returns the subtask ID.
+   */
+  public async markSubtaskStarted(
+    { user, task, subtask, timeStarted }: { user: User, task: Task, subtask: Subtask, timeStarted: Date },
+  ): Promise<{ subtask: Subtask } | { error: string }> {
+    const subtaskDoc = await this.getSubtask({ user, task, subtask });
+    if ('error' in subtaskDoc) return { error: subtaskDoc.error };
+
+    if (subtaskDoc.startedAt) return { error: "Subtask already marked started" };
+    if (timeStarted.getTime() > Date.now()) return { error: "Start time must have already passed" };
+
+    await this.tasks.updateOne(
+      { _id: task, "subtasks._id": subtask },
+      { $set: { "subtasks.$.startedAt": timeStarted } }
+    );
+
+    return { subtask };
+  }
+
+  /**
+   * Marks a subtask as completed.
+   * @requires The task must belong to the user and contain the subtask.
+   *           The subtask must not already be completed.
+   *           The provided completion time must be in the past.
+   * @effects Sets the subtask's `completedAt` field to the provided time and returns the subtask ID.
+   *          If the subtask was never started, its `startedAt` is set to the same time.
+   */
+  public async completeSubtask(
+    { user, task, subtask, timeCompleted }: { user: User, task: Task, subtask: Subtask, timeCompleted: Date },
+  ): Promise<{ subtask: Subtask } | { error: string }> {
+    const subtaskDoc = await this.getSubtask({ user, task, subtask });
+    if ('error' in subtaskDoc) return { error: subtaskDoc.error };
+
+    if (subtaskDoc.completedAt) return { error: "Subtask already marked complete" };
+    if (timeCompleted.getTime() > Date.now()) return { error: "Completion time must already have passed" };
+
+    const updates: Record<string, Date> = { "subtasks.$.completedAt": timeCompleted };
+    if (!subtaskDoc.startedAt) updates["subtasks.$.startedAt"] = timeCompleted;
+
+    await this.tasks.updateOne(
+      { _id: task, "subtasks._id": subtask },
+      { $set: updates }
+    );
+
+    return { subtask };
+  }
+
+  /**
+   * Removes a subtask from a task.
+   * @requires The task must belong to the user and contain the subtask.
+   * @effects Deletes the subtask from the task's checklist and returns its ID.
+   */
+  public async removeSubtask(
+    { user, task, subtask }: { user: User, task: Task, subtask: Subtask },
+  ): Promise<{ subtask: Subtask } | { error: string }> {
+    const subtaskDoc = await this.getSubtask({ user, task, subtask });
+    if ('error' in subtaskDoc) return { error: subtaskDoc.error };
+
+    await this.tasks.updateOne(
+      { _id: task },
+      { $pull: { subtasks: { _id: subtask } } }
+    );
+
+    return { subtask };
+  }
+
+  /**
+   * Creates a new project for grouping tasks.
+   * @requires The name must be unique for the user and non-empty.
+   *           If provided, the color must be a hex code like `#4A90E2`.
+   * @effects Inserts a new project for the user and returns its ID.
+   */
+  public async createProject(
+    { user, name, color }: { user: User, name: string, color?: string | null },
+  ): Promise<{ project: Project } | { error: string }> {
+    if (!name.trim()) return { error: "Project name cannot be empty" };
+    if (color && !COLOR_PATTERN.test(color)) return { error: "Color must be a hex code like #4A90E2" };
+
+    const duplicate = await this.projects.findOne({ user, name });
+    if (duplicate) return { error: "Project name must be unique" };
+
+    const newProjectId = freshID();
+    const newProject: ProjectDoc = { _id: newProjectId, user, name, createdAt: new Date() };
+    if (color) newProject.color = color;
+
+    await this.projects.insertOne(newProject);
+
+    return { project: newProjectId };
+  }
+
+  /**
+   * Renames or recolors a project.
+   * @requires The project must exist and belong to the user.
+   *           Updated fields must follow the same validation rules as project creation.
+   * @effects Modifies the specified fields of the project. Fields left null or undefined are not changed.
+   */
+  public async updateProject(
+    { user, project, name, color }: { user: User, project: Project, name?: string | null, color?: string | null },
+  ): Promise<{ project: Project } | { error: string }> {
+    const projectDoc = await this.getProject({ user, project });
+    if ('error' in projectDoc) return { error: projectDoc.error };
+
+    const updates: Partial<Pick<ProjectDoc, "name" | "color">> = {};
+
+    if (name !== undefined && name !== null && name !== projectDoc.name) {
+      if (!name.trim()) return { error: "Project name cannot be empty" };
+      const duplicate = await this.projects.findOne({ user, name });
+      if (duplicate) return { error: "Project name must be unique" };
+      updates.name = name;
+    }
+
+    if (color !== undefined && color !== null) {
+      if (!COLOR_PATTERN.test(color)) return { error: "Color must be a hex code like #4A90E2" };
+      updates.color = color;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await this.projects.updateOne({ _id: project }, { $set: updates });
+    }
+
+    return { project };
+  }
+
+  /**
+   * Deletes a project.
+   * @requires The project must exist and belong to the user.
+   * @effects Removes the project and returns the IDs of the tasks that belonged to it,
+   *          so that they can be deleted along with their related data.
+   */
+  public async deleteProject(
+    { user, project }: { user: User, project: Project },
+  ): Promise<{ tasks: Task[] } | { error: string }> {
+    const projectDoc = await this.getProject({ user, project });
+    if ('error' in projectDoc) return { error: projectDoc.error };
+
+    const projectTasks = await this.tasks.find({ user, project }, { projection: { _id: 1 } }).toArray();
+
+    await this.projects.deleteOne({ _id: project });
+
+    return { tasks: projectTasks.map((t) => t._id) };
+  }
+
+  /**
+   * Creates a new tag for labeling tasks.
+   * @requires The name must be unique for the user and non-empty.
+   *           If provided, the color must be a hex code like `#4A90E2`.
+   * @effects Inserts a new tag for the user and returns its ID.
+   */
+  public async createTag(
+    { user, name, color }: { user: User, name: string, color?: string | null },
+  ): Promise<{ tag: Tag } | { error: string }> {
+    if (!name.trim()) return { error: "Tag name cannot be empty" };
+    if (color && !COLOR_PATTERN.test(color)) return { error: "Color must be a hex code like #4A90E2" };
+
+    const duplicate = await this.tags.findOne({ user, name });
+    if (duplicate) return { error: "Tag name must be unique" };
+
+    const newTagId = freshID();
+    const newTag: TagDoc = { _id: newTagId, user, name, createdAt: new Date() };
+    if (color) newTag.color = color;
+
+    await this.tags.insertOne(newTag);
+
+    return { tag: newTagId };
+  }
+
+  /**
+   * Renames or recolors a tag.
+   * @requires The tag must exist and belong to the user.
+   *           Updated fields must follow the same validation rules as tag creation.
+   * @effects Modifies the specified fields of the tag. Tasks reference tags by ID,
+   *          so every task using the tag reflects the change.
+   */
+  public async updateTag(
+    { user, tag, name, color }: { user: User, tag: Tag, name?: string | null, color?: string | null },
+  ): Promise<{ tag: Tag } | { error: string }> {
+    const tagDoc = await this.getTag({ user, tag });
+    if ('error' in tagDoc) return { error: tagDoc.error };
+
+    const updates: Partial<Pick<TagDoc, "name" | "color">> = {};
+
+    if (name !== undefined && name !== null && name !== tagDoc.name) {
+      if (!name.trim()) return { error: "Tag name cannot be empty" };
+      const duplicate = await this.tags.findOne({ user, name });
+      if (duplicate) return { error: "Tag name must be unique" };
+      updates.name = name;
+    }
+
+    if (color !== undefined && color !== null) {
+      if (!COLOR_PATTERN.test(color)) return { error: "Color must be a hex code like #4A90E2" };
+      updates.color = color;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await this.tags.updateOne({ _id: tag }, { $set: updates });
+    }
+
+    return { tag };
+  }
+
+  /**
+   * Deletes a tag.
+   * @requires The tag must exist and belong to the user.
+   * @effects Removes the tag and removes it from every task that uses it.
+   */
+  public async deleteTag(
+    { user, tag }: { user: User, tag: Tag },
+  ): Promise<Empty | { error: string }> {
+    const tagDoc = await this.getTag({ user, tag });
+    if ('error' in tagDoc) return { error: tagDoc.error };
+
+    await this.tasks.updateMany({ user, tags: tag }, { $pull: { tags: tag } });
+    await this.tags.deleteOne({ _id: tag });
+
+    return {};
+  }
+
+  /**
+   * Assigns a task to a project, or removes it from its project.
+   * @requires The task must belong to the user.
+   *           If provided, the project must belong to the user.
+   * @effects Sets the task's project, or clears it when the project is null,
+   *          and returns the change to the project (none if it stayed the same).
+   */
+  public async setTaskProject(
+    { user, task, project }: { user: User, task: Task, project: Project | null },
+  ): Promise<{ task: Task; changes: FieldChange[] } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    const from = taskDoc.project ?? null;
+    const changes = from === project ? [] : [{ field: "project", from, to: project }];
+
+    if (project === null) {
+      await this.tasks.updateOne({ _id: task }, { $unset: { project: "" } });
+      return { task, changes };
+    }
+
+    const projectDoc = await this.getProject({ user, project });
+    if ('error' in projectDoc) return { error: projectDoc.error };
+
+    await this.tasks.updateOne({ _id: task }, { $set: { project } });
+
+    return { task, changes };
+  }
+
+  /**
+   * Replaces the set of tags on a task.
+   * @requires The task must belong to the user.
+   *           Every tag must belong to the user.
+   * @effects Sets the task's tags to the provided set and returns the change to the
+   *          tags (none if the set stayed the same).
+   */
+  public async setTaskTags(
+    { user, task, tags }: { user: User, task: Task, tags: Tag[] },
+  ): Promise<{ task: Task; changes: FieldChange[] } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    const uniqueTags = [...new Set(tags)];
+    const owned = await this.tags.countDocuments({ user, _id: { $in: uniqueTags } });
+    if (owned !== uniqueTags.length) return { error: "Tag does not exist" };
+
+    await this.tasks.updateOne({ _id: task }, { $set: { tags: uniqueTags } });
+
+    const from = taskDoc.tags ?? [];
+    const same = from.length === uniqueTags.length && uniqueTags.every((tag) => from.includes(tag));
+    return { task, changes: same ? [] : [{ field: "tags", from, to: uniqueTags }] };
+  }
+
+  /**
+   * Records that a task cannot start until another task is completed.
+   * @requires Both tasks must belong to the user and be distinct.
+   *           The link must not already exist and must not create a dependency cycle.
+   * @effects Adds the blocking task to the task's blockers and returns the change to them.
+   */
+  public async addDependency(
+    { user, task, blockedBy }: { user: User, task: Task, blockedBy: Task },
+  ): Promise<{ task: Task; changes: FieldChange[] } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    const blockerDoc = await this.getTask({ user, task: blockedBy });
+    if ('error' in blockerDoc) return { error: blockerDoc.error };
+
+    if (task === blockedBy) return { error: "A task cannot block itself" };
+    if (taskDoc.blockedBy?.includes(blockedBy)) return { error: "Dependency already exists" };
+
+    // Walk upstream from the new blocker; reaching the task again means a cycle
+    const userTasks = await this.tasks.find({ user }, { projection: { blockedBy: 1 } }).toArray();
+    const blockersOf = new Map(userTasks.map((t) => [t._id, t.blockedBy ?? []]));
+    const visited = new Set<Task>();
+    const queue: Task[] = [blockedBy];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === task) return { error: "Dependency would create a cycle" };
+      if (visited.has(current)) continue;
+      visited.add(current);
+      queue.push(...(blockersOf.get(current) ?? []));
+    }
+
+    await this.tasks.updateOne({ _id: task }, { $addToSet: { blockedBy } });
+
+    const from = taskDoc.blockedBy ?? [];
+    return { task, changes: [{ field: "blockedBy", from, to: [...from, blockedBy] }] };
+  }
+
+  /**
+   * Removes a "blocked by" link between two tasks.
+   * @requires The task must belong to the user and currently be blocked by the other task.
+   * @effects Removes the blocking task from the task's blockers and returns the change to them.
+   */
+  public async removeDependency(
+    { user, task, blockedBy }: { user: User, task: Task, blockedBy: Task },
+  ): Promise<{ task: Task; changes: FieldChange[] } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    if (!taskDoc.blockedBy?.includes(blockedBy)) return { error: "Dependency does not exist" };
+
+    await this.tasks.updateOne({ _id: task }, { $pull: { blockedBy } });
+
+    const from = taskDoc.blockedBy;
+    return { task, changes: [{ field: "blockedBy", from, to: from.filter((t) => t !== blockedBy) }] };
+  }
+
+  /**
+   * Sets the Eisenhower priority and effort estimate of a task.
+   * @requires The task must belong to the user.
+   *           If provided, the estimate must be a positive whole number of minutes.
+   * @effects Updates the provided fields and returns the fields that changed, with their
+   *          previous and new values. Fields left null or undefined are not changed.
+   */
+  public async setTaskPriority(
+    { user, task, urgent, important, estimatedMinutes }: {
+      user: User;
+      task: Task;
+      urgent?: boolean | null;
+      important?: boolean | null;
+      estimatedMinutes?: number | null;
+    },
+  ): Promise<{ task: Task; changes: FieldChange[] } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    const updates: Partial<Pick<TaskDoc, "urgent" | "important" | "estimatedMinutes">> = {};
+
+    if (urgent !== undefined && urgent !== null) updates.urgent = urgent;
+    if (important !== undefined && important !== null) updates.important = important;
+    if (estimatedMinutes !== undefined && estimatedMinutes !== null) {
+      if (!Number.isInteger(estimatedMinutes) || estimatedMinutes <= 0) {
+        return { error: "Estimated minutes must be a positive whole number" };
+      }
+      updates.estimatedMinutes = estimatedMinutes;
+    }
+
+    const changes = (Object.keys(updates) as (keyof typeof updates)[])
+      .filter((field) => updates[field] !== taskDoc[field])
+      .map((field) => ({ field, from: taskDoc[field] ?? null, to: updates[field] }));
+
+    if (Object.keys(updates).length > 0) {
+      await this.tasks.updateOne({ _id: task }, { $set: updates });
+    }
+
+    return { task, changes };
+  }
+
+  /**
+   * Retrieves a single task by its ID.
+   * @requires The task must exist and belong to the user.
+   * @effects Returns the corresponding task document.
+   */
+  public async getTask(
+    { user, task }: { user: User, task: Task }
+  ): Promise<TaskDoc | { error: string }> {
+    const taskDoc = await this.tasks.findOne({ _id: task });
+    return checkOwner(taskDoc, user, "Task");
+  }
+
+  /**
+   * Retrieves a task by its title. Titles are unique per user, including
+   * archived tasks and tasks in the trash.
+   * @requires The user must have a task with the title.
+   * @effects Returns the corresponding task document.
+   */
+  public async getTaskByTitle(
+    { user, title }: { user: User, title: string }
+  ): Promise<TaskDoc | { error: string }> {
+    const taskDoc = await this.tasks.findOne({ user, title });
+    if (!taskDoc) return { error: "Task does not exist" };
+
+    return taskDoc;
+  }
+
+  /**
+   * Retrieves a single subtask of a task.
+   * @requires The task must exist, belong to the user, and contain the subtask.
+   * @effects Returns the corresponding subtask document.
+   */
+  public async getSubtask(
+    { user, task, subtask }: { user: User, task: Task, subtask: Subtask }
+  ): Promise<SubtaskDoc | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    const subtaskDoc = taskDoc.subtasks?.find((s) => s._id === subtask);
+    if (!subtaskDoc) return { error: "Subtask does not exist" };
+
+    return subtaskDoc;
+  }
+
+  /**
+   * Retrieves a single recurring series by its ID.
+   * @requires The series must exist and belong to the user.
+   * @effects Returns the corresponding series document.
+   */
+  public async getSeries(
+    { user, series }: { user: User, series: Series }
+  ): Promise<SeriesDoc | { error: string }> {
+    const seriesDoc = await this.series.findOne({ _id: series });
+    return checkOwner(seriesDoc, user, "Series");
+  }
+
+  /**
+   * Retrieves every recurring series for a user.
+   * @effects Returns the user's series, most recently created first.
+   */
+  public async getUserSeries(
+    { user }: { user: User }
+  ): Promise<{ series: SeriesDoc[] }> {
+    const series = await this.series.find({ user }).sort({ createdAt: -1 }).toArray();
+    return { series };
+  }
+
+  /**
+   * Computes the next instance of a recurring series.
+   * @requires The series must exist, belong to the user, and still be active.
+   *           The series' current instance, if any, must be completed.
+   *           The rule's end date or count must not have been reached.
+   * @effects Returns the title, description, and due date of the next instance.
+   *          Occurrences that have already passed are skipped.
+   *          Instance titles carry their due date so they stay unique per user.
+   */
+  public async getNextInstance(
+    { user, series }: { user: User, series: Series }
+  ): Promise<{ series: Series; title: string; description: string | null; dueDate: Date } | { error: string }> {
+    const seriesDoc = await this.getSeries({ user, series });
+    if ('error' in seriesDoc) return { error: seriesDoc.error };
+    if (!seriesDoc.active) return { error: "Series has ended" };
+
+    if (seriesDoc.currentTask) {
+      const current = await this.tasks.findOne({ _id: seriesDoc.currentTask });
+      if (current && !current.completedAt) return { error: "Current instance is not complete" };
+    }
+
+    const { rule, startDate, lastDueDate } = seriesDoc;
+    const after = lastDueDate
+      ? new Date(Math.max(lastDueDate.getTime(), Date.now()))
+      : new Date(startDate.getTime() - 1);
+    const dueDate = nextOccurrence(rule, startDate, after);
+
+    if (!withinBounds(rule, dueDate, seriesDoc.occurrences)) {
+      return { error: "Series has no further occurrences" };
+    }
+
+    return {
+      series,
+      title: `${seriesDoc.title} (${dueDate.toISOString().slice(0, 10)})`,
+      description: seriesDoc.description ?? null,
+      dueDate,
+    };
+  }
+
+  /**
+   * Retrieves a single project by its ID.
+   * @requires The project must exist and belong to the user.
+   * @effects Returns the corresponding project document.
+   */
+  public async getProject(
+    { user, project }: { user: User, project: Project }
+  ): Promise<ProjectDoc | { error: string }> {
+    const projectDoc = await this.projects.findOne({ _id: project });
+    return checkOwner(projectDoc, user, "Project");
+  }
+
+  /**
+   * Retrieves every project for a user.
+   * @effects Returns the user's projects sorted by name.
+   */
+  public async getProjects(
+    { user }: { user: User }
+  ): Promise<{ projects: ProjectDoc[] }> {
+    const projects = await this.projects.find({ user }).sort({ name: 1 }).toArray();
+    return { projects };
+  }
+
+  /**
+   * Retrieves a single tag by its ID.
+   * @requires The tag must exist and belong to the user.
+   * @effects Returns the corresponding tag document.
+   */
+  public async getTag(
+    { user, tag }: { user: User, tag: Tag }
+  ): Promise<TagDoc | { error: string }> {
+    const tagDoc = await this.tags.findOne({ _id: tag });
+    return checkOwner(tagDoc, user, "Tag");
+  }
+
+  /**
+   * Retrieves every tag for a user.
+   * @effects Returns the user's tags sorted by name.
+   */
+  public async getTags(
+    { user }: { user: User }
+  ): Promise<{ tags: TagDoc[] }> {
+    const tags = await this.tags.find({ user }).sort({ name: 1 }).toArray();
+    return { tags };
+  }
+
+  /**
+   * Retrieves the tasks directly blocking a task.
+   * @effects Returns the documents of the task's blockers, or none if the task does not exist.
+   *          Blockers in the trash are ignored.
+   */
+  public async getBlockers(
+    { user, task }: { user: User, task: Task }
+  ): Promise<{ blockers: TaskDoc[] }> {
+    const taskDoc = await this.tasks.findOne({ _id: task, user });
+    if (!taskDoc?.blockedBy?.length) return { blockers: [] };
+
+    const blockers = await this.tasks
+      .find({ user, _id: { $in: taskDoc.blockedBy }, deletedAt: { $exists: false } })
+      .toArray();
+    return { blockers };
+  }
+
+  /**
+   * Builds the dependency graph around a task.
+   * @requires The task must exist and belong to the user.
+   * @effects Returns every task connected to it through "blocked by" links, in either
+   *          direction, with edges pointing from each blocking task to the task it blocks.
+   */
+  public async getDependencyGraph(
+    { user, task }: { user: User, task: Task }
+  ): Promise<{ graph: DependencyGraph } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    const userTasks = await this.tasks.find({ user, deletedAt: { $exists: false } }).toArray();
+    const byId = new Map(userTasks.map((t) => [t._id, t]));
+
+    const neighbors = new Map<Task, Task[]>();
+    const edges: DependencyGraph["edges"] = [];
+    for (const t of userTasks) {
+      for (const blocker of t.blockedBy ?? []) {
+        if (!byId.has(blocker)) continue;
+        edges.push({ from: blocker, to: t._id });
+        neighbors.set(t._id, [...(neighbors.get(t._id) ?? []), blocker]);
+        neighbors.set(blocker, [...(neighbors.get(blocker) ?? []), t._id]);
+      }
+    }
+
+    const connected = new Set<Task>();
+    const queue: Task[] = [task];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (connected.has(current)) continue;
+      connected.add(current);
+      queue.push(...(neighbors.get(current) ?? []));
+    }
+
+    const nodes = [...connected].map((id) => {
+      const doc = byId.get(id)!;
+      const blockers = (doc.blockedBy ?? []).flatMap((b) => byId.get(b) ?? []);
+      return { task: id, title: doc.title, status: this.getTaskStatus({ task: doc, blockers }) };
+    });
+
+    return {
+      graph: {
+        nodes,
+        edges: edges.filter((e) => connected.has(e.from) && connected.has(e.to)),
+      },
+    };
+  }
+
+  /**
+   * Retrieves a page of an optionally filtered list of tasks.
+   * Filters may be combined; a task must carry every requested tag to match,
+   * and the due-date range bounds are inclusive. By default only active tasks
+   * are listed; `view` selects archived tasks or the trash instead.
+   * Pages are addressed by the opaque `nextCursor` of the previous page, so tasks
+   * created while the user scrolls do not shift later pages.
+   * @requires The limit must be a positive whole number.
+   *           If provided, the cursor must come from a listing with the same sort order.
+   * @effects Returns the page of tasks matching the filters, the number of tasks
+   *          matching the filters, and the cursor of the next page (null on the last page)
+   */
+  public async getTasks(
+  {
+    user,
+    cursor,
+    limit = 10,
+    status,
+    search,
+    project,
+    tags,
+    dueAfter,
+    dueBefore,
+    view = "active",
+    sortBy = "createdAt",
+    sortOrder = -1
+  }: {
+    user: User;
+    cursor?: string | null;
+    limit?: number;
+    status?: TaskStatus;
+    search?: string;
+    project?: Project | null;
+    tags?: Tag[] | null;
+    dueAfter?: Date | null;
+    dueBefore?: Date | null;
+    view?: TaskView | null;
+    sortBy?: keyof TaskDoc;
+    sortOrder?: 1 | -1;
+  }
+  ): Promise<{
+    tasks: TaskDoc[];
+    total: number;
+    nextCursor: string | null;
+  } | { error: string }> {
+    const invalidLimit = checkLimit(limit);
+    if (invalidLimit) return invalidLimit;
+
+    // Search results are ranked by relevance, which can only be paged by offset
+    const sortField = search ? "score" : sortBy;
+    const after = readCursor(cursor, sortField, sortOrder);
+    if (after && "error" in after) return after;
+    if (after && ("offset" in after) !== Boolean(search)) {
+      return { error: "Cursor does not match the sort order" };
+    }
+
+    const filter: Record<string, unknown> = { user };
+
+    // Archive and trash filtering
+    if (view === "trash") {
+      filter.deletedAt = { $exists: true };
+    } else if (view === "archived") {
+      filter.archivedAt = { $exists: true };
+      filter.deletedAt = { $exists: false };
+    } else {
+      filter.archivedAt = { $exists: false };
+      filter.deletedAt = { $exists: false };
+    }
+
+    // Status filtering
+    if (status === "abandoned") {
+      filter.abandonedAt = { $exists: true };
+    } else if (status === "completed") {
+      filter.completedAt = { $exists: true };
+    } else if (status === "in-progress" || status === "paused") {
+      filter.completedAt = { $exists: false };
+      filter.abandonedAt = { $exists: false };
+      filter.pausedAt = { $exists: status === "paused" };
+      // As in getTaskStatus, working on a subtask counts as working on the task
+      filter.$or = [
+        { startedAt: { $exists: true } },
+        { "subtasks.startedAt": { $exists: true } },
+        { "subtasks.completedAt": { $exists: true } },
+      ];
+    } else if (status === "pending" || status === "blocked") {
+      Object.assign(filter, await this.notStartedFilter(user, status === "blocked"));
+    }
+
+    if (project) filter.project = project;
+    if (tags && tags.length > 0) filter.tags = { $all: tags };
+
+    // Due-date range filtering
+    if (dueAfter || dueBefore) {
+      const range: Record<string, Date> = {};
+      if (dueAfter) range.$gte = dueAfter;
+      if (dueBefore) range.$lte = dueBefore;
+      filter.dueDate = range;
+    }
+
+    // Text search on title and description
+    if (search) {
+      filter.$text = { $search: search };
+    }
+
+    const total = await this.tasks.countDocuments(filter);
+
+    if (search) {
+      const offset = after && "offset" in after ? after.offset : 0;
+      const found = await this.tasks
+        .find(filter, {
+          projection: { score: { $meta: "textScore" } },
+          sort: { score: { $meta: "textScore" }, _id: 1 },
+        })
+        .skip(offset)
+        .limit(limit + 1)
+        .toArray();
+      const page = nextPage(found, limit, sortField, sortOrder, offset);
+      return { tasks: page.items, total, nextCursor: page.nextCursor };
+    }
+
+    const pageFilter = after && !("offset" in after) ? { $and: [filter, keysetFilter(after)] } : filter;
+    const found = await this.tasks
+      .find(pageFilter, { sort: { [sortBy]: sortOrder, _id: sortOrder } })
+      .limit(limit + 1)
+      .toArray();
+    const page = nextPage(found, limit, sortField, sortOrder);
+
+    return {
+      tasks: page.items,
+      total,
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  /**
+   * Searches the titles and descriptions of a user's tasks. Title matches
+   * weigh more than description matches. Tasks in the trash are not searched.
+   * @requires The query must not be empty.
+   * @effects Returns up to `limit` matching tasks with their text search scores, best match first.
+   */
+  public async searchTasks(
+    { user, query, limit = 20 }: { user: User; query: string; limit?: number }
+  ): Promise<{ tasks: (TaskDoc & { score: number })[] } | { error: string }> {
+    if (!query?.trim()) return { error: "Search query cannot be empty" };
+
+    const tasks = await this.tasks
+      .find(
+        { user, deletedAt: { $exists: false }, $text: { $search: query } },
+        { projection: { score: { $meta: "textScore" } }, sort: { score: { $meta: "textScore" } } },
+      )
+      .limit(limit)
+      .toArray();
+    return { tasks: tasks as (TaskDoc & { score: number })[] };
+  }
+
+  /**
+   * Ranks the user's pending tasks to suggest what to work on next.
+   * Each task is scored on due-date proximity, Eisenhower priority, and effort
+   * (shorter tasks score higher). The mood of the provided emotion shifts the weights:
+   * after a negative emotion quick wins rank higher, after a positive one important work does.
+   * Ties are broken by earliest due date, then oldest creation time, then ID.
+   * @effects Returns up to `limit` pending, unblocked tasks ordered from best to worst,
+   *          each with its score, factor scores, and weights.
+   */
+  public async getNextBestTasks(
+    { user, limit = 5, recentEmotion }: { user: User; limit?: number; recentEmotion?: Emotion | null }
+  ): Promise<{ tasks: RankedTask[] }> {
+    const now = Date.now();
+    const mood: Mood = recentEmotion && POSITIVE_EMOTIONS.has(recentEmotion)
+      ? "positive"
+      : recentEmotion && NEGATIVE_EMOTIONS.has(recentEmotion)
+      ? "negative"
+      : "neutral";
+    const weights = RANKING_WEIGHTS[mood];
+
+    // Every pending task is a candidate, however long ago it was created
+    const candidates = await this.tasks
+      .find(
+        {
+          user,
+          archivedAt: { $exists: false },
+          deletedAt: { $exists: false },
+          ...await this.notStartedFilter(user, false),
+        },
+        { projection: { statusHistory: 0, subtasks: 0 } },
+      )
+      .toArray();
+
+    const ranked = candidates.map((task) => {
+      const hoursUntilDue = task.dueDate ? (task.dueDate.getTime() - now) / (60 * 60 * 1000) : null;
+      const factors = {
+        // Overdue tasks score 1; a task due in a day scores 0.5
+        dueDate: hoursUntilDue === null ? 0 : hoursUntilDue <= 0 ? 1 : 1 / (1 + hoursUntilDue / 24),
+        priority: task.urgent && task.important ? 1 : task.important ? 0.75 : task.urgent ? 0.5 : 0.25,
+        // Unestimated tasks are neutral; an hour-long task scores 0.5
+        effort: task.estimatedMinutes ? 1 / (1 + task.estimatedMinutes / 60) : 0.5,
+      };
+      const score = factors.dueDate * weights.dueDate +
+        factors.priority * weights.priority +
+        factors.effort * weights.effort;
+
+      return { task, score: Math.round(score * 1000) / 1000, factors, weights, mood };
+    });
+
+    ranked.sort((a, b) =>
+      b.score - a.score ||
+      (a.task.dueDate?.getTime() ?? Infinity) - (b.task.dueDate?.getTime() ?? Infinity) ||
+      a.task.createdAt.getTime() - b.task.createdAt.getTime() ||
+      a.task._id.localeCompare(b.task._id)
+    );
+
+    return { tasks: ranked.slice(0, limit) };
+  }
+
+  /**
+   * Determines the current status of a task.
+   * @effects Returns `"pending"`, `"blocked"`, `"in-progress"`, `"paused"`, `"completed"`,
+   *          or `"abandoned"` based on task state.
+   *          A task counts as in progress once any of its subtasks has been started or completed.
+   *          A task that has not started is blocked while any of the provided blockers is
+   *          neither completed nor abandoned.
+   */
+  public getTaskStatus(
+    { task, blockers }: { task: TaskDoc, blockers?: TaskDoc[] }
+  ): TaskStatus {
+    if (task.abandonedAt) return "abandoned";
+    if (task.completedAt) return "completed";
+    if (task.pausedAt) return "paused";
+    if (task.startedAt) return "in-progress";
+    if (task.subtasks?.some((s) => s.startedAt || s.completedAt)) return "in-progress";
+    if (blockers?.some(isUnresolved)) return "blocked";
+    return "pending";
+  }
+
+  /**
+   * Retrieves the user's open tasks whose due date has passed, whether or not
+   * checkDueDates has flagged them yet. Archived and trashed tasks are left out.
+   * @effects Returns the overdue tasks, most overdue first.
+   */
+  public async getOverdueTasks(
+    { user }: { user: User }
+  ): Promise<{ tasks: TaskDoc[] }> {
+    const tasks = await this.tasks
+      .find({
+        user,
+        dueDate: { $lte: new Date() },
+        completedAt: { $exists: false },
+        abandonedAt: { $exists: false },
+        archivedAt: { $exists: false },
+        deletedAt: { $exists: false },
+      })
+      .sort({ dueDate: 1, _id: 1 })
+      .toArray();
+    return { tasks };
+  }
+
+  /**
+   * Retrieves the due soon and overdue flags raised after a given time.
+   * @effects Returns up to `limit` events flagged after `afterTimestamp`, oldest first,
+   *          for tasks that are still open.
+   */
+  public async getDueDateEvents(
+    { user, afterTimestamp, limit = 50 }: { user: User; afterTimestamp: Date; limit?: number }
+  ): Promise<{ events: DueDateEvent[] }> {
+    const open = {
+      user,
+      completedAt: { $exists: false },
+      abandonedAt: { $exists: false },
+      deletedAt: { $exists: false },
+    };
+    const [dueSoon, overdue] = await Promise.all([
+      this.tasks.find({ ...open, dueSoonAt: { $gt: afterTimestamp } }).sort({ dueSoonAt: 1 }).limit(limit).toArray(),
+      this.tasks.find({ ...open, overdueAt: { $gt: afterTimestamp } }).sort({ overdueAt: 1 }).limit(limit).toArray(),
+    ]);
+
+    const toEvent = (type: DueDateEvent["type"], t: TaskDoc, at: Date): DueDateEvent => ({
+      type,
+      task: t._id,
+      title: t.title,
+      dueDate: t.dueDate!,
+      at,
+    });
+    const events = [
+      ...dueSoon.map((t) => toEvent("due_soon", t, t.dueSoonAt!)),
+      ...overdue.map((t) => toEvent("overdue", t, t.overdueAt!)),
+    ]
+      // A task that has become overdue since it was due soon is only reported as overdue
+      .filter((e) => e.type === "overdue" || !overdue.some((t) => t._id === e.task))
+      .sort((a, b) => a.at.getTime() - b.at.getTime())
+      .slice(0, limit);
+
+    return { events };
+  }
+
+  /**
+   * Retrieves the status transitions of a task.
+   * @requires The task must exist and belong to the user.
+   * @effects Returns the task's status changes, oldest first.
+   */
+  public async getStatusHistory(
+    { user, task }: { user: User, task: Task }
+  ): Promise<{ history: StatusChange[] } | { error: string }> {
+    const taskDoc = await this.getTask({ user, task });
+    if ('error' in taskDoc) return { error: taskDoc.error };
+
+    return { history: taskDoc.statusHistory ?? [] };
+  }
+
+  /**
+   * Builds the filter selecting the user's tasks that have not been started, with
+   * no subtask progress, that are pending (or, if `blocked`, blocked).
+   * A task is blocked while any of its blockers is neither completed nor abandoned.
+   */
+  private async notStartedFilter(user: User, blocked: boolean): Promise<Record<string, unknown>> {
+    const incomplete = await this.tasks
+      .find(
+        { user, completedAt: { $exists: false }, abandonedAt: { $exists: false }, deletedAt: { $exists: false } },
+        { projection: { _id: 1 } },
+      )
+      .toArray();
+    const incompleteIds = incomplete.map((t) => t._id);
+
+    return {
+      startedAt: { $exists: false },
+      completedAt: { $exists: false },
+      abandonedAt: { $exists: false },
+      "subtasks.startedAt": { $exists: false },
+      "subtasks.completedAt": { $exists: false },
+      ...(blocked ? { blockedBy: { $in: incompleteIds } } : { $nor: [{ blockedBy: { $in: incompleteIds } }] }),
+    };
+  }
+
+  /**
+   * Builds the history entry for a task moving from its current status to `to`.
+   */
+  private statusChange(task: TaskDoc, to: TaskStatus, at: Date, blockers?: TaskDoc[]): StatusChange {
+    return { from: this.getTaskStatus({ task, blockers }), to, at };
+  }
+
+  /**
+   * Summarizes how far along a task's subtasks are.
+   * @effects Returns the number of subtasks in total, started, and completed.
+   */
+  public getSubtaskProgress(
+    { task }: { task: TaskDoc }
+  ): { total: number; started: number; completed: number } {
+    const subtasks = task.subtasks ?? [];
+    return {
+      total: subtasks.length,
+      started: subtasks.filter((s) => s.startedAt).length,
+      completed: subtasks.filter((s) => s.completedAt).length,
+    };
   }
 }
\ No newline at end of file
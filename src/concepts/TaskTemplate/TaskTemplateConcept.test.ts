@@ -0,0 +1,96 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import TaskTemplateConcept from "./TaskTemplateConcept.ts";
+import { ID } from "@utils/types.ts";
+
+const MINUTE_MS = 60 * 1000;
+
+Deno.test("TaskTemplate Concept - Operational Principle & Scenarios", async (t) => {
+  const [db, client] = await testDb();
+  const templates = new TaskTemplateConcept(db);
+  const user = "user:Alice" as ID;
+  const other = "user:Bob" as ID;
+
+  await t.step("Principle: User saves a weekly report template and fills it in each week", async () => {
+    // 1. Create the template with a due offset of two days and a default bet
+    const created = await templates.createTemplate({
+      user,
+      name: "Weekly report",
+      titlePattern: "Weekly report – week {week}, {year}",
+      description: "Summarize progress for the team",
+      steps: ["Collect numbers", "Write summary", "Send email"],
+      dueOffsetMinutes: 2 * 24 * 60,
+      defaultWager: 10,
+    });
+    if ("error" in created) throw new Error(created.error);
+
+    // 2. Fill it in: placeholders become dates and the due date is relative to now
+    const before = Date.now();
+    const filled = await templates.instantiateTemplate({ user, template: created.template });
+    if ("error" in filled) throw new Error(filled.error);
+    assertEquals(/^Weekly report – week \d{1,2}, \d{4}$/.test(filled.title), true, `Unexpected title: ${filled.title}`);
+    assertEquals(filled.description, "Summarize progress for the team");
+    assertEquals(filled.steps, ["Collect numbers", "Write summary", "Send email"]);
+    assertEquals(filled.wager, 10);
+    const offset = filled.dueDate!.getTime() - before;
+    assertEquals(offset >= 2 * 24 * 60 * MINUTE_MS && offset < 2 * 24 * 60 * MINUTE_MS + MINUTE_MS, true);
+
+    // 3. Other users cannot use it
+    const foreign = await templates.instantiateTemplate({ user: other, template: created.template });
+    assertEquals((foreign as { error: string }).error, "Template not found");
+  });
+
+  await t.step("Action: date placeholders use the user's local time", async () => {
+    const created = await templates.createTemplate({ user, name: "Journal", titlePattern: "Journal {date} ({weekday})" });
+    if ("error" in created) throw new Error(created.error);
+
+    // Far enough east, it is already tomorrow for part of the day
+    const utc = await templates.instantiateTemplate({ user, template: created.template });
+    const east = await templates.instantiateTemplate({ user, template: created.template, utcOffsetMinutes: 14 * 60 });
+    if ("error" in utc || "error" in east) throw new Error("Instantiation failed");
+    const today = new Date().toISOString().slice(0, 10);
+    const eastDate = new Date(Date.now() + 14 * 60 * MINUTE_MS).toISOString().slice(0, 10);
+    assertEquals(utc.title.startsWith(`Journal ${today}`), true);
+    assertEquals(east.title.startsWith(`Journal ${eastDate}`), true);
+    assertEquals(utc.dueDate, null, "Templates without a due offset have no due date.");
+    assertEquals(utc.wager, null);
+  });
+
+  await t.step("Action: templates are validated on creation and update", async () => {
+    const unknown = await templates.createTemplate({ user, name: "Bad", titlePattern: "Report {quarter}" });
+    assertEquals((unknown as { error: string }).error, "Unknown placeholder: {quarter}");
+    const due = await templates.createTemplate({ user, name: "Bad", titlePattern: "Due {due}" });
+    assertEquals((due as { error: string }).error, "The {due} placeholder requires a due offset");
+    const wager = await templates.createTemplate({ user, name: "Bad", titlePattern: "Bet", defaultWager: 5 });
+    assertEquals((wager as { error: string }).error, "A default wager requires a due offset");
+    const steps = await templates.createTemplate({ user, name: "Bad", titlePattern: "Steps", steps: ["Ok", " "] });
+    assertEquals((steps as { error: string }).error, "Step titles cannot be empty");
+    const duplicate = await templates.createTemplate({ user, name: "Journal", titlePattern: "Again" });
+    assertEquals((duplicate as { error: string }).error, "Template name must be unique");
+
+    const { templates: list } = await templates.getTemplates({ user });
+    assertEquals(list.map((t) => t.name), ["Journal", "Weekly report"]);
+
+    // Null fields are kept; the result must still be valid
+    const journal = list[0]._id;
+    await templates.updateTemplate({ user, template: journal, name: null, titlePattern: "Journal for {month}", steps: null });
+    const updated = await templates.getTemplate({ user, template: journal });
+    if ("error" in updated) throw new Error(updated.error);
+    assertEquals(updated.name, "Journal");
+    assertEquals(updated.titlePattern, "Journal for {month}");
+    const invalid = await templates.updateTemplate({ user, template: journal, defaultWager: 5 });
+    assertEquals((invalid as { error: string }).error, "A default wager requires a due offset");
+  });
+
+  await t.step("Action: templates can be deleted individually and per user", async () => {
+    const { templates: list } = await templates.getTemplates({ user });
+    await templates.deleteTemplate({ user, template: list[0]._id });
+    const again = await templates.deleteTemplate({ user, template: list[0]._id });
+    assertEquals((again as { error: string }).error, "Template not found");
+
+    await templates.deleteUserTemplates({ user });
+    assertEquals((await templates.getTemplates({ user })).templates.length, 0);
+  });
+
+  await client.close();
+});
@@ -0,0 +1,294 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to avoid name clashes
+const PREFIX = "TaskTemplate" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+
+// Define the types for our entries based on the concept state
+type Template = ID;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+const MAX_STEPS = 50;
+const MAX_DUE_OFFSET_MINUTES = 365 * 24 * 60;
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * a set of Templates with
+ *   a user User
+ *   a name String (unique per user)
+ *   a titlePattern String (may contain date placeholders such as {date})
+ *   a description String
+ *   a steps String[] (become subtasks of each task)
+ *   a dueOffsetMinutes Number (optional, due date relative to creation)
+ *   a defaultWager Number (optional, points to bet on each task)
+ *   a createdAt Date
+ */
+export interface TemplateDoc {
+  _id: Template;
+  user: User;
+  name: string;
+  titlePattern: string;
+  description: string;
+  steps: string[];
+  dueOffsetMinutes?: number;
+  defaultWager?: number;
+  createdAt: Date;
+}
+
+type TemplateFields = Pick<TemplateDoc, "name" | "titlePattern" | "description" | "steps" | "dueOffsetMinutes" | "defaultWager">;
+
+// ISO 8601 week number of a calendar date (weeks start on Monday; week 1 holds January 4)
+function isoWeek(date: Date): number {
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return Math.floor((thursday.getTime() - yearStart) / (7 * MS_PER_DAY)) + 1;
+}
+
+// Values of the title placeholders for a moment, read in the user's local time
+const PLACEHOLDERS: Record<string, (local: Date, localDue: Date | null) => string> = {
+  date: (local) => local.toISOString().slice(0, 10),
+  weekday: (local) => WEEKDAY_NAMES[local.getUTCDay()],
+  week: (local) => String(isoWeek(local)),
+  month: (local) => MONTH_NAMES[local.getUTCMonth()],
+  year: (local) => String(local.getUTCFullYear()),
+  due: (_local, localDue) => localDue ? localDue.toISOString().slice(0, 10) : "",
+};
+
+function placeholdersIn(pattern: string): string[] {
+  return [...pattern.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+}
+
+/**
+ * Checks the fields of a template, returning an error message if any is invalid.
+ */
+function validateTemplate(fields: TemplateFields): string | null {
+  if (!fields.name.trim()) return "Template name cannot be empty";
+  if (!fields.titlePattern.trim()) return "Title pattern cannot be empty";
+
+  const unknown = placeholdersIn(fields.titlePattern).find((name) => !(name in PLACEHOLDERS));
+  if (unknown) return `Unknown placeholder: {${unknown}}`;
+  if (placeholdersIn(fields.titlePattern).includes("due") && fields.dueOffsetMinutes === undefined) {
+    return "The {due} placeholder requires a due offset";
+  }
+
+  if (!Array.isArray(fields.steps)) return "Steps must be a list of titles";
+  if (fields.steps.length > MAX_STEPS) return `Templates can have at most ${MAX_STEPS} steps`;
+  if (fields.steps.some((step) => typeof step !== "string" || !step.trim())) return "Step titles cannot be empty";
+
+  const offset = fields.dueOffsetMinutes;
+  if (offset !== undefined && (!Number.isInteger(offset) || offset < 1 || offset > MAX_DUE_OFFSET_MINUTES)) {
+    return "Due offset must be between 1 minute and 365 days";
+  }
+
+  const wager = fields.defaultWager;
+  if (wager !== undefined) {
+    if (!Number.isInteger(wager) || wager < 1) return "Default wager must be a positive whole number";
+    // Bets need a deadline before the task's due date
+    if (offset === undefined) return "A default wager requires a due offset";
+  }
+  return null;
+}
+
+/**
+ * @concept TaskTemplate
+ * @purpose To let users create recurring kinds of tasks, with the same description, steps, deadline, and bet, in one step.
+ */
+export default class TaskTemplateConcept {
+  templates: Collection<TemplateDoc>;
+
+  constructor(private readonly db: Db) {
+    this.templates = this.db.collection(PREFIX + "templates");
+
+    this.templates.createIndex({ user: 1, name: 1 }, { unique: true }).catch((err) => {
+      console.error("Failed to create templates name index:", err);
+    });
+  }
+
+  /**
+   * Creates a named template.
+   * @requires The name and title pattern must not be empty, and the name must be unique for the user.
+   *           The title pattern may only use the placeholders {date}, {weekday}, {week}, {month}, {year}, and {due}.
+   *           Steps must have non-empty titles. The due offset must be between 1 minute and 365 days.
+   *           A default wager must be a positive whole number and requires a due offset.
+   * @effects Creates a new template for the user.
+   */
+  public async createTemplate(
+    { user, name, titlePattern, description, steps, dueOffsetMinutes, defaultWager }: {
+      user: User;
+      name: string;
+      titlePattern: string;
+      description?: string | null;
+      steps?: string[] | null;
+      dueOffsetMinutes?: number | null;
+      defaultWager?: number | null;
+    },
+  ): Promise<{ template: Template } | { error: string }> {
+    const fields: TemplateFields = {
+      name,
+      titlePattern,
+      description: description ?? "",
+      steps: steps ?? [],
+      dueOffsetMinutes: dueOffsetMinutes ?? undefined,
+      defaultWager: defaultWager ?? undefined,
+    };
+    const invalid = validateTemplate(fields);
+    if (invalid) return { error: invalid };
+
+    const duplicate = await this.templates.findOne({ user, name });
+    if (duplicate) return { error: "Template name must be unique" };
+
+    const newTemplate: TemplateDoc = { _id: freshID(), user, ...fields, createdAt: new Date() };
+    if (newTemplate.dueOffsetMinutes === undefined) delete newTemplate.dueOffsetMinutes;
+    if (newTemplate.defaultWager === undefined) delete newTemplate.defaultWager;
+    await this.templates.insertOne(newTemplate);
+
+    return { template: newTemplate._id };
+  }
+
+  /**
+   * Changes a template.
+   * @requires The template must exist and belong to the user.
+   *           The updated template must follow the same validation rules as template creation.
+   * @effects Modifies the provided fields, keeping those that are missing or null.
+   *          Tasks already created from the template are not changed.
+   */
+  public async updateTemplate(
+    { user, template, name, titlePattern, description, steps, dueOffsetMinutes, defaultWager }: {
+      user: User;
+      template: Template;
+      name?: string | null;
+      titlePattern?: string | null;
+      description?: string | null;
+      steps?: string[] | null;
+      dueOffsetMinutes?: number | null;
+      defaultWager?: number | null;
+    },
+  ): Promise<{ template: Template } | { error: string }> {
+    const templateDoc = await this.getTemplate({ user, template });
+    if ("error" in templateDoc) return { error: templateDoc.error };
+
+    const fields: TemplateFields = {
+      name: name ?? templateDoc.name,
+      titlePattern: titlePattern ?? templateDoc.titlePattern,
+      description: description ?? templateDoc.description,
+      steps: steps ?? templateDoc.steps,
+      dueOffsetMinutes: dueOffsetMinutes ?? templateDoc.dueOffsetMinutes,
+      defaultWager: defaultWager ?? templateDoc.defaultWager,
+    };
+    const invalid = validateTemplate(fields);
+    if (invalid) return { error: invalid };
+
+    if (fields.name !== templateDoc.name) {
+      const duplicate = await this.templates.findOne({ user, name: fields.name });
+      if (duplicate) return { error: "Template name must be unique" };
+    }
+
+    // Optional fields stay absent unless they were set
+    const updates: Partial<TemplateFields> = { ...fields };
+    if (updates.dueOffsetMinutes === undefined) delete updates.dueOffsetMinutes;
+    if (updates.defaultWager === undefined) delete updates.defaultWager;
+    await this.templates.updateOne({ _id: template }, { $set: updates });
+    return { template };
+  }
+
+  /**
+   * Deletes a template.
+   * @requires The template must exist and belong to the user.
+   * @effects Removes the template. Tasks created from it are kept.
+   */
+  public async deleteTemplate(
+    { user, template }: { user: User; template: Template },
+  ): Promise<Empty | { error: string }> {
+    const result = await this.templates.deleteOne({ _id: template, user });
+    if (result.deletedCount === 0) return { error: "Template not found" };
+    return {};
+  }
+
+  /**
+   * Gets a template.
+   * @requires The template must exist and belong to the user.
+   * @effects Returns the template document.
+   */
+  public async getTemplate(
+    { user, template }: { user: User; template: Template },
+  ): Promise<TemplateDoc | { error: string }> {
+    const templateDoc = await this.templates.findOne({ _id: template, user });
+    if (!templateDoc) return { error: "Template not found" };
+    return templateDoc;
+  }
+
+  /**
+   * Gets all templates of a user.
+   * @effects Returns the user's templates sorted by name.
+   */
+  public async getTemplates(
+    { user }: { user: User },
+  ): Promise<{ templates: TemplateDoc[] }> {
+    const templates = await this.templates.find({ user }).sort({ name: 1 }).toArray();
+    return { templates };
+  }
+
+  /**
+   * Fills in a template for a task created now.
+   * @requires The template must exist and belong to the user.
+   *           The UTC offset must be between -14 and +14 hours.
+   * @effects Returns the task's title with its placeholders replaced by dates in the user's
+   *          local time, its description and steps, its due date (or null), and the wager to bet (or null).
+   */
+  public async instantiateTemplate(
+    { user, template, utcOffsetMinutes = 0 }: { user: User; template: Template; utcOffsetMinutes?: number },
+  ): Promise<
+    | { title: string; description: string; steps: string[]; dueDate: Date | null; wager: number | null }
+    | { error: string }
+  > {
+    if (!Number.isInteger(utcOffsetMinutes) || Math.abs(utcOffsetMinutes) > 14 * 60) {
+      return { error: "UTC offset must be between -840 and 840 minutes" };
+    }
+    const templateDoc = await this.getTemplate({ user, template });
+    if ("error" in templateDoc) return { error: templateDoc.error };
+
+    const now = Date.now();
+    const dueDate = templateDoc.dueOffsetMinutes !== undefined
+      ? new Date(now + templateDoc.dueOffsetMinutes * MS_PER_MINUTE)
+      : null;
+
+    // Shifting by the offset lets the UTC getters read local calendar fields
+    const offsetMs = utcOffsetMinutes * MS_PER_MINUTE;
+    const local = new Date(now + offsetMs);
+    const localDue = dueDate ? new Date(dueDate.getTime() + offsetMs) : null;
+    const title = templateDoc.titlePattern.replace(
+      PLACEHOLDER_PATTERN,
+      (match, name: string) => PLACEHOLDERS[name]?.(local, localDue) ?? match,
+    );
+
+    return {
+      title,
+      description: templateDoc.description,
+      steps: templateDoc.steps,
+      dueDate,
+      wager: templateDoc.defaultWager ?? null,
+    };
+  }
+
+  /**
+   * Deletes all templates for a specific user.
+   * @effects Removes every template of the given user.
+   */
+  public async deleteUserTemplates(
+    { user }: { user: User },
+  ): Promise<Empty> {
+    await this.templates.deleteMany({ user });
+    return {};
+  }
+}
@@ -0,0 +1,58 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import UndoConcept from "./UndoConcept.ts";
+import { ID } from "@utils/types.ts";
+
+Deno.test("Undo Concept - Operational Principle & Scenarios", async (t) => {
+  const [db, client] = await testDb();
+  const undo = new UndoConcept(db);
+  const user = "user:Alice" as ID;
+  const rent = "task:Rent" as ID;
+  const essay = "task:Essay" as ID;
+
+  await t.step("Principle: User takes back their latest actions, most recent first", async () => {
+    // 1. The user deletes the essay's logs, then completes the rent task by mistake
+    await undo.recordOperation({ user, kind: "deleteTaskLogs", target: essay, data: [{ phase: "before" }] });
+    await undo.recordOperation({ user, kind: "markComplete", target: rent });
+    assertEquals((await undo.getUndoStack({ user })).operations.map((op) => op.kind), ["markComplete", "deleteTaskLogs"]);
+
+    // 2. Undo pops the completion first, then the log deletion with what is needed to revert it
+    const first = await undo.undo({ user });
+    if ("error" in first) throw new Error(first.error);
+    assertEquals([first.kind, first.target, first.data], ["markComplete", rent, null]);
+
+    const second = await undo.undo({ user });
+    if ("error" in second) throw new Error(second.error);
+    assertEquals([second.kind, second.data], ["deleteTaskLogs", [{ phase: "before" }]]);
+
+    // 3. Nothing is left to undo
+    assertEquals(await undo.undo({ user }), { error: "Nothing to undo" });
+    assertEquals((await undo.getUndoStack({ user })).operations, []);
+  });
+
+  await t.step("Action: operations expire after the undo window", async () => {
+    const { operation } = await undo.recordOperation({ user, kind: "deleteTask", target: essay }) as { operation: ID };
+    await undo.operations.updateOne({ _id: operation }, { $set: { createdAt: new Date(Date.now() - 1000 * 60 * 60) } });
+
+    assertEquals(await undo.undo({ user }), { error: "Nothing to undo" });
+    assertEquals((await undo.getUndoStack({ user: "user:Bob" as ID })).operations, []);
+  });
+
+  await t.step("Action: the stack keeps only the most recent operations", async () => {
+    const busy = "user:Busy" as ID;
+    for (let i = 0; i < 25; i++) {
+      await undo.recordOperation({ user: busy, kind: "deleteTask", target: `task:${i}` as ID });
+    }
+    const { operations } = await undo.getUndoStack({ user: busy });
+    assertEquals(operations.length, 20);
+    assertEquals(operations[0].target, "task:24");
+
+    const blank = await undo.recordOperation({ user: busy, kind: " ", target: rent });
+    assertEquals((blank as { error: string }).error, "Operation kind cannot be empty");
+
+    await undo.deleteUserOperations({ user: busy });
+    assertEquals((await undo.getUndoStack({ user: busy })).operations, []);
+  });
+
+  await client.close();
+});
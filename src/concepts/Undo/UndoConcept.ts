@@ -0,0 +1,140 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to avoid name clashes
+const PREFIX = "Undo" + ".";
+
+// How long an operation can still be undone
+const UNDO_WINDOW_MINUTES = parseInt(Deno.env.get("UNDO_WINDOW_MINUTES") ?? "10", 10);
+
+// How many operations each user's stack keeps
+const STACK_LIMIT = 20;
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Target = ID;
+
+// Define the types for our entries based on the concept state
+type Operation = ID;
+
+/**
+ * a set of Operations with
+ *   a user User
+ *   a kind String (what was done, e.g. "deleteTask")
+ *   a target Target (what it was done to)
+ *   a data? (whatever is needed to revert it, e.g. the deleted records)
+ *   a createdAt Date
+ *   a undoneAt? Date
+ */
+export interface OperationDoc {
+  _id: Operation;
+  user: User;
+  kind: string;
+  target: Target;
+  data: unknown;
+  createdAt: Date;
+  undoneAt?: Date;
+}
+
+/**
+ * @concept Undo
+ * @purpose To let users take back their most recent destructive actions shortly after making them.
+ */
+export default class UndoConcept {
+  operations: Collection<OperationDoc>;
+
+  constructor(private readonly db: Db) {
+    this.operations = this.db.collection(PREFIX + "operations");
+
+    this.operations.createIndex({ user: 1, createdAt: -1 }).catch((err) => {
+      console.error("Failed to create operations index:", err);
+    });
+    this.operations.createIndex({ createdAt: 1 }, { expireAfterSeconds: UNDO_WINDOW_MINUTES * 60 }).catch((err) => {
+      console.error("Failed to create operations expiry index:", err);
+    });
+  }
+
+  /**
+   * Pushes an operation onto the user's undo stack.
+   * @requires The kind must not be empty.
+   * @effects Stores the operation with what is needed to revert it, and drops the user's
+   *          oldest operations beyond the most recent 20.
+   */
+  public async recordOperation(
+    { user, kind, target, data }: { user: User; kind: string; target: Target; data?: unknown },
+  ): Promise<{ operation: Operation } | { error: string }> {
+    if (!kind?.trim()) return { error: "Operation kind cannot be empty" };
+
+    const operation: OperationDoc = {
+      _id: freshID(),
+      user,
+      kind,
+      target,
+      data: data ?? null,
+      createdAt: new Date(),
+    };
+    await this.operations.insertOne(operation);
+
+    const kept = await this.operations
+      .find({ user }, { projection: { _id: 1 } })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(STACK_LIMIT)
+      .toArray();
+    await this.operations.deleteMany({ user, _id: { $nin: kept.map((op) => op._id) } });
+
+    return { operation: operation._id };
+  }
+
+  /**
+   * Pops the user's most recent operation that can still be undone
+   * (within `UNDO_WINDOW_MINUTES`, default 10 minutes).
+   * @requires The user must have an operation made within the window that has not been undone.
+   * @effects Marks the operation as undone and returns it, so it can be reverted.
+   */
+  public async undo(
+    { user }: { user: User },
+  ): Promise<{ operation: Operation; kind: string; target: Target; data: unknown } | { error: string }> {
+    const claimed = await this.operations.findOneAndUpdate(
+      { user, undoneAt: { $exists: false }, createdAt: { $gt: this.windowStart() } },
+      { $set: { undoneAt: new Date() } },
+      { sort: { createdAt: -1, _id: -1 }, returnDocument: "after" },
+    );
+    if (!claimed) return { error: "Nothing to undo" };
+
+    return { operation: claimed._id, kind: claimed.kind, target: claimed.target, data: claimed.data };
+  }
+
+  /**
+   * Retrieves the operations the user can still undo.
+   * @effects Returns the operations made within the window that have not been undone, newest first.
+   */
+  public async getUndoStack(
+    { user }: { user: User },
+  ): Promise<{ operations: OperationDoc[] }> {
+    const operations = await this.operations
+      .find({ user, undoneAt: { $exists: false }, createdAt: { $gt: this.windowStart() } })
+      .sort({ createdAt: -1, _id: -1 })
+      .toArray();
+    return { operations };
+  }
+
+  /**
+   * Deletes all operations for a specific user.
+   * @effects Removes every operation of the given user.
+   */
+  public async deleteUserOperations(
+    { user }: { user: User },
+  ): Promise<Empty> {
+    await this.operations.deleteMany({ user });
+    return {};
+  }
+
+  /**
+   * Computes the earliest time an operation can have been made and still be undone.
+   * @effects Returns the start of the undo window.
+   */
+  private windowStart(): Date {
+    return new Date(Date.now() - UNDO_WINDOW_MINUTES * 60 * 1000);
+  }
+}
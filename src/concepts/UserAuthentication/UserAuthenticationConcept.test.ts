@@ -301,6 +301,27 @@ Deno.test("UserAuthentication Concept - Operational Principle & Scenarios", asyn
     await auth.updateLastSeenBetTimestamp({ user: userId, timestamp: betTimestamp });
     const specificBetTs = await auth.getLastSeenBetTimestamp({ user: userId });
     assertEquals(specificBetTs?.getTime(), betTimestamp.getTime(), "Bet timestamp should match provided value");
+
+    // Focus session timestamp is tracked separately
+    assertEquals(await auth.getLastSeenSessionTimestamp({ user: userId }), null, "Initial session timestamp should be null");
+    const sessionTimestamp = new Date(Date.now() - 10000);
+    await auth.updateLastSeenSessionTimestamp({ user: userId, timestamp: sessionTimestamp });
+    const updatedSessionTs = await auth.getLastSeenSessionTimestamp({ user: userId });
+    assertEquals(updatedSessionTs?.getTime(), sessionTimestamp.getTime(), "Session timestamp should match provided value");
+
+    // Due date timestamp is tracked separately
+    assertEquals(await auth.getLastSeenDueDateTimestamp({ user: userId }), null, "Initial due date timestamp should be null");
+    const dueDateTimestamp = new Date(Date.now() - 20000);
+    await auth.updateLastSeenDueDateTimestamp({ user: userId, timestamp: dueDateTimestamp });
+    const updatedDueDateTs = await auth.getLastSeenDueDateTimestamp({ user: userId });
+    assertEquals(updatedDueDateTs?.getTime(), dueDateTimestamp.getTime(), "Due date timestamp should match provided value");
+
+    // Partner event timestamp is tracked separately
+    assertEquals(await auth.getLastSeenPartnerTimestamp({ user: userId }), null, "Initial partner timestamp should be null");
+    const partnerTimestamp = new Date(Date.now() - 5000);
+    await auth.updateLastSeenPartnerTimestamp({ user: userId, timestamp: partnerTimestamp });
+    const updatedPartnerTs = await auth.getLastSeenPartnerTimestamp({ user: userId });
+    assertEquals(updatedPartnerTs?.getTime(), partnerTimestamp.getTime(), "Partner timestamp should match provided value");
   });
 
   // Clean up test DB
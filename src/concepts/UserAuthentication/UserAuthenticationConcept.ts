@@ -27,6 +27,9 @@ type User = ID;
  *   a refreshToken String (optional, present while logged in)
  *   a lastSeenNudgeTimestamp Date (optional, tracks when last nudge was sent)
  *   a lastSeenBetTimestamp Date (optional, tracks when last bet event was sent)
+ *   a lastSeenSessionTimestamp Date (optional, tracks when last focus session event was sent)
+ *   a lastSeenDueDateTimestamp Date (optional, tracks when last due date event was sent)
+ *   a lastSeenPartnerTimestamp Date (optional, tracks when last accountability partner event was sent)
  */
 interface UserDoc {
   _id: User;
@@ -37,6 +40,9 @@ interface UserDoc {
   refreshToken?: string;
   lastSeenNudgeTimestamp?: Date;
   lastSeenBetTimestamp?: Date;
+  lastSeenSessionTimestamp?: Date;
+  lastSeenDueDateTimestamp?: Date;
+  lastSeenPartnerTimestamp?: Date;
 }
 
 /**
@@ -226,6 +232,20 @@ export default class UserAuthenticationConcept {
     };
   }
 
+  /**
+   * Looks up another user by username, e.g. to invite them as a partner.
+   * @requires A user with the username must exist.
+   * @effects Returns the user's ID and username.
+   */
+  public async getUserByUsername(
+    { username }: { username: string }
+  ): Promise<{ user: { id: User; username: string } } | { error: string }> {
+    const user = await this.users.findOne({ username });
+    if (!user) return { error: "User not found" };
+
+    return { user: { id: user._id, username: user.username } };
+  }
+
   /**
    * Checks if a user has an active session (has a refresh token).
    * @effects Returns true if the user has an active session, false otherwise.
@@ -259,6 +279,39 @@ export default class UserAuthenticationConcept {
     return userDoc?.lastSeenBetTimestamp || null;
   }
 
+  /**
+   * Gets the last seen focus session timestamp for a user.
+   * Returns the timestamp when the last focus session event was sent, or null if never sent.
+   */
+  public async getLastSeenSessionTimestamp(
+    { user }: { user: User }
+  ): Promise<Date | null> {
+    const userDoc = await this.users.findOne({ _id: user });
+    return userDoc?.lastSeenSessionTimestamp || null;
+  }
+
+  /**
+   * Gets the last seen due date timestamp for a user.
+   * Returns the timestamp when the last due date event was sent, or null if never sent.
+   */
+  public async getLastSeenDueDateTimestamp(
+    { user }: { user: User }
+  ): Promise<Date | null> {
+    const userDoc = await this.users.findOne({ _id: user });
+    return userDoc?.lastSeenDueDateTimestamp || null;
+  }
+
+  /**
+   * Gets the last seen partner event timestamp for a user.
+   * Returns the timestamp when the last accountability partner event was sent, or null if never sent.
+   */
+  public async getLastSeenPartnerTimestamp(
+    { user }: { user: User }
+  ): Promise<Date | null> {
+    const userDoc = await this.users.findOne({ _id: user });
+    return userDoc?.lastSeenPartnerTimestamp || null;
+  }
+
   /**
    * Updates the last seen nudge timestamp for a user.
    * @effects Sets the lastSeenNudgeTimestamp to the provided timestamp (or current time if not provided).
@@ -289,6 +342,51 @@ export default class UserAuthenticationConcept {
     return {};
   }
 
+  /**
+   * Updates the last seen focus session timestamp for a user.
+   * @effects Sets the lastSeenSessionTimestamp to the provided timestamp (or current time if not provided).
+   */
+  public async updateLastSeenSessionTimestamp(
+    { user, timestamp }: { user: User; timestamp?: Date }
+  ): Promise<Empty> {
+    const updateTimestamp = timestamp || new Date();
+    await this.users.updateOne(
+      { _id: user },
+      { $set: { lastSeenSessionTimestamp: updateTimestamp } }
+    );
+    return {};
+  }
+
+  /**
+   * Updates the last seen due date timestamp for a user.
+   * @effects Sets the lastSeenDueDateTimestamp to the provided timestamp (or current time if not provided).
+   */
+  public async updateLastSeenDueDateTimestamp(
+    { user, timestamp }: { user: User; timestamp?: Date }
+  ): Promise<Empty> {
+    const updateTimestamp = timestamp || new Date();
+    await this.users.updateOne(
+      { _id: user },
+      { $set: { lastSeenDueDateTimestamp: updateTimestamp } }
+    );
+    return {};
+  }
+
+  /**
+   * Updates the last seen partner event timestamp for a user.
+   * @effects Sets the lastSeenPartnerTimestamp to the provided timestamp (or current time if not provided).
+   */
+  public async updateLastSeenPartnerTimestamp(
+    { user, timestamp }: { user: User; timestamp?: Date }
+  ): Promise<Empty> {
+    const updateTimestamp = timestamp || new Date();
+    await this.users.updateOne(
+      { _id: user },
+      { $set: { lastSeenPartnerTimestamp: updateTimestamp } }
+    );
+    return {};
+  }
+
   /**
    * Generates a signed JWT for the specified user.
    */
@@ -25,5 +25,6 @@ Engine.logging = Logging.TRACE;
 Engine.register(syncs);
 
 // Start a server to provide the Requesting concept with external/system actions.
-// Note: Nudge triggering is now handled by SSE connections, no background scheduler needed.
+// Note: Nudge triggering is handled by SSE connections; the server also starts
+// background jobs that resolve expired bets and purge expired trash for all users.
 startRequestingServer(concepts);
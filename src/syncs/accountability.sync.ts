@@ -0,0 +1,554 @@
+/**
+ * Accountability synchronizations.
+ * Handles accountability partners and the tasks shared with them, with user authentication via access tokens.
+ *
+ * An owner invites a partner by username; once the partner accepts, the owner can
+ * share tasks with them. Partners see shared tasks read-only, with the bet on each,
+ * and are notified over the event stream when a shared task is started or its bet resolves.
+ */
+
+import { Accountability, MicroBet, TaskManager, UserAuthentication, Requesting } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import { ID } from "@utils/types.ts";
+
+/**
+ * Builds a partner's read-only view of an owner's task and the bet on it.
+ * Returns null for tasks that no longer exist or are in the trash.
+ */
+async function partnerView(owner: ID, task: ID) {
+  const taskDoc = await TaskManager.getTask({ user: owner, task });
+  if ("error" in taskDoc || taskDoc.deletedAt) return null;
+
+  const { blockers } = await TaskManager.getBlockers({ user: owner, task });
+  const status = await TaskManager.getTaskStatus({ task: taskDoc, blockers });
+  const bet = await MicroBet.getBet({ user: owner, task });
+
+  return {
+    _id: taskDoc._id,
+    owner,
+    title: taskDoc.title,
+    description: taskDoc.description ?? null,
+    dueDate: taskDoc.dueDate ?? null,
+    status,
+    bet: "error" in bet ? null : {
+      wager: bet.wager,
+      deadline: bet.deadline,
+      success: bet.success ?? null,
+      resolvedAt: bet.resolvedAt ?? null,
+    },
+  };
+}
+
+// ============================================================================
+// INVITE PARTNER
+// ============================================================================
+// Partners are invited by username.
+
+export const InvitePartnerRequest: Sync = ({ request, accessToken, username }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Accountability/invitePartner", accessToken, username },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const InvitePartnerWithUser: Sync = ({ request, user, userId, username, partnerId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/invitePartner", username }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const found = [];
+    for (const frame of frames) {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) continue;
+      const partner = await UserAuthentication.getUserByUsername({ username: frame[username] as string });
+      if ("error" in partner) continue;
+      found.push({ ...frame, [userId]: userObj.id, [partnerId]: partner.user.id });
+    }
+    return new Frames(...found);
+  },
+  then: actions([Accountability.invitePartner, { owner: userId, partner: partnerId }]),
+});
+
+export const InvitePartnerUserNotFound: Sync = ({ request, user, username, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/invitePartner", username }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const missing = [];
+    for (const frame of frames) {
+      if (!frame[user]) continue;
+      const partner = await UserAuthentication.getUserByUsername({ username: frame[username] as string });
+      if ("error" in partner) missing.push({ ...frame, [error]: partner.error });
+    }
+    return new Frames(...missing);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const InvitePartnerResponse: Sync = ({ request, partnership }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/invitePartner" }, { request }],
+    [Accountability.invitePartner, {}, { partnership }],
+  ),
+  then: actions([Requesting.respond, { request, partnership }]),
+});
+
+export const InvitePartnerResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/invitePartner" }, { request }],
+    [Accountability.invitePartner, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// ACCEPT INVITE
+// ============================================================================
+
+export const AcceptInviteRequest: Sync = ({ request, accessToken, partnership }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Accountability/acceptInvite", accessToken, partnership },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const AcceptInviteWithUser: Sync = ({ request, user, userId, partnership }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/acceptInvite", partnership }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([Accountability.acceptInvite, { partner: userId, partnership }]),
+});
+
+export const AcceptInviteResponse: Sync = ({ request, partnership }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/acceptInvite" }, { request }],
+    [Accountability.acceptInvite, {}, { partnership }],
+  ),
+  then: actions([Requesting.respond, { request, partnership }]),
+});
+
+export const AcceptInviteResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/acceptInvite" }, { request }],
+    [Accountability.acceptInvite, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// DECLINE INVITE
+// ============================================================================
+
+export const DeclineInviteRequest: Sync = ({ request, accessToken, partnership }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Accountability/declineInvite", accessToken, partnership },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DeclineInviteWithUser: Sync = ({ request, user, userId, partnership }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/declineInvite", partnership }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([Accountability.declineInvite, { partner: userId, partnership }]),
+});
+
+export const DeclineInviteResponse: Sync = ({ request, partnership }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/declineInvite" }, { request }],
+    [Accountability.declineInvite, {}, { partnership }],
+  ),
+  then: actions([Requesting.respond, { request, partnership }]),
+});
+
+export const DeclineInviteResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/declineInvite" }, { request }],
+    [Accountability.declineInvite, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// REVOKE PARTNERSHIP
+// ============================================================================
+
+export const RevokePartnershipRequest: Sync = ({ request, accessToken, partnership }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Accountability/revokePartnership", accessToken, partnership },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const RevokePartnershipWithUser: Sync = ({ request, user, userId, partnership }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/revokePartnership", partnership }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([Accountability.revokePartnership, { user: userId, partnership }]),
+});
+
+export const RevokePartnershipResponse: Sync = ({ request, partnership }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/revokePartnership" }, { request }],
+    [Accountability.revokePartnership, {}, { partnership }],
+  ),
+  then: actions([Requesting.respond, { request, partnership }]),
+});
+
+export const RevokePartnershipResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/revokePartnership" }, { request }],
+    [Accountability.revokePartnership, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// SHARE TASK
+// ============================================================================
+// Only the owner's own tasks can be shared, and not while they are in the trash.
+
+export const ShareTaskRequest: Sync = ({ request, accessToken, partnership, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Accountability/shareTask", accessToken, partnership, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const ShareTaskWithUser: Sync = ({ request, user, userId, partnership, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/shareTask", partnership, task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const valid = [];
+    for (const frame of frames) {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) continue;
+      const taskResult = await TaskManager.getTask({ user: userObj.id as ID, task: frame[task] as ID });
+      if ("error" in taskResult || taskResult.deletedAt) continue;
+      valid.push({ ...frame, [userId]: userObj.id });
+    }
+    return new Frames(...valid);
+  },
+  then: actions([Accountability.shareTask, { owner: userId, partnership, task }]),
+});
+
+export const ShareTaskTaskNotFound: Sync = ({ request, user, task, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/shareTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const missing = [];
+    for (const frame of frames) {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) continue;
+      const taskResult = await TaskManager.getTask({ user: userObj.id as ID, task: frame[task] as ID });
+      if ("error" in taskResult || taskResult.deletedAt) {
+        missing.push({ ...frame, [error]: "Task not found" });
+      }
+    }
+    return new Frames(...missing);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const ShareTaskResponse: Sync = ({ request, share }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/shareTask" }, { request }],
+    [Accountability.shareTask, {}, { share }],
+  ),
+  then: actions([Requesting.respond, { request, share }]),
+});
+
+export const ShareTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/shareTask" }, { request }],
+    [Accountability.shareTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// UNSHARE TASK
+// ============================================================================
+
+export const UnshareTaskRequest: Sync = ({ request, accessToken, partnership, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Accountability/unshareTask", accessToken, partnership, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const UnshareTaskWithUser: Sync = ({ request, user, userId, partnership, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/unshareTask", partnership, task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([Accountability.unshareTask, { owner: userId, partnership, task }]),
+});
+
+export const UnshareTaskResponse: Sync = ({ request, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/unshareTask" }, { request }],
+    [Accountability.unshareTask, {}, { task }],
+  ),
+  then: actions([Requesting.respond, { request, task }]),
+});
+
+export const UnshareTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/unshareTask" }, { request }],
+    [Accountability.unshareTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET PARTNERSHIPS
+// ============================================================================
+
+export const GetPartnershipsRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Accountability/getPartnerships", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetPartnershipsWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/getPartnerships" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([Accountability.getPartnerships, { user: userId }]),
+});
+
+export const GetPartnershipsResponse: Sync = ({ request, partnerships }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/getPartnerships" }, { request }],
+    [Accountability.getPartnerships, {}, { partnerships }],
+  ),
+  then: actions([Requesting.respond, { request, partnerships }]),
+});
+
+// ============================================================================
+// GET SHARED TASKS
+// ============================================================================
+// Returns the partner's view of every task shared with them. Shared tasks the
+// owner has moved to the trash are left out until they are restored.
+
+export const GetSharedTasksRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Accountability/getSharedTasks", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetSharedTasksWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/getSharedTasks" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([Accountability.getSharedTasks, { partner: userId }]),
+});
+
+export const GetSharedTasksResponse: Sync = ({ request, shares, tasks }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/getSharedTasks" }, { request }],
+    [Accountability.getSharedTasks, {}, { shares }],
+  ),
+  where: async (frames) => {
+    const viewed = [];
+    for (const frame of frames) {
+      const shareDocs = frame[shares] as { owner: ID; task: ID; partnership: ID; sharedAt: Date }[];
+      const views = [];
+      for (const share of shareDocs) {
+        const view = await partnerView(share.owner, share.task);
+        if (view) views.push({ ...view, partnership: share.partnership, sharedAt: share.sharedAt });
+      }
+      viewed.push({ ...frame, [tasks]: views });
+    }
+    return new Frames(...viewed);
+  },
+  then: actions([Requesting.respond, { request, tasks }]),
+});
+
+// ============================================================================
+// GET SHARED TASK
+// ============================================================================
+// Partners view one shared task through Accountability.checkAccess; TaskManager
+// itself only ever serves a task to its owner.
+
+export const GetSharedTaskRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Accountability/getSharedTask", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetSharedTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/getSharedTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([Accountability.checkAccess, { viewer: userId, task }]),
+});
+
+export const GetSharedTaskResponse: Sync = ({ request, task, owner, view }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/getSharedTask", task }, { request }],
+    [Accountability.checkAccess, {}, { owner }],
+  ),
+  where: async (frames) => {
+    const viewed = [];
+    for (const frame of frames) {
+      const taskView = await partnerView(frame[owner] as ID, frame[task] as ID);
+      if (taskView) viewed.push({ ...frame, [view]: taskView });
+    }
+    return new Frames(...viewed);
+  },
+  then: actions([Requesting.respond, { request, task: view }]),
+});
+
+export const GetSharedTaskTaskNotFound: Sync = ({ request, task, owner, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/getSharedTask", task }, { request }],
+    [Accountability.checkAccess, {}, { owner }],
+  ),
+  where: async (frames) => {
+    const missing = [];
+    for (const frame of frames) {
+      const taskView = await partnerView(frame[owner] as ID, frame[task] as ID);
+      if (!taskView) missing.push({ ...frame, [error]: "Task not found" });
+    }
+    return new Frames(...missing);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const GetSharedTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Accountability/getSharedTask" }, { request }],
+    [Accountability.checkAccess, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// NOTIFY PARTNERS
+// ============================================================================
+// Partners following a task get an event when it is started or its bet resolves,
+// however the action was triggered. Events are delivered over the SSE stream.
+
+/**
+ * Binds each frame's task title, dropping frames whose task no longer exists.
+ */
+async function withTaskTitle(frames: Frames, user: symbol, task: symbol, title: symbol) {
+  const titled = [];
+  for (const frame of frames) {
+    const taskDoc = await TaskManager.getTask({ user: frame[user] as ID, task: frame[task] as ID });
+    if ("error" in taskDoc) continue;
+    titled.push({ ...frame, [title]: taskDoc.title });
+  }
+  return new Frames(...titled);
+}
+
+export const AutoNotifyPartnersOnTaskStart: Sync = ({ user, task, title }) => ({
+  when: actions([TaskManager.markStarted, { user }, { task }]),
+  where: (frames) => withTaskTitle(frames, user, task, title),
+  then: actions([Accountability.recordEvent, { owner: user, task, title, type: "task_started" }]),
+});
+
+export const AutoNotifyPartnersOnBetSuccess: Sync = ({ user, task, title, reward }) => ({
+  when: actions([MicroBet.resolveBet, { user, task }, { status: "success", reward }]),
+  where: (frames) => withTaskTitle(frames, user, task, title),
+  then: actions([
+    Accountability.recordEvent,
+    { owner: user, task, title, type: "bet_resolved", success: true, reward },
+  ]),
+});
+
+export const AutoNotifyPartnersOnBetExpire: Sync = ({ user, task, title }) => ({
+  when: actions([MicroBet.resolveExpiredBet, { user, task }, { status: "failed" }]),
+  where: (frames) => withTaskTitle(frames, user, task, title),
+  then: actions([Accountability.recordEvent, { owner: user, task, title, type: "bet_resolved", success: false }]),
+});
+
+export const AutoNotifyPartnersOnBetForfeit: Sync = ({ user, task, title }) => ({
+  when: actions([MicroBet.forfeitBet, { user, task }, { status: "failed" }]),
+  where: (frames) => withTaskTitle(frames, user, task, title),
+  then: actions([Accountability.recordEvent, { owner: user, task, title, type: "bet_resolved", success: false }]),
+});
@@ -3,7 +3,7 @@
  * Handles token validation and authentication-related actions.
  */
 
-import { UserAuthentication, Requesting, TaskManager, EmotionLogger, NudgeEngine, MicroBet } from "@concepts";
+import { UserAuthentication, Requesting, TaskManager, EmotionLogger, NudgeEngine, MicroBet, FocusSession, TaskTemplate, QuickAdd, TaskBreakdown, TaskHistory, Undo, Accountability, CalendarFeed, TaskImport } from "@concepts";
 import { actions, Sync } from "@engine";
 
 // ============================================================================
@@ -164,6 +164,15 @@ export const DeleteAccountResponseError: Sync = ({ request, error }) => ({
  * 2. Delete all emotion logs (EmotionLogger.deleteUserLogs)
  * 3. Delete all nudges (NudgeEngine.deleteUserNudges)
  * 4. Remove bettor profile (MicroBet.removeBettor)
+ * 5. Delete all focus sessions (FocusSession.deleteUserSessions)
+ * 6. Delete all task templates (TaskTemplate.deleteUserTemplates)
+ * 7. Delete all quick-add drafts (QuickAdd.deleteUserDrafts)
+ * 8. Delete all task breakdowns (TaskBreakdown.deleteUserBreakdowns)
+ * 9. Delete all task history (TaskHistory.deleteUserHistory)
+ * 10. Delete the undo stack (Undo.deleteUserOperations)
+ * 11. Delete all partnerships and shared tasks (Accountability.deleteUserPartnerships)
+ * 12. Delete the calendar feed and imported events (CalendarFeed.deleteUserFeeds)
+ * 13. Delete all import batches (TaskImport.deleteUserImports)
  */
 export const AutoCascadeDeleteOnAccountDelete: Sync = ({ request, accessToken, user, userId }) => ({
   when: actions(
@@ -182,5 +191,14 @@ export const AutoCascadeDeleteOnAccountDelete: Sync = ({ request, accessToken, u
     [EmotionLogger.deleteUserLogs, { user: userId }],
     [NudgeEngine.deleteUserNudges, { user: userId }],
     [MicroBet.removeBettor, { user: userId }],
+    [FocusSession.deleteUserSessions, { user: userId }],
+    [TaskTemplate.deleteUserTemplates, { user: userId }],
+    [QuickAdd.deleteUserDrafts, { user: userId }],
+    [TaskBreakdown.deleteUserBreakdowns, { user: userId }],
+    [TaskHistory.deleteUserHistory, { user: userId }],
+    [Undo.deleteUserOperations, { user: userId }],
+    [Accountability.deleteUserPartnerships, { user: userId }],
+    [CalendarFeed.deleteUserFeeds, { user: userId }],
+    [TaskImport.deleteUserImports, { user: userId }],
   ),
 });
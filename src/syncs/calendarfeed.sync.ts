@@ -0,0 +1,216 @@
+/**
+ * CalendarFeed synchronizations.
+ * Handles feed tokens and .ics imports with user authentication via access tokens.
+ *
+ * Note:
+ * - The feed itself is served by the GET /calendar/:token route, which
+ *   authenticates with the feed token instead of an access token.
+ */
+
+import { CalendarFeed, TaskManager, UserAuthentication, Requesting } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import { ID } from "@utils/types.ts";
+import { CalendarEntry, parseCalendar } from "@utils/ical.ts";
+
+// ============================================================================
+// GET FEED TOKEN
+// ============================================================================
+
+export const GetFeedTokenRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/CalendarFeed/getFeedToken", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetFeedTokenWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CalendarFeed/getFeedToken" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([CalendarFeed.getFeedToken, { user: userId }]),
+});
+
+export const GetFeedTokenResponse: Sync = ({ request, token }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CalendarFeed/getFeedToken" }, { request }],
+    [CalendarFeed.getFeedToken, {}, { token }],
+  ),
+  then: actions([Requesting.respond, { request, token }]),
+});
+
+// ============================================================================
+// ROTATE FEED TOKEN
+// ============================================================================
+
+export const RotateFeedTokenRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/CalendarFeed/rotateFeedToken", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const RotateFeedTokenWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CalendarFeed/rotateFeedToken" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([CalendarFeed.rotateFeedToken, { user: userId }]),
+});
+
+export const RotateFeedTokenResponse: Sync = ({ request, token }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CalendarFeed/rotateFeedToken" }, { request }],
+    [CalendarFeed.rotateFeedToken, {}, { token }],
+  ),
+  then: actions([Requesting.respond, { request, token }]),
+});
+
+export const RotateFeedTokenResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CalendarFeed/rotateFeedToken" }, { request }],
+    [CalendarFeed.rotateFeedToken, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// DELETE USER FEEDS
+// ============================================================================
+
+export const DeleteUserFeedsRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/CalendarFeed/deleteUserFeeds", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DeleteUserFeedsWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CalendarFeed/deleteUserFeeds" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([CalendarFeed.deleteUserFeeds, { user: userId }]),
+});
+
+export const DeleteUserFeedsResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CalendarFeed/deleteUserFeeds" }, { request }],
+    [CalendarFeed.deleteUserFeeds, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+// ============================================================================
+// IMPORT CALENDAR
+// ============================================================================
+// Creates a task for every VTODO/VEVENT in an uploaded .ics file. Each
+// component's UID is remembered, so importing the same file again reports the
+// already-imported entries as duplicates instead of creating new tasks. A UID
+// whose task has since been purged is imported again.
+
+/**
+ * Imports one calendar entry for a user, returning its per-item result.
+ */
+async function importEntry(user: ID, entry: CalendarEntry) {
+  if (!entry.uid) return { uid: null, error: "Entry has no UID" };
+  const { uid } = entry;
+
+  const { task: existing } = await CalendarFeed.getImportedTask({ user, uid });
+  if (existing) {
+    const existingTask = await TaskManager.getTask({ user, task: existing });
+    if (!("error" in existingTask)) return { uid, task: existing, status: "duplicate" };
+  }
+
+  if (!entry.summary) return { uid, error: "Entry has no summary" };
+
+  const created = await TaskManager.createTask({
+    user,
+    title: entry.summary,
+    description: entry.description,
+    dueDate: entry.due,
+  });
+  if ("error" in created) return { uid, error: created.error };
+
+  await CalendarFeed.recordImport({ user, uid, task: created.task });
+  return { uid, task: created.task, status: "created" };
+}
+
+export const ImportCalendarRequest: Sync = ({ request, accessToken, ics }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/CalendarFeed/importCalendar", accessToken, ics },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const ImportCalendarWithUser: Sync = ({ request, user, ics, results }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CalendarFeed/importCalendar", ics }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const imported = [];
+    for (const frame of frames) {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj || typeof frame[ics] !== "string") continue;
+
+      const entries = parseCalendar(frame[ics] as string);
+      if ("error" in entries) continue;
+
+      const itemResults = [];
+      for (const entry of entries) {
+        itemResults.push(await importEntry(userObj.id as ID, entry));
+      }
+      imported.push({ ...frame, [results]: itemResults });
+    }
+    return new Frames(...imported);
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+export const ImportCalendarInvalid: Sync = ({ request, user, ics, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/CalendarFeed/importCalendar", ics }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.flatMap((frame) => {
+      if (!frame[user]) return [];
+      if (typeof frame[ics] !== "string") {
+        return [{ ...frame, [error]: "Calendar file contents are required" }];
+      }
+      const entries = parseCalendar(frame[ics] as string);
+      return "error" in entries ? [{ ...frame, [error]: entries.error }] : [];
+    });
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
@@ -250,18 +250,18 @@ export const GetEmotionsForTaskResponse: Sync = ({ request, task, emotions }) =>
 // GET EMOTION LOGS
 // ============================================================================
 
-export const GetEmotionLogsRequest: Sync = ({ request, accessToken, page, limit, phase, emotion, sortBy, sortOrder }) => ({
+export const GetEmotionLogsRequest: Sync = ({ request, accessToken, cursor, limit, phase, emotion, sortBy, sortOrder }) => ({
   when: actions([
     Requesting.request,
-    { path: "/EmotionLogger/getEmotionLogs", accessToken, page, limit, phase, emotion, sortBy, sortOrder },
+    { path: "/EmotionLogger/getEmotionLogs", accessToken, cursor, limit, phase, emotion, sortBy, sortOrder },
     { request },
   ]),
   then: actions([UserAuthentication.getUserInfo, { accessToken }]),
 });
 
-export const GetEmotionLogsWithUser: Sync = ({ request, user, userId, page, limit, phase, emotion, sortBy, sortOrder }) => ({
+export const GetEmotionLogsWithUser: Sync = ({ request, user, userId, cursor, limit, phase, emotion, sortBy, sortOrder }) => ({
   when: actions(
-    [Requesting.request, { path: "/EmotionLogger/getEmotionLogs", page, limit, phase, emotion, sortBy, sortOrder }, { request }],
+    [Requesting.request, { path: "/EmotionLogger/getEmotionLogs", cursor, limit, phase, emotion, sortBy, sortOrder }, { request }],
     [UserAuthentication.getUserInfo, {}, { user }],
   ),
   where: (frames) => {
@@ -270,23 +270,22 @@ export const GetEmotionLogsWithUser: Sync = ({ request, user, userId, page, limi
       if (!userObj) return frame;
       const newFrame = { ...frame, [userId]: userObj.id };
       // Convert null to default values for optional parameters
-      if (page in newFrame && newFrame[page] === null) newFrame[page] = 1;
       if (limit in newFrame && newFrame[limit] === null) newFrame[limit] = 20;
       if (sortBy in newFrame && newFrame[sortBy] === null) newFrame[sortBy] = "createdAt";
       if (sortOrder in newFrame && newFrame[sortOrder] === null) newFrame[sortOrder] = -1;
-      // For phase and emotion, null means "no filter" - keep as null (will be handled by concept method)
+      // A null cursor requests the first page; for phase and emotion, null means "no filter" - keep as null (will be handled by concept method)
       return newFrame;
     });
   },
-  then: actions([EmotionLogger.getEmotionLogs, { user: userId, page, limit, phase, emotion, sortBy, sortOrder }]),
+  then: actions([EmotionLogger.getEmotionLogs, { user: userId, cursor, limit, phase, emotion, sortBy, sortOrder }]),
 });
 
-export const GetEmotionLogsResponse: Sync = ({ request, logs, total, page, totalPages }) => ({
+export const GetEmotionLogsResponse: Sync = ({ request, logs, total, nextCursor }) => ({
   when: actions(
     [Requesting.request, { path: "/EmotionLogger/getEmotionLogs" }, { request }],
-    [EmotionLogger.getEmotionLogs, {}, { logs, total, page, totalPages }],
+    [EmotionLogger.getEmotionLogs, {}, { logs, total, nextCursor }],
   ),
-  then: actions([Requesting.respond, { request, logs, total, page, totalPages }]),
+  then: actions([Requesting.respond, { request, logs, total, nextCursor }]),
 });
 
 export const GetEmotionLogsResponseError: Sync = ({ request, error }) => ({
@@ -0,0 +1,524 @@
+/**
+ * FocusSession synchronizations.
+ * Handles Pomodoro sessions and focus totals with user authentication via access tokens.
+ *
+ * Note:
+ * - Sessions that run out are completed by the unified SSE stream, which also
+ *   pushes a session_ended event for every session that ends.
+ */
+
+import { FocusSession, TaskManager, UserAuthentication, Requesting } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import { ID } from "@utils/types.ts";
+import { SessionKind } from "@concepts/FocusSession/FocusSessionConcept.ts";
+
+// ============================================================================
+// START SESSION
+// ============================================================================
+// Sessions can only be started on the user's own tasks that are not in the trash.
+// A null kind starts a work session.
+
+export const StartSessionRequest: Sync = ({ request, accessToken, task, kind }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/FocusSession/startSession", accessToken, task, kind },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const StartSessionWithUser: Sync = ({ request, user, userId, task, kind, sessionKind }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/startSession", task, kind }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const valid = [];
+    for (const frame of frames) {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) continue;
+      const taskResult = await TaskManager.getTask({ user: userObj.id as ID, task: frame[task] as ID });
+      if ("error" in taskResult || taskResult.deletedAt) continue;
+      valid.push({ ...frame, [userId]: userObj.id, [sessionKind]: (frame[kind] as SessionKind | null) ?? "work" });
+    }
+    return new Frames(...valid);
+  },
+  then: actions([FocusSession.startSession, { user: userId, task, kind: sessionKind }]),
+});
+
+export const StartSessionTaskNotFound: Sync = ({ request, user, task, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/startSession", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const missing = [];
+    for (const frame of frames) {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) continue;
+      const taskResult = await TaskManager.getTask({ user: userObj.id as ID, task: frame[task] as ID });
+      if ("error" in taskResult || taskResult.deletedAt) {
+        missing.push({ ...frame, [error]: "Task not found" });
+      }
+    }
+    return new Frames(...missing);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const StartSessionResponse: Sync = ({ request, session, kind, plannedMinutes, startedAt }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/startSession" }, { request }],
+    [FocusSession.startSession, {}, { session, kind, plannedMinutes, startedAt }],
+  ),
+  then: actions([Requesting.respond, { request, session, kind, plannedMinutes, startedAt }]),
+});
+
+export const StartSessionResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/startSession" }, { request }],
+    [FocusSession.startSession, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// PAUSE SESSION
+// ============================================================================
+
+export const PauseSessionRequest: Sync = ({ request, accessToken, session }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/FocusSession/pauseSession", accessToken, session },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const PauseSessionWithUser: Sync = ({ request, user, userId, session }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/pauseSession", session }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([FocusSession.pauseSession, { user: userId, session }]),
+});
+
+export const PauseSessionResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/pauseSession" }, { request }],
+    [FocusSession.pauseSession, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const PauseSessionResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/pauseSession" }, { request }],
+    [FocusSession.pauseSession, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// RESUME SESSION
+// ============================================================================
+
+export const ResumeSessionRequest: Sync = ({ request, accessToken, session }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/FocusSession/resumeSession", accessToken, session },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const ResumeSessionWithUser: Sync = ({ request, user, userId, session }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/resumeSession", session }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([FocusSession.resumeSession, { user: userId, session }]),
+});
+
+export const ResumeSessionResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/resumeSession" }, { request }],
+    [FocusSession.resumeSession, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const ResumeSessionResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/resumeSession" }, { request }],
+    [FocusSession.resumeSession, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// STOP SESSION
+// ============================================================================
+
+export const StopSessionRequest: Sync = ({ request, accessToken, session }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/FocusSession/stopSession", accessToken, session },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const StopSessionWithUser: Sync = ({ request, user, userId, session }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/stopSession", session }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([FocusSession.stopSession, { user: userId, session }]),
+});
+
+export const StopSessionResponse: Sync = ({ request, endReason, focusedMinutes }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/stopSession" }, { request }],
+    [FocusSession.stopSession, {}, { endReason, focusedMinutes }],
+  ),
+  then: actions([Requesting.respond, { request, endReason, focusedMinutes }]),
+});
+
+export const StopSessionResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/stopSession" }, { request }],
+    [FocusSession.stopSession, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET ACTIVE SESSION
+// ============================================================================
+
+export const GetActiveSessionRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/FocusSession/getActiveSession", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetActiveSessionWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/getActiveSession" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([FocusSession.getActiveSession, { user: userId }]),
+});
+
+export const GetActiveSessionResponse: Sync = ({ request, session }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/getActiveSession" }, { request }],
+    [FocusSession.getActiveSession, {}, { session }],
+  ),
+  then: actions([Requesting.respond, { request, session }]),
+});
+
+// ============================================================================
+// GET NEXT SESSION
+// ============================================================================
+
+export const GetNextSessionRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/FocusSession/getNextSession", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetNextSessionWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/getNextSession" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([FocusSession.getNextSession, { user: userId }]),
+});
+
+export const GetNextSessionResponse: Sync = ({ request, kind, plannedMinutes }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/getNextSession" }, { request }],
+    [FocusSession.getNextSession, {}, { kind, plannedMinutes }],
+  ),
+  then: actions([Requesting.respond, { request, kind, plannedMinutes }]),
+});
+
+// ============================================================================
+// GET SETTINGS
+// ============================================================================
+
+export const GetSettingsRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/FocusSession/getSettings", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetSettingsWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/getSettings" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([FocusSession.getSettings, { user: userId }]),
+});
+
+export const GetSettingsResponse: Sync = ({ request, settings }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/getSettings" }, { request }],
+    [FocusSession.getSettings, {}, { settings }],
+  ),
+  then: actions([Requesting.respond, { request, settings }]),
+});
+
+// ============================================================================
+// UPDATE SETTINGS
+// ============================================================================
+// Null fields are left unchanged by FocusSession.updateSettings
+
+export const UpdateSettingsRequest: Sync = (
+  { request, accessToken, workMinutes, shortBreakMinutes, longBreakMinutes, longBreakEvery },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/FocusSession/updateSettings", accessToken, workMinutes, shortBreakMinutes, longBreakMinutes, longBreakEvery },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const UpdateSettingsWithUser: Sync = (
+  { request, user, userId, workMinutes, shortBreakMinutes, longBreakMinutes, longBreakEvery },
+) => ({
+  when: actions(
+    [
+      Requesting.request,
+      { path: "/FocusSession/updateSettings", workMinutes, shortBreakMinutes, longBreakMinutes, longBreakEvery },
+      { request },
+    ],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([
+    FocusSession.updateSettings,
+    { user: userId, workMinutes, shortBreakMinutes, longBreakMinutes, longBreakEvery },
+  ]),
+});
+
+export const UpdateSettingsResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/updateSettings" }, { request }],
+    [FocusSession.updateSettings, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const UpdateSettingsResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/updateSettings" }, { request }],
+    [FocusSession.updateSettings, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET TASK FOCUS TOTAL
+// ============================================================================
+
+export const GetTaskFocusTotalRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/FocusSession/getTaskFocusTotal", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetTaskFocusTotalWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/getTaskFocusTotal", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([FocusSession.getTaskFocusTotal, { user: userId, task }]),
+});
+
+export const GetTaskFocusTotalResponse: Sync = ({ request, focusedMinutes, sessions }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/getTaskFocusTotal" }, { request }],
+    [FocusSession.getTaskFocusTotal, {}, { focusedMinutes, sessions }],
+  ),
+  then: actions([Requesting.respond, { request, focusedMinutes, sessions }]),
+});
+
+// ============================================================================
+// GET DAILY FOCUS TOTALS
+// ============================================================================
+
+export const GetDailyFocusTotalsRequest: Sync = ({ request, accessToken, from, to, utcOffsetMinutes }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/FocusSession/getDailyFocusTotals", accessToken, from, to, utcOffsetMinutes },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetDailyFocusTotalsWithUser: Sync = ({ request, user, userId, from, to, utcOffsetMinutes }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/getDailyFocusTotals", from, to, utcOffsetMinutes }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      const newFrame = { ...frame, [userId]: userObj.id };
+      // Convert from string to Date if it's a string
+      if (from in newFrame) {
+        const value = newFrame[from];
+        if (typeof value === 'string') {
+          newFrame[from] = new Date(value);
+        }
+      }
+      // Convert to string to Date if it's a string
+      if (to in newFrame) {
+        const value = newFrame[to];
+        if (typeof value === 'string') {
+          newFrame[to] = new Date(value);
+        }
+      }
+      if (newFrame[utcOffsetMinutes] === null) newFrame[utcOffsetMinutes] = 0;
+      return newFrame;
+    });
+  },
+  then: actions([FocusSession.getDailyFocusTotals, { user: userId, from, to, utcOffsetMinutes }]),
+});
+
+export const GetDailyFocusTotalsResponse: Sync = ({ request, days }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/getDailyFocusTotals" }, { request }],
+    [FocusSession.getDailyFocusTotals, {}, { days }],
+  ),
+  then: actions([Requesting.respond, { request, days }]),
+});
+
+export const GetDailyFocusTotalsResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/getDailyFocusTotals" }, { request }],
+    [FocusSession.getDailyFocusTotals, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// DELETE USER SESSIONS
+// ============================================================================
+
+export const DeleteUserSessionsRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/FocusSession/deleteUserSessions", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DeleteUserSessionsWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/deleteUserSessions" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([FocusSession.deleteUserSessions, { user: userId }]),
+});
+
+export const DeleteUserSessionsResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/FocusSession/deleteUserSessions" }, { request }],
+    [FocusSession.deleteUserSessions, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+// ============================================================================
+// TASK START ON FIRST WORK SESSION
+// ============================================================================
+
+/**
+ * Automatically marks a task as started when a work session is started on it.
+ * Only the first session starts the task; later ones are refused by TaskManager.markStarted.
+ */
+export const AutoMarkTaskStartedOnFocusSessionStart: Sync = ({ user, task, startedAt }) => ({
+  when: actions([FocusSession.startSession, { user, task }, { kind: "work", startedAt }]),
+  then: actions([TaskManager.markStarted, { user, task, timeStarted: startedAt }]),
+});
@@ -91,18 +91,18 @@ export const RemoveBettorResponse: Sync = ({ request }) => ({
 // PLACE BET
 // ============================================================================
 
-export const PlaceBetRequest: Sync = ({ request, accessToken, task, wager, deadline, taskDueDate }) => ({
+export const PlaceBetRequest: Sync = ({ request, accessToken, task, wager, deadline, taskDueDate, type, withinMinutes }) => ({
   when: actions([
     Requesting.request,
-    { path: "/MicroBet/placeBet", accessToken, task, wager, deadline, taskDueDate },
+    { path: "/MicroBet/placeBet", accessToken, task, wager, deadline, taskDueDate, type, withinMinutes },
     { request },
   ]),
   then: actions([UserAuthentication.getUserInfo, { accessToken }]),
 });
 
-export const PlaceBetWithUser: Sync = ({ request, user, userId, task, wager, deadline, taskDueDate }) => ({
+export const PlaceBetWithUser: Sync = ({ request, user, userId, task, wager, deadline, taskDueDate, type, withinMinutes }) => ({
   when: actions(
-    [Requesting.request, { path: "/MicroBet/placeBet", task, wager, deadline, taskDueDate }, { request }],
+    [Requesting.request, { path: "/MicroBet/placeBet", task, wager, deadline, taskDueDate, type, withinMinutes }, { request }],
     [UserAuthentication.getUserInfo, {}, { user }],
   ),
   where: (frames) => {
@@ -127,7 +127,7 @@ export const PlaceBetWithUser: Sync = ({ request, user, userId, task, wager, dea
       return newFrame;
     });
   },
-  then: actions([MicroBet.placeBet, { user: userId, task, wager, deadline, taskDueDate }]),
+  then: actions([MicroBet.placeBet, { user: userId, task, wager, deadline, taskDueDate, type, withinMinutes }]),
 });
 
 export const PlaceBetResponse: Sync = ({ request, bet }) => ({
@@ -350,12 +350,12 @@ export const GetUserProfileWithUser: Sync = ({ request, user, userId }) => ({
   then: actions([MicroBet.getUserProfile, { user: userId }]),
 });
 
-export const GetUserProfileResponse: Sync = ({ request, points, streak, totalBets, successfulBets, failedBets, pendingBets }) => ({
+export const GetUserProfileResponse: Sync = ({ request, points, streak, totalBets, successfulBets, failedBets, pendingBets, byType }) => ({
   when: actions(
     [Requesting.request, { path: "/MicroBet/getUserProfile" }, { request }],
-    [MicroBet.getUserProfile, {}, { points, streak, totalBets, successfulBets, failedBets, pendingBets }],
+    [MicroBet.getUserProfile, {}, { points, streak, totalBets, successfulBets, failedBets, pendingBets, byType }],
   ),
-  then: actions([Requesting.respond, { request, points, streak, totalBets, successfulBets, failedBets, pendingBets }]),
+  then: actions([Requesting.respond, { request, points, streak, totalBets, successfulBets, failedBets, pendingBets, byType }]),
 });
 
 export const GetUserProfileResponseError: Sync = ({ request, error }) => ({
@@ -412,3 +412,153 @@ export const GetRecentActivityResponseError: Sync = ({ request, error }) => ({
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
+
+// ============================================================================
+// GET LEDGER
+// ============================================================================
+
+export const GetLedgerRequest: Sync = ({ request, accessToken, bet, limit }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/MicroBet/getLedger", accessToken, bet, limit },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetLedgerWithUser: Sync = ({ request, user, userId, bet, limit }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MicroBet/getLedger", bet, limit }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      const newFrame = { ...frame, [userId]: userObj.id };
+      // Convert null to default value for optional parameter
+      if (limit in newFrame && newFrame[limit] === null) newFrame[limit] = 50;
+      return newFrame;
+    });
+  },
+  then: actions([MicroBet.getLedger, { user: userId, bet, limit }]),
+});
+
+export const GetLedgerResponse: Sync = ({ request, entries }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MicroBet/getLedger" }, { request }],
+    [MicroBet.getLedger, {}, { entries }],
+  ),
+  then: actions([Requesting.respond, { request, entries }]),
+});
+
+export const GetLedgerResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MicroBet/getLedger" }, { request }],
+    [MicroBet.getLedger, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// RECONCILE LEDGER
+// ============================================================================
+
+export const ReconcileLedgerRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/MicroBet/reconcileLedger", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const ReconcileLedgerWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MicroBet/reconcileLedger" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([MicroBet.reconcileLedger, { user: userId }]),
+});
+
+export const ReconcileLedgerResponse: Sync = ({ request, points, ledgerPoints, escrow, ledgerEscrow, consistent }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MicroBet/reconcileLedger" }, { request }],
+    [MicroBet.reconcileLedger, {}, { points, ledgerPoints, escrow, ledgerEscrow, consistent }],
+  ),
+  then: actions([Requesting.respond, { request, points, ledgerPoints, escrow, ledgerEscrow, consistent }]),
+});
+
+export const ReconcileLedgerResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MicroBet/reconcileLedger" }, { request }],
+    [MicroBet.reconcileLedger, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// SIMULATE REWARD
+// ============================================================================
+
+export const SimulateRewardRequest: Sync = ({ request, accessToken, wager, deadline, taskDueDate }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/MicroBet/simulateReward", accessToken, wager, deadline, taskDueDate },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const SimulateRewardWithUser: Sync = ({ request, user, userId, wager, deadline, taskDueDate }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MicroBet/simulateReward", wager, deadline, taskDueDate }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      const newFrame = { ...frame, [userId]: userObj.id };
+      // Convert deadline string to Date if it's a string
+      if (deadline in newFrame) {
+        const deadlineValue = newFrame[deadline];
+        if (typeof deadlineValue === 'string') {
+          newFrame[deadline] = new Date(deadlineValue);
+        }
+      }
+      // Convert taskDueDate string to Date if it's a string (and present)
+      if (taskDueDate in newFrame && newFrame[taskDueDate] !== null && newFrame[taskDueDate] !== undefined) {
+        const taskDueDateValue = newFrame[taskDueDate];
+        if (typeof taskDueDateValue === 'string') {
+          newFrame[taskDueDate] = new Date(taskDueDateValue);
+        }
+      }
+      return newFrame;
+    });
+  },
+  then: actions([MicroBet.simulateReward, { user: userId, wager, deadline, taskDueDate }]),
+});
+
+export const SimulateRewardResponse: Sync = ({ request, policy, payouts }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MicroBet/simulateReward" }, { request }],
+    [MicroBet.simulateReward, {}, { policy, payouts }],
+  ),
+  then: actions([Requesting.respond, { request, policy, payouts }]),
+});
+
+export const SimulateRewardResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MicroBet/simulateReward" }, { request }],
+    [MicroBet.simulateReward, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
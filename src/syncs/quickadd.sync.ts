@@ -0,0 +1,240 @@
+/**
+ * QuickAdd synchronizations.
+ * Handles adding tasks from one sentence of free text with user authentication via access tokens.
+ *
+ * Quick-add is two requests: previewQuickAdd reads the text and shows what was
+ * understood, then commitQuickAdd creates the task through TaskManager.createTask
+ * and places the bet, if any, through MicroBet.placeBet.
+ */
+
+import { MicroBet, QuickAdd, TaskManager, UserAuthentication, Requesting } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import { ID } from "@utils/types.ts";
+
+// ============================================================================
+// PREVIEW QUICK ADD
+// ============================================================================
+// QuickAdd checks the fields themselves; the response adds the problems that
+// depend on the user's tasks and points. A null utcOffsetMinutes reads dates in UTC.
+
+export const PreviewQuickAddRequest: Sync = ({ request, accessToken, text, utcOffsetMinutes }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/QuickAdd/previewQuickAdd", accessToken, text, utcOffsetMinutes },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const PreviewQuickAddWithUser: Sync = ({ request, user, userId, text, utcOffsetMinutes }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/previewQuickAdd", text, utcOffsetMinutes }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([QuickAdd.previewQuickAdd, { user: userId, text, utcOffsetMinutes }]),
+});
+
+export const PreviewQuickAddResponse: Sync = (
+  { request, user, draft, source, title, description, dueDate, wager, deadline, problems },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/previewQuickAdd" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+    [QuickAdd.previewQuickAdd, {}, { draft, source, title, description, dueDate, wager, deadline, problems }],
+  ),
+  where: async (frames) => {
+    const checked = await Promise.all(frames.map(async (frame) => {
+      const userId = (frame[user] as { id: string }).id as ID;
+      const found = [...(frame[problems] as string[])];
+
+      const existing = await TaskManager.getTaskByTitle({ user: userId, title: frame[title] as string });
+      if (!("error" in existing)) found.push("Title must be unique");
+      const stake = frame[wager] as number | null;
+      if (stake !== null) {
+        const profile = await MicroBet.getUserProfile({ user: userId });
+        if ("error" in profile) found.push(profile.error);
+        else if (profile.points < stake) found.push("Insufficient points to wager");
+      }
+      return { ...frame, [problems]: found };
+    }));
+    return new Frames(...checked);
+  },
+  then: actions([
+    Requesting.respond,
+    { request, draft, source, title, description, dueDate, wager, deadline, problems },
+  ]),
+});
+
+export const PreviewQuickAddResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/previewQuickAdd" }, { request }],
+    [QuickAdd.previewQuickAdd, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// COMMIT QUICK ADD
+// ============================================================================
+// Committing uses up the draft. The task and bet are still checked by
+// TaskManager and MicroBet, since the user's tasks and points may have changed
+// since the preview. The task is kept when its bet cannot be placed.
+
+export const CommitQuickAddRequest: Sync = ({ request, accessToken, draft }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/QuickAdd/commitQuickAdd", accessToken, draft },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const CommitQuickAddWithUser: Sync = ({ request, user, userId, draft }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/commitQuickAdd", draft }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([QuickAdd.commitQuickAdd, { user: userId, draft }]),
+});
+
+export const CreateTaskOnQuickAddCommit: Sync = ({ request, user, userId, title, description, dueDate }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/commitQuickAdd" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+    [QuickAdd.commitQuickAdd, {}, { title, description, dueDate }],
+  ),
+  where: (frames) => {
+    return frames
+      .filter((frame) => frame[dueDate] === null)
+      .map((frame) => ({ ...frame, [userId]: (frame[user] as { id: string }).id }));
+  },
+  then: actions([TaskManager.createTask, { user: userId, title, description }]),
+});
+
+export const CreateTaskWithDueDateOnQuickAddCommit: Sync = (
+  { request, user, userId, title, description, dueDate },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/commitQuickAdd" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+    [QuickAdd.commitQuickAdd, {}, { title, description, dueDate }],
+  ),
+  where: (frames) => {
+    return frames
+      .filter((frame) => frame[dueDate] !== null)
+      .map((frame) => ({ ...frame, [userId]: (frame[user] as { id: string }).id }));
+  },
+  then: actions([TaskManager.createTask, { user: userId, title, description, dueDate }]),
+});
+
+export const PlaceBetOnQuickAddCommit: Sync = ({ request, user, task, wager, deadline, dueDate }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/commitQuickAdd" }, { request }],
+    [QuickAdd.commitQuickAdd, {}, { wager, deadline, dueDate }],
+    [TaskManager.createTask, { user }, { task }],
+  ),
+  where: (frames) => frames.filter((frame) => frame[wager] !== null),
+  then: actions([MicroBet.placeBet, { user, task, wager, deadline, taskDueDate: dueDate }]),
+});
+
+export const CommitQuickAddResponse: Sync = ({ request, wager, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/commitQuickAdd" }, { request }],
+    [QuickAdd.commitQuickAdd, {}, { wager }],
+    [TaskManager.createTask, {}, { task }],
+  ),
+  where: (frames) => frames.filter((frame) => frame[wager] === null),
+  then: actions([Requesting.respond, { request, task }]),
+});
+
+export const CommitQuickAddResponseWithBet: Sync = ({ request, task, bet }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/commitQuickAdd" }, { request }],
+    [TaskManager.createTask, {}, { task }],
+    [MicroBet.placeBet, {}, { bet }],
+  ),
+  then: actions([Requesting.respond, { request, task, bet }]),
+});
+
+export const CommitQuickAddResponseBetError: Sync = ({ request, task, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/commitQuickAdd" }, { request }],
+    [TaskManager.createTask, {}, { task }],
+    [MicroBet.placeBet, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, task, betError: error }]),
+});
+
+export const CommitQuickAddResponseTaskError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/commitQuickAdd" }, { request }],
+    [TaskManager.createTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const CommitQuickAddResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/commitQuickAdd" }, { request }],
+    [QuickAdd.commitQuickAdd, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// DISCARD QUICK ADD
+// ============================================================================
+
+export const DiscardQuickAddRequest: Sync = ({ request, accessToken, draft }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/QuickAdd/discardQuickAdd", accessToken, draft },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DiscardQuickAddWithUser: Sync = ({ request, user, userId, draft }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/discardQuickAdd", draft }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([QuickAdd.discardQuickAdd, { user: userId, draft }]),
+});
+
+export const DiscardQuickAddResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/discardQuickAdd" }, { request }],
+    [QuickAdd.discardQuickAdd, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const DiscardQuickAddResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/QuickAdd/discardQuickAdd" }, { request }],
+    [QuickAdd.discardQuickAdd, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
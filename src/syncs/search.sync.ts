@@ -0,0 +1,116 @@
+/**
+ * Search synchronizations.
+ * Handles the unified search over tasks and nudge messages with user
+ * authentication via access tokens. Every concept query is scoped to the
+ * authenticated user.
+ */
+
+import { NudgeEngine, TaskManager, UserAuthentication, Requesting } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import { ID } from "@utils/types.ts";
+import { buildSnippet, searchTerms, Snippet } from "@utils/search.ts";
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+// Hits from both concepts are merged into one list ranked by text search
+// score. Task titles are weighted above descriptions and nudge messages.
+// Nudges of tasks that are in the trash or gone are left out.
+
+const SEARCH_DEFAULT_LIMIT = 20;
+const SEARCH_MAX_LIMIT = 50;
+
+type SearchHit =
+  | { type: "task"; task: ID; title: string; field: "title" | "description"; score: number; snippet: Snippet }
+  | { type: "nudge"; nudge: ID; task: ID; title: string; score: number; snippet: Snippet };
+
+/**
+ * Runs the search for one user and returns the ranked hits.
+ */
+async function search(user: ID, query: string, limit: number): Promise<SearchHit[] | { error: string }> {
+  const terms = searchTerms(query);
+
+  const taskResult = await TaskManager.searchTasks({ user, query, limit });
+  if ("error" in taskResult) return taskResult;
+  const nudgeResult = await NudgeEngine.searchNudges({ user, query, limit });
+  if ("error" in nudgeResult) return nudgeResult;
+
+  const hits: SearchHit[] = taskResult.tasks.map((task) => {
+    const titleSnippet = buildSnippet(task.title, terms);
+    const inTitle = titleSnippet.highlights.length > 0 || !task.description;
+    return {
+      type: "task",
+      task: task._id,
+      title: task.title,
+      field: inTitle ? "title" : "description",
+      score: task.score,
+      snippet: inTitle ? titleSnippet : buildSnippet(task.description!, terms),
+    };
+  });
+
+  for (const nudge of nudgeResult.nudges) {
+    const task = await TaskManager.getTask({ user, task: nudge.task });
+    if ("error" in task || task.deletedAt) continue;
+    hits.push({
+      type: "nudge",
+      nudge: nudge._id,
+      task: nudge.task,
+      title: task.title,
+      score: nudge.score,
+      snippet: buildSnippet(nudge.message ?? "", terms),
+    });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+export const SearchRequest: Sync = ({ request, accessToken, query, limit }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/search", accessToken, query, limit },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const SearchWithUser: Sync = ({ request, user, query, limit, hits }) => ({
+  when: actions(
+    [Requesting.request, { path: "/search", query, limit }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const searched = [];
+    for (const frame of frames) {
+      const userObj = frame[user] as { id: string } | undefined;
+      const queryValue = frame[query];
+      if (!userObj || typeof queryValue !== "string" || !queryValue.trim()) continue;
+
+      const requested = typeof frame[limit] === "number" ? frame[limit] as number : SEARCH_DEFAULT_LIMIT;
+      const result = await search(
+        userObj.id as ID,
+        queryValue,
+        Math.min(Math.max(1, Math.floor(requested)), SEARCH_MAX_LIMIT),
+      );
+      if ("error" in result) continue;
+      searched.push({ ...frame, [hits]: result });
+    }
+    return new Frames(...searched);
+  },
+  then: actions([Requesting.respond, { request, hits }]),
+});
+
+export const SearchInvalid: Sync = ({ request, user, query, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/search", query }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames
+      .filter((frame) => {
+        const queryValue = frame[query];
+        return frame[user] && (typeof queryValue !== "string" || !queryValue.trim());
+      })
+      .map((frame) => ({ ...frame, [error]: "Search query cannot be empty" }));
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
@@ -0,0 +1,204 @@
+/**
+ * TaskBreakdown synchronizations.
+ * Handles AI-generated first steps for tasks with user authentication via access tokens.
+ *
+ * A breakdown is two requests: generateBreakdown suggests steps for a task, then
+ * acceptBreakdown adds the chosen steps as subtasks of the task or as new tasks.
+ */
+
+import { EmotionLogger, TaskBreakdown, TaskManager, UserAuthentication, Requesting } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import { ID } from "@utils/types.ts";
+import { AcceptMode } from "@concepts/TaskBreakdown/TaskBreakdownConcept.ts";
+
+// ============================================================================
+// GENERATE BREAKDOWN
+// ============================================================================
+// Steps are generated from the task's title and description and the user's
+// recent emotions. Tasks in the trash cannot be broken down.
+
+export const GenerateBreakdownRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskBreakdown/generateBreakdown", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GenerateBreakdownWithUser: Sync = (
+  { request, user, userId, task, title, description, recentEmotions },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskBreakdown/generateBreakdown", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const valid = [];
+    for (const frame of frames) {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) continue;
+      const taskResult = await TaskManager.getTask({ user: userObj.id as ID, task: frame[task] as ID });
+      if ("error" in taskResult || taskResult.deletedAt) continue;
+      const { emotions } = await EmotionLogger.getRecentEmotions({ user: userObj.id as ID });
+      valid.push({
+        ...frame,
+        [userId]: userObj.id,
+        [title]: taskResult.title,
+        [description]: taskResult.description ?? "",
+        [recentEmotions]: emotions,
+      });
+    }
+    return new Frames(...valid);
+  },
+  then: actions([TaskBreakdown.generateBreakdown, { user: userId, task, title, description, recentEmotions }]),
+});
+
+export const GenerateBreakdownTaskNotFound: Sync = ({ request, user, task, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskBreakdown/generateBreakdown", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const missing = [];
+    for (const frame of frames) {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) continue;
+      const taskResult = await TaskManager.getTask({ user: userObj.id as ID, task: frame[task] as ID });
+      if ("error" in taskResult || taskResult.deletedAt) {
+        missing.push({ ...frame, [error]: "Task not found" });
+      }
+    }
+    return new Frames(...missing);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const GenerateBreakdownResponse: Sync = ({ request, breakdown, steps }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskBreakdown/generateBreakdown" }, { request }],
+    [TaskBreakdown.generateBreakdown, {}, { breakdown, steps }],
+  ),
+  then: actions([Requesting.respond, { request, breakdown, steps }]),
+});
+
+export const GenerateBreakdownResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskBreakdown/generateBreakdown" }, { request }],
+    [TaskBreakdown.generateBreakdown, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// ACCEPT BREAKDOWN
+// ============================================================================
+// Accepted steps become subtasks of the task, in order, or new tasks of their
+// own. Each step's result is reported separately: a step whose title is already
+// used by another task is not created, but the other steps still are.
+// A null steps list accepts every step.
+
+/**
+ * Adds each accepted step to the user's tasks and returns the per-step results.
+ */
+async function addSteps(user: ID, task: ID, as: AcceptMode, steps: string[]) {
+  const results = [];
+  for (const title of steps) {
+    const outcome = as === "subtasks"
+      ? await TaskManager.addSubtask({ user, task, title })
+      : await TaskManager.createTask({ user, title });
+    results.push({ title, ...outcome });
+  }
+  return results;
+}
+
+export const AcceptBreakdownRequest: Sync = ({ request, accessToken, breakdown, as, steps }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskBreakdown/acceptBreakdown", accessToken, breakdown, as, steps },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const AcceptBreakdownWithUser: Sync = ({ request, user, userId, breakdown, as, steps }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskBreakdown/acceptBreakdown", breakdown, as, steps }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskBreakdown.acceptBreakdown, { user: userId, breakdown, as, steps }]),
+});
+
+export const AcceptBreakdownResponse: Sync = ({ request, user, breakdown, task, as, accepted, results }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskBreakdown/acceptBreakdown", breakdown }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+    [TaskBreakdown.acceptBreakdown, {}, { task, as, steps: accepted }],
+  ),
+  where: async (frames) => {
+    const added = [];
+    for (const frame of frames) {
+      const userId = (frame[user] as { id: string }).id as ID;
+      const stepResults = await addSteps(
+        userId,
+        frame[task] as ID,
+        frame[as] as AcceptMode,
+        frame[accepted] as string[],
+      );
+      added.push({ ...frame, [results]: stepResults });
+    }
+    return new Frames(...added);
+  },
+  then: actions([Requesting.respond, { request, breakdown, as, results }]),
+});
+
+export const AcceptBreakdownResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskBreakdown/acceptBreakdown" }, { request }],
+    [TaskBreakdown.acceptBreakdown, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET BREAKDOWNS
+// ============================================================================
+
+export const GetBreakdownsRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskBreakdown/getBreakdowns", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetBreakdownsWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskBreakdown/getBreakdowns", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskBreakdown.getBreakdowns, { user: userId, task }]),
+});
+
+export const GetBreakdownsResponse: Sync = ({ request, breakdowns }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskBreakdown/getBreakdowns" }, { request }],
+    [TaskBreakdown.getBreakdowns, {}, { breakdowns }],
+  ),
+  then: actions([Requesting.respond, { request, breakdowns }]),
+});
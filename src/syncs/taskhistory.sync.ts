@@ -0,0 +1,209 @@
+/**
+ * TaskHistory synchronizations.
+ * Records an append-only history of task changes and serves it with user authentication via access tokens.
+ *
+ * Each successful TaskManager action that changes a task appends an entry, whichever
+ * flow it ran in. When the flow began with a request, the entry is linked to that request.
+ */
+
+import { TaskHistory, TaskManager, UserAuthentication, Requesting } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import { ID } from "@utils/types.ts";
+
+// ============================================================================
+// RECORD CHANGES
+// ============================================================================
+// Failed actions return an error instead of the task, so they are not recorded.
+
+// Keeps the frames of actions that changed at least one field
+function withChanges(frames: Frames, changes: symbol): Frames {
+  return frames.filter((frame) => (frame[changes] as unknown[]).length > 0);
+}
+
+/**
+ * Records a new task with the fields it was created with.
+ */
+export const AutoRecordTaskCreate: Sync = ({ user, task, fields }) => ({
+  when: actions([TaskManager.createTask, { user }, { task }]),
+  where: async (frames) => {
+    const recorded = [];
+    for (const frame of frames) {
+      const taskDoc = await TaskManager.getTask({ user: frame[user] as ID, task: frame[task] as ID });
+      if ("error" in taskDoc) continue;
+      const initial = [
+        { field: "title", from: null, to: taskDoc.title },
+        { field: "description", from: null, to: taskDoc.description ?? null },
+        { field: "dueDate", from: null, to: taskDoc.dueDate ?? null },
+      ].filter((change) => change.to !== null && change.to !== "");
+      recorded.push({ ...frame, [fields]: initial });
+    }
+    return new Frames(...recorded);
+  },
+  then: actions([TaskHistory.recordChange, { user, task, change: "created", fields }]),
+});
+
+/**
+ * Records the fields an update changed, with their previous and new values.
+ * Updates that change nothing are not recorded.
+ */
+export const AutoRecordTaskUpdate: Sync = ({ user, task, changes }) => ({
+  when: actions([TaskManager.updateTask, { user }, { task, changes }]),
+  where: (frames) => withChanges(frames, changes),
+  then: actions([TaskHistory.recordChange, { user, task, change: "updated", fields: changes }]),
+});
+
+// Priority, project, tag, and dependency changes are recorded as updates too.
+
+export const AutoRecordTaskPriority: Sync = ({ user, task, changes }) => ({
+  when: actions([TaskManager.setTaskPriority, { user }, { task, changes }]),
+  where: (frames) => withChanges(frames, changes),
+  then: actions([TaskHistory.recordChange, { user, task, change: "updated", fields: changes }]),
+});
+
+export const AutoRecordTaskProject: Sync = ({ user, task, changes }) => ({
+  when: actions([TaskManager.setTaskProject, { user }, { task, changes }]),
+  where: (frames) => withChanges(frames, changes),
+  then: actions([TaskHistory.recordChange, { user, task, change: "updated", fields: changes }]),
+});
+
+export const AutoRecordTaskTags: Sync = ({ user, task, changes }) => ({
+  when: actions([TaskManager.setTaskTags, { user }, { task, changes }]),
+  where: (frames) => withChanges(frames, changes),
+  then: actions([TaskHistory.recordChange, { user, task, change: "updated", fields: changes }]),
+});
+
+export const AutoRecordDependencyAdd: Sync = ({ user, task, changes }) => ({
+  when: actions([TaskManager.addDependency, { user }, { task, changes }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "updated", fields: changes }]),
+});
+
+export const AutoRecordDependencyRemove: Sync = ({ user, task, changes }) => ({
+  when: actions([TaskManager.removeDependency, { user }, { task, changes }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "updated", fields: changes }]),
+});
+
+// Status changes, deletion, restoration, and archiving are recorded without field changes.
+
+export const AutoRecordTaskStart: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.markStarted, { user }, { task }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "started" }]),
+});
+
+export const AutoRecordTaskPause: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.pauseTask, { user }, { task }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "paused" }]),
+});
+
+export const AutoRecordTaskResume: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.resumeTask, { user }, { task }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "resumed" }]),
+});
+
+export const AutoRecordTaskComplete: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.markComplete, { user }, { task }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "completed" }]),
+});
+
+export const AutoRecordTaskReopen: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.reopenTask, { user }, { task }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "reopened" }]),
+});
+
+export const AutoRecordTaskAbandon: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.abandonTask, { user }, { task }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "abandoned" }]),
+});
+
+export const AutoRecordTaskDelete: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.deleteTask, { user }, { task }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "deleted" }]),
+});
+
+export const AutoRecordTaskRestore: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.restoreTask, { user }, { task }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "restored" }]),
+});
+
+export const AutoRecordTaskArchive: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.archiveTask, { user }, { task }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "archived" }]),
+});
+
+export const AutoRecordTaskUnarchive: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.unarchiveTask, { user }, { task }]),
+  then: actions([TaskHistory.recordChange, { user, task, change: "unarchived" }]),
+});
+
+// Subtask changes are recorded on the parent task, with the subtask and the field it set.
+
+export const AutoRecordSubtaskAdd: Sync = ({ user, task, title, subtask, fields }) => ({
+  when: actions([TaskManager.addSubtask, { user, task, title }, { subtask }]),
+  where: (frames) => frames.map((frame) => ({ ...frame, [fields]: [{ field: "title", from: null, to: frame[title] }] })),
+  then: actions([TaskHistory.recordChange, { user, task, subtask, change: "subtask-added", fields }]),
+});
+
+export const AutoRecordSubtaskStart: Sync = ({ user, task, timeStarted, subtask, fields }) => ({
+  when: actions([TaskManager.markSubtaskStarted, { user, task, timeStarted }, { subtask }]),
+  where: (frames) =>
+    frames.map((frame) => ({ ...frame, [fields]: [{ field: "startedAt", from: null, to: frame[timeStarted] }] })),
+  then: actions([TaskHistory.recordChange, { user, task, subtask, change: "subtask-started", fields }]),
+});
+
+export const AutoRecordSubtaskComplete: Sync = ({ user, task, timeCompleted, subtask, fields }) => ({
+  when: actions([TaskManager.completeSubtask, { user, task, timeCompleted }, { subtask }]),
+  where: (frames) =>
+    frames.map((frame) => ({ ...frame, [fields]: [{ field: "completedAt", from: null, to: frame[timeCompleted] }] })),
+  then: actions([TaskHistory.recordChange, { user, task, subtask, change: "subtask-completed", fields }]),
+});
+
+export const AutoRecordSubtaskRemove: Sync = ({ user, task, subtask }) => ({
+  when: actions([TaskManager.removeSubtask, { user, task }, { subtask }]),
+  then: actions([TaskHistory.recordChange, { user, task, subtask, change: "subtask-removed" }]),
+});
+
+/**
+ * Links an entry to the request whose flow made the change.
+ */
+export const AutoLinkTaskHistoryRequest: Sync = ({ request, entry }) => ({
+  when: actions(
+    [Requesting.request, {}, { request }],
+    [TaskHistory.recordChange, {}, { entry }],
+  ),
+  then: actions([TaskHistory.linkRequest, { entry, request }]),
+});
+
+// ============================================================================
+// GET TASK HISTORY
+// ============================================================================
+
+export const GetTaskHistoryRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskHistory/getTaskHistory", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetTaskHistoryWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskHistory/getTaskHistory", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskHistory.getTaskHistory, { user: userId, task }]),
+});
+
+export const GetTaskHistoryResponse: Sync = ({ request, entries }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskHistory/getTaskHistory" }, { request }],
+    [TaskHistory.getTaskHistory, {}, { entries }],
+  ),
+  then: actions([Requesting.respond, { request, entries }]),
+});
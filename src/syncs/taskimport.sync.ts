@@ -0,0 +1,368 @@
+/**
+ * TaskImport synchronizations.
+ * Handles importing tasks from other to-do apps with user authentication via access tokens.
+ *
+ * An import is two requests: previewImport reads the file and reports what each
+ * row would do, then commitImport creates the tasks through TaskManager.createTask.
+ */
+
+import { TaskImport, TaskManager, NudgeEngine, UserAuthentication, Requesting } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import { ID } from "@utils/types.ts";
+
+// ============================================================================
+// COLLISION PLANNING
+// ============================================================================
+// A row collides when its title is already used by one of the user's tasks or
+// by an earlier row of the same file. The batch's strategy decides the outcome:
+// - skip: the row is not imported
+// - rename: the row is imported as "Title (2)", "Title (3)", ...
+// - merge: the row's description, due date and tags are applied to the existing task
+
+type CollisionStrategy = "skip" | "rename" | "merge";
+
+interface ImportRow {
+  row: number;
+  title: string;
+  description?: string;
+  dueDate?: Date;
+  status: "pending" | "in-progress" | "completed";
+  tags: string[];
+  startedAt?: Date;
+  completedAt?: Date;
+  error?: string;
+}
+
+interface PlannedRow {
+  row: number;
+  action: "create" | "skip" | "rename" | "merge" | "invalid";
+  title: string;
+  error?: string;
+}
+
+async function titleTaken(user: ID, title: string, planned: Set<string>): Promise<boolean> {
+  if (planned.has(title)) return true;
+  const existing = await TaskManager.getTaskByTitle({ user, title });
+  return !("error" in existing);
+}
+
+/**
+ * Decides what committing each row will do, in file order.
+ */
+async function planRows(user: ID, rows: ImportRow[], strategy: CollisionStrategy): Promise<PlannedRow[]> {
+  const planned = new Set<string>();
+  const plan: PlannedRow[] = [];
+
+  for (const row of rows) {
+    if (row.error) {
+      plan.push({ row: row.row, action: "invalid", title: row.title, error: row.error });
+      continue;
+    }
+
+    if (!(await titleTaken(user, row.title, planned))) {
+      planned.add(row.title);
+      plan.push({ row: row.row, action: "create", title: row.title });
+    } else if (strategy === "rename") {
+      let n = 2;
+      while (await titleTaken(user, `${row.title} (${n})`, planned)) n++;
+      const title = `${row.title} (${n})`;
+      planned.add(title);
+      plan.push({ row: row.row, action: "rename", title });
+    } else {
+      plan.push({ row: row.row, action: strategy, title: row.title });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Resolves tag names to the user's tag IDs, creating tags that do not exist yet.
+ */
+async function resolveTags(user: ID, names: string[]): Promise<ID[] | { error: string }> {
+  if (names.length === 0) return [];
+  const { tags } = await TaskManager.getTags({ user });
+  const byName = new Map<string, ID>(tags.map((tag) => [tag.name, tag._id]));
+
+  const ids: ID[] = [];
+  for (const name of names) {
+    let tag = byName.get(name);
+    if (!tag) {
+      const created = await TaskManager.createTag({ user, name });
+      if ("error" in created) return created;
+      tag = created.tag;
+      byName.set(name, tag);
+    }
+    ids.push(tag);
+  }
+  return ids;
+}
+
+/**
+ * Creates the task for a row, keeping its original start and completion times.
+ * Imported tasks that were already started do not need a nudge to start them.
+ */
+async function createRow(user: ID, row: ImportRow, title: string) {
+  const tags = await resolveTags(user, row.tags);
+  if ("error" in tags) return { error: tags.error };
+
+  const created = await TaskManager.createTask({
+    user,
+    title,
+    description: row.description,
+    dueDate: row.dueDate,
+    startedAt: row.startedAt ?? (row.status === "in-progress" ? new Date() : undefined),
+    completedAt: row.completedAt,
+  });
+  if ("error" in created) return created;
+
+  if (row.status !== "pending") {
+    await NudgeEngine.cancelNudge({ user, task: created.task, force: true });
+  }
+  if (tags.length > 0) {
+    const tagged = await TaskManager.setTaskTags({ user, task: created.task, tags });
+    if ("error" in tagged) return tagged;
+  }
+  return created;
+}
+
+/**
+ * Applies a row's description, due date and tags to the task that has its title.
+ */
+async function mergeRow(user: ID, row: ImportRow) {
+  const existing = await TaskManager.getTaskByTitle({ user, title: row.title });
+  if ("error" in existing) return existing;
+
+  const updated = await TaskManager.updateTask({
+    user,
+    task: existing._id,
+    description: row.description,
+    dueDate: row.dueDate,
+  });
+  if ("error" in updated) return updated;
+
+  if (row.tags.length > 0) {
+    const tags = await resolveTags(user, row.tags);
+    if ("error" in tags) return tags;
+    const merged = [...new Set([...(existing.tags ?? []), ...tags])];
+    const tagged = await TaskManager.setTaskTags({ user, task: existing._id, tags: merged });
+    if ("error" in tagged) return tagged;
+  }
+  return { task: existing._id as ID };
+}
+
+/**
+ * Carries out the plan for every row and returns the per-row results.
+ */
+async function commitRows(user: ID, rows: ImportRow[], strategy: CollisionStrategy) {
+  const plan = await planRows(user, rows, strategy);
+  const results = [];
+
+  for (const [index, step] of plan.entries()) {
+    const row = rows[index];
+    let outcome: { task?: ID; error?: string } = {};
+    if (step.action === "invalid") outcome = { error: step.error };
+    else if (step.action === "create" || step.action === "rename") outcome = await createRow(user, row, step.title);
+    else if (step.action === "merge") outcome = await mergeRow(user, row);
+
+    results.push({ ...step, ...outcome });
+  }
+
+  return results;
+}
+
+// ============================================================================
+// PREVIEW IMPORT
+// ============================================================================
+
+export const PreviewImportRequest: Sync = ({ request, accessToken, format, content, mapping, strategy }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskImport/previewImport", accessToken, format, content, mapping, strategy },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const PreviewImportWithUser: Sync = ({ request, user, userId, format, content, mapping, strategy }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskImport/previewImport", format, content, mapping, strategy }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskImport.previewImport, { user: userId, format, content, mapping, strategy }]),
+});
+
+// Responds with each row and what committing it would do
+export const PreviewImportResponse: Sync = ({ request, user, strategy, batch, rows, items }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskImport/previewImport", strategy }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+    [TaskImport.previewImport, {}, { batch, rows }],
+  ),
+  where: async (frames) => {
+    const previewed = await Promise.all(frames.map(async (frame) => {
+      const userId = (frame[user] as { id: string }).id as ID;
+      const importRows = frame[rows] as ImportRow[];
+      const plan = await planRows(userId, importRows, (frame[strategy] ?? "skip") as CollisionStrategy);
+      return {
+        ...frame,
+        [items]: importRows.map((row, index) => ({ ...row, ...plan[index] })),
+      };
+    }));
+    return new Frames(...previewed);
+  },
+  then: actions([Requesting.respond, { request, batch, items }]),
+});
+
+export const PreviewImportResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskImport/previewImport" }, { request }],
+    [TaskImport.previewImport, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// COMMIT IMPORT
+// ============================================================================
+// Collisions are planned again at commit time, since the user's tasks may
+// have changed since the preview.
+
+export const CommitImportRequest: Sync = ({ request, accessToken, batch }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskImport/commitImport", accessToken, batch },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const CommitImportWithUser: Sync = ({ request, user, userId, batch }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskImport/commitImport", batch }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskImport.beginCommit, { user: userId, batch }]),
+});
+
+export const CommitImportResponse: Sync = ({ request, user, batch, rows, strategy, results }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskImport/commitImport", batch }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+    [TaskImport.beginCommit, {}, { rows, strategy }],
+  ),
+  where: async (frames) => {
+    const committed = [];
+    for (const frame of frames) {
+      const userId = (frame[user] as { id: string }).id as ID;
+      const batchId = frame[batch] as ID;
+      const rowResults = await commitRows(userId, frame[rows] as ImportRow[], frame[strategy] as CollisionStrategy);
+      await TaskImport.finishCommit({ user: userId, batch: batchId, results: rowResults });
+      committed.push({ ...frame, [results]: rowResults });
+    }
+    return new Frames(...committed);
+  },
+  then: actions([Requesting.respond, { request, batch, results }]),
+});
+
+export const CommitImportResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskImport/commitImport" }, { request }],
+    [TaskImport.beginCommit, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// DISCARD IMPORT
+// ============================================================================
+
+export const DiscardImportRequest: Sync = ({ request, accessToken, batch }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskImport/discardImport", accessToken, batch },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DiscardImportWithUser: Sync = ({ request, user, userId, batch }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskImport/discardImport", batch }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskImport.discardImport, { user: userId, batch }]),
+});
+
+export const DiscardImportResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskImport/discardImport" }, { request }],
+    [TaskImport.discardImport, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const DiscardImportResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskImport/discardImport" }, { request }],
+    [TaskImport.discardImport, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// DELETE USER IMPORTS
+// ============================================================================
+
+export const DeleteUserImportsRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskImport/deleteUserImports", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DeleteUserImportsWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskImport/deleteUserImports" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskImport.deleteUserImports, { user: userId }]),
+});
+
+export const DeleteUserImportsResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskImport/deleteUserImports" }, { request }],
+    [TaskImport.deleteUserImports, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
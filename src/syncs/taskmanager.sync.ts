@@ -3,8 +3,10 @@
  * Handles task CRUD operations with user authentication via access tokens.
  */
 
-import { TaskManager, UserAuthentication, Requesting, NudgeEngine, MicroBet, EmotionLogger } from "@concepts";
-import { actions, Sync } from "@engine";
+import { TaskManager, UserAuthentication, Requesting, NudgeEngine, MicroBet, EmotionLogger, FocusSession, TaskBreakdown, Accountability } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import { ID } from "@utils/types.ts";
+import { BetType } from "@concepts/MicroBet/MicroBetConcept.ts";
 
 // ============================================================================
 // CREATE TASK
@@ -475,22 +477,1461 @@ export const MarkCompleteResponseError: Sync = ({ request, error }) => ({
   then: actions([Requesting.respond, { request, error }]),
 });
 
+// ============================================================================
+// PAUSE TASK
+// ============================================================================
+
+export const PauseTaskRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/pauseTask", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const PauseTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/pauseTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.pauseTask, { user: userId, task }]),
+});
+
+export const PauseTaskResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/pauseTask" }, { request }],
+    [TaskManager.pauseTask, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const PauseTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/pauseTask" }, { request }],
+    [TaskManager.pauseTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// RESUME TASK
+// ============================================================================
+
+export const ResumeTaskRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/resumeTask", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const ResumeTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/resumeTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.resumeTask, { user: userId, task }]),
+});
+
+export const ResumeTaskResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/resumeTask" }, { request }],
+    [TaskManager.resumeTask, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const ResumeTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/resumeTask" }, { request }],
+    [TaskManager.resumeTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// REOPEN TASK
+// ============================================================================
+
+export const ReopenTaskRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/reopenTask", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const ReopenTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/reopenTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.reopenTask, { user: userId, task }]),
+});
+
+export const ReopenTaskResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/reopenTask" }, { request }],
+    [TaskManager.reopenTask, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const ReopenTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/reopenTask" }, { request }],
+    [TaskManager.reopenTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// ABANDON TASK
+// ============================================================================
+
+export const AbandonTaskRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/abandonTask", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const AbandonTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/abandonTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.abandonTask, { user: userId, task }]),
+});
+
+export const AbandonTaskResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/abandonTask" }, { request }],
+    [TaskManager.abandonTask, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const AbandonTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/abandonTask" }, { request }],
+    [TaskManager.abandonTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET STATUS HISTORY
+// ============================================================================
+
+export const GetStatusHistoryRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/getStatusHistory", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetStatusHistoryWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getStatusHistory", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.getStatusHistory, { user: userId, task }]),
+});
+
+export const GetStatusHistoryResponse: Sync = ({ request, history }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getStatusHistory" }, { request }],
+    [TaskManager.getStatusHistory, {}, { history }],
+  ),
+  then: actions([Requesting.respond, { request, history }]),
+});
+
+export const GetStatusHistoryResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getStatusHistory" }, { request }],
+    [TaskManager.getStatusHistory, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
 // ============================================================================
 // DELETE TASK
 // ============================================================================
 
-export const DeleteTaskRequest: Sync = ({ request, accessToken, task }) => ({
+export const DeleteTaskRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/deleteTask", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DeleteTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.deleteTask, { user: userId, task }]),
+});
+
+export const DeleteTaskResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteTask" }, { request }],
+    [TaskManager.deleteTask, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const DeleteTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteTask" }, { request }],
+    [TaskManager.deleteTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// RESTORE TASK
+// ============================================================================
+
+export const RestoreTaskRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/restoreTask", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const RestoreTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/restoreTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.restoreTask, { user: userId, task }]),
+});
+
+export const RestoreTaskResponse: Sync = ({ request, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/restoreTask" }, { request }],
+    [TaskManager.restoreTask, {}, { task }],
+  ),
+  then: actions([Requesting.respond, { request, task }]),
+});
+
+export const RestoreTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/restoreTask" }, { request }],
+    [TaskManager.restoreTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// PURGE TASK
+// ============================================================================
+
+export const PurgeTaskRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/purgeTask", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const PurgeTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/purgeTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.purgeTask, { user: userId, task }]),
+});
+
+export const PurgeTaskResponse: Sync = ({ request, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/purgeTask" }, { request }],
+    [TaskManager.purgeTask, {}, { task }],
+  ),
+  then: actions([Requesting.respond, { request, task }]),
+});
+
+export const PurgeTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/purgeTask" }, { request }],
+    [TaskManager.purgeTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// ARCHIVE TASK
+// ============================================================================
+
+export const ArchiveTaskRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/archiveTask", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const ArchiveTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/archiveTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.archiveTask, { user: userId, task }]),
+});
+
+export const ArchiveTaskResponse: Sync = ({ request, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/archiveTask" }, { request }],
+    [TaskManager.archiveTask, {}, { task }],
+  ),
+  then: actions([Requesting.respond, { request, task }]),
+});
+
+export const ArchiveTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/archiveTask" }, { request }],
+    [TaskManager.archiveTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// UNARCHIVE TASK
+// ============================================================================
+
+export const UnarchiveTaskRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/unarchiveTask", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const UnarchiveTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/unarchiveTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.unarchiveTask, { user: userId, task }]),
+});
+
+export const UnarchiveTaskResponse: Sync = ({ request, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/unarchiveTask" }, { request }],
+    [TaskManager.unarchiveTask, {}, { task }],
+  ),
+  then: actions([Requesting.respond, { request, task }]),
+});
+
+export const UnarchiveTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/unarchiveTask" }, { request }],
+    [TaskManager.unarchiveTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// DELETE USER TASKS
+// ============================================================================
+
+export const DeleteUserTasksRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/deleteUserTasks", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DeleteUserTasksWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteUserTasks" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.deleteUserTasks, { user: userId }]),
+});
+
+export const DeleteUserTasksResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteUserTasks" }, { request }],
+    [TaskManager.deleteUserTasks, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+// ============================================================================
+// GET TASK
+// ============================================================================
+
+export const GetTaskRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/getTask", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getTask", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.getTask, { user: userId, task }]),
+});
+
+export const GetTaskResponse: Sync = ({ request, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getTask" }, { request }],
+    [TaskManager.getTask, {}, { task }],
+  ),
+  then: actions([Requesting.respond, { request, task }]),
+});
+
+export const GetTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getTask" }, { request }],
+    [TaskManager.getTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET TASKS (list with pagination)
+// ============================================================================
+
+export const GetTasksRequest: Sync = ({ request, accessToken, cursor, limit, sortBy, sortOrder, status, search, project, tags, dueAfter, dueBefore, view }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/getTasks", accessToken, cursor, limit, sortBy, sortOrder, status, search, project, tags, dueAfter, dueBefore, view },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetTasksWithUser: Sync = ({ request, user, userId, cursor, limit, sortBy, sortOrder, status, search, project, tags, dueAfter, dueBefore, view }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getTasks", cursor, limit, sortBy, sortOrder, status, search, project, tags, dueAfter, dueBefore, view }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      const newFrame = { ...frame, [userId]: userObj.id };
+      // Convert null to default values for optional parameters
+      if (limit in newFrame && newFrame[limit] === null) newFrame[limit] = 10;
+      if (sortBy in newFrame && newFrame[sortBy] === null) newFrame[sortBy] = "createdAt";
+      if (sortOrder in newFrame && newFrame[sortOrder] === null) newFrame[sortOrder] = -1;
+      // Convert due-date range strings to Dates
+      for (const bound of [dueAfter, dueBefore]) {
+        const value = newFrame[bound];
+        if (typeof value === 'string') newFrame[bound] = new Date(value);
+      }
+      if (view in newFrame && newFrame[view] === null) newFrame[view] = "active";
+      // A null cursor requests the first page; for status, search, project, tags, and the due-date range, null means "no filter" - keep as null (will be handled by concept method)
+      return newFrame;
+    });
+  },
+  then: actions([TaskManager.getTasks, { user: userId, cursor, limit, sortBy, sortOrder, status, search, project, tags, dueAfter, dueBefore, view }]),
+});
+
+export const GetTasksResponse: Sync = ({ request, tasks, total, nextCursor }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getTasks" }, { request }],
+    [TaskManager.getTasks, {}, { tasks, total, nextCursor }],
+  ),
+  then: actions([Requesting.respond, { request, tasks, total, nextCursor }]),
+});
+
+export const GetTasksResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getTasks" }, { request }],
+    [TaskManager.getTasks, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET TASK STATUS
+// ============================================================================
+
+export const GetTaskStatusRequest: Sync = ({ request, accessToken, task }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/getTaskStatus", accessToken, task },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+// Note: getTaskStatus is a helper method that requires a TaskDoc object
+// We get the task first, then calculate status from the task document
+export const GetTaskStatusWithUser: Sync = ({ request, user, userId, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getTaskStatus", task }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.getTask, { user: userId, task }]),
+});
+
+// Calculate status from task document: "pending" | "blocked" | "in-progress" | "paused" | "completed" | "abandoned"
+// Subtask progress is included so the frontend can show how far along the checklist is
+export const GetTaskStatusResponse: Sync = ({ request, task, status, progress }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getTaskStatus" }, { request }],
+    [TaskManager.getTask, {}, { task }],
+  ),
+  where: async (frames) => {
+    // Use TaskManager.getTaskStatus and getSubtaskProgress to compute status from task document
+    const computed = await Promise.all(frames.map(async (frame) => {
+      const taskDoc = frame[task] as Parameters<typeof TaskManager.getTaskStatus>[0]["task"] | undefined;
+      if (!taskDoc) return frame;
+      const { blockers } = await TaskManager.getBlockers({ user: taskDoc.user, task: taskDoc._id });
+      const computedStatus = await TaskManager.getTaskStatus({ task: taskDoc, blockers });
+      const computedProgress = await TaskManager.getSubtaskProgress({ task: taskDoc });
+      return { ...frame, [status]: computedStatus, [progress]: computedProgress };
+    }));
+    return new Frames(...computed);
+  },
+  then: actions([Requesting.respond, { request, status, progress }]),
+});
+
+export const GetTaskStatusResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getTaskStatus" }, { request }],
+    [TaskManager.getTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// ADD SUBTASK
+// ============================================================================
+
+export const AddSubtaskRequest: Sync = ({ request, accessToken, task, title }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/addSubtask", accessToken, task, title },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const AddSubtaskWithUser: Sync = ({ request, user, userId, task, title }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/addSubtask", task, title }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.addSubtask, { user: userId, task, title }]),
+});
+
+export const AddSubtaskResponse: Sync = ({ request, subtask }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/addSubtask" }, { request }],
+    [TaskManager.addSubtask, {}, { subtask }],
+  ),
+  then: actions([Requesting.respond, { request, subtask }]),
+});
+
+export const AddSubtaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/addSubtask" }, { request }],
+    [TaskManager.addSubtask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// REORDER SUBTASKS
+// ============================================================================
+
+export const ReorderSubtasksRequest: Sync = ({ request, accessToken, task, order }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/reorderSubtasks", accessToken, task, order },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const ReorderSubtasksWithUser: Sync = ({ request, user, userId, task, order }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/reorderSubtasks", task, order }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.reorderSubtasks, { user: userId, task, order }]),
+});
+
+export const ReorderSubtasksResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/reorderSubtasks" }, { request }],
+    [TaskManager.reorderSubtasks, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const ReorderSubtasksResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/reorderSubtasks" }, { request }],
+    [TaskManager.reorderSubtasks, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// MARK SUBTASK STARTED
+// ============================================================================
+
+export const MarkSubtaskStartedRequest: Sync = ({ request, accessToken, task, subtask, timeStarted }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/markSubtaskStarted", accessToken, task, subtask, timeStarted },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const MarkSubtaskStartedWithUser: Sync = ({ request, user, userId, task, subtask, timeStarted }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/markSubtaskStarted", task, subtask, timeStarted }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      const newFrame = { ...frame, [userId]: userObj.id };
+      // Convert timeStarted string to Date if it's a string
+      if (timeStarted in newFrame) {
+        const tsValue = newFrame[timeStarted];
+        if (typeof tsValue === 'string') {
+          newFrame[timeStarted] = new Date(tsValue);
+        }
+      }
+      return newFrame;
+    });
+  },
+  then: actions([TaskManager.markSubtaskStarted, { user: userId, task, subtask, timeStarted }]),
+});
+
+export const MarkSubtaskStartedResponse: Sync = ({ request, subtask }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/markSubtaskStarted" }, { request }],
+    [TaskManager.markSubtaskStarted, {}, { subtask }],
+  ),
+  then: actions([Requesting.respond, { request, subtask }]),
+});
+
+export const MarkSubtaskStartedResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/markSubtaskStarted" }, { request }],
+    [TaskManager.markSubtaskStarted, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// COMPLETE SUBTASK
+// ============================================================================
+
+export const CompleteSubtaskRequest: Sync = ({ request, accessToken, task, subtask, timeCompleted }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/completeSubtask", accessToken, task, subtask, timeCompleted },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const CompleteSubtaskWithUser: Sync = ({ request, user, userId, task, subtask, timeCompleted }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/completeSubtask", task, subtask, timeCompleted }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      const newFrame = { ...frame, [userId]: userObj.id };
+      // Convert timeCompleted string to Date if it's a string
+      if (timeCompleted in newFrame) {
+        const tcValue = newFrame[timeCompleted];
+        if (typeof tcValue === 'string') {
+          newFrame[timeCompleted] = new Date(tcValue);
+        }
+      }
+      return newFrame;
+    });
+  },
+  then: actions([TaskManager.completeSubtask, { user: userId, task, subtask, timeCompleted }]),
+});
+
+export const CompleteSubtaskResponse: Sync = ({ request, subtask }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/completeSubtask" }, { request }],
+    [TaskManager.completeSubtask, {}, { subtask }],
+  ),
+  then: actions([Requesting.respond, { request, subtask }]),
+});
+
+export const CompleteSubtaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/completeSubtask" }, { request }],
+    [TaskManager.completeSubtask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// REMOVE SUBTASK
+// ============================================================================
+
+export const RemoveSubtaskRequest: Sync = ({ request, accessToken, task, subtask }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/removeSubtask", accessToken, task, subtask },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const RemoveSubtaskWithUser: Sync = ({ request, user, userId, task, subtask }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/removeSubtask", task, subtask }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.removeSubtask, { user: userId, task, subtask }]),
+});
+
+export const RemoveSubtaskResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/removeSubtask" }, { request }],
+    [TaskManager.removeSubtask, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const RemoveSubtaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/removeSubtask" }, { request }],
+    [TaskManager.removeSubtask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// CREATE RECURRING TASK
+// ============================================================================
+// Creates the series, then SpawnFirstRecurringInstance creates its first task
+// through TaskManager.createTask so the usual nudge scheduling applies.
+
+export const CreateRecurringTaskRequest: Sync = ({ request, accessToken, title, description, dueDate, rule }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/createRecurringTask", accessToken, title, description, dueDate, rule },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const CreateRecurringTaskWithUser: Sync = ({ request, user, userId, title, description, dueDate, rule }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/createRecurringTask", title, description, dueDate, rule }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      const newFrame = { ...frame, [userId]: userObj.id };
+      // Convert dueDate string to Date if it's a string
+      if (dueDate in newFrame) {
+        const dtValue = newFrame[dueDate];
+        if (typeof dtValue === 'string') {
+          newFrame[dueDate] = new Date(dtValue);
+        }
+      }
+      return newFrame;
+    });
+  },
+  then: actions([TaskManager.createSeries, { user: userId, title, description, dueDate, rule }]),
+});
+
+export const CreateRecurringTaskResponse: Sync = ({ request, series, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/createRecurringTask" }, { request }],
+    [TaskManager.createTask, { series }, { task }],
+  ),
+  then: actions([Requesting.respond, { request, series, task }]),
+});
+
+export const CreateRecurringTaskResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/createRecurringTask" }, { request }],
+    [TaskManager.createSeries, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const CreateRecurringTaskInstanceError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/createRecurringTask" }, { request }],
+    [TaskManager.createTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// UPDATE SERIES
+// ============================================================================
+
+export const UpdateSeriesRequest: Sync = ({ request, accessToken, series, title, description, rule }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/updateSeries", accessToken, series, title, description, rule },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+// Null fields are left unchanged by TaskManager.updateSeries
+export const UpdateSeriesWithUser: Sync = ({ request, user, userId, series, title, description, rule }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/updateSeries", series, title, description, rule }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.updateSeries, { user: userId, series, title, description, rule }]),
+});
+
+export const UpdateSeriesResponse: Sync = ({ request, series }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/updateSeries" }, { request }],
+    [TaskManager.updateSeries, {}, { series }],
+  ),
+  then: actions([Requesting.respond, { request, series }]),
+});
+
+export const UpdateSeriesResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/updateSeries" }, { request }],
+    [TaskManager.updateSeries, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// STOP SERIES
+// ============================================================================
+
+export const StopSeriesRequest: Sync = ({ request, accessToken, series }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/stopSeries", accessToken, series },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const StopSeriesWithUser: Sync = ({ request, user, userId, series }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/stopSeries", series }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.stopSeries, { user: userId, series }]),
+});
+
+export const StopSeriesResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/stopSeries" }, { request }],
+    [TaskManager.stopSeries, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const StopSeriesResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/stopSeries" }, { request }],
+    [TaskManager.stopSeries, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET USER SERIES
+// ============================================================================
+
+export const GetUserSeriesRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/getUserSeries", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetUserSeriesWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getUserSeries" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.getUserSeries, { user: userId }]),
+});
+
+export const GetUserSeriesResponse: Sync = ({ request, series }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getUserSeries" }, { request }],
+    [TaskManager.getUserSeries, {}, { series }],
+  ),
+  then: actions([Requesting.respond, { request, series }]),
+});
+
+// ============================================================================
+// CREATE PROJECT
+// ============================================================================
+
+export const CreateProjectRequest: Sync = ({ request, accessToken, name, color }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/createProject", accessToken, name, color },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const CreateProjectWithUser: Sync = ({ request, user, userId, name, color }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/createProject", name, color }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.createProject, { user: userId, name, color }]),
+});
+
+export const CreateProjectResponse: Sync = ({ request, project }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/createProject" }, { request }],
+    [TaskManager.createProject, {}, { project }],
+  ),
+  then: actions([Requesting.respond, { request, project }]),
+});
+
+export const CreateProjectResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/createProject" }, { request }],
+    [TaskManager.createProject, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// UPDATE PROJECT
+// ============================================================================
+
+export const UpdateProjectRequest: Sync = ({ request, accessToken, project, name, color }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/updateProject", accessToken, project, name, color },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const UpdateProjectWithUser: Sync = ({ request, user, userId, project, name, color }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/updateProject", project, name, color }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.updateProject, { user: userId, project, name, color }]),
+});
+
+export const UpdateProjectResponse: Sync = ({ request, project }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/updateProject" }, { request }],
+    [TaskManager.updateProject, {}, { project }],
+  ),
+  then: actions([Requesting.respond, { request, project }]),
+});
+
+export const UpdateProjectResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/updateProject" }, { request }],
+    [TaskManager.updateProject, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// DELETE PROJECT
+// ============================================================================
+
+export const DeleteProjectRequest: Sync = ({ request, accessToken, project }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/deleteProject", accessToken, project },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DeleteProjectWithUser: Sync = ({ request, user, userId, project }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteProject", project }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.deleteProject, { user: userId, project }]),
+});
+
+export const DeleteProjectResponse: Sync = ({ request, tasks }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteProject" }, { request }],
+    [TaskManager.deleteProject, {}, { tasks }],
+  ),
+  then: actions([Requesting.respond, { request, tasks }]),
+});
+
+export const DeleteProjectResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteProject" }, { request }],
+    [TaskManager.deleteProject, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET PROJECTS
+// ============================================================================
+
+export const GetProjectsRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/getProjects", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetProjectsWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getProjects" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.getProjects, { user: userId }]),
+});
+
+export const GetProjectsResponse: Sync = ({ request, projects }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getProjects" }, { request }],
+    [TaskManager.getProjects, {}, { projects }],
+  ),
+  then: actions([Requesting.respond, { request, projects }]),
+});
+
+// ============================================================================
+// CREATE TAG
+// ============================================================================
+
+export const CreateTagRequest: Sync = ({ request, accessToken, name, color }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/createTag", accessToken, name, color },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const CreateTagWithUser: Sync = ({ request, user, userId, name, color }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/createTag", name, color }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.createTag, { user: userId, name, color }]),
+});
+
+export const CreateTagResponse: Sync = ({ request, tag }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/createTag" }, { request }],
+    [TaskManager.createTag, {}, { tag }],
+  ),
+  then: actions([Requesting.respond, { request, tag }]),
+});
+
+export const CreateTagResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/createTag" }, { request }],
+    [TaskManager.createTag, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// UPDATE TAG
+// ============================================================================
+
+export const UpdateTagRequest: Sync = ({ request, accessToken, tag, name, color }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/updateTag", accessToken, tag, name, color },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const UpdateTagWithUser: Sync = ({ request, user, userId, tag, name, color }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/updateTag", tag, name, color }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.updateTag, { user: userId, tag, name, color }]),
+});
+
+export const UpdateTagResponse: Sync = ({ request, tag }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/updateTag" }, { request }],
+    [TaskManager.updateTag, {}, { tag }],
+  ),
+  then: actions([Requesting.respond, { request, tag }]),
+});
+
+export const UpdateTagResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/updateTag" }, { request }],
+    [TaskManager.updateTag, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// DELETE TAG
+// ============================================================================
+
+export const DeleteTagRequest: Sync = ({ request, accessToken, tag }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/deleteTag", accessToken, tag },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DeleteTagWithUser: Sync = ({ request, user, userId, tag }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteTag", tag }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.deleteTag, { user: userId, tag }]),
+});
+
+export const DeleteTagResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteTag" }, { request }],
+    [TaskManager.deleteTag, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const DeleteTagResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteTag" }, { request }],
+    [TaskManager.deleteTag, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET TAGS
+// ============================================================================
+
+export const GetTagsRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/getTags", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetTagsWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getTags" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.getTags, { user: userId }]),
+});
+
+export const GetTagsResponse: Sync = ({ request, tags }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getTags" }, { request }],
+    [TaskManager.getTags, {}, { tags }],
+  ),
+  then: actions([Requesting.respond, { request, tags }]),
+});
+
+// ============================================================================
+// SET TASK PROJECT
+// ============================================================================
+
+export const SetTaskProjectRequest: Sync = ({ request, accessToken, task, project }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/setTaskProject", accessToken, task, project },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const SetTaskProjectWithUser: Sync = ({ request, user, userId, task, project }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/setTaskProject", task, project }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskManager.setTaskProject, { user: userId, task, project }]),
+});
+
+export const SetTaskProjectResponse: Sync = ({ request, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/setTaskProject" }, { request }],
+    [TaskManager.setTaskProject, {}, { task }],
+  ),
+  then: actions([Requesting.respond, { request, task }]),
+});
+
+export const SetTaskProjectResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/setTaskProject" }, { request }],
+    [TaskManager.setTaskProject, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// SET TASK TAGS
+// ============================================================================
+
+export const SetTaskTagsRequest: Sync = ({ request, accessToken, task, tags }) => ({
   when: actions([
     Requesting.request,
-    { path: "/TaskManager/deleteTask", accessToken, task },
+    { path: "/TaskManager/setTaskTags", accessToken, task, tags },
     { request },
   ]),
   then: actions([UserAuthentication.getUserInfo, { accessToken }]),
 });
 
-export const DeleteTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+export const SetTaskTagsWithUser: Sync = ({ request, user, userId, task, tags }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/deleteTask", task }, { request }],
+    [Requesting.request, { path: "/TaskManager/setTaskTags", task, tags }, { request }],
     [UserAuthentication.getUserInfo, {}, { user }],
   ),
   where: (frames) => {
@@ -500,41 +1941,41 @@ export const DeleteTaskWithUser: Sync = ({ request, user, userId, task }) => ({
       return { ...frame, [userId]: userObj.id };
     });
   },
-  then: actions([TaskManager.deleteTask, { user: userId, task }]),
+  then: actions([TaskManager.setTaskTags, { user: userId, task, tags }]),
 });
 
-export const DeleteTaskResponse: Sync = ({ request }) => ({
+export const SetTaskTagsResponse: Sync = ({ request, task }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/deleteTask" }, { request }],
-    [TaskManager.deleteTask, {}, {}],
+    [Requesting.request, { path: "/TaskManager/setTaskTags" }, { request }],
+    [TaskManager.setTaskTags, {}, { task }],
   ),
-  then: actions([Requesting.respond, { request }]),
+  then: actions([Requesting.respond, { request, task }]),
 });
 
-export const DeleteTaskResponseError: Sync = ({ request, error }) => ({
+export const SetTaskTagsResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/deleteTask" }, { request }],
-    [TaskManager.deleteTask, {}, { error }],
+    [Requesting.request, { path: "/TaskManager/setTaskTags" }, { request }],
+    [TaskManager.setTaskTags, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
 // ============================================================================
-// DELETE USER TASKS
+// ADD DEPENDENCY
 // ============================================================================
 
-export const DeleteUserTasksRequest: Sync = ({ request, accessToken }) => ({
+export const AddDependencyRequest: Sync = ({ request, accessToken, task, blockedBy }) => ({
   when: actions([
     Requesting.request,
-    { path: "/TaskManager/deleteUserTasks", accessToken },
+    { path: "/TaskManager/addDependency", accessToken, task, blockedBy },
     { request },
   ]),
   then: actions([UserAuthentication.getUserInfo, { accessToken }]),
 });
 
-export const DeleteUserTasksWithUser: Sync = ({ request, user, userId }) => ({
+export const AddDependencyWithUser: Sync = ({ request, user, userId, task, blockedBy }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/deleteUserTasks" }, { request }],
+    [Requesting.request, { path: "/TaskManager/addDependency", task, blockedBy }, { request }],
     [UserAuthentication.getUserInfo, {}, { user }],
   ),
   where: (frames) => {
@@ -544,33 +1985,41 @@ export const DeleteUserTasksWithUser: Sync = ({ request, user, userId }) => ({
       return { ...frame, [userId]: userObj.id };
     });
   },
-  then: actions([TaskManager.deleteUserTasks, { user: userId }]),
+  then: actions([TaskManager.addDependency, { user: userId, task, blockedBy }]),
 });
 
-export const DeleteUserTasksResponse: Sync = ({ request }) => ({
+export const AddDependencyResponse: Sync = ({ request, task }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/deleteUserTasks" }, { request }],
-    [TaskManager.deleteUserTasks, {}, {}],
+    [Requesting.request, { path: "/TaskManager/addDependency" }, { request }],
+    [TaskManager.addDependency, {}, { task }],
   ),
-  then: actions([Requesting.respond, { request }]),
+  then: actions([Requesting.respond, { request, task }]),
+});
+
+export const AddDependencyResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/addDependency" }, { request }],
+    [TaskManager.addDependency, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
 // ============================================================================
-// GET TASK
+// REMOVE DEPENDENCY
 // ============================================================================
 
-export const GetTaskRequest: Sync = ({ request, accessToken, task }) => ({
+export const RemoveDependencyRequest: Sync = ({ request, accessToken, task, blockedBy }) => ({
   when: actions([
     Requesting.request,
-    { path: "/TaskManager/getTask", accessToken, task },
+    { path: "/TaskManager/removeDependency", accessToken, task, blockedBy },
     { request },
   ]),
   then: actions([UserAuthentication.getUserInfo, { accessToken }]),
 });
 
-export const GetTaskWithUser: Sync = ({ request, user, userId, task }) => ({
+export const RemoveDependencyWithUser: Sync = ({ request, user, userId, task, blockedBy }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/getTask", task }, { request }],
+    [Requesting.request, { path: "/TaskManager/removeDependency", task, blockedBy }, { request }],
     [UserAuthentication.getUserInfo, {}, { user }],
   ),
   where: (frames) => {
@@ -580,86 +2029,85 @@ export const GetTaskWithUser: Sync = ({ request, user, userId, task }) => ({
       return { ...frame, [userId]: userObj.id };
     });
   },
-  then: actions([TaskManager.getTask, { user: userId, task }]),
+  then: actions([TaskManager.removeDependency, { user: userId, task, blockedBy }]),
 });
 
-export const GetTaskResponse: Sync = ({ request, task }) => ({
+export const RemoveDependencyResponse: Sync = ({ request, task }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/getTask" }, { request }],
-    [TaskManager.getTask, {}, { task }],
+    [Requesting.request, { path: "/TaskManager/removeDependency" }, { request }],
+    [TaskManager.removeDependency, {}, { task }],
   ),
   then: actions([Requesting.respond, { request, task }]),
 });
 
-export const GetTaskResponseError: Sync = ({ request, error }) => ({
+export const RemoveDependencyResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/getTask" }, { request }],
-    [TaskManager.getTask, {}, { error }],
+    [Requesting.request, { path: "/TaskManager/removeDependency" }, { request }],
+    [TaskManager.removeDependency, {}, { error }],
   ),
   then: actions([Requesting.respond, { request, error }]),
 });
 
 // ============================================================================
-// GET TASKS (list with pagination)
+// GET DEPENDENCY GRAPH
 // ============================================================================
 
-export const GetTasksRequest: Sync = ({ request, accessToken, page, limit, sortBy, sortOrder, status, search }) => ({
+export const GetDependencyGraphRequest: Sync = ({ request, accessToken, task }) => ({
   when: actions([
     Requesting.request,
-    { path: "/TaskManager/getTasks", accessToken, page, limit, sortBy, sortOrder, status, search },
+    { path: "/TaskManager/getDependencyGraph", accessToken, task },
     { request },
   ]),
   then: actions([UserAuthentication.getUserInfo, { accessToken }]),
 });
 
-export const GetTasksWithUser: Sync = ({ request, user, userId, page, limit, sortBy, sortOrder, status, search }) => ({
+export const GetDependencyGraphWithUser: Sync = ({ request, user, userId, task }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/getTasks", page, limit, sortBy, sortOrder, status, search }, { request }],
+    [Requesting.request, { path: "/TaskManager/getDependencyGraph", task }, { request }],
     [UserAuthentication.getUserInfo, {}, { user }],
   ),
   where: (frames) => {
     return frames.map((frame) => {
       const userObj = frame[user] as { id: string } | undefined;
       if (!userObj) return frame;
-      const newFrame = { ...frame, [userId]: userObj.id };
-      // Convert null to default values for optional parameters
-      if (page in newFrame && newFrame[page] === null) newFrame[page] = 1;
-      if (limit in newFrame && newFrame[limit] === null) newFrame[limit] = 10;
-      if (sortBy in newFrame && newFrame[sortBy] === null) newFrame[sortBy] = "createdAt";
-      if (sortOrder in newFrame && newFrame[sortOrder] === null) newFrame[sortOrder] = -1;
-      // For status and search, null means "no filter" - keep as null (will be handled by concept method)
-      return newFrame;
+      return { ...frame, [userId]: userObj.id };
     });
   },
-  then: actions([TaskManager.getTasks, { user: userId, page, limit, sortBy, sortOrder, status, search }]),
+  then: actions([TaskManager.getDependencyGraph, { user: userId, task }]),
 });
 
-export const GetTasksResponse: Sync = ({ request, tasks, total, page, totalPages }) => ({
+export const GetDependencyGraphResponse: Sync = ({ request, graph }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/getTasks" }, { request }],
-    [TaskManager.getTasks, {}, { tasks, total, page, totalPages }],
+    [Requesting.request, { path: "/TaskManager/getDependencyGraph" }, { request }],
+    [TaskManager.getDependencyGraph, {}, { graph }],
+  ),
+  then: actions([Requesting.respond, { request, graph }]),
+});
+
+export const GetDependencyGraphResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getDependencyGraph" }, { request }],
+    [TaskManager.getDependencyGraph, {}, { error }],
   ),
-  then: actions([Requesting.respond, { request, tasks, total, page, totalPages }]),
+  then: actions([Requesting.respond, { request, error }]),
 });
 
 // ============================================================================
-// GET TASK STATUS
+// SET TASK PRIORITY
 // ============================================================================
 
-export const GetTaskStatusRequest: Sync = ({ request, accessToken, task }) => ({
+export const SetTaskPriorityRequest: Sync = ({ request, accessToken, task, urgent, important, estimatedMinutes }) => ({
   when: actions([
     Requesting.request,
-    { path: "/TaskManager/getTaskStatus", accessToken, task },
+    { path: "/TaskManager/setTaskPriority", accessToken, task, urgent, important, estimatedMinutes },
     { request },
   ]),
   then: actions([UserAuthentication.getUserInfo, { accessToken }]),
 });
 
-// Note: getTaskStatus is a helper method that requires a TaskDoc object
-// We get the task first, then calculate status from the task document
-export const GetTaskStatusWithUser: Sync = ({ request, user, userId, task }) => ({
+export const SetTaskPriorityWithUser: Sync = ({ request, user, userId, task, urgent, important, estimatedMinutes }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/getTaskStatus", task }, { request }],
+    [Requesting.request, { path: "/TaskManager/setTaskPriority", task, urgent, important, estimatedMinutes }, { request }],
     [UserAuthentication.getUserInfo, {}, { user }],
   ),
   where: (frames) => {
@@ -669,35 +2117,358 @@ export const GetTaskStatusWithUser: Sync = ({ request, user, userId, task }) =>
       return { ...frame, [userId]: userObj.id };
     });
   },
-  then: actions([TaskManager.getTask, { user: userId, task }]),
+  then: actions([TaskManager.setTaskPriority, { user: userId, task, urgent, important, estimatedMinutes }]),
 });
 
-// Calculate status from task document: "pending" | "in-progress" | "completed"
-export const GetTaskStatusResponse: Sync = ({ request, task, status }) => ({
+export const SetTaskPriorityResponse: Sync = ({ request, task }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/getTaskStatus" }, { request }],
-    [TaskManager.getTask, {}, { task }],
+    [Requesting.request, { path: "/TaskManager/setTaskPriority" }, { request }],
+    [TaskManager.setTaskPriority, {}, { task }],
+  ),
+  then: actions([Requesting.respond, { request, task }]),
+});
+
+export const SetTaskPriorityResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/setTaskPriority" }, { request }],
+    [TaskManager.setTaskPriority, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET NEXT BEST TASKS
+// ============================================================================
+
+export const GetNextBestTasksRequest: Sync = ({ request, accessToken, limit }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/getNextBestTasks", accessToken, limit },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+// The user's most recent "before" emotion tunes the ranking toward quick wins or important work
+export const GetNextBestTasksWithUser: Sync = ({ request, user, userId, limit, recentEmotion }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getNextBestTasks", limit }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const withEmotion = await Promise.all(frames.map(async (frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      const { emotion } = await EmotionLogger.getLatestEmotion({ user: userObj.id as ID, phase: "before" });
+      const newFrame = { ...frame, [userId]: userObj.id, [recentEmotion]: emotion };
+      // Convert null to default values for optional parameters
+      if (limit in newFrame && newFrame[limit] === null) newFrame[limit] = 5;
+      return newFrame;
+    }));
+    return new Frames(...withEmotion);
+  },
+  then: actions([TaskManager.getNextBestTasks, { user: userId, limit, recentEmotion }]),
+});
+
+export const GetNextBestTasksResponse: Sync = ({ request, tasks }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getNextBestTasks" }, { request }],
+    [TaskManager.getNextBestTasks, {}, { tasks }],
+  ),
+  then: actions([Requesting.respond, { request, tasks }]),
+});
+
+// ============================================================================
+// GET OVERDUE TASKS
+// ============================================================================
+
+export const GetOverdueTasksRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskManager/getOverdueTasks", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetOverdueTasksWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/getOverdueTasks" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
   ),
   where: (frames) => {
-    // Use TaskManager.getTaskStatus method to compute status from task document
     return frames.map((frame) => {
-      const taskDoc = frame[task] as Parameters<typeof TaskManager.getTaskStatus>[0]["task"] | undefined;
-      if (!taskDoc) return frame;
-      const computedStatus = TaskManager.getTaskStatus({ task: taskDoc });
-      return { ...frame, [status]: computedStatus };
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
     });
   },
-  then: actions([Requesting.respond, { request, status }]),
+  then: actions([TaskManager.getOverdueTasks, { user: userId }]),
 });
 
-export const GetTaskStatusResponseError: Sync = ({ request, error }) => ({
+export const GetOverdueTasksResponse: Sync = ({ request, tasks }) => ({
   when: actions(
-    [Requesting.request, { path: "/TaskManager/getTaskStatus" }, { request }],
-    [TaskManager.getTask, {}, { error }],
+    [Requesting.request, { path: "/TaskManager/getOverdueTasks" }, { request }],
+    [TaskManager.getOverdueTasks, {}, { tasks }],
   ),
+  then: actions([Requesting.respond, { request, tasks }]),
+});
+
+// ============================================================================
+// BULK OPERATIONS
+// ============================================================================
+// Each bulk request applies the matching single-task action to every task in
+// the list, one task at a time. The actions are invoked through the instrumented
+// concept, so per-task syncs (bet resolution, nudge cancellation, cascades) still
+// fire for each item. Each item's result has the same shape the single action returns.
+
+const BULK_LIMIT = 100;
+const BULK_PATHS = [
+  "/TaskManager/bulkComplete",
+  "/TaskManager/bulkDelete",
+  "/TaskManager/bulkReschedule",
+  "/TaskManager/bulkSetTags",
+  "/TaskManager/bulkMoveToProject",
+];
+
+function isValidTaskList(value: unknown): value is ID[] {
+  return Array.isArray(value) &&
+    value.length > 0 &&
+    value.length <= BULK_LIMIT &&
+    value.every((task) => typeof task === "string");
+}
+
+function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined) return null;
+  const date = new Date(value as string | Date);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Applies a single-task action to every task in each frame's list
+ * and binds the per-item results as `{ task, result }` entries.
+ */
+async function applyToEachTask(
+  frames: Frames,
+  { user, tasks, results }: Record<string, symbol>,
+  apply: (user: ID, task: ID, frame: Record<symbol, unknown>) => Promise<unknown>,
+): Promise<Frames> {
+  const applied = [];
+  for (const frame of frames) {
+    const userObj = frame[user] as { id: string } | undefined;
+    const taskIds = frame[tasks];
+    if (!userObj || !isValidTaskList(taskIds)) continue;
+
+    const itemResults = [];
+    for (const task of taskIds) {
+      const result = await apply(userObj.id as ID, task, frame);
+      itemResults.push({ task, result });
+    }
+    applied.push({ ...frame, [results]: itemResults });
+  }
+  return new Frames(...applied);
+}
+
+export const BulkRequest: Sync = ({ request, path, accessToken, tasks }) => ({
+  when: actions([
+    Requesting.request,
+    { path, accessToken, tasks },
+    { request },
+  ]),
+  where: (frames) => {
+    return frames.filter((frame) =>
+      BULK_PATHS.includes(frame[path] as string) && isValidTaskList(frame[tasks])
+    );
+  },
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const BulkRequestInvalid: Sync = ({ request, path, tasks, error }) => ({
+  when: actions([
+    Requesting.request,
+    { path, tasks },
+    { request },
+  ]),
+  where: (frames) => {
+    return frames
+      .filter((frame) =>
+        BULK_PATHS.includes(frame[path] as string) && !isValidTaskList(frame[tasks])
+      )
+      .map((frame) => ({
+        ...frame,
+        [error]: `Tasks must be a list of 1 to ${BULK_LIMIT} task IDs`,
+      }));
+  },
   then: actions([Requesting.respond, { request, error }]),
 });
 
+export const BulkCompleteWithUser: Sync = ({ request, user, tasks, timeCompleted, results }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/bulkComplete", tasks, timeCompleted }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) =>
+    applyToEachTask(frames, { user, tasks, results }, (userId, task, frame) => {
+      const completedAt = toDate(frame[timeCompleted]);
+      if (!completedAt) return Promise.resolve({ error: "Completion time is invalid" });
+      return TaskManager.markComplete({ user: userId, task, timeCompleted: completedAt });
+    }),
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+export const BulkDeleteWithUser: Sync = ({ request, user, tasks, results }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/bulkDelete", tasks }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) =>
+    applyToEachTask(frames, { user, tasks, results }, (userId, task) =>
+      TaskManager.deleteTask({ user: userId, task })
+    ),
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+export const BulkRescheduleWithUser: Sync = ({ request, user, tasks, dueDate, results }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/bulkReschedule", tasks, dueDate }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) =>
+    applyToEachTask(frames, { user, tasks, results }, (userId, task, frame) => {
+      const due = toDate(frame[dueDate]);
+      if (!due) return Promise.resolve({ error: "Due date is invalid" });
+      return TaskManager.updateTask({ user: userId, task, dueDate: due });
+    }),
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+export const BulkSetTagsWithUser: Sync = ({ request, user, tasks, tags, results }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/bulkSetTags", tasks, tags }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) =>
+    applyToEachTask(frames, { user, tasks, results }, (userId, task, frame) => {
+      if (!Array.isArray(frame[tags])) return Promise.resolve({ error: "Tags must be a list of tag IDs" });
+      return TaskManager.setTaskTags({ user: userId, task, tags: frame[tags] as ID[] });
+    }),
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+// A null or missing project removes the tasks from their project
+export const BulkMoveToProjectWithUser: Sync = ({ request, user, tasks, project, results }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/bulkMoveToProject", tasks, project }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) =>
+    applyToEachTask(frames, { user, tasks, results }, (userId, task, frame) =>
+      TaskManager.setTaskProject({ user: userId, task, project: frame[project] as ID | null })
+    ),
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+// ============================================================================
+// TASK START ON SUBTASK PROGRESS
+// ============================================================================
+
+/**
+ * Keeps the frames whose parent task is still pending, so only the first subtask
+ * worked on starts it. The task's own subtask progress is left out, since the
+ * subtask that triggered the sync already counts as progress.
+ */
+async function withPendingParent(frames: Frames, user: symbol, task: symbol): Promise<Frames> {
+  const pending = await Promise.all(frames.map(async (frame) => {
+    const taskDoc = await TaskManager.getTask({ user: frame[user] as ID, task: frame[task] as ID });
+    if ("error" in taskDoc) return null;
+    const { blockers } = await TaskManager.getBlockers({ user: taskDoc.user, task: taskDoc._id });
+    const status = await TaskManager.getTaskStatus({ task: { ...taskDoc, subtasks: [] }, blockers });
+    return status === "pending" ? frame : null;
+  }));
+  return new Frames(...pending.filter((frame) => frame !== null));
+}
+
+/**
+ * Automatically marks the parent task as started when one of its subtasks is started.
+ * Starting the first small step counts as starting the task, so bets and nudges react as usual.
+ */
+export const AutoMarkTaskStartedOnSubtaskStart: Sync = ({ user, task, subtask, timeStarted }) => ({
+  when: actions([TaskManager.markSubtaskStarted, { user, task, timeStarted }, { subtask }]),
+  where: (frames) => withPendingParent(frames, user, task),
+  then: actions([TaskManager.markStarted, { user, task, timeStarted }]),
+});
+
+/**
+ * Automatically marks the parent task as started when a subtask is checked off directly.
+ */
+export const AutoMarkTaskStartedOnSubtaskComplete: Sync = ({ user, task, subtask, timeCompleted }) => ({
+  when: actions([TaskManager.completeSubtask, { user, task, timeCompleted }, { subtask }]),
+  where: (frames) => withPendingParent(frames, user, task),
+  then: actions([TaskManager.markStarted, { user, task, timeStarted: timeCompleted }]),
+});
+
+// ============================================================================
+// RECURRING INSTANCE SPAWNING
+// ============================================================================
+// Instances are created through TaskManager.createTask so that
+// AutoScheduleNudgeOnTaskCreateWithDueDate schedules a nudge for each one.
+
+/**
+ * Looks up the next instance of each series in the frames and binds its details.
+ * Frames whose series has ended, whose current instance is still open, or which
+ * has no further occurrences are dropped.
+ */
+async function bindNextInstance(
+  frames: Frames,
+  { user, series, title, description, dueDate }: Record<string, symbol>,
+): Promise<Frames> {
+  const next = await Promise.all(frames.map(async (frame) => {
+    const instance = await TaskManager.getNextInstance({
+      user: frame[user] as ID,
+      series: frame[series] as ID,
+    });
+    if ("error" in instance) return null;
+    return {
+      ...frame,
+      [title]: instance.title,
+      [description]: instance.description,
+      [dueDate]: instance.dueDate,
+    };
+  }));
+  return new Frames(...next.filter((frame) => frame !== null));
+}
+
+/**
+ * Creates the first task of a newly created series.
+ */
+export const SpawnFirstRecurringInstance: Sync = ({ user, series, title, description, dueDate }) => ({
+  when: actions([TaskManager.createSeries, { user }, { series }]),
+  where: (frames) => bindNextInstance(frames, { user, series, title, description, dueDate }),
+  then: actions([TaskManager.createTask, { user, title, description, dueDate, series }]),
+});
+
+/**
+ * Creates the next task of a series when its current instance is completed.
+ */
+export const SpawnNextRecurringInstance: Sync = ({ user, task, series, title, description, dueDate }) => ({
+  when: actions([TaskManager.markComplete, { user, task }, {}]),
+  where: async (frames) => {
+    const withSeries = await Promise.all(frames.map(async (frame) => {
+      const taskDoc = await TaskManager.getTask({
+        user: frame[user] as ID,
+        task: frame[task] as ID,
+      });
+      if ("error" in taskDoc || !taskDoc.series) return null;
+      return { ...frame, [series]: taskDoc.series };
+    }));
+    return bindNextInstance(
+      new Frames(...withSeries.filter((frame) => frame !== null)),
+      { user, series, title, description, dueDate },
+    );
+  },
+  then: actions([TaskManager.createTask, { user, title, description, dueDate, series }]),
+});
+
 // ============================================================================
 // AUTOMATIC NUDGE SCHEDULING ON TASK CREATION
 // ============================================================================
@@ -746,18 +2517,62 @@ export const AutoScheduleNudgeOnTaskCreateWithoutDueDate: Sync = ({ user, task,
 });
 
 // ============================================================================
-// BET RESOLUTION ON TASK START
+// BET RESOLUTION ON TASK START AND COMPLETION
 // ============================================================================
+// Each bet type is settled by its own sync: "start_by" bets when the task starts,
+// "complete_by" bets when it is completed, and "complete_within" bets when it is
+// completed after their time limit started with the task.
 
 /**
- * Automatically resolves a bet when a task is marked as started.
+ * Keeps the frames whose task has an unresolved bet of the given type.
+ */
+async function withBetType(frames: Frames, user: symbol, task: symbol, type: BetType): Promise<Frames> {
+  const matching = await Promise.all(frames.map(async (frame) => {
+    const bet = await MicroBet.getBet({ user: frame[user] as ID, task: frame[task] as ID });
+    if ("error" in bet || bet.success !== undefined) return null;
+    return (bet.type ?? "start_by") === type ? frame : null;
+  }));
+  return new Frames(...matching.filter((frame) => frame !== null));
+}
+
+/**
+ * Automatically resolves a "start_by" bet when its task is marked as started.
  * Uses the start time as the completion time for bet resolution.
  */
 export const AutoResolveBetOnTaskStart: Sync = ({ user, task, timeStarted }) => ({
-  when: actions([TaskManager.markStarted, { user, task, timeStarted }, {}]),
+  when: actions([TaskManager.markStarted, { user, task, timeStarted }, { task }]),
+  where: (frames) => withBetType(frames, user, task, "start_by"),
   then: actions([MicroBet.resolveBet, { user, task, completionTime: timeStarted }]),
 });
 
+/**
+ * Automatically starts the time limit of a "complete_within" bet when its task is marked as started.
+ */
+export const AutoStartBetClockOnTaskStart: Sync = ({ user, task, timeStarted }) => ({
+  when: actions([TaskManager.markStarted, { user, task, timeStarted }, { task }]),
+  where: (frames) => withBetType(frames, user, task, "complete_within"),
+  then: actions([MicroBet.startBetClock, { user, task, startTime: timeStarted }]),
+});
+
+/**
+ * Automatically resolves a "complete_by" bet when its task is marked as completed.
+ */
+export const AutoResolveCompleteByBetOnTaskComplete: Sync = ({ user, task, timeCompleted }) => ({
+  when: actions([TaskManager.markComplete, { user, task, timeCompleted }, { task }]),
+  where: (frames) => withBetType(frames, user, task, "complete_by"),
+  then: actions([MicroBet.resolveBet, { user, task, completionTime: timeCompleted }]),
+});
+
+/**
+ * Automatically resolves a "complete_within" bet when its task is marked as completed.
+ * The bet's deadline is the end of its time limit, so resolution fails if the task took too long.
+ */
+export const AutoResolveCompleteWithinBetOnTaskComplete: Sync = ({ user, task, timeCompleted }) => ({
+  when: actions([TaskManager.markComplete, { user, task, timeCompleted }, { task }]),
+  where: (frames) => withBetType(frames, user, task, "complete_within"),
+  then: actions([MicroBet.resolveBet, { user, task, completionTime: timeCompleted }]),
+});
+
 // ============================================================================
 // NUDGE CANCELLATION ON TASK START
 // ============================================================================
@@ -770,6 +2585,28 @@ export const AutoCancelNudgeOnTaskStart: Sync = ({ user, task }) => ({
   then: actions([NudgeEngine.cancelNudge, { user, task }]),
 });
 
+// ============================================================================
+// BET FORFEIT AND NUDGE CANCELLATION ON TASK ABANDON
+// ============================================================================
+// Pausing, resuming, and reopening leave bets and nudges alone: a bet is
+// settled when the task starts or completes, and nudges only encourage starting.
+
+/**
+ * Automatically forfeits an unresolved bet when its task is abandoned.
+ */
+export const AutoForfeitBetOnTaskAbandon: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.abandonTask, { user, task }, { task }]),
+  then: actions([MicroBet.forfeitBet, { user, task }]),
+});
+
+/**
+ * Automatically cancels a pending nudge when its task is abandoned.
+ */
+export const AutoCancelNudgeOnTaskAbandon: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.abandonTask, { user, task }, { task }]),
+  then: actions([NudgeEngine.cancelNudge, { user, task }]),
+});
+
 // ============================================================================
 // NOTE: We do NOT cancel nudges when tasks are completed because:
 // - Nudges are meant to encourage starting, not completing
@@ -778,20 +2615,63 @@ export const AutoCancelNudgeOnTaskStart: Sync = ({ user, task }) => ({
 // ============================================================================
 
 // ============================================================================
-// CASCADING DELETION ON TASK DELETION
+// CASCADING DELETION ON TASK PURGE
 // ============================================================================
+// Deleting a task only moves it to the trash, so related records stay intact
+// and come back on restore. They are removed once the task is purged.
 
 /**
- * Automatically deletes related data when a task is deleted:
+ * Automatically deletes related data when a task is permanently purged:
  * 1. Cancels associated bet (if exists)
  * 2. Deletes associated nudge (if exists, regardless of triggered status)
  * 3. Deletes associated emotion logs
+ * 4. Deletes associated focus sessions
+ * 5. Deletes associated task breakdowns
+ * 6. Stops sharing the task with accountability partners
+ */
+export const AutoCascadeDeleteOnTaskPurge: Sync = ({ user, task }) => ({
+  when: actions([TaskManager.purgeTask, { user, task }, { task }]),
+  then: actions(
+    [MicroBet.cancelBet, { user, task }],
+    [NudgeEngine.cancelNudge, { user, task, force: true }],
+    [EmotionLogger.deleteTaskLogs, { user, task }],
+    [FocusSession.deleteTaskSessions, { user, task }],
+    [TaskBreakdown.deleteTaskBreakdowns, { user, task }],
+    [Accountability.deleteTaskShares, { owner: user, task }],
+  ),
+});
+
+/**
+ * Applies the same cleanup to every task purged after outliving the trash retention window.
  */
-export const AutoCascadeDeleteOnTaskDelete: Sync = ({ user, task }) => ({
-  when: actions([TaskManager.deleteTask, { user, task }, {}]),
+export const AutoCascadeDeleteOnExpiredTaskPurge: Sync = ({ user, tasks, task }) => ({
+  when: actions([TaskManager.purgeExpiredTasks, { user }, { tasks }]),
+  where: (frames) => {
+    return new Frames(...frames.flatMap((frame) =>
+      (frame[tasks] as ID[]).map((taskId) => ({ ...frame, [task]: taskId }))
+    ));
+  },
   then: actions(
     [MicroBet.cancelBet, { user, task }],
     [NudgeEngine.cancelNudge, { user, task, force: true }],
     [EmotionLogger.deleteTaskLogs, { user, task }],
+    [FocusSession.deleteTaskSessions, { user, task }],
+    [TaskBreakdown.deleteTaskBreakdowns, { user, task }],
+    [Accountability.deleteTaskShares, { owner: user, task }],
   ),
 });
+
+/**
+ * Automatically moves every task in a project to the trash when the project is deleted.
+ * Each deletion goes through TaskManager.deleteTask, so the tasks' bets, nudges, and
+ * emotion logs are cleaned up by AutoCascadeDeleteOnTaskPurge once they are purged.
+ */
+export const AutoCascadeDeleteOnProjectDelete: Sync = ({ user, tasks, task }) => ({
+  when: actions([TaskManager.deleteProject, { user }, { tasks }]),
+  where: (frames) => {
+    return new Frames(...frames.flatMap((frame) =>
+      (frame[tasks] as ID[]).map((taskId) => ({ ...frame, [task]: taskId }))
+    ));
+  },
+  then: actions([TaskManager.deleteTask, { user, task }]),
+});
@@ -0,0 +1,443 @@
+/**
+ * TaskTemplate synchronizations.
+ * Handles templates and task creation from templates with user authentication via access tokens.
+ */
+
+import { MicroBet, TaskManager, TaskTemplate, UserAuthentication, Requesting } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import { ID } from "@utils/types.ts";
+
+// ============================================================================
+// CREATE TEMPLATE
+// ============================================================================
+
+export const CreateTemplateRequest: Sync = (
+  { request, accessToken, name, titlePattern, description, steps, dueOffsetMinutes, defaultWager },
+) => ({
+  when: actions([
+    Requesting.request,
+    {
+      path: "/TaskTemplate/createTemplate",
+      accessToken, name, titlePattern, description, steps, dueOffsetMinutes, defaultWager,
+    },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const CreateTemplateWithUser: Sync = (
+  { request, user, userId, name, titlePattern, description, steps, dueOffsetMinutes, defaultWager },
+) => ({
+  when: actions(
+    [
+      Requesting.request,
+      { path: "/TaskTemplate/createTemplate", name, titlePattern, description, steps, dueOffsetMinutes, defaultWager },
+      { request },
+    ],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([
+    TaskTemplate.createTemplate,
+    { user: userId, name, titlePattern, description, steps, dueOffsetMinutes, defaultWager },
+  ]),
+});
+
+export const CreateTemplateResponse: Sync = ({ request, template }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTemplate" }, { request }],
+    [TaskTemplate.createTemplate, {}, { template }],
+  ),
+  then: actions([Requesting.respond, { request, template }]),
+});
+
+export const CreateTemplateResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTemplate" }, { request }],
+    [TaskTemplate.createTemplate, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// UPDATE TEMPLATE
+// ============================================================================
+// Null fields are left unchanged by TaskTemplate.updateTemplate
+
+export const UpdateTemplateRequest: Sync = (
+  { request, accessToken, template, name, titlePattern, description, steps, dueOffsetMinutes, defaultWager },
+) => ({
+  when: actions([
+    Requesting.request,
+    {
+      path: "/TaskTemplate/updateTemplate",
+      accessToken, template, name, titlePattern, description, steps, dueOffsetMinutes, defaultWager,
+    },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const UpdateTemplateWithUser: Sync = (
+  { request, user, userId, template, name, titlePattern, description, steps, dueOffsetMinutes, defaultWager },
+) => ({
+  when: actions(
+    [
+      Requesting.request,
+      {
+        path: "/TaskTemplate/updateTemplate",
+        template, name, titlePattern, description, steps, dueOffsetMinutes, defaultWager,
+      },
+      { request },
+    ],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([
+    TaskTemplate.updateTemplate,
+    { user: userId, template, name, titlePattern, description, steps, dueOffsetMinutes, defaultWager },
+  ]),
+});
+
+export const UpdateTemplateResponse: Sync = ({ request, template }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/updateTemplate" }, { request }],
+    [TaskTemplate.updateTemplate, {}, { template }],
+  ),
+  then: actions([Requesting.respond, { request, template }]),
+});
+
+export const UpdateTemplateResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/updateTemplate" }, { request }],
+    [TaskTemplate.updateTemplate, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// DELETE TEMPLATE
+// ============================================================================
+
+export const DeleteTemplateRequest: Sync = ({ request, accessToken, template }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskTemplate/deleteTemplate", accessToken, template },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DeleteTemplateWithUser: Sync = ({ request, user, userId, template }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/deleteTemplate", template }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskTemplate.deleteTemplate, { user: userId, template }]),
+});
+
+export const DeleteTemplateResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/deleteTemplate" }, { request }],
+    [TaskTemplate.deleteTemplate, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const DeleteTemplateResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/deleteTemplate" }, { request }],
+    [TaskTemplate.deleteTemplate, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET TEMPLATES
+// ============================================================================
+
+export const GetTemplatesRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskTemplate/getTemplates", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetTemplatesWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/getTemplates" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskTemplate.getTemplates, { user: userId }]),
+});
+
+export const GetTemplatesResponse: Sync = ({ request, templates }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/getTemplates" }, { request }],
+    [TaskTemplate.getTemplates, {}, { templates }],
+  ),
+  then: actions([Requesting.respond, { request, templates }]),
+});
+
+// ============================================================================
+// DELETE USER TEMPLATES
+// ============================================================================
+
+export const DeleteUserTemplatesRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskTemplate/deleteUserTemplates", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const DeleteUserTemplatesWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/deleteUserTemplates" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([TaskTemplate.deleteUserTemplates, { user: userId }]),
+});
+
+export const DeleteUserTemplatesResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/deleteUserTemplates" }, { request }],
+    [TaskTemplate.deleteUserTemplates, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+// ============================================================================
+// CREATE TASK FROM TEMPLATE
+// ============================================================================
+// The task is created through TaskManager.createTask, so its nudge is scheduled
+// like any other task's. The template's steps are added as subtasks, and when
+// placeBet is true its default wager is bet on the task, with the bet deadline
+// halfway to the due date. A null utcOffsetMinutes fills in dates in UTC.
+
+/**
+ * Fills in the template of each frame, binding the task's details.
+ * Frames whose template cannot be filled in are bound to the error instead.
+ */
+async function bindTemplateTask(
+  frames: Frames,
+  { user, userId, template, utcOffsetMinutes, title, description, dueDate, error }: Record<string, symbol>,
+): Promise<Frames> {
+  const bound = [];
+  for (const frame of frames) {
+    const userObj = frame[user] as { id: string } | undefined;
+    if (!userObj) continue;
+    const result = await TaskTemplate.instantiateTemplate({
+      user: userObj.id as ID,
+      template: frame[template] as ID,
+      utcOffsetMinutes: (frame[utcOffsetMinutes] as number | null) ?? 0,
+    });
+    if ("error" in result) {
+      bound.push({ ...frame, [error]: result.error });
+      continue;
+    }
+    bound.push({
+      ...frame,
+      [userId]: userObj.id,
+      [title]: result.title,
+      [description]: result.description,
+      [dueDate]: result.dueDate,
+    });
+  }
+  return new Frames(...bound);
+}
+
+export const CreateTaskFromTemplateRequest: Sync = (
+  { request, accessToken, template, placeBet, utcOffsetMinutes },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/TaskTemplate/createTaskFromTemplate", accessToken, template, placeBet, utcOffsetMinutes },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const CreateTaskFromTemplateWithUser: Sync = (
+  { request, user, userId, template, utcOffsetMinutes, title, description, dueDate, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTaskFromTemplate", template, utcOffsetMinutes }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const bound = await bindTemplateTask(
+      frames,
+      { user, userId, template, utcOffsetMinutes, title, description, dueDate, error },
+    );
+    // Only match templates without a due offset
+    return bound.filter((frame) => frame[error] === undefined && frame[dueDate] === null);
+  },
+  then: actions([TaskManager.createTask, { user: userId, title, description }]),
+});
+
+export const CreateTaskFromTemplateWithUserAndDueDate: Sync = (
+  { request, user, userId, template, utcOffsetMinutes, title, description, dueDate, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTaskFromTemplate", template, utcOffsetMinutes }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const bound = await bindTemplateTask(
+      frames,
+      { user, userId, template, utcOffsetMinutes, title, description, dueDate, error },
+    );
+    // Only match templates with a due offset
+    return bound.filter((frame) => frame[error] === undefined && frame[dueDate] !== null);
+  },
+  then: actions([TaskManager.createTask, { user: userId, title, description, dueDate }]),
+});
+
+export const CreateTaskFromTemplateInvalid: Sync = (
+  { request, user, userId, template, utcOffsetMinutes, title, description, dueDate, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTaskFromTemplate", template, utcOffsetMinutes }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: async (frames) => {
+    const bound = await bindTemplateTask(
+      frames,
+      { user, userId, template, utcOffsetMinutes, title, description, dueDate, error },
+    );
+    return bound.filter((frame) => frame[error] !== undefined);
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+/**
+ * Adds the template's steps to the new task as subtasks, in order.
+ */
+export const AddTemplateStepsOnTaskCreate: Sync = ({ request, template, user, task, step }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTaskFromTemplate", template }, { request }],
+    [TaskManager.createTask, { user }, { task }],
+  ),
+  where: async (frames) => {
+    const steps = [];
+    for (const frame of frames) {
+      const templateDoc = await TaskTemplate.getTemplate({ user: frame[user] as ID, template: frame[template] as ID });
+      if ("error" in templateDoc) continue;
+      steps.push(...templateDoc.steps.map((title) => ({ ...frame, [step]: title })));
+    }
+    return new Frames(...steps);
+  },
+  then: actions([TaskManager.addSubtask, { user, task, title: step }]),
+});
+
+/**
+ * Places the template's default bet on the new task when the request asks for it.
+ */
+export const PlaceTemplateBetOnTaskCreate: Sync = ({ request, template, user, task, dueDate, wager, deadline }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTaskFromTemplate", template, placeBet: true }, { request }],
+    [TaskManager.createTask, { user, dueDate }, { task }],
+  ),
+  where: async (frames) => {
+    const bets = [];
+    for (const frame of frames) {
+      const templateDoc = await TaskTemplate.getTemplate({ user: frame[user] as ID, template: frame[template] as ID });
+      if ("error" in templateDoc || templateDoc.defaultWager === undefined) continue;
+      const now = Date.now();
+      const due = (frame[dueDate] as Date).getTime();
+      bets.push({ ...frame, [wager]: templateDoc.defaultWager, [deadline]: new Date(now + (due - now) / 2) });
+    }
+    return new Frames(...bets);
+  },
+  then: actions([MicroBet.placeBet, { user, task, wager, deadline, taskDueDate: dueDate }]),
+});
+
+export const CreateTaskFromTemplateResponse: Sync = ({ request, placeBet, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTaskFromTemplate", placeBet }, { request }],
+    [TaskManager.createTask, {}, { task }],
+  ),
+  where: (frames) => frames.filter((frame) => frame[placeBet] !== true),
+  then: actions([Requesting.respond, { request, task }]),
+});
+
+export const CreateTaskFromTemplateResponseWithBet: Sync = ({ request, task, bet }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTaskFromTemplate", placeBet: true }, { request }],
+    [TaskManager.createTask, {}, { task }],
+    [MicroBet.placeBet, {}, { bet }],
+  ),
+  then: actions([Requesting.respond, { request, task, bet }]),
+});
+
+// The task is still created when its bet cannot be placed
+export const CreateTaskFromTemplateResponseBetError: Sync = ({ request, task, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTaskFromTemplate", placeBet: true }, { request }],
+    [TaskManager.createTask, {}, { task }],
+    [MicroBet.placeBet, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, task, betError: error }]),
+});
+
+export const CreateTaskFromTemplateResponseNoWager: Sync = ({ request, template, user, task, betError }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTaskFromTemplate", template, placeBet: true }, { request }],
+    [TaskManager.createTask, { user }, { task }],
+  ),
+  where: async (frames) => {
+    const withoutWager = [];
+    for (const frame of frames) {
+      const templateDoc = await TaskTemplate.getTemplate({ user: frame[user] as ID, template: frame[template] as ID });
+      if ("error" in templateDoc || templateDoc.defaultWager !== undefined) continue;
+      withoutWager.push({ ...frame, [betError]: "Template has no default wager" });
+    }
+    return new Frames(...withoutWager);
+  },
+  then: actions([Requesting.respond, { request, task, betError }]),
+});
+
+export const CreateTaskFromTemplateResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskTemplate/createTaskFromTemplate" }, { request }],
+    [TaskManager.createTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
@@ -0,0 +1,300 @@
+/**
+ * Undo synchronizations.
+ * Records undoable operations and reverts them with user authentication via access tokens.
+ *
+ * Deleting a task, completing a task, canceling a bet, and deleting a task's emotion logs
+ * are pushed onto the user's undo stack when requested directly. Undoing pops the most
+ * recent one and reverts it, along with the records its cascades changed.
+ */
+
+import { EmotionLogger, MicroBet, TaskManager, Undo, UserAuthentication, Requesting } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import { ID } from "@utils/types.ts";
+
+// ============================================================================
+// RECORD UNDOABLE OPERATIONS
+// ============================================================================
+// Only operations the user asked for directly are recorded; the same actions
+// run by cascades, bulk operations, or other syncs are not.
+
+export const AutoRecordUndoOnTaskDelete: Sync = ({ request, user, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/deleteTask" }, { request }],
+    [TaskManager.deleteTask, { user }, { task }],
+  ),
+  then: actions([Undo.recordOperation, { user, kind: "deleteTask", target: task }]),
+});
+
+export const AutoRecordUndoOnTaskComplete: Sync = ({ request, user, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TaskManager/markComplete" }, { request }],
+    [TaskManager.markComplete, { user }, { task }],
+  ),
+  then: actions([Undo.recordOperation, { user, kind: "markComplete", target: task }]),
+});
+
+/**
+ * Keeps the canceled bet, so it can be put back as it was.
+ */
+export const AutoRecordUndoOnBetCancel: Sync = ({ request, user, task, cancelled }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MicroBet/cancelBet" }, { request }],
+    [MicroBet.cancelBet, { user, task }, { cancelled }],
+  ),
+  then: actions([Undo.recordOperation, { user, kind: "cancelBet", target: task, data: cancelled }]),
+});
+
+/**
+ * Keeps the deleted logs, so they can be put back as they were.
+ */
+export const AutoRecordUndoOnTaskLogsDelete: Sync = ({ request, user, task, logs }) => ({
+  when: actions(
+    [Requesting.request, { path: "/EmotionLogger/deleteTaskLogs" }, { request }],
+    [EmotionLogger.deleteTaskLogs, { user, task }, { logs }],
+  ),
+  where: (frames) => frames.filter((frame) => (frame[logs] as unknown[]).length > 0),
+  then: actions([Undo.recordOperation, { user, kind: "deleteTaskLogs", target: task, data: logs }]),
+});
+
+// ============================================================================
+// UNDO
+// ============================================================================
+
+export const UndoRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Undo/undo", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const UndoWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/undo" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([Undo.undo, { user: userId }]),
+});
+
+export const UndoResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/undo" }, { request }],
+    [Undo.undo, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// REVERT OPERATIONS
+// ============================================================================
+// Each kind of operation is reverted by the matching action. Deleted tasks come
+// back from the trash; their bets, nudges, and logs were never removed.
+// A completed task is reopened, and the instance its series spawned on completion
+// is removed if it has not been started. If the completion won a bet, the bet is
+// reopened first, with its payout taken back. Canceled bets are placed again with
+// their refund taken back, and deleted logs are re-created.
+
+export const UndoTaskDelete: Sync = ({ user, task }) => ({
+  when: actions([Undo.undo, { user }, { kind: "deleteTask", target: task }]),
+  then: actions([TaskManager.restoreTask, { user, task }]),
+});
+
+/**
+ * Keeps the frames whose task has (or, if not `won`, does not have) a bet won by completing it.
+ */
+async function byCompletionBetWon(frames: Frames, user: symbol, task: symbol, won: boolean): Promise<Frames> {
+  const kept = await Promise.all(frames.map(async (frame) => {
+    const bet = await MicroBet.getBet({ user: frame[user] as ID, task: frame[task] as ID });
+    const wonByCompletion = !("error" in bet) && bet.resolution === "completed" && (bet.type ?? "start_by") !== "start_by";
+    return wonByCompletion === won ? frame : null;
+  }));
+  return new Frames(...kept.filter((frame) => frame !== null));
+}
+
+export const UndoTaskComplete: Sync = ({ user, task }) => ({
+  when: actions([Undo.undo, { user }, { kind: "markComplete", target: task }]),
+  where: (frames) => byCompletionBetWon(frames, user, task, false),
+  then: actions([TaskManager.reopenTask, { user, task }]),
+});
+
+/**
+ * Reopens the bet a completion won before reopening the task, so the payout is not
+ * kept for work that is no longer done. If the bet cannot be reopened, for instance
+ * because the reward was already wagered again, the task stays completed.
+ */
+export const UndoBetWonOnTaskComplete: Sync = ({ user, task }) => ({
+  when: actions([Undo.undo, { user }, { kind: "markComplete", target: task }]),
+  where: (frames) => byCompletionBetWon(frames, user, task, true),
+  then: actions([MicroBet.reopenBet, { user, task }]),
+});
+
+export const UndoTaskCompleteOnBetReopen: Sync = ({ user, task, bet }) => ({
+  when: actions(
+    [Undo.undo, { user }, { kind: "markComplete", target: task }],
+    [MicroBet.reopenBet, { user, task }, { bet }],
+  ),
+  then: actions([TaskManager.reopenTask, { user, task }]),
+});
+
+/**
+ * Points a reopened recurring task's series back at it.
+ */
+export const UndoSeriesSpawnOnTaskComplete: Sync = ({ user, task }) => ({
+  when: actions(
+    [Undo.undo, { user }, { kind: "markComplete", target: task }],
+    [TaskManager.reopenTask, { user, task }, { task }],
+  ),
+  where: async (frames) => {
+    const recurring = [];
+    for (const frame of frames) {
+      const taskDoc = await TaskManager.getTask({ user: frame[user] as ID, task: frame[task] as ID });
+      if (!("error" in taskDoc) && taskDoc.series) recurring.push(frame);
+    }
+    return new Frames(...recurring);
+  },
+  then: actions([TaskManager.rewindSeries, { user, task }]),
+});
+
+/**
+ * Removes the instance a series spawned when its previous instance was completed.
+ * Purging it cleans up its nudge and any other related records.
+ */
+export const AutoRemoveInstanceOnSeriesRewind: Sync = ({ user, instance }) => ({
+  when: actions([TaskManager.rewindSeries, { user }, { instance }]),
+  then: actions(
+    [TaskManager.deleteTask, { user, task: instance }],
+    [TaskManager.purgeTask, { user, task: instance }],
+  ),
+});
+
+export const UndoBetCancel: Sync = ({ user, bet }) => ({
+  when: actions([Undo.undo, { user }, { kind: "cancelBet", data: bet }]),
+  then: actions([MicroBet.restoreBet, { user, bet }]),
+});
+
+export const UndoTaskLogsDelete: Sync = ({ user, logs }) => ({
+  when: actions([Undo.undo, { user }, { kind: "deleteTaskLogs", data: logs }]),
+  then: actions([EmotionLogger.restoreLogs, { user, logs }]),
+});
+
+// Responds once the revert has run, with the kind of operation undone and its task.
+
+export const UndoTaskDeleteResponse: Sync = ({ request, kind, target, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/undo" }, { request }],
+    [Undo.undo, {}, { kind, target }],
+    [TaskManager.restoreTask, {}, { task }],
+  ),
+  then: actions([Requesting.respond, { request, undone: kind, task: target }]),
+});
+
+export const UndoTaskDeleteResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/undo" }, { request }],
+    [TaskManager.restoreTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const UndoTaskCompleteResponse: Sync = ({ request, kind, target, task }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/undo" }, { request }],
+    [Undo.undo, {}, { kind, target }],
+    [TaskManager.reopenTask, {}, { task }],
+  ),
+  then: actions([Requesting.respond, { request, undone: kind, task: target }]),
+});
+
+export const UndoTaskCompleteResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/undo" }, { request }],
+    [TaskManager.reopenTask, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const UndoBetReopenResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/undo" }, { request }],
+    [MicroBet.reopenBet, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const UndoBetCancelResponse: Sync = ({ request, kind, target, bet }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/undo" }, { request }],
+    [Undo.undo, {}, { kind, target }],
+    [MicroBet.restoreBet, {}, { bet }],
+  ),
+  then: actions([Requesting.respond, { request, undone: kind, task: target }]),
+});
+
+export const UndoBetCancelResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/undo" }, { request }],
+    [MicroBet.restoreBet, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const UndoTaskLogsDeleteResponse: Sync = ({ request, kind, target, logs }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/undo" }, { request }],
+    [Undo.undo, {}, { kind, target }],
+    [EmotionLogger.restoreLogs, {}, { logs }],
+  ),
+  then: actions([Requesting.respond, { request, undone: kind, task: target }]),
+});
+
+export const UndoTaskLogsDeleteResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/undo" }, { request }],
+    [EmotionLogger.restoreLogs, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// ============================================================================
+// GET UNDO STACK
+// ============================================================================
+
+export const GetUndoStackRequest: Sync = ({ request, accessToken }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Undo/getUndoStack", accessToken },
+    { request },
+  ]),
+  then: actions([UserAuthentication.getUserInfo, { accessToken }]),
+});
+
+export const GetUndoStackWithUser: Sync = ({ request, user, userId }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/getUndoStack" }, { request }],
+    [UserAuthentication.getUserInfo, {}, { user }],
+  ),
+  where: (frames) => {
+    return frames.map((frame) => {
+      const userObj = frame[user] as { id: string } | undefined;
+      if (!userObj) return frame;
+      return { ...frame, [userId]: userObj.id };
+    });
+  },
+  then: actions([Undo.getUndoStack, { user: userId }]),
+});
+
+export const GetUndoStackResponse: Sync = ({ request, operations }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Undo/getUndoStack" }, { request }],
+    [Undo.getUndoStack, {}, { operations }],
+  ),
+  then: actions([Requesting.respond, { request, operations }]),
+});
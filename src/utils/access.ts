@@ -0,0 +1,24 @@
+/**
+ * Access checks for records owned by one user.
+ *
+ * Every concept lookup by ID goes through checkOwner, so "does this record exist,
+ * and may this user touch it" is answered the same way everywhere. Access granted
+ * to other users, such as accountability partners viewing shared tasks, is decided
+ * by the concept that grants it (Accountability), never by loosening this check.
+ */
+import { ID } from "@utils/types.ts";
+
+/**
+ * Checks that a record exists and belongs to the user.
+ * @param name The kind of record, used in error messages, e.g. "Task".
+ * @returns The record, or an error if it does not exist or belongs to someone else.
+ */
+export function checkOwner<T extends { user: ID }>(
+  doc: T | null,
+  user: ID,
+  name: string,
+): T | { error: string } {
+  if (!doc) return { error: `${name} does not exist` };
+  if (doc.user !== user) return { error: `${name} does not belong to user` };
+  return doc;
+}
@@ -0,0 +1,73 @@
+/**
+ * RFC 4180 CSV parsing.
+ *
+ * Handles quoted fields containing commas, quotes ("" escapes) and line
+ * breaks, and accepts both CRLF and LF line endings. Blank lines are skipped.
+ */
+
+export function parseCsv(text: string): string[][] | { error: string } {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  if (text.charCodeAt(0) === 0xfeff) i = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) return { error: "CSV has an unterminated quoted field" };
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Parses CSV with a header row into one record per data row, keyed by header.
+ * Missing trailing cells are read as empty strings.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] | { error: string } {
+  const rows = parseCsv(text);
+  if ("error" in rows) return rows;
+  if (rows.length === 0) return { error: "CSV must have a header row" };
+
+  const [header, ...data] = rows;
+  const columns = header.map((name) => name.trim());
+  return data.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""]))
+  );
+}
@@ -1,9 +1,13 @@
 // This import loads the `.env` file as environment variables
 import "jsr:@std/dotenv/load";
-import { Db, MongoClient } from "npm:mongodb";
+import { ClientSession, Db, MongoClient } from "npm:mongodb";
 import { ID } from "@utils/types.ts";
 import { generate } from "jsr:@std/uuid/unstable-v7";
 
+// The client each database handed out by getDb or testDb was opened with,
+// so concepts constructed with only a Db can still start sessions.
+const clients = new WeakMap<Db, MongoClient>();
+
 async function initMongoClient() {
   const DB_CONN = Deno.env.get("MONGODB_URL");
   if (DB_CONN === undefined) {
@@ -48,7 +52,9 @@ async function dropAllCollections(db: Db): Promise<void> {
  */
 export async function getDb() {
   const [client, DB_NAME] = await init();
-  return [client.db(DB_NAME), client] as [Db, MongoClient];
+  const db = client.db(DB_NAME);
+  clients.set(db, client);
+  return [db, client] as [Db, MongoClient];
 }
 
 /**
@@ -59,10 +65,37 @@ export async function testDb() {
   const [client, DB_NAME] = await init();
   const test_DB_NAME = `test-${DB_NAME}`;
   const test_Db = client.db(test_DB_NAME);
+  clients.set(test_Db, client);
   await dropAllCollections(test_Db);
   return [test_Db, client] as [Db, MongoClient];
 }
 
+/**
+ * The client a database was opened with
+ * @returns {MongoClient} client of a database from getDb or testDb
+ */
+export function getClient(db: Db) {
+  const client = clients.get(db);
+  if (!client) {
+    throw new Error(`No client registered for database: ${db.databaseName}`);
+  }
+  return client;
+}
+
+/**
+ * Runs a function in a transaction on the database's client.
+ * Every operation in the function must be passed the session. The transaction
+ * commits when the function resolves, and rolls back when it throws or aborts
+ * the transaction itself. Transactions require a replica set or sharded cluster.
+ * @returns the function's result
+ */
+export async function withTransaction<T>(
+  db: Db,
+  fn: (session: ClientSession) => Promise<T>,
+): Promise<T> {
+  return await getClient(db).withSession((session) => session.withTransaction(fn));
+}
+
 /**
  * Creates a fresh ID.
  * @returns {ID} UUID v7 generic ID.
@@ -53,4 +53,22 @@ export enum Emotion {
   Hesitating = "hesitating",
 }
 
-export const ALL_EMOTIONS: Emotion[] = Object.values(Emotion);
\ No newline at end of file
+export const ALL_EMOTIONS: Emotion[] = Object.values(Emotion);
+
+// Emotions that signal the user has energy to take on demanding work
+export const POSITIVE_EMOTIONS: ReadonlySet<Emotion> = new Set([
+  Emotion.Excited, Emotion.Optimistic, Emotion.Motivated, Emotion.Confident,
+  Emotion.Hopeful, Emotion.Energized, Emotion.Content, Emotion.Proud,
+  Emotion.Inspired, Emotion.Productive, Emotion.Curious, Emotion.Calm, Emotion.Focused,
+]);
+
+// Emotions that signal low energy, stress, or avoidance
+export const NEGATIVE_EMOTIONS: ReadonlySet<Emotion> = new Set([
+  Emotion.Overwhelmed,
+  Emotion.Anxious, Emotion.Stressed, Emotion.Tired, Emotion.BurnedOut,
+  Emotion.Frustrated, Emotion.Angry, Emotion.Annoyed, Emotion.Irritated,
+  Emotion.Hopeless, Emotion.Fearful, Emotion.Nervous, Emotion.Dreading,
+  Emotion.Discouraged, Emotion.Insecure,
+  Emotion.Worried, Emotion.Apprehensive,
+  Emotion.Avoidant, Emotion.Procrastinating, Emotion.Resistant, Emotion.Stuck, Emotion.Hesitating,
+]);
@@ -0,0 +1,196 @@
+/**
+ * Minimal RFC 5545 (iCalendar) support for exporting tasks as a calendar feed
+ * and reading tasks back from uploaded .ics files.
+ *
+ * Only the properties the app needs are written or read; everything else in
+ * an imported file is ignored. Times are written in UTC.
+ */
+
+const PRODID = "-//TaskManager//Tasks//EN";
+const UID_DOMAIN = "tasks.local";
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * The task fields used to build calendar components.
+ */
+export interface CalendarTask {
+  _id: string;
+  title: string;
+  description?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  abandonedAt?: Date;
+  dueDate?: Date;
+}
+
+/**
+ * A VTODO or VEVENT read from an imported calendar.
+ */
+export interface CalendarEntry {
+  uid: string | null;
+  summary: string;
+  description?: string;
+  due?: Date;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Parses DATE (YYYYMMDD) and DATE-TIME (YYYYMMDDTHHMMSS[Z]) values.
+ * Floating and TZID-qualified times are read as UTC.
+ */
+function parseDateTime(value: string): Date | undefined {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return undefined;
+  const [, y, mo, d, h = "0", mi = "0", s = "0"] = match;
+  const date = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Folds a content line so that no line exceeds 75 octets,
+ * without splitting multi-byte characters.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function taskStatus(task: CalendarTask): string {
+  if (task.completedAt) return "COMPLETED";
+  if (task.abandonedAt) return "CANCELLED";
+  if (task.startedAt) return "IN-PROCESS";
+  return "NEEDS-ACTION";
+}
+
+/**
+ * Builds an iCalendar document with a VTODO for every task and,
+ * for tasks with a due date, a VEVENT marking the deadline.
+ */
+export function buildCalendar(tasks: CalendarTask[], name: string, now = new Date()): string {
+  const stamp = formatDateTime(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const task of tasks) {
+    lines.push(
+      "BEGIN:VTODO",
+      `UID:task-${task._id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `CREATED:${formatDateTime(task.createdAt)}`,
+      `SUMMARY:${escapeText(task.title)}`,
+    );
+    if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+    if (task.dueDate) lines.push(`DUE:${formatDateTime(task.dueDate)}`);
+    lines.push(`STATUS:${taskStatus(task)}`);
+    if (task.completedAt) lines.push(`COMPLETED:${formatDateTime(task.completedAt)}`);
+    lines.push("END:VTODO");
+
+    if (task.dueDate) {
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:due-${task._id}@${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatDateTime(task.dueDate)}`,
+        "DURATION:PT0S",
+        `SUMMARY:${escapeText(`Due: ${task.title}`)}`,
+        "TRANSP:TRANSPARENT",
+        "END:VEVENT",
+      );
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Reads the VTODO and VEVENT components of an iCalendar document.
+ * A VTODO's due date comes from DUE; a VEVENT's from DTSTART.
+ * Nested components (such as VALARM) are skipped.
+ */
+export function parseCalendar(ics: string): CalendarEntry[] | { error: string } {
+  const lines = ics.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  if (!lines.some((line) => line.trim().toUpperCase() === "BEGIN:VCALENDAR")) {
+    return { error: "File is not an iCalendar document" };
+  }
+
+  const entries: CalendarEntry[] = [];
+  let component: string | null = null;
+  let depth = 0;
+  let props: Record<string, string> = {};
+
+  for (const line of lines) {
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const name = line.slice(0, colon).split(";")[0].toUpperCase();
+    const value = line.slice(colon + 1);
+
+    if (name === "BEGIN") {
+      const type = value.trim().toUpperCase();
+      if (component) {
+        depth++;
+      } else if (type === "VTODO" || type === "VEVENT") {
+        component = type;
+        props = {};
+      }
+      continue;
+    }
+
+    if (name === "END" && component) {
+      if (depth > 0) {
+        depth--;
+      } else {
+        const due = component === "VTODO" ? props.DUE : props.DTSTART ?? props.DUE;
+        entries.push({
+          uid: props.UID?.trim() || null,
+          summary: unescapeText(props.SUMMARY ?? "").trim(),
+          description: props.DESCRIPTION ? unescapeText(props.DESCRIPTION) : undefined,
+          due: due ? parseDateTime(due.trim()) : undefined,
+        });
+        component = null;
+      }
+      continue;
+    }
+
+    if (component && depth === 0 && !(name in props)) props[name] = value;
+  }
+
+  return entries;
+}
@@ -0,0 +1,170 @@
+/**
+ * Rule-based parsing of due dates written in plain English, such as
+ * "by Friday 5pm", "tomorrow at 9:30", "in 3 days", or "on March 5".
+ *
+ * Dates are read in the user's local time, given as an offset from UTC in
+ * minutes. A date without a time means the end of that day, and a time
+ * without a date means its next occurrence. Weekdays always refer to the
+ * coming one: "Friday" on a Friday afternoon means today if the time has not
+ * passed yet, and next week otherwise.
+ */
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+const END_OF_DAY_MINUTES = 23 * 60 + 59;
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+const UNIT_MINUTES: Record<string, number> = { minute: 1, hour: 60, day: 24 * 60, week: 7 * 24 * 60 };
+
+// Words that introduce a date and are removed along with it
+const LEAD = String.raw`(?:\b(?:by|due|before|on|until|at)\s+)?`;
+const WEEKDAY = String.raw`(?:sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|rsday|urday)?`;
+const MONTH = String.raw`(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\b\.?`;
+const NUMBER = String.raw`(?:\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten)`;
+
+const RELATIVE_PATTERN = new RegExp(
+  String.raw`${LEAD}\bin\s+(${NUMBER})\s+(minute|min|hour|hr|day|week)s?\b`,
+  "i",
+);
+const DAY_PATTERNS: Array<[RegExp, (match: RegExpMatchArray, today: LocalDay) => LocalDay | null]> = [
+  [new RegExp(String.raw`${LEAD}\b(today|tonight|tomorrow|tmrw)\b`, "i"), ([, word], today) =>
+    word.toLowerCase() === "today" || word.toLowerCase() === "tonight" ? today : addDays(today, 1)],
+  [new RegExp(String.raw`${LEAD}\b(?:the\s+)?(?:end\s+of\s+(?:the\s+)?(day|week|month)|eod|eow)\b`, "i"), ([match, unit], today) => {
+    if (unit?.toLowerCase() === "month") return { ...today, day: daysInMonth(today.year, today.month) };
+    if (unit?.toLowerCase() === "week" || match.toLowerCase().endsWith("eow")) {
+      // Weeks end on Sunday
+      return addDays(today, (7 - today.weekday) % 7);
+    }
+    return today;
+  }],
+  [new RegExp(String.raw`${LEAD}\b(\d{4})-(\d{2})-(\d{2})\b`, "i"), ([, year, month, day]) =>
+    calendarDay(Number(year), Number(month) - 1, Number(day))],
+  [new RegExp(String.raw`${LEAD}\b(${MONTH})\s+(\d{1,2})(?:st|nd|rd|th)?\b`, "i"), ([, month, day], today) =>
+    upcomingDay(today, monthIndex(month), Number(day))],
+  [new RegExp(String.raw`${LEAD}\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?(${MONTH})`, "i"), ([, day, month], today) =>
+    upcomingDay(today, monthIndex(month), Number(day))],
+  [new RegExp(String.raw`${LEAD}\b(?:(?:this|next)\s+)?(${WEEKDAY})\b`, "i"), ([, weekday], today) =>
+    addDays(today, (WEEKDAYS.indexOf(weekday.slice(0, 3).toLowerCase()) - today.weekday + 7) % 7)],
+];
+const TIME_PATTERNS: Array<[RegExp, (match: RegExpMatchArray) => number | null]> = [
+  [new RegExp(String.raw`${LEAD}\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b`, "i"), ([, hours, minutes, meridiem]) => {
+    const hour = Number(hours);
+    if (hour < 1 || hour > 12) return null;
+    return ((hour % 12) + (meridiem.toLowerCase() === "pm" ? 12 : 0)) * 60 + Number(minutes ?? 0);
+  }],
+  [new RegExp(String.raw`${LEAD}\b(\d{1,2}):(\d{2})\b`, "i"), ([, hours, minutes]) => {
+    const hour = Number(hours);
+    const minute = Number(minutes);
+    return hour < 24 && minute < 60 ? hour * 60 + minute : null;
+  }],
+  [new RegExp(String.raw`${LEAD}\b(noon|midnight)\b`, "i"), ([, word]) => word.toLowerCase() === "noon" ? 12 * 60 : END_OF_DAY_MINUTES],
+];
+
+interface LocalDay {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+}
+
+export interface ParsedDueDate {
+  dueDate: Date;
+  /** The text with the date phrases removed */
+  rest: string;
+}
+
+function calendarDay(year: number, month: number, day: number): LocalDay | null {
+  if (month < 0 || month > 11 || day < 1 || day > daysInMonth(year, month)) return null;
+  return { year, month, day, weekday: new Date(Date.UTC(year, month, day)).getUTCDay() };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function addDays(day: LocalDay, days: number): LocalDay {
+  const date = new Date(Date.UTC(day.year, day.month, day.day + days));
+  return calendarDay(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())!;
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+// The next occurrence of a month and day, this year or next
+function upcomingDay(today: LocalDay, month: number, day: number): LocalDay | null {
+  const thisYear = calendarDay(today.year, month, day);
+  if (thisYear && (month > today.month || (month === today.month && day >= today.day))) return thisYear;
+  return calendarDay(today.year + 1, month, day);
+}
+
+function toInstant(day: LocalDay, minutes: number, offsetMs: number): Date {
+  return new Date(Date.UTC(day.year, day.month, day.day) + minutes * MS_PER_MINUTE - offsetMs);
+}
+
+function removeMatch(text: string, match: RegExpMatchArray): string {
+  return text.slice(0, match.index!) + " " + text.slice(match.index! + match[0].length);
+}
+
+/**
+ * Finds a due date in free text.
+ * @param now The current time; relative dates are counted from it.
+ * @param utcOffsetMinutes The user's offset from UTC, used to read calendar days and times.
+ * @returns The due date and the text without the date phrases, or null if the text has no date.
+ */
+export function parseDueDate(text: string, now: Date, utcOffsetMinutes = 0): ParsedDueDate | null {
+  const offsetMs = utcOffsetMinutes * MS_PER_MINUTE;
+
+  const relative = text.match(RELATIVE_PATTERN);
+  if (relative) {
+    const amount = NUMBER_WORDS[relative[1].toLowerCase()] ?? Number(relative[1]);
+    const unit = relative[2].toLowerCase();
+    const minutes = UNIT_MINUTES[unit === "min" ? "minute" : unit === "hr" ? "hour" : unit];
+    return { dueDate: new Date(now.getTime() + amount * minutes * MS_PER_MINUTE), rest: removeMatch(text, relative) };
+  }
+
+  // Shifting by the offset lets the UTC getters read local calendar fields
+  const local = new Date(now.getTime() + offsetMs);
+  const today = calendarDay(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate())!;
+  const minutesNow = Math.floor((local.getTime() % MS_PER_DAY) / MS_PER_MINUTE);
+
+  let rest = text;
+  let time: number | null = null;
+  for (const [pattern, read] of TIME_PATTERNS) {
+    const match = rest.match(pattern);
+    if (!match) continue;
+    time = read(match);
+    if (time !== null) {
+      rest = removeMatch(rest, match);
+      break;
+    }
+  }
+
+  let day: LocalDay | null = null;
+  let weekday = false;
+  for (const [index, [pattern, read]] of DAY_PATTERNS.entries()) {
+    const match = rest.match(pattern);
+    if (!match) continue;
+    day = read(match, today);
+    if (day) {
+      rest = removeMatch(rest, match);
+      weekday = index === DAY_PATTERNS.length - 1;
+      break;
+    }
+  }
+
+  if (!day && time === null) return null;
+
+  const minutes = time ?? END_OF_DAY_MINUTES;
+  let target = day ?? today;
+  // A bare time, or today's weekday, that has already passed means the next one
+  const sameDay = target.year === today.year && target.month === today.month && target.day === today.day;
+  if (sameDay && minutes <= minutesNow && (!day || weekday)) target = addDays(target, day ? 7 : 1);
+
+  return { dueDate: toInstant(target, minutes, offsetMs), rest };
+}
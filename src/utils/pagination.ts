@@ -0,0 +1,143 @@
+/**
+ * Opaque cursors for infinite-scroll listings.
+ *
+ * A cursor records the sort key and ID of the last item on a page, and the next
+ * page starts strictly after that item (keyset pagination). Unlike skip/limit
+ * paging, items inserted while the user scrolls never shift the following pages.
+ * Listings ordered by something that cannot be range-queried (such as text
+ * search relevance) use offset cursors instead.
+ *
+ * Cursors are base64url-encoded JSON; clients must treat them as opaque.
+ */
+
+type SortOrder = 1 | -1;
+
+interface KeysetCursor {
+  field: string;
+  order: SortOrder;
+  value: unknown;
+  id: string;
+}
+
+interface OffsetCursor {
+  offset: number;
+}
+
+export type PageCursor = KeysetCursor | OffsetCursor;
+
+// Dates are tagged so they survive the JSON round trip
+function toJson(value: unknown): unknown {
+  return value instanceof Date ? { $date: value.toISOString() } : value ?? null;
+}
+
+function fromJson(value: unknown): unknown {
+  if (value && typeof value === "object" && "$date" in value) {
+    return new Date((value as { $date: string }).$date);
+  }
+  return value;
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  const data = "offset" in cursor ? cursor : { ...cursor, value: toJson(cursor.value) };
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeCursor(cursor: string): PageCursor | { error: string } {
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+    const data = JSON.parse(new TextDecoder().decode(bytes));
+
+    if (Number.isInteger(data?.offset) && data.offset >= 0) return { offset: data.offset };
+    if (
+      typeof data?.field === "string" && (data.order === 1 || data.order === -1) &&
+      typeof data.id === "string" && "value" in data
+    ) {
+      return { field: data.field, order: data.order, value: fromJson(data.value), id: data.id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  return { error: "Cursor is invalid" };
+}
+
+/**
+ * Builds the filter selecting the items that sort after a keyset cursor,
+ * for a listing sorted by `{ [field]: order, _id: order }`.
+ * Items missing the field sort before every other value, as in MongoDB.
+ */
+export function keysetFilter(cursor: KeysetCursor): Record<string, unknown> {
+  const { field, order, value, id } = cursor;
+  const idAfter = { _id: order === 1 ? { $gt: id } : { $lt: id } };
+
+  if (value === null) {
+    return order === 1
+      ? { $or: [{ [field]: null, ...idAfter }, { [field]: { $ne: null } }] }
+      : { [field]: null, ...idAfter };
+  }
+
+  const beyond = { [field]: order === 1 ? { $gt: value } : { $lt: value } };
+  const tied = { [field]: value, ...idAfter };
+  return order === 1 ? { $or: [beyond, tied] } : { $or: [beyond, tied, { [field]: null }] };
+}
+
+/**
+ * Reads the cursor for a listing sorted by `field`.
+ * @returns The cursor, null for the first page, or an error if the cursor is
+ *          malformed or was issued for a different sort order.
+ */
+export function readCursor(
+  cursor: string | null | undefined,
+  field: string,
+  order: SortOrder,
+): PageCursor | null | { error: string } {
+  if (cursor === undefined || cursor === null || cursor === "") return null;
+  if (typeof cursor !== "string") return { error: "Cursor is invalid" };
+
+  const decoded = decodeCursor(cursor);
+  if ("error" in decoded || "offset" in decoded) return decoded;
+  if (decoded.field !== field || decoded.order !== order) {
+    return { error: "Cursor does not match the sort order" };
+  }
+  return decoded;
+}
+
+/**
+ * Checks the page size requested for a listing.
+ * @returns An error if the limit is not a positive whole number, otherwise null.
+ */
+export function checkLimit(limit: number): { error: string } | null {
+  if (!Number.isInteger(limit) || limit <= 0) return { error: "Limit must be a positive whole number" };
+  return null;
+}
+
+/**
+ * Trims a page fetched with one extra item and computes the cursor for the next page.
+ * @param items Up to `limit + 1` items; the extra item only signals that more exist.
+ * @param offset For offset-paged listings, the offset this page started at.
+ */
+export function nextPage<T extends { _id: string }>(
+  items: T[],
+  limit: number,
+  field: string,
+  order: SortOrder,
+  offset?: number,
+): { items: T[]; nextCursor: string | null } {
+  if (items.length <= limit) return { items, nextCursor: null };
+
+  const page = items.slice(0, limit);
+  if (offset !== undefined) {
+    return { items: page, nextCursor: encodeCursor({ offset: offset + limit }) };
+  }
+
+  const last = page[page.length - 1] as (Record<string, unknown> & { _id: string }) | undefined;
+  if (!last) return { items: page, nextCursor: null };
+  return {
+    items: page,
+    nextCursor: encodeCursor({ field, order, value: last[field], id: last._id }),
+  };
+}
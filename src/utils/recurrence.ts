@@ -0,0 +1,161 @@
+/**
+ * RRULE-style recurrence rules for repeating tasks.
+ *
+ * All date arithmetic is done in UTC; every occurrence keeps the time of day
+ * of the series' first due date.
+ */
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number; // repeat every N days/weeks/months
+  byWeekday?: number[]; // weekly only: 0 (Sunday) through 6 (Saturday)
+  byMonthDay?: number; // monthly only: 1-31, clamped to the end of shorter months
+  until?: Date; // no occurrence may fall after this date
+  count?: number; // total number of occurrences in the series
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const FREQUENCIES: RecurrenceFrequency[] = ["daily", "weekly", "monthly"];
+
+/**
+ * Validates a recurrence rule received from a client and normalizes it
+ * (default interval, sorted weekdays, `until` strings converted to Dates).
+ */
+export function normalizeRecurrenceRule(
+  raw: unknown,
+): RecurrenceRule | { error: string } {
+  if (!raw || typeof raw !== "object") return { error: "Recurrence rule is required" };
+  const input = raw as Record<string, unknown>;
+
+  const freq = input.freq as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) {
+    return { error: "Recurrence frequency must be daily, weekly, or monthly" };
+  }
+
+  const interval = input.interval ?? 1;
+  if (typeof interval !== "number" || !Number.isInteger(interval) || interval < 1) {
+    return { error: "Recurrence interval must be a positive integer" };
+  }
+
+  const rule: RecurrenceRule = { freq, interval };
+
+  if (input.byWeekday !== undefined && input.byWeekday !== null) {
+    if (freq !== "weekly") return { error: "Weekdays can only be set on weekly rules" };
+    const days = input.byWeekday;
+    if (
+      !Array.isArray(days) || days.length === 0 ||
+      !days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+    ) {
+      return { error: "Weekdays must be integers from 0 (Sunday) to 6 (Saturday)" };
+    }
+    rule.byWeekday = [...new Set(days as number[])].sort((a, b) => a - b);
+  }
+
+  if (input.byMonthDay !== undefined && input.byMonthDay !== null) {
+    if (freq !== "monthly") return { error: "Day of month can only be set on monthly rules" };
+    const day = input.byMonthDay;
+    if (typeof day !== "number" || !Number.isInteger(day) || day < 1 || day > 31) {
+      return { error: "Day of month must be an integer from 1 to 31" };
+    }
+    rule.byMonthDay = day;
+  }
+
+  const hasUntil = input.until !== undefined && input.until !== null;
+  const hasCount = input.count !== undefined && input.count !== null;
+  if (hasUntil && hasCount) return { error: "A rule may end by date or by count, not both" };
+
+  if (hasUntil) {
+    const until = new Date(input.until as string | Date);
+    if (isNaN(until.getTime())) return { error: "Recurrence end date is invalid" };
+    rule.until = until;
+  }
+
+  if (hasCount) {
+    const count = input.count;
+    if (typeof count !== "number" || !Number.isInteger(count) || count < 1) {
+      return { error: "Recurrence count must be a positive integer" };
+    }
+    rule.count = count;
+  }
+
+  return rule;
+}
+
+function withTimeOf(day: Date, time: Date): Date {
+  return new Date(Date.UTC(
+    day.getUTCFullYear(),
+    day.getUTCMonth(),
+    day.getUTCDate(),
+    time.getUTCHours(),
+    time.getUTCMinutes(),
+    time.getUTCSeconds(),
+    time.getUTCMilliseconds(),
+  ));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Computes the first occurrence of a rule strictly after `after`.
+ * @param anchor The due date of the series' first occurrence; it fixes the
+ *               time of day, the default weekday/day of month, and the phase of the interval.
+ * @returns The next occurrence, ignoring `until` and `count` (callers enforce those).
+ */
+export function nextOccurrence(rule: RecurrenceRule, anchor: Date, after: Date): Date {
+  const interval = rule.interval;
+
+  if (rule.freq === "daily") {
+    const step = interval * DAY_MS;
+    const elapsed = after.getTime() - anchor.getTime();
+    const steps = elapsed < 0 ? 0 : Math.floor(elapsed / step) + 1;
+    return new Date(anchor.getTime() + steps * step);
+  }
+
+  if (rule.freq === "weekly") {
+    const weekdays = rule.byWeekday ?? [anchor.getUTCDay()];
+    const anchorDay = withTimeOf(anchor, new Date(0));
+    const anchorWeekStart = anchorDay.getTime() - anchor.getUTCDay() * DAY_MS;
+
+    let day = withTimeOf(after.getTime() < anchor.getTime() ? anchor : after, new Date(0));
+    for (;;) {
+      const candidate = withTimeOf(day, anchor);
+      const weeksSinceAnchor = Math.floor((day.getTime() - anchorWeekStart) / WEEK_MS);
+      if (
+        weekdays.includes(day.getUTCDay()) &&
+        weeksSinceAnchor % interval === 0 &&
+        candidate.getTime() >= anchor.getTime() &&
+        candidate.getTime() > after.getTime()
+      ) {
+        return candidate;
+      }
+      day = new Date(day.getTime() + DAY_MS);
+    }
+  }
+
+  // Monthly
+  const monthDay = rule.byMonthDay ?? anchor.getUTCDate();
+  for (let m = 0; ; m += interval) {
+    const year = anchor.getUTCFullYear() + Math.floor((anchor.getUTCMonth() + m) / 12);
+    const month = (anchor.getUTCMonth() + m) % 12;
+    const day = Math.min(monthDay, daysInMonth(year, month));
+    const candidate = withTimeOf(new Date(Date.UTC(year, month, day)), anchor);
+    if (candidate.getTime() >= anchor.getTime() && candidate.getTime() > after.getTime()) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Checks whether an occurrence is still allowed by the rule's end condition.
+ * @param occurrences The number of occurrences already spawned in the series.
+ */
+export function withinBounds(rule: RecurrenceRule, occurrence: Date, occurrences: number): boolean {
+  if (rule.count !== undefined && occurrences >= rule.count) return false;
+  if (rule.until !== undefined && occurrence.getTime() > rule.until.getTime()) return false;
+  return true;
+}
@@ -0,0 +1,127 @@
+/**
+ * Reward policies for successful bets.
+ *
+ * A policy turns a successful bet into a payout. Policies are versioned: changing
+ * how an existing policy pays out means bumping its version, so the policy recorded
+ * on past bets still names the formula that settled them.
+ *
+ * Which policy applies is chosen per cohort of users, by how many bets they have
+ * resolved, and is configured with environment variables:
+ *   REWARD_POLICY          the policy for every cohort without its own, default "standard"
+ *   REWARD_POLICY_NEW      the policy for new users, e.g. "flat"
+ *   REWARD_POLICY_REGULAR  the policy for regular users
+ *   REWARD_POLICY_VETERAN  the policy for veterans, e.g. "veteran"
+ */
+
+export type RewardPolicyName = "standard" | "flat" | "veteran";
+export type RewardCohort = "new" | "regular" | "veteran";
+
+export interface RewardInput {
+  wager: number;
+  streak: number; // the user's streak including this bet
+  deadline: Date;
+  taskDueDate?: Date;
+}
+
+export interface RewardPolicy {
+  name: RewardPolicyName;
+  version: number;
+  calculate: (input: RewardInput) => number;
+}
+
+// Users with fewer resolved bets are new; users with at least VETERAN_BETS are veterans
+const NEW_USER_BETS = 5;
+const VETERAN_BETS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scales a wager by a streak bonus and a bonus for betting well ahead of the task's due date.
+ * The timing bonus grows with the gap between the bet deadline and the due date, up to
+ * `maxTimeBonusDays`; bets without a due date get `defaultTimeBonus` of the maximum.
+ */
+function scaledReward(
+  { wager, streak, deadline, taskDueDate }: RewardInput,
+  curve: {
+    streakMultiplier: number;
+    timeBonusMultiplier: number;
+    maxTimeBonusDays: number;
+    defaultTimeBonus: number;
+  },
+): number {
+  // Streak bonus grows very slowly, so long streaks cannot be farmed
+  const streakBonus = Math.log(Math.log(streak + Math.E));
+
+  let timeBonus;
+  if (taskDueDate) {
+    const timeGapDays = (taskDueDate.getTime() - deadline.getTime()) / DAY_MS;
+    // Cap at maxTimeBonusDays to prevent farming
+    const effectiveGap = Math.min(Math.max(timeGapDays, 0), curve.maxTimeBonusDays);
+    timeBonus = (effectiveGap / curve.maxTimeBonusDays) * curve.timeBonusMultiplier;
+  } else {
+    timeBonus = curve.timeBonusMultiplier * curve.defaultTimeBonus;
+  }
+
+  const totalMultiplier = 1 + curve.streakMultiplier * streakBonus + timeBonus;
+  return Math.round(wager * totalMultiplier);
+}
+
+export const REWARD_POLICIES: Record<RewardPolicyName, RewardPolicy> = {
+  // The original economy: moderate streak and timing bonuses
+  standard: {
+    name: "standard",
+    version: 1,
+    calculate: (input) =>
+      scaledReward(input, {
+        streakMultiplier: 0.15,
+        timeBonusMultiplier: 0.25,
+        maxTimeBonusDays: 14,
+        defaultTimeBonus: 0.3,
+      }),
+  },
+  // A fixed payout, easy for new users to understand
+  flat: {
+    name: "flat",
+    version: 1,
+    calculate: ({ wager }) => Math.round(wager * 1.2),
+  },
+  // Smaller bonuses that take longer to earn
+  veteran: {
+    name: "veteran",
+    version: 1,
+    calculate: (input) =>
+      scaledReward(input, {
+        streakMultiplier: 0.05,
+        timeBonusMultiplier: 0.15,
+        maxTimeBonusDays: 28,
+        defaultTimeBonus: 0,
+      }),
+  },
+};
+
+/**
+ * The identifier recorded on bets a policy settled, e.g. "standard@1".
+ */
+export function rewardPolicyId(policy: RewardPolicy): string {
+  return `${policy.name}@${policy.version}`;
+}
+
+/**
+ * Places a user in a cohort by the number of bets they have resolved.
+ */
+export function rewardCohort(resolvedBets: number): RewardCohort {
+  if (resolvedBets < NEW_USER_BETS) return "new";
+  if (resolvedBets >= VETERAN_BETS) return "veteran";
+  return "regular";
+}
+
+/**
+ * Selects the configured policy for a cohort.
+ * Unknown policy names in the configuration fall back to "standard".
+ */
+export function selectRewardPolicy(cohort: RewardCohort): RewardPolicy {
+  const name = Deno.env.get(`REWARD_POLICY_${cohort.toUpperCase()}`) ??
+    Deno.env.get("REWARD_POLICY") ??
+    "standard";
+  return REWARD_POLICIES[name as RewardPolicyName] ?? REWARD_POLICIES.standard;
+}
@@ -0,0 +1,93 @@
+/**
+ * Snippet extraction and term highlighting for full-text search results.
+ *
+ * MongoDB text search matches on word stems, so a term highlights every word
+ * that starts with the term's stem (searching "running" highlights "run",
+ * "runs" and "running"). Highlights are returned as character ranges into the
+ * snippet, leaving it to the client to decide how to render them.
+ */
+
+const SNIPPET_RADIUS = 60;
+const MIN_STEM_LENGTH = 3;
+
+export interface Highlight {
+  start: number;
+  end: number;
+}
+
+export interface Snippet {
+  text: string;
+  highlights: Highlight[];
+}
+
+// Strips common English suffixes, roughly mirroring the stemming of text indexes
+function stem(term: string): string {
+  for (const suffix of ["ing", "ed", "es", "s"]) {
+    if (term.endsWith(suffix) && term.length - suffix.length >= MIN_STEM_LENGTH) {
+      const base = term.slice(0, -suffix.length);
+      // "running" -> "runn" -> "run"
+      return /([^aeiou])\1$/.test(base) ? base.slice(0, -1) : base;
+    }
+  }
+  return term;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Extracts the searchable terms of a text search query, ignoring negated terms.
+ */
+export function searchTerms(query: string): string[] {
+  const words = query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((word) => word && !word.startsWith("-"))
+    .map((word) => word.replace(/[^\p{L}\p{N}]/gu, ""))
+    .filter((word) => word);
+  return [...new Set(words.map(stem))];
+}
+
+function findHighlights(text: string, terms: string[]): Highlight[] {
+  if (terms.length === 0) return [];
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})[\\p{L}\\p{N}]*`,
+    "giu",
+  );
+  return [...text.matchAll(pattern)].map((match) => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Cuts a snippet of `text` around the first match of the query terms, with
+ * the ranges of every term match inside it. Text with no match yields its beginning.
+ */
+export function buildSnippet(text: string, terms: string[]): Snippet {
+  const all = findHighlights(text, terms);
+  const center = all.length > 0 ? all[0].start : 0;
+
+  let start = Math.max(0, center - SNIPPET_RADIUS);
+  let end = Math.min(text.length, start + SNIPPET_RADIUS * 2);
+  start = Math.max(0, end - SNIPPET_RADIUS * 2);
+
+  // Avoid cutting words in half
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < center) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > center) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const highlights = all
+    .filter((h) => h.start >= start && h.end <= end)
+    .map((h) => ({ start: h.start - start + prefix.length, end: h.end - start + prefix.length }));
+
+  return { text: prefix + text.slice(start, end) + suffix, highlights };
+}
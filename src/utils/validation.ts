@@ -0,0 +1,53 @@
+/**
+ * Validation rules for new tasks and bets.
+ *
+ * TaskManager and MicroBet enforce these rules when tasks are created and bets
+ * are placed. Features that build tasks or bets from other input (imports,
+ * quick-add) check them up front, so users see problems before anything is saved.
+ * Rules that depend on stored state, such as unique titles or available points,
+ * stay with the concepts.
+ */
+
+/**
+ * Checks the fields of a new task.
+ * @param completedAt Tasks created already completed may have a past due date.
+ * @returns An error message, or null if the fields are valid.
+ */
+export function validateNewTask(
+  { title, dueDate, completedAt }: { title: string; dueDate?: Date | null; completedAt?: Date | null },
+  now = Date.now(),
+): string | null {
+  if (!title.trim()) return "Title cannot be empty";
+  if (dueDate && !completedAt && dueDate.getTime() < now) return "Due date cannot be in the past";
+  return null;
+}
+
+/**
+ * Checks the fields of a new bet.
+ * @param withinMinutes The time limit of a "complete_within" bet; other bet types take none.
+ * @returns An error message, or null if the fields are valid.
+ */
+export function validateNewBet(
+  { wager, deadline, taskDueDate, type, withinMinutes }: {
+    wager: number;
+    deadline: Date;
+    taskDueDate?: Date | null;
+    type?: string | null;
+    withinMinutes?: number | null;
+  },
+  now = Date.now(),
+): string | null {
+  if (!Number.isInteger(wager) || wager < 1) return "Wager must be a positive whole number";
+  if (deadline.getTime() < now) return "Deadline must be in the future";
+  if (taskDueDate && deadline.getTime() >= taskDueDate.getTime()) {
+    return "Bet deadline must be before task due date";
+  }
+  if (type === "complete_within") {
+    if (withinMinutes === undefined || withinMinutes === null || !Number.isInteger(withinMinutes) || withinMinutes < 1) {
+      return "Time limit must be a positive whole number of minutes";
+    }
+  } else if (withinMinutes !== undefined && withinMinutes !== null) {
+    return "Only complete-within bets have a time limit";
+  }
+  return null;
+}